@@ -27,6 +27,8 @@ import redisConfig from './config/redis.config';
 import blockchainConfig from './config/blockchain.config';
 import jwtConfig, { jwtRefreshConfig } from './config/jwt.config';
 import twitterConfig from './config/twitter.config';
+import oracleConfig from './config/oracle.config';
+import marketConfig from './config/market.config';
 
 @Module({
   imports: [
@@ -41,6 +43,8 @@ import twitterConfig from './config/twitter.config';
         jwtConfig,
         jwtRefreshConfig,
         twitterConfig,
+        oracleConfig,
+        marketConfig,
       ],
       envFilePath: process.env.NODE_ENV === 'production' ? [] : ['.env.local', '.env'],
       ignoreEnvFile: process.env.NODE_ENV === 'production',
@@ -3,6 +3,13 @@ import { registerAs } from '@nestjs/config';
 export interface BlockchainConfig {
   network: string;
   rpcUrl: string;
+  rpcUrls: string[]; // Failover pool, rpcUrl alone when BLOCKCHAIN_RPC_URLS is unset
+  rpcPool: {
+    timeoutMs: number; // Per request, before failing over
+    failureThreshold: number; // Consecutive errors before an endpoint is benched
+    cooldownMs: number; // How long a benched endpoint is skipped
+    quorum: number; // Endpoints that must agree on critical reads; 1 disables
+  };
   chainId: number;
   providerPrivateKey: string;
   contracts: {
@@ -11,6 +18,16 @@ export interface BlockchainConfig {
     creatorShareFactory: string;
     opinionMarket: string;
   };
+  indexer: {
+    enabled: boolean;
+    startBlock: number; // Deployment block, where indexing starts without a cursor
+    blockRange: number; // Max blocks per eth_getLogs request
+    confirmations: number; // Blocks behind head before logs are indexed
+    reorgDepth: number; // How far back a fork point is searched for
+    maxRetries: number; // Retries of a failing log before it is dead-lettered
+    retryDelayMs: number; // Grows linearly with each retry
+    pollIntervalMs: number;
+  };
 }
 
 export default registerAs(
@@ -19,6 +36,26 @@ export default registerAs(
     network: process.env.BLOCKCHAIN_NETWORK || 'baseSepolia',
     rpcUrl:
       process.env.BLOCKCHAIN_RPC_URL || 'https://sepolia.base.org',
+    rpcUrls: (
+      process.env.BLOCKCHAIN_RPC_URLS ||
+      process.env.BLOCKCHAIN_RPC_URL ||
+      'https://sepolia.base.org'
+    )
+      .split(',')
+      .map((url) => url.trim())
+      .filter((url) => url.length > 0),
+    rpcPool: {
+      timeoutMs: parseInt(process.env.BLOCKCHAIN_RPC_TIMEOUT_MS || '10000', 10),
+      failureThreshold: parseInt(
+        process.env.BLOCKCHAIN_RPC_FAILURE_THRESHOLD || '3',
+        10,
+      ),
+      cooldownMs: parseInt(
+        process.env.BLOCKCHAIN_RPC_COOLDOWN_MS || '30000',
+        10,
+      ),
+      quorum: parseInt(process.env.BLOCKCHAIN_RPC_QUORUM || '1', 10),
+    },
     chainId: parseInt(process.env.BLOCKCHAIN_CHAIN_ID || '84532', 10),
     providerPrivateKey: process.env.BLOCKCHAIN_PROVIDER_PRIVATE_KEY || '',
     contracts: {
@@ -27,5 +64,18 @@ export default registerAs(
       creatorShareFactory: process.env.CONTRACT_CREATOR_SHARE_FACTORY || '',
       opinionMarket: process.env.CONTRACT_OPINION_MARKET || '',
     },
+    indexer: {
+      enabled: process.env.INDEXER_ENABLED !== 'false',
+      startBlock: parseInt(process.env.INDEXER_START_BLOCK || '0', 10),
+      blockRange: parseInt(process.env.INDEXER_BLOCK_RANGE || '2000', 10),
+      confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '2', 10),
+      reorgDepth: parseInt(process.env.INDEXER_REORG_DEPTH || '64', 10),
+      maxRetries: parseInt(process.env.INDEXER_MAX_RETRIES || '3', 10),
+      retryDelayMs: parseInt(process.env.INDEXER_RETRY_DELAY_MS || '1000', 10),
+      pollIntervalMs: parseInt(
+        process.env.INDEXER_POLL_INTERVAL_MS || '5000',
+        10,
+      ),
+    },
   }),
 );
@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+export interface MarketConfig {
+  resolutionWindowMinutes: number;
+}
+
+export default registerAs(
+  'market',
+  (): MarketConfig => ({
+    // Time to resolve a market once it ends; oracle markets also get the challenge window
+    resolutionWindowMinutes: parseInt(
+      process.env.MARKET_RESOLUTION_WINDOW_MINUTES || '60',
+      10,
+    ),
+  }),
+);
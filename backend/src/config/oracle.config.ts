@@ -0,0 +1,27 @@
+import { registerAs } from '@nestjs/config';
+
+export interface OracleConfig {
+  challengeWindowMinutes: number;
+  priceApiUrl: string;
+  sportsApiUrl: string;
+  sportsApiKey: string;
+  fixturesPath: string;
+}
+
+export default registerAs(
+  'oracle',
+  (): OracleConfig => ({
+    challengeWindowMinutes: parseInt(
+      process.env.ORACLE_CHALLENGE_WINDOW_MINUTES || '60',
+      10,
+    ),
+    priceApiUrl:
+      process.env.ORACLE_PRICE_API_URL || 'https://api.coingecko.com/api/v3',
+    sportsApiUrl:
+      process.env.ORACLE_SPORTS_API_URL ||
+      'https://www.thesportsdb.com/api/v1/json',
+    sportsApiKey: process.env.ORACLE_SPORTS_API_KEY || '3',
+    // When set, resolvers read this JSON file instead of the live APIs
+    fixturesPath: process.env.ORACLE_FIXTURES_PATH || '',
+  }),
+);
@@ -268,8 +268,44 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Get USDC allowance granted by an owner to a spender
+   * @param owner - Token owner address
+   * @param spender - Spender address (e.g. OpinionMarket)
+   * @returns Allowance (6 decimals)
+   */
+  async getUSDCAllowance(owner: string, spender: string): Promise<bigint> {
+    try {
+      const usdcContract = this.contractsService.getContract('usdc');
+      return await usdcContract.allowance(owner, spender);
+    } catch (error) {
+      this.logger.error(`Failed to get USDC allowance for ${owner} -> ${spender}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Build an unsigned USDC approve transaction
+   * @param spender - Spender address
+   * @param amount - Amount to approve (6 decimals)
+   * @returns Unsigned transaction targeting the USDC contract
+   */
+  buildUSDCApprovalTransaction(
+    spender: string,
+    amount: bigint,
+  ): { to: string; data: string; value: string } {
+    const usdcContract = this.contractsService.getContract('usdc');
+
+    return {
+      to: this.contractsService.getConfig().contracts.usdc,
+      data: usdcContract.interface.encodeFunctionData('approve', [spender, amount]),
+      value: '0',
+    };
+  }
+
   /**
    * Retry a function with exponential backoff
+   * Provider calls inside fn already fail over between RPC endpoints; this covers what remains, e.g. every endpoint down
    * @param fn - Function to retry
    * @param retries - Number of retries
    * @returns Result of the function
@@ -1,14 +1,22 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { ContractsService } from './contracts.service';
 import { BlockchainService } from './blockchain.service';
 import { CreatorShareService } from './creator-share.service';
 import { CreatorShareFactoryService } from './creator-share-factory.service';
 import { OpinionMarketService } from './opinion-market.service';
 import { EventListenerService } from './event-listener.service';
+import { EventIndexerService } from './event-indexer.service';
+import { IndexerCursor } from '../database/entities/indexer-cursor.entity';
+import { ProcessedLog } from '../database/entities/processed-log.entity';
+import { FailedEvent } from '../database/entities/failed-event.entity';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [
+    ConfigModule,
+    TypeOrmModule.forFeature([IndexerCursor, ProcessedLog, FailedEvent]),
+  ],
   providers: [
     BlockchainService,
     ContractsService,
@@ -16,6 +24,7 @@ import { EventListenerService } from './event-listener.service';
     CreatorShareFactoryService,
     OpinionMarketService,
     EventListenerService,
+    EventIndexerService,
   ],
   exports: [
     BlockchainService,
@@ -24,6 +33,7 @@ import { EventListenerService } from './event-listener.service';
     CreatorShareFactoryService,
     OpinionMarketService,
     EventListenerService,
+    EventIndexerService,
   ],
 })
 export class ContractsModule {}
@@ -2,6 +2,7 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
 import { BlockchainConfig } from '../config/blockchain.config';
+import { RpcEndpointMetrics, RpcProviderPool, RpcQuorumCall } from './rpc-provider-pool';
 
 // Import contract ABIs
 import * as CreatorShareABI from './abis/CreatorShare.json';
@@ -20,7 +21,8 @@ export interface ContractInstances {
 @Injectable()
 export class ContractsService implements OnModuleInit {
   private readonly logger = new Logger(ContractsService.name);
-  private provider: ethers.JsonRpcProvider;
+  private rpcPool: RpcProviderPool;
+  private provider: ethers.AbstractProvider;
   private wallet: ethers.Wallet;
   private config: BlockchainConfig;
   private contracts: ContractInstances;
@@ -44,13 +46,11 @@ export class ContractsService implements OnModuleInit {
   }
 
   /**
-   * Initialize ethers provider for Base Chain
+   * Initialize the pooled ethers provider for Base Chain
    */
   private initializeProvider() {
-    this.provider = new ethers.JsonRpcProvider(this.config.rpcUrl, {
-      chainId: this.config.chainId,
-      name: this.config.network,
-    });
+    this.rpcPool = new RpcProviderPool(this.config);
+    this.provider = this.rpcPool.provider;
     this.logger.log(`Provider initialized for ${this.config.network} (Chain ID: ${this.config.chainId})`);
   }
 
@@ -134,12 +134,28 @@ export class ContractsService implements OnModuleInit {
   }
 
   /**
-   * Get ethers provider
+   * Get ethers provider; requests fail over between the configured RPC endpoints
    */
-  getProvider(): ethers.JsonRpcProvider {
+  getProvider(): ethers.AbstractProvider {
     return this.provider;
   }
 
+  /**
+   * Read from a contract on several RPC endpoints at one block, requiring BLOCKCHAIN_RPC_QUORUM to agree
+   */
+  quorumRead<T>(contract: ethers.Contract, read: RpcQuorumCall<T, ethers.Contract>): Promise<T> {
+    return this.rpcPool.quorum((provider, blockTag) =>
+      read(new ethers.Contract(contract.target, contract.interface, provider), blockTag),
+    );
+  }
+
+  /**
+   * Get latency and error metrics of each RPC endpoint
+   */
+  getRpcMetrics(): RpcEndpointMetrics[] {
+    return this.rpcPool.getMetrics();
+  }
+
   /**
    * Get wallet for signing transactions
    */
@@ -116,7 +116,9 @@ export class CreatorShareService {
       }
 
       const contract = this.contractsService.getCreatorShareContract(shareContract);
-      return await contract.balanceOf(holder);
+      return await this.contractsService.quorumRead(contract, (reader, blockTag) =>
+        reader.balanceOf(holder, { blockTag }),
+      );
     } catch (error) {
       this.logger.error(`Failed to get balance for holder ${holder} of ${creatorAddress}: ${error.message}`);
       throw error;
@@ -0,0 +1,393 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EntityManager } from 'typeorm';
+import { ethers } from 'ethers';
+import { ContractsService } from './contracts.service';
+import { EventIndexerService } from './event-indexer.service';
+import { IndexerCursor } from '../database/entities/indexer-cursor.entity';
+import { ProcessedLog } from '../database/entities/processed-log.entity';
+import { FailedEvent } from '../database/entities/failed-event.entity';
+import { FailedEventStatus } from '../database/enums';
+
+const CONTRACT_ADDRESS = '0x00000000000000000000000000000000000000aa';
+const CHAIN_ID = 84532;
+
+describe('EventIndexerService', () => {
+  let service: EventIndexerService;
+  let processedLogs: Partial<ProcessedLog>[];
+  let transactionManager: {
+    exists: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    find: jest.Mock;
+    delete: jest.Mock;
+  };
+  let transaction: jest.Mock;
+  let cursorRepository: Record<string, jest.Mock>;
+  let failedEventRepository: Record<string, jest.Mock>;
+  let provider: { getLogs: jest.Mock; getBlock: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+  let blockHashes: Map<number, string>;
+
+  const contractInterface = new ethers.Interface([
+    'event Ping(uint256 indexed id, uint256 value)',
+  ]);
+  const contract = new ethers.Contract(CONTRACT_ADDRESS, contractInterface);
+
+  const pingLog = (blockNumber: number, index: number, value: bigint) => {
+    const { data, topics } = contractInterface.encodeEventLog('Ping', [
+      BigInt(index),
+      value,
+    ]);
+
+    return new ethers.Log(
+      {
+        address: CONTRACT_ADDRESS,
+        topics,
+        data,
+        blockNumber,
+        blockHash: `0xhash${blockNumber}`,
+        transactionHash: `0xtx${blockNumber}-${index}`,
+        transactionIndex: 0,
+        index,
+        removed: false,
+      },
+      provider as unknown as ethers.Provider,
+    );
+  };
+
+  beforeEach(async () => {
+    processedLogs = [];
+    blockHashes = new Map();
+
+    // The transaction manager sees the processed logs saved through it
+    transactionManager = {
+      exists: jest.fn(
+        (_: unknown, { where }: { where: Partial<ProcessedLog> }) =>
+          Promise.resolve(
+            processedLogs.some(
+              (log) =>
+                log.txHash === where.txHash && log.logIndex === where.logIndex,
+            ),
+          ),
+      ),
+      create: jest.fn((_: unknown, data: Partial<ProcessedLog>) => data),
+      save: jest.fn((log: Partial<ProcessedLog>) => {
+        processedLogs.push(log);
+        return Promise.resolve(log);
+      }),
+      update: jest.fn(() => Promise.resolve()),
+      find: jest.fn(() => Promise.resolve([...processedLogs].reverse())),
+      delete: jest.fn(() => Promise.resolve()),
+    };
+    // A failed transaction forgets the processed logs it recorded
+    transaction = jest.fn(
+      async (work: (manager: EntityManager) => Promise<unknown>) => {
+        const committed = [...processedLogs];
+
+        try {
+          return await work(transactionManager as unknown as EntityManager);
+        } catch (error) {
+          processedLogs = committed;
+          throw error;
+        }
+      },
+    );
+    cursorRepository = {
+      find: jest.fn(() => Promise.resolve([])),
+      findOne: jest.fn(() => Promise.resolve(null)),
+      create: jest.fn((data: Partial<IndexerCursor>) => data),
+      save: jest.fn((cursor: Partial<IndexerCursor>) =>
+        Promise.resolve(cursor),
+      ),
+    };
+    failedEventRepository = {
+      findOne: jest.fn(() => Promise.resolve(null)),
+      create: jest.fn((data: Partial<FailedEvent>) => ({ ...data })),
+      save: jest.fn((event: Partial<FailedEvent>) => Promise.resolve(event)),
+    };
+    provider = {
+      getLogs: jest.fn(() => Promise.resolve([])),
+      getBlock: jest.fn((blockNumber: number) =>
+        Promise.resolve({
+          hash: blockHashes.get(blockNumber) ?? `0xhash${blockNumber}`,
+        }),
+      ),
+    };
+    eventEmitter = { emit: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventIndexerService,
+        {
+          provide: getRepositoryToken(IndexerCursor),
+          useValue: cursorRepository,
+        },
+        {
+          provide: getRepositoryToken(ProcessedLog),
+          useValue: {
+            manager: { transaction },
+            // Every indexed block below the cursor is still canonical
+            createQueryBuilder: () => {
+              const builder = {
+                select: () => builder,
+                addSelect: () => builder,
+                distinct: () => builder,
+                where: () => builder,
+                andWhere: () => builder,
+                orderBy: () => builder,
+                getRawMany: () =>
+                  Promise.resolve([{ blockNumber: '8', blockHash: '0xhash8' }]),
+              };
+              return builder;
+            },
+          },
+        },
+        {
+          provide: getRepositoryToken(FailedEvent),
+          useValue: failedEventRepository,
+        },
+        {
+          provide: ContractsService,
+          useValue: {
+            getConfig: () => ({
+              chainId: CHAIN_ID,
+              indexer: {
+                enabled: false,
+                startBlock: 1,
+                blockRange: 100,
+                confirmations: 0,
+                reorgDepth: 10,
+                maxRetries: 2,
+                retryDelayMs: 0,
+                pollIntervalMs: 1000,
+              },
+            }),
+            getProvider: () => provider,
+            getBlockNumber: () => Promise.resolve(10),
+          },
+        },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<EventIndexerService>(EventIndexerService);
+  });
+
+  describe('indexing', () => {
+    it('should handle each log exactly once across overlapping ranges', async () => {
+      const handler = jest.fn(() => Promise.resolve());
+      service.register('ping', contract, handler);
+      provider.getLogs.mockResolvedValue([pingLog(5, 0, BigInt(7))]);
+
+      await service.syncAll();
+      await service.backfill(1, 10);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(processedLogs).toEqual([
+        expect.objectContaining({
+          chainId: CHAIN_ID,
+          contractAddress: CONTRACT_ADDRESS,
+          eventName: 'Ping',
+          blockNumber: '5',
+          args: { id: '0', value: '7' },
+        }),
+      ]);
+    });
+
+    it('should save the cursor with the hash of the last synced block', async () => {
+      service.register('ping', contract, () => Promise.resolve());
+
+      await service.syncAll();
+
+      expect(cursorRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          contractName: 'ping',
+          lastBlock: '10',
+          lastBlockHash: '0xhash10',
+        }),
+      );
+    });
+
+    it('should not move the cursor past a gap when backfilling', async () => {
+      cursorRepository.findOne.mockResolvedValue({
+        chainId: CHAIN_ID,
+        contractName: 'ping',
+        contractAddress: CONTRACT_ADDRESS,
+        lastBlock: '3',
+      });
+      service.register('ping', contract, () => Promise.resolve());
+
+      await service.backfill(6, 10);
+
+      expect(cursorRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should run post-commit effects after the log is recorded', async () => {
+      const effect = jest.fn(() => {
+        expect(processedLogs).toHaveLength(1);
+        return Promise.resolve();
+      });
+      service.register('ping', contract, () => Promise.resolve(effect));
+      provider.getLogs.mockResolvedValue([pingLog(5, 0, BigInt(7))]);
+
+      await service.syncAll();
+
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back the log record with a failed handler and retry it', async () => {
+      const handler = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValue(undefined);
+      service.register('ping', contract, handler);
+      provider.getLogs.mockResolvedValue([pingLog(5, 0, BigInt(7))]);
+
+      await service.syncAll();
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(processedLogs).toHaveLength(1);
+    });
+
+    it('should dead-letter a log after its retries and move past it', async () => {
+      const handler = jest.fn(() => Promise.reject(new Error('boom')));
+      service.register('ping', contract, handler);
+      provider.getLogs.mockResolvedValue([pingLog(5, 0, BigInt(7))]);
+
+      await service.syncAll();
+
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(failedEventRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: FailedEventStatus.FAILED,
+          eventName: 'Ping',
+          error: 'boom',
+          attempts: 3,
+        }),
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'event.processing.error',
+        expect.objectContaining({ eventName: 'Ping', retries: 2 }),
+      );
+      expect(cursorRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ lastBlock: '10' }),
+      );
+    });
+  });
+
+  describe('replay', () => {
+    const failedEvent = (log: ethers.Log) =>
+      ({
+        chainId: CHAIN_ID,
+        contractName: 'ping',
+        contractAddress: CONTRACT_ADDRESS,
+        eventName: 'Ping',
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        rawLog: {
+          address: log.address,
+          topics: [...log.topics],
+          data: log.data,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          transactionIndex: log.transactionIndex,
+          index: log.index,
+          removed: log.removed,
+        },
+        status: FailedEventStatus.FAILED,
+        attempts: 4,
+      }) as unknown as FailedEvent;
+
+    it('should run a dead-lettered log through its handlers again', async () => {
+      const handler = jest.fn(() => Promise.resolve());
+      service.register('ping', contract, handler);
+
+      const replayed = await service.replay(
+        failedEvent(pingLog(5, 0, BigInt(7))),
+        'admin-1',
+      );
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(replayed).toMatchObject({
+        status: FailedEventStatus.REPLAYED,
+        replayedBy: 'admin-1',
+        attempts: 5,
+      });
+    });
+
+    it('should record a new failure and keep the log dead-lettered', async () => {
+      service.register('ping', contract, () =>
+        Promise.reject(new Error('still broken')),
+      );
+
+      const replayed = await service.replay(
+        failedEvent(pingLog(5, 0, BigInt(7))),
+        'admin-1',
+      );
+
+      expect(replayed).toMatchObject({
+        status: FailedEventStatus.FAILED,
+        error: 'still broken',
+        attempts: 5,
+      });
+    });
+  });
+
+  describe('rollback', () => {
+    beforeEach(() => {
+      processedLogs.push(
+        { blockNumber: '8', logIndex: 0, eventName: 'Ping' },
+        { blockNumber: '9', logIndex: 0, eventName: 'Ping' },
+      );
+      cursorRepository.find.mockResolvedValue([
+        {
+          chainId: CHAIN_ID,
+          contractName: 'ping',
+          lastBlock: '10',
+          lastBlockHash: '0xhash10',
+        },
+      ]);
+      blockHashes.set(10, '0xreorged10');
+    });
+
+    it('should revert logs and rewind the cursor in one transaction', async () => {
+      const reorgHandler = jest.fn(() => Promise.resolve());
+      service.onReorg(reorgHandler);
+
+      await service.syncAll();
+
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(reorgHandler).toHaveBeenCalledWith(
+        8,
+        expect.any(Array),
+        transactionManager,
+      );
+      expect(transactionManager.delete).toHaveBeenCalledWith(
+        ProcessedLog,
+        expect.objectContaining({ chainId: CHAIN_ID }),
+      );
+      expect(transactionManager.delete).toHaveBeenCalledWith(
+        FailedEvent,
+        expect.objectContaining({ chainId: CHAIN_ID }),
+      );
+      expect(transactionManager.update).toHaveBeenCalledWith(
+        IndexerCursor,
+        expect.objectContaining({ chainId: CHAIN_ID }),
+        { lastBlock: '8', lastBlockHash: '0xhash8' },
+      );
+    });
+
+    it('should keep logs and the cursor when a reorg handler fails', async () => {
+      service.onReorg(() => Promise.reject(new Error('revert failed')));
+
+      await expect(service.syncAll()).rejects.toThrow('revert failed');
+
+      expect(transactionManager.delete).not.toHaveBeenCalled();
+      expect(transactionManager.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,699 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EntityManager, MoreThan, Repository } from 'typeorm';
+import { ethers } from 'ethers';
+import { ContractsService } from './contracts.service';
+import { IndexerCursor } from '../database/entities/indexer-cursor.entity';
+import { ProcessedLog } from '../database/entities/processed-log.entity';
+import {
+  FailedEvent,
+  FailedEventLog,
+} from '../database/entities/failed-event.entity';
+import { FailedEventStatus } from '../database/enums';
+
+/**
+ * Work a handler defers until its log is committed, e.g. notifications. A
+ * failing effect is only logged, so indexed state must not be written here.
+ */
+export type IndexedLogEffect = () => Promise<void>;
+
+/**
+ * Handles one decoded log. Writes made through the manager commit together with
+ * the processed-log record; throwing rolls both back, and the log is retried
+ * until it is moved to the dead-letter queue.
+ */
+export type IndexedLogHandler = (
+  event: ethers.LogDescription,
+  log: ethers.Log,
+  manager: EntityManager,
+) => Promise<IndexedLogEffect | void>;
+
+/**
+ * Undoes what handlers wrote for logs above the fork block, newest first.
+ * Writes made through the manager commit together with the cursor rewind.
+ */
+export type IndexerReorgHandler = (
+  forkBlock: number,
+  revertedLogs: ProcessedLog[],
+  manager: EntityManager,
+) => Promise<void>;
+
+export interface IndexerCursorStatus {
+  contractName: string;
+  contractAddress: string;
+  lastBlock: number;
+  headBlock: number;
+  lag: number;
+}
+
+export interface IndexerBackfillResult {
+  contractName: string;
+  fromBlock: number;
+  toBlock: number;
+  logs: number;
+}
+
+interface IndexedContract {
+  name: string;
+  address: string;
+  contract: ethers.Contract;
+  handlers: IndexedLogHandler[];
+}
+
+@Injectable()
+export class EventIndexerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(EventIndexerService.name);
+
+  private readonly sources = new Map<string, IndexedContract>();
+  private readonly reorgHandlers: IndexerReorgHandler[] = [];
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @InjectRepository(IndexerCursor)
+    private readonly cursorRepository: Repository<IndexerCursor>,
+    @InjectRepository(ProcessedLog)
+    private readonly processedLogRepository: Repository<ProcessedLog>,
+    @InjectRepository(FailedEvent)
+    private readonly failedEventRepository: Repository<FailedEvent>,
+    private readonly contractsService: ContractsService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  onApplicationBootstrap() {
+    // The first sync awaits the head block before reading sources, so handlers
+    // registered in other bootstrap hooks are still picked up
+    if (!this.contractsService.getConfig().indexer.enabled) {
+      this.logger.warn('Event indexer disabled (INDEXER_ENABLED=false)');
+      return;
+    }
+
+    this.start();
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  /**
+   * Index a contract's logs and pass every decoded log to the handler
+   */
+  register(
+    name: string,
+    contract: ethers.Contract,
+    handler: IndexedLogHandler,
+  ) {
+    const address = (contract.target as string).toLowerCase();
+
+    if (!ethers.isAddress(address)) {
+      this.logger.warn(`Not indexing ${name}: no contract address configured`);
+      return;
+    }
+
+    const source = this.sources.get(address);
+
+    if (source) {
+      source.handlers.push(handler);
+      return;
+    }
+
+    this.sources.set(address, {
+      name,
+      address,
+      contract,
+      handlers: [handler],
+    });
+    this.logger.log(`Indexing ${name} at ${address}`);
+  }
+
+  /**
+   * Roll back derived state when a chain reorganization drops indexed logs
+   */
+  onReorg(handler: IndexerReorgHandler) {
+    this.reorgHandlers.push(handler);
+  }
+
+  /**
+   * Start polling for new logs
+   */
+  start() {
+    if (this.running) {
+      this.logger.warn('Event indexer is already running');
+      return;
+    }
+
+    this.running = true;
+    this.logger.log('Event indexer started');
+    void this.poll();
+  }
+
+  /**
+   * Stop polling; the range in progress still finishes
+   */
+  stop() {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    this.logger.log('Event indexer stopped');
+  }
+
+  /**
+   * Index every registered contract from its cursor up to the confirmed head
+   */
+  async syncAll(): Promise<void> {
+    const { startBlock } = this.contractsService.getConfig().indexer;
+    const toBlock = await this.getConfirmedBlock();
+
+    await this.checkForReorg();
+
+    for (const source of this.sources.values()) {
+      // Without a start block there is no known history; begin at the head
+      const cursor = await this.getCursor(
+        source,
+        startBlock > 0 ? startBlock - 1 : toBlock,
+      );
+      const fromBlock = Number(cursor.lastBlock) + 1;
+
+      if (fromBlock <= toBlock) {
+        await this.indexRange(source, cursor, fromBlock, toBlock);
+      }
+    }
+  }
+
+  /**
+   * Re-read a block range for every registered contract, e.g. from the deployment block
+   */
+  async backfill(
+    fromBlock: number,
+    toBlock?: number,
+  ): Promise<IndexerBackfillResult[]> {
+    const confirmedBlock = await this.getConfirmedBlock();
+    const endBlock = Math.min(toBlock ?? confirmedBlock, confirmedBlock);
+    const results: IndexerBackfillResult[] = [];
+
+    for (const source of this.sources.values()) {
+      const cursor = await this.getCursor(source, fromBlock - 1);
+      const logs = await this.indexRange(source, cursor, fromBlock, endBlock);
+
+      results.push({
+        contractName: source.name,
+        fromBlock,
+        toBlock: endBlock,
+        logs,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Get each cursor with its distance from the chain head
+   */
+  async getStatus(): Promise<IndexerCursorStatus[]> {
+    const headBlock = await this.contractsService.getBlockNumber();
+    const cursors = await this.cursorRepository.find({
+      where: { chainId: this.contractsService.getConfig().chainId },
+      order: { contractName: 'ASC' },
+    });
+
+    return cursors.map((cursor) => ({
+      contractName: cursor.contractName,
+      contractAddress: cursor.contractAddress,
+      lastBlock: Number(cursor.lastBlock),
+      headBlock,
+      lag: Math.max(headBlock - Number(cursor.lastBlock), 0),
+    }));
+  }
+
+  /**
+   * Run a dead-lettered log through its handlers again; a new failure is recorded on it
+   */
+  async replay(
+    failedEvent: FailedEvent,
+    replayedBy: string,
+  ): Promise<FailedEvent> {
+    failedEvent.attempts += 1;
+    failedEvent.lastAttemptAt = new Date();
+
+    try {
+      const source = this.sources.get(failedEvent.contractAddress);
+
+      if (!source) {
+        throw new Error(`${failedEvent.contractName} is not indexed`);
+      }
+
+      const log = new ethers.Log(
+        failedEvent.rawLog,
+        this.contractsService.getProvider(),
+      );
+      const event = source.contract.interface.parseLog(log);
+
+      if (!event) {
+        throw new Error(`Cannot decode ${failedEvent.eventName} log`);
+      }
+
+      // Also succeeds without running handlers when the log was processed since
+      await this.processLog(source, failedEvent.chainId, event, log);
+    } catch (error) {
+      failedEvent.error = error.message;
+      failedEvent.stack = error.stack ?? null;
+
+      return this.failedEventRepository.save(failedEvent);
+    }
+
+    failedEvent.status = FailedEventStatus.REPLAYED;
+    failedEvent.replayedAt = new Date();
+    failedEvent.replayedBy = replayedBy;
+
+    return this.failedEventRepository.save(failedEvent);
+  }
+
+  /**
+   * Helper: Run one sync and schedule the next one
+   */
+  private async poll() {
+    try {
+      await this.syncAll();
+    } catch (error) {
+      // The cursor only moves after a range is handled, so the next poll retries it
+      this.logger.error(`Event indexer sync failed: ${error.message}`);
+    }
+
+    if (this.running) {
+      this.pollTimer = setTimeout(
+        () => void this.poll(),
+        this.contractsService.getConfig().indexer.pollIntervalMs,
+      );
+    }
+  }
+
+  /**
+   * Helper: Fetch and handle logs in bounded ranges, saving the cursor after each one
+   */
+  private async indexRange(
+    source: IndexedContract,
+    cursor: IndexerCursor,
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<number> {
+    const { blockRange } = this.contractsService.getConfig().indexer;
+    const provider = this.contractsService.getProvider();
+    let handled = 0;
+
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+      const end = Math.min(start + blockRange - 1, toBlock);
+      const logs = await provider.getLogs({
+        address: source.address,
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      for (const log of logs) {
+        const event = source.contract.interface.parseLog(log);
+
+        if (!event) {
+          continue;
+        }
+
+        if (
+          await this.processLogWithRetries(source, cursor.chainId, event, log)
+        ) {
+          handled++;
+        }
+      }
+
+      // Backfills may cover indexed blocks or start past a gap; only extend a contiguous cursor
+      const lastBlock = Number(cursor.lastBlock);
+
+      if (start <= lastBlock + 1 && end > lastBlock) {
+        cursor.lastBlock = end.toString();
+        cursor.lastBlockHash = await this.getBlockHash(end);
+        await this.cursorRepository.save(cursor);
+      }
+
+      if (logs.length > 0) {
+        this.logger.log(
+          `Indexed ${logs.length} ${source.name} logs in blocks ${start}-${end}`,
+        );
+      }
+    }
+
+    return handled;
+  }
+
+  /**
+   * Helper: Process a log, retrying failures before moving it to the dead-letter queue
+   */
+  private async processLogWithRetries(
+    source: IndexedContract,
+    chainId: number,
+    event: ethers.LogDescription,
+    log: ethers.Log,
+  ): Promise<boolean> {
+    const { maxRetries, retryDelayMs } =
+      this.contractsService.getConfig().indexer;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.processLog(source, chainId, event, log);
+      } catch (error) {
+        if (attempt > maxRetries) {
+          // If this fails too, the range stops here and the next sync retries it
+          await this.deadLetter(source, chainId, event, log, error, attempt);
+          return false;
+        }
+
+        this.logger.warn(
+          `${event.name} in tx ${log.transactionHash} failed (attempt ${attempt}/${maxRetries + 1}): ${error.message}`,
+        );
+        await new Promise((resolve) =>
+          setTimeout(resolve, retryDelayMs * attempt),
+        );
+      }
+    }
+  }
+
+  /**
+   * Helper: Record a log and run its handlers in one transaction, unless it was already processed
+   */
+  private async processLog(
+    source: IndexedContract,
+    chainId: number,
+    event: ethers.LogDescription,
+    log: ethers.Log,
+  ): Promise<boolean> {
+    const effects = await this.processedLogRepository.manager.transaction(
+      async (manager) => {
+        const processed = await manager.exists(ProcessedLog, {
+          where: {
+            chainId,
+            txHash: log.transactionHash,
+            logIndex: log.index,
+          },
+        });
+
+        // Already handled, e.g. where a backfill overlaps indexed blocks
+        if (processed) {
+          return null;
+        }
+
+        // A concurrent duplicate fails on the unique key and rolls its handlers back
+        await manager.save(
+          manager.create(ProcessedLog, {
+            chainId,
+            contractAddress: source.address,
+            blockNumber: log.blockNumber.toString(),
+            blockHash: log.blockHash,
+            txHash: log.transactionHash,
+            logIndex: log.index,
+            eventName: event.name,
+            args: this.serializeArgs(event),
+          }),
+        );
+
+        const effects: IndexedLogEffect[] = [];
+
+        for (const handler of source.handlers) {
+          const effect = await handler(event, log, manager);
+
+          if (effect) {
+            effects.push(effect);
+          }
+        }
+
+        // A dead-lettered copy is resolved by any later successful run, e.g. a backfill
+        await manager.update(
+          FailedEvent,
+          {
+            chainId,
+            txHash: log.transactionHash,
+            logIndex: log.index,
+            status: FailedEventStatus.FAILED,
+          },
+          { status: FailedEventStatus.REPLAYED, replayedAt: new Date() },
+        );
+
+        return effects;
+      },
+    );
+
+    if (!effects) {
+      return false;
+    }
+
+    for (const effect of effects) {
+      try {
+        await effect();
+      } catch (error) {
+        this.logger.error(
+          `Post-commit effect for ${event.name} in tx ${log.transactionHash} failed: ${error.message}`,
+        );
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Helper: Persist a log that kept failing so the indexer can move past it
+   */
+  private async deadLetter(
+    source: IndexedContract,
+    chainId: number,
+    event: ethers.LogDescription,
+    log: ethers.Log,
+    error: Error,
+    attempts: number,
+  ) {
+    const failedEvent =
+      (await this.failedEventRepository.findOne({
+        where: { chainId, txHash: log.transactionHash, logIndex: log.index },
+      })) ??
+      this.failedEventRepository.create({
+        chainId,
+        contractName: source.name,
+        contractAddress: source.address,
+        eventName: event.name,
+        blockNumber: log.blockNumber.toString(),
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        rawLog: this.serializeLog(log),
+        args: this.serializeArgs(event),
+        attempts: 0,
+      });
+
+    failedEvent.status = FailedEventStatus.FAILED;
+    failedEvent.error = error.message;
+    failedEvent.stack = error.stack ?? null;
+    failedEvent.attempts += attempts;
+    failedEvent.lastAttemptAt = new Date();
+    await this.failedEventRepository.save(failedEvent);
+
+    this.logger.error(
+      `${event.name} in tx ${log.transactionHash} moved to the dead-letter queue after ${attempts} attempts: ${error.message}`,
+    );
+
+    this.eventEmitter.emit('event.processing.error', {
+      failedEventId: failedEvent.id,
+      eventName: event.name,
+      error: error.message,
+      retries: attempts - 1,
+    });
+  }
+
+  /**
+   * Helper: Roll back to the fork point if a cursor block left the canonical chain
+   */
+  private async checkForReorg() {
+    const cursors = await this.cursorRepository.find({
+      where: { chainId: this.contractsService.getConfig().chainId },
+    });
+
+    for (const cursor of cursors) {
+      if (!cursor.lastBlockHash) {
+        continue;
+      }
+
+      const lastBlock = Number(cursor.lastBlock);
+
+      if ((await this.getBlockHash(lastBlock)) !== cursor.lastBlockHash) {
+        this.logger.warn(
+          `Reorg detected: block ${lastBlock} of ${cursor.contractName} is no longer canonical`,
+        );
+        await this.rollback(await this.findForkBlock(lastBlock));
+        return;
+      }
+    }
+  }
+
+  /**
+   * Helper: Highest indexed block still on the canonical chain
+   */
+  private async findForkBlock(fromBlock: number): Promise<number> {
+    const { chainId, indexer } = this.contractsService.getConfig();
+    const oldestBlock = Math.max(fromBlock - indexer.reorgDepth, 0);
+    const blocks: { blockNumber: string; blockHash: string }[] =
+      await this.processedLogRepository
+        .createQueryBuilder('log')
+        .select('log.blockNumber', 'blockNumber')
+        .addSelect('log.blockHash', 'blockHash')
+        .distinct(true)
+        .where('log.chainId = :chainId', { chainId })
+        .andWhere('log.blockNumber BETWEEN :oldestBlock AND :fromBlock', {
+          oldestBlock,
+          fromBlock,
+        })
+        .orderBy('"blockNumber"', 'DESC')
+        .getRawMany();
+
+    // A matching hash proves every block below it is canonical too
+    for (const block of blocks) {
+      const blockNumber = Number(block.blockNumber);
+
+      if ((await this.getBlockHash(blockNumber)) === block.blockHash) {
+        return blockNumber;
+      }
+    }
+
+    this.logger.error(
+      `No canonical indexed block within ${indexer.reorgDepth} blocks of ${fromBlock}; rolling back to ${oldestBlock}`,
+    );
+
+    return oldestBlock;
+  }
+
+  /**
+   * Helper: Revert logs above the fork block and rewind cursors so they are replayed
+   */
+  private async rollback(forkBlock: number) {
+    const { chainId } = this.contractsService.getConfig();
+    const aboveFork = MoreThan(forkBlock.toString());
+    const forkBlockHash = await this.getBlockHash(forkBlock);
+
+    // A failing handler rolls back every revert with the cursor, so the next sync retries
+    const revertedLogs = await this.processedLogRepository.manager.transaction(
+      async (manager) => {
+        const revertedLogs = await manager.find(ProcessedLog, {
+          where: { chainId, blockNumber: aboveFork },
+          order: { blockNumber: 'DESC', logIndex: 'DESC' },
+        });
+
+        for (const handler of this.reorgHandlers) {
+          await handler(forkBlock, revertedLogs, manager);
+        }
+
+        await manager.delete(ProcessedLog, {
+          chainId,
+          blockNumber: aboveFork,
+        });
+        // Dead-lettered logs above the fork left the chain; canonical ones are re-read
+        await manager.delete(FailedEvent, { chainId, blockNumber: aboveFork });
+        await manager.update(
+          IndexerCursor,
+          { chainId, lastBlock: aboveFork },
+          { lastBlock: forkBlock.toString(), lastBlockHash: forkBlockHash },
+        );
+
+        return revertedLogs;
+      },
+    );
+
+    this.logger.warn(
+      `Rolled back ${revertedLogs.length} logs above block ${forkBlock}; replaying from there`,
+    );
+  }
+
+  /**
+   * Helper: Load a contract's cursor, creating it at the given block when missing
+   */
+  private async getCursor(
+    source: IndexedContract,
+    initialLastBlock: number,
+  ): Promise<IndexerCursor> {
+    const { chainId } = this.contractsService.getConfig();
+    const cursor = await this.cursorRepository.findOne({
+      where: { chainId, contractAddress: source.address },
+    });
+
+    if (cursor) {
+      return cursor;
+    }
+
+    this.logger.log(
+      `Creating cursor for ${source.name} at block ${initialLastBlock}`,
+    );
+
+    return this.cursorRepository.save(
+      this.cursorRepository.create({
+        contractName: source.name,
+        contractAddress: source.address,
+        chainId,
+        lastBlock: initialLastBlock.toString(),
+      }),
+    );
+  }
+
+  /**
+   * Helper: Canonical hash of a block
+   */
+  private async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = await this.contractsService
+      .getProvider()
+      .getBlock(blockNumber);
+
+    return block?.hash ?? null;
+  }
+
+  /**
+   * Helper: Decoded log arguments as JSON, with bigints as strings
+   */
+  private serializeArgs(event: ethers.LogDescription): Record<string, unknown> {
+    return JSON.parse(
+      JSON.stringify(event.args.toObject(), (_, value: unknown) =>
+        typeof value === 'bigint' ? value.toString() : value,
+      ),
+    ) as Record<string, unknown>;
+  }
+
+  /**
+   * Helper: Raw log fields as JSON, to rebuild the log for a replay
+   */
+  private serializeLog(log: ethers.Log): FailedEventLog {
+    return {
+      address: log.address,
+      topics: [...log.topics],
+      data: log.data,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      transactionIndex: log.transactionIndex,
+      index: log.index,
+      removed: log.removed,
+    };
+  }
+
+  /**
+   * Helper: Newest block with enough confirmations to index
+   */
+  private async getConfirmedBlock(): Promise<number> {
+    const headBlock = await this.contractsService.getBlockNumber();
+
+    return headBlock - this.contractsService.getConfig().indexer.confirmations;
+  }
+}
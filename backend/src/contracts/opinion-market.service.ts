@@ -23,6 +23,51 @@ export interface UserPosition {
   hasClaimed: boolean;
 }
 
+export interface UnsignedTransaction {
+  to: string;
+  data: string;
+  value: string;
+}
+
+export interface MarketDisputedEvent {
+  marketId: bigint;
+  disputer: string;
+  bond: bigint; // USDC escrowed by the contract (6 decimals)
+  blockNumber: number;
+}
+
+/**
+ * Fee constants mirrored from OpinionMarket.sol (basis points)
+ */
+export const OPINION_MARKET_FEES = {
+  TOTAL_FEE_BPS: BigInt(150),
+  PLATFORM_FEE_BPS: BigInt(75),
+  CREATOR_FEE_BPS: BigInt(60),
+  SHAREHOLDER_FEE_BPS: BigInt(15),
+  LIQUIDITY_FEE_BPS: BigInt(25), // carved out of the platform fee on seeded markets
+  BPS_DENOMINATOR: BigInt(10000),
+};
+
+export interface OutcomeLiquidity {
+  reserves: bigint[];
+  totalShares: bigint[];
+  seeded: bigint[]; // creator-seeded part of each reserve
+}
+
+export interface TradeQuote {
+  amount: bigint; // USDC paid in (buy) or share value before fees (sell)
+  totalFee: bigint;
+  platformFee: bigint;
+  creatorFee: bigint;
+  shareholderFee: bigint;
+  liquidityFee: bigint;
+  amountAfterFee: bigint; // added to the reserve (buy) or paid out (sell)
+  shares: bigint;
+  probabilitiesBefore: bigint[]; // basis points
+  probabilitiesAfter: bigint[]; // basis points
+  potentialPayout: bigint;
+}
+
 export interface OutcomeProbabilities {
   yesProbability: number; // 0-100
   noProbability: number; // 0-100
@@ -47,7 +92,11 @@ export class OpinionMarketService {
     try {
       const contract = this.contractsService.getContract('opinionMarket');
 
-      const market = await contract.markets(marketId);
+      // Resolution state and winnings are derived from this view, so it is a quorum read
+      const market = await this.contractsService.quorumRead(
+        contract,
+        (reader, blockTag) => reader.markets(marketId, { blockTag }),
+      );
 
       return {
         marketId,
@@ -62,7 +111,9 @@ export class OpinionMarketService {
         cancelled: market.isCancelled || false,
       };
     } catch (error) {
-      this.logger.error(`Failed to get market info for market ${marketId}: ${error.message}`);
+      this.logger.error(
+        `Failed to get market info for market ${marketId}: ${error.message}`,
+      );
       throw error;
     }
   }
@@ -73,7 +124,10 @@ export class OpinionMarketService {
    * @param userAddress - The user's wallet address
    * @returns User's YES and NO share balances and claim status
    */
-  async getUserPosition(marketId: bigint, userAddress: string): Promise<UserPosition> {
+  async getUserPosition(
+    marketId: bigint,
+    userAddress: string,
+  ): Promise<UserPosition> {
     try {
       const contract = this.contractsService.getContract('opinionMarket');
 
@@ -82,12 +136,16 @@ export class OpinionMarketService {
       return {
         yesShares: position.yesShares,
         noShares: position.noShares,
-        yesSharesFormatted: this.contractsService.formatToken(position.yesShares),
+        yesSharesFormatted: this.contractsService.formatToken(
+          position.yesShares,
+        ),
         noSharesFormatted: this.contractsService.formatToken(position.noShares),
         hasClaimed: position.hasClaimed,
       };
     } catch (error) {
-      this.logger.error(`Failed to get user position for market ${marketId}, user ${userAddress}: ${error.message}`);
+      this.logger.error(
+        `Failed to get user position for market ${marketId}, user ${userAddress}: ${error.message}`,
+      );
       throw error;
     }
   }
@@ -97,7 +155,9 @@ export class OpinionMarketService {
    * @param marketId - The market ID
    * @returns YES and NO probabilities (0-100)
    */
-  async getOutcomeProbabilities(marketId: bigint): Promise<OutcomeProbabilities> {
+  async getOutcomeProbabilities(
+    marketId: bigint,
+  ): Promise<OutcomeProbabilities> {
     try {
       const marketInfo = await this.getMarketInfo(marketId);
 
@@ -126,7 +186,9 @@ export class OpinionMarketService {
         noShares: BigInt(noShares * 1e6),
       };
     } catch (error) {
-      this.logger.error(`Failed to calculate probabilities for market ${marketId}: ${error.message}`);
+      this.logger.error(
+        `Failed to calculate probabilities for market ${marketId}: ${error.message}`,
+      );
       throw error;
     }
   }
@@ -138,12 +200,18 @@ export class OpinionMarketService {
    * @param amount - Amount of shares to buy
    * @returns Price in USDC
    */
-  async getBuyPrice(marketId: bigint, isYes: boolean, amount: bigint): Promise<bigint> {
+  async getBuyPrice(
+    marketId: bigint,
+    isYes: boolean,
+    amount: bigint,
+  ): Promise<bigint> {
     try {
       const contract = this.contractsService.getContract('opinionMarket');
       return await contract.getBuyPrice(marketId, isYes, amount);
     } catch (error) {
-      this.logger.error(`Failed to get buy price for market ${marketId}: ${error.message}`);
+      this.logger.error(
+        `Failed to get buy price for market ${marketId}: ${error.message}`,
+      );
       throw error;
     }
   }
@@ -155,12 +223,18 @@ export class OpinionMarketService {
    * @param amount - Amount of shares to sell
    * @returns Price in USDC
    */
-  async getSellPrice(marketId: bigint, isYes: boolean, amount: bigint): Promise<bigint> {
+  async getSellPrice(
+    marketId: bigint,
+    isYes: boolean,
+    amount: bigint,
+  ): Promise<bigint> {
     try {
       const contract = this.contractsService.getContract('opinionMarket');
       return await contract.getSellPrice(marketId, isYes, amount);
     } catch (error) {
-      this.logger.error(`Failed to get sell price for market ${marketId}: ${error.message}`);
+      this.logger.error(
+        `Failed to get sell price for market ${marketId}: ${error.message}`,
+      );
       throw error;
     }
   }
@@ -176,7 +250,9 @@ export class OpinionMarketService {
       const currentTime = BigInt(Math.floor(Date.now() / 1000));
       return currentTime >= marketInfo.endTime;
     } catch (error) {
-      this.logger.error(`Failed to check if market ended for ${marketId}: ${error.message}`);
+      this.logger.error(
+        `Failed to check if market ended for ${marketId}: ${error.message}`,
+      );
       throw error;
     }
   }
@@ -187,7 +263,10 @@ export class OpinionMarketService {
    * @param userAddress - The user's wallet address
    * @returns Potential winnings in USDC (only if market is resolved)
    */
-  async calculatePotentialWinnings(marketId: bigint, userAddress: string): Promise<bigint> {
+  async calculatePotentialWinnings(
+    marketId: bigint,
+    userAddress: string,
+  ): Promise<bigint> {
     try {
       const contract = this.contractsService.getContract('opinionMarket');
       const [marketInfo, position] = await Promise.all([
@@ -199,7 +278,9 @@ export class OpinionMarketService {
         return BigInt(0);
       }
 
-      const winningShares = marketInfo.winningOutcome ? position.yesShares : position.noShares;
+      const winningShares = marketInfo.winningOutcome
+        ? position.yesShares
+        : position.noShares;
 
       if (winningShares === BigInt(0)) {
         return BigInt(0);
@@ -208,7 +289,9 @@ export class OpinionMarketService {
       // Call contract to calculate exact payout
       return await contract.calculatePayout(marketId, userAddress);
     } catch (error) {
-      this.logger.error(`Failed to calculate winnings for market ${marketId}, user ${userAddress}: ${error.message}`);
+      this.logger.error(
+        `Failed to calculate winnings for market ${marketId}, user ${userAddress}: ${error.message}`,
+      );
       throw error;
     }
   }
@@ -228,39 +311,855 @@ export class OpinionMarketService {
     }
   }
 
+  /**
+   * Get the OpinionMarket contract instance
+   */
+  getContract(): ethers.Contract {
+    return this.contractsService.getContract('opinionMarket');
+  }
+
+  /**
+   * Get the OpinionMarket contract address
+   */
+  getContractAddress(): string {
+    return this.contractsService.getConfig().contracts.opinionMarket;
+  }
+
+  /**
+   * Create a market on-chain, signed by the backend wallet
+   * @param title - Market title
+   * @param outcomes - Outcome labels (2-4)
+   * @param duration - Market duration in seconds
+   * @param description - Market description
+   * @returns Transaction hash; the market ID is assigned when MarketCreated is emitted
+   */
+  async createMarket(
+    title: string,
+    outcomes: string[],
+    duration: number,
+    description: string,
+  ): Promise<string> {
+    try {
+      // Fails fast with a clear message when no signing key is configured
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.createMarket(title, outcomes, duration, description);
+      this.logger.log(`createMarket transaction sent: ${tx.hash}`);
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create market "${title}" on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Build an unsigned createMarket transaction for the creator to sign
+   * @param title - Market title
+   * @param outcomes - Outcome labels (2-4)
+   * @param duration - Market duration in seconds
+   * @param description - Market description
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildCreateMarketTransaction(
+    title: string,
+    outcomes: string[],
+    duration: number,
+    description: string,
+  ): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('createMarket', [
+        title,
+        outcomes,
+        duration,
+        description,
+      ]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Create a scalar market on-chain, signed by the backend wallet
+   * @param title - Market title
+   * @param lowerBound - Lower bound of the range (6 decimals)
+   * @param upperBound - Upper bound of the range (6 decimals)
+   * @param duration - Market duration in seconds
+   * @param description - Market description
+   * @returns Transaction hash; the market ID is assigned when MarketCreated is emitted
+   */
+  async createScalarMarket(
+    title: string,
+    lowerBound: bigint,
+    upperBound: bigint,
+    duration: number,
+    description: string,
+  ): Promise<string> {
+    try {
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.createScalarMarket(
+          title,
+          lowerBound,
+          upperBound,
+          duration,
+          description,
+        );
+      this.logger.log(`createScalarMarket transaction sent: ${tx.hash}`);
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create scalar market "${title}" on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Build an unsigned createScalarMarket transaction for the creator to sign
+   * @param title - Market title
+   * @param lowerBound - Lower bound of the range (6 decimals)
+   * @param upperBound - Upper bound of the range (6 decimals)
+   * @param duration - Market duration in seconds
+   * @param description - Market description
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildCreateScalarMarketTransaction(
+    title: string,
+    lowerBound: bigint,
+    upperBound: bigint,
+    duration: number,
+    description: string,
+  ): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('createScalarMarket', [
+        title,
+        lowerBound,
+        upperBound,
+        duration,
+        description,
+      ]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Build an unsigned placeBet transaction
+   * @param marketId - The on-chain market ID
+   * @param outcome - Outcome index
+   * @param amount - Bet amount in USDC (6 decimals, fees included)
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildPlaceBetTransaction(
+    marketId: bigint,
+    outcome: number,
+    amount: bigint,
+  ): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('placeBet', [
+        marketId,
+        outcome,
+        amount,
+      ]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Resolve a categorical market on-chain, signed by the backend (owner) wallet
+   * @param marketId - The on-chain market ID
+   * @param winningOutcome - Winning outcome index
+   * @returns Hash of the mined transaction; winners can claim from now on
+   */
+  async resolveMarket(
+    marketId: bigint,
+    winningOutcome: number,
+  ): Promise<string> {
+    try {
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.resolveMarket(marketId, winningOutcome);
+      this.logger.log(`resolveMarket transaction sent: ${tx.hash}`);
+
+      await this.waitForSuccess(tx, 'resolveMarket');
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to resolve market ${marketId} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a scalar market on-chain to the observed value, signed by the backend (owner) wallet
+   * @param marketId - The on-chain market ID
+   * @param value - Observed value (6 decimals); the contract clamps it to the range
+   * @returns Hash of the mined transaction; long and short holders can claim from now on
+   */
+  async resolveScalarMarket(marketId: bigint, value: bigint): Promise<string> {
+    try {
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.resolveScalarMarket(marketId, value);
+      this.logger.log(`resolveScalarMarket transaction sent: ${tx.hash}`);
+
+      await this.waitForSuccess(tx, 'resolveScalarMarket');
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to resolve scalar market ${marketId} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a market on-chain, signed by the backend (owner) wallet
+   * @param marketId - The on-chain market ID
+   * @returns Transaction hash; participants can claim refunds once it is mined
+   */
+  async cancelMarket(marketId: bigint): Promise<string> {
+    try {
+      // Fails fast with a clear message when no signing key is configured
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.cancelMarket(marketId);
+      this.logger.log(`cancelMarket transaction sent: ${tx.hash}`);
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to cancel market ${marketId} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Pause trading on a market on-chain, signed by the backend (owner) wallet
+   * @param marketId - The on-chain market ID
+   * @returns Transaction hash
+   */
+  async pauseMarket(marketId: bigint): Promise<string> {
+    try {
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.pauseMarket(marketId);
+      this.logger.log(`pauseMarket transaction sent: ${tx.hash}`);
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to pause market ${marketId} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Resume trading on a paused market on-chain, signed by the backend (owner) wallet
+   * @param marketId - The on-chain market ID
+   * @returns Transaction hash
+   */
+  async unpauseMarket(marketId: bigint): Promise<string> {
+    try {
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.unpauseMarket(marketId);
+      this.logger.log(`unpauseMarket transaction sent: ${tx.hash}`);
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to unpause market ${marketId} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Dispute a resolved market on-chain on behalf of the platform, without a bond
+   * @param marketId - The on-chain market ID
+   * @returns Transaction hash; claims stay locked until the dispute is settled
+   */
+  async disputeMarket(marketId: bigint): Promise<string> {
+    try {
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.disputeMarket(marketId, 0n);
+      this.logger.log(`disputeMarket transaction sent: ${tx.hash}`);
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispute market ${marketId} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Settle a dispute on-chain, signed by the backend (owner) wallet
+   * @param marketId - The on-chain market ID
+   * @param overturn - Whether the disputed result is replaced
+   * @param winningOutcome - New winning outcome index (ignored when upholding)
+   * @returns Hash of the mined transaction; the contract has refunded or kept the bond
+   */
+  async settleDispute(
+    marketId: bigint,
+    overturn: boolean,
+    winningOutcome: number,
+  ): Promise<string> {
+    try {
+      this.contractsService.getWallet();
+
+      const contract = this.getContract();
+      const tx: ethers.ContractTransactionResponse =
+        await contract.settleDispute(marketId, overturn, winningOutcome);
+      this.logger.log(`settleDispute transaction sent: ${tx.hash}`);
+
+      await this.waitForSuccess(tx, 'settleDispute');
+
+      return tx.hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to settle dispute on market ${marketId} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the MarketDisputed event emitted by a mined transaction
+   * @param txHash - Hash of the disputeMarket transaction
+   * @returns Decoded event, or null if the transaction failed or did not dispute a market
+   */
+  async getMarketDisputedEvent(
+    txHash: string,
+  ): Promise<MarketDisputedEvent | null> {
+    try {
+      const receipt = await this.contractsService
+        .getProvider()
+        .getTransactionReceipt(txHash);
+
+      if (!receipt || receipt.status !== 1) {
+        return null;
+      }
+
+      const contract = this.getContract();
+      const address = this.getContractAddress().toLowerCase();
+
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== address) {
+          continue;
+        }
+
+        const event = contract.interface.parseLog(log);
+
+        if (event?.name === 'MarketDisputed') {
+          return {
+            marketId: event.args.marketId as bigint,
+            disputer: event.args.disputer as string,
+            bond: event.args.bond as bigint,
+            blockNumber: receipt.blockNumber,
+          };
+        }
+      }
+
+      return null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to read dispute transaction ${txHash}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get the end of a resolved market's dispute window, when claims open
+   * @param marketId - The on-chain market ID
+   * @returns Dispute deadline
+   */
+  async getDisputeDeadline(marketId: bigint): Promise<Date> {
+    try {
+      const contract = this.getContract();
+      const deadline: bigint = await contract.disputeDeadline(marketId);
+
+      return new Date(Number(deadline) * 1000);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get dispute deadline for market ${marketId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Build an unsigned disputeMarket transaction for a position holder to sign
+   * @param marketId - The on-chain market ID
+   * @param bond - USDC bond to escrow (6 decimals)
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildDisputeMarketTransaction(
+    marketId: bigint,
+    bond: bigint,
+  ): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('disputeMarket', [
+        marketId,
+        bond,
+      ]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Build an unsigned claimRefund transaction for a cancelled market
+   * @param marketId - The on-chain market ID
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildClaimRefundTransaction(marketId: bigint): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('claimRefund', [marketId]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Build an unsigned claimWinnings transaction
+   * @param marketId - The on-chain market ID
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildClaimWinningsTransaction(marketId: bigint): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('claimWinnings', [marketId]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Build an unsigned sellShares transaction for a user to sign
+   * @param marketId - The on-chain market ID
+   * @param outcome - Outcome index to sell
+   * @param shares - Number of shares to sell (6 decimals)
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildSellSharesTransaction(
+    marketId: bigint,
+    outcome: number,
+    shares: bigint,
+  ): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('sellShares', [
+        marketId,
+        outcome,
+        shares,
+      ]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Build an unsigned seedLiquidity transaction for the creator to sign
+   * @param marketId - The on-chain market ID
+   * @param amount - Seed amount in USDC (6 decimals)
+   * @param weightsBps - Share of the seed per outcome, summing to 10000
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildSeedLiquidityTransaction(
+    marketId: bigint,
+    amount: bigint,
+    weightsBps: bigint[],
+  ): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('seedLiquidity', [
+        marketId,
+        amount,
+        weightsBps,
+      ]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Build an unsigned withdrawLiquidity transaction for a liquidity provider to sign
+   * @param marketId - The on-chain market ID
+   * @returns Unsigned transaction targeting the OpinionMarket contract
+   */
+  buildWithdrawLiquidityTransaction(marketId: bigint): UnsignedTransaction {
+    const contract = this.getContract();
+
+    return {
+      to: this.getContractAddress(),
+      data: contract.interface.encodeFunctionData('withdrawLiquidity', [
+        marketId,
+      ]),
+      value: '0',
+    };
+  }
+
+  /**
+   * Get reserves, total shares and seeded liquidity of every outcome in a market
+   * @param marketId - The on-chain market ID
+   * @param outcomeCount - Number of outcomes in the market
+   * @returns Per-outcome reserves, total shares and seeds (6 decimals)
+   */
+  async getOutcomeLiquidity(
+    marketId: bigint,
+    outcomeCount: number,
+  ): Promise<OutcomeLiquidity> {
+    try {
+      const contract = this.getContract();
+      const indexes = Array.from({ length: outcomeCount }, (_, i) => i);
+
+      const [reserves, totalShares, seeded] = await Promise.all([
+        Promise.all(
+          indexes.map(
+            (i) => contract.outcomeReserves(marketId, i) as Promise<bigint>,
+          ),
+        ),
+        Promise.all(
+          indexes.map(
+            (i) => contract.totalOutcomeShares(marketId, i) as Promise<bigint>,
+          ),
+        ),
+        Promise.all(
+          indexes.map(
+            (i) => contract.liquidityReserves(marketId, i) as Promise<bigint>,
+          ),
+        ),
+      ]);
+
+      return { reserves, totalShares, seeded };
+    } catch (error) {
+      this.logger.error(
+        `Failed to get outcome liquidity for market ${marketId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get the liquidity fees a seeded market has accrued for its providers
+   * @param marketId - The on-chain market ID
+   * @returns Accrued fees in USDC (6 decimals)
+   */
+  async getLiquidityFees(marketId: bigint): Promise<bigint> {
+    try {
+      const contract = this.getContract();
+      return await contract.liquidityFees(marketId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get liquidity fees for market ${marketId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Quote a bet against the current on-chain reserves
+   * @param marketId - The on-chain market ID
+   * @param outcome - Outcome index to bet on
+   * @param amount - Amount in USDC (6 decimals), before fees
+   * @param outcomeCount - Number of outcomes in the market
+   * @returns Fees, shares and probabilities before and after the bet
+   */
+  async quoteBet(
+    marketId: bigint,
+    outcome: number,
+    amount: bigint,
+    outcomeCount: number,
+  ): Promise<TradeQuote> {
+    const liquidity = await this.getOutcomeLiquidity(marketId, outcomeCount);
+    return this.calculateBetQuote(liquidity, outcome, amount);
+  }
+
+  /**
+   * Apply placeBet's fee split, calculateShares and reserve update to a liquidity snapshot
+   * @param liquidity - Outcome reserves and total shares before the bet
+   * @param outcome - Outcome index to bet on
+   * @param amount - Amount in USDC (6 decimals), before fees
+   * @returns Fees, shares and probabilities before and after the bet
+   */
+  calculateBetQuote(
+    liquidity: OutcomeLiquidity,
+    outcome: number,
+    amount: bigint,
+  ): TradeQuote {
+    const {
+      TOTAL_FEE_BPS,
+      CREATOR_FEE_BPS,
+      SHAREHOLDER_FEE_BPS,
+      BPS_DENOMINATOR,
+    } = OPINION_MARKET_FEES;
+
+    const totalFee = (amount * TOTAL_FEE_BPS) / BPS_DENOMINATOR;
+    const { platformFee, liquidityFee } = this.splitPlatformFee(
+      liquidity,
+      amount,
+    );
+    const creatorFee = (amount * CREATOR_FEE_BPS) / BPS_DENOMINATOR;
+    const shareholderFee = (amount * SHAREHOLDER_FEE_BPS) / BPS_DENOMINATOR;
+    const amountAfterFee = amount - totalFee;
+
+    // calculateShares is currently 1:1 with the amount after fees
+    const shares = amountAfterFee;
+
+    const reservesAfter = liquidity.reserves.map((reserve, i) =>
+      i === outcome ? reserve + amountAfterFee : reserve,
+    );
+    const outcomeSharesAfter = liquidity.totalShares[outcome] + shares;
+    // Winners are paid from the traders' part of the reserves; the seed goes back to its provider
+    const traderReservesAfter = reservesAfter.reduce(
+      (sum, reserve, i) => sum + reserve - liquidity.seeded[i],
+      BigInt(0),
+    );
+
+    return {
+      amount,
+      totalFee,
+      platformFee,
+      creatorFee,
+      shareholderFee,
+      liquidityFee,
+      amountAfterFee,
+      shares,
+      probabilitiesBefore: this.calculateProbabilities(liquidity.reserves),
+      probabilitiesAfter: this.calculateProbabilities(reservesAfter),
+      potentialPayout:
+        outcomeSharesAfter > BigInt(0)
+          ? (traderReservesAfter * shares) / outcomeSharesAfter
+          : BigInt(0),
+    };
+  }
+
+  /**
+   * Quote a share sale against the current on-chain reserves
+   * @param marketId - The on-chain market ID
+   * @param outcome - Outcome index to sell
+   * @param shares - Number of shares to sell (6 decimals)
+   * @param outcomeCount - Number of outcomes in the market
+   * @returns Sale value, fees, payout and probabilities before and after the sale
+   */
+  async quoteSell(
+    marketId: bigint,
+    outcome: number,
+    shares: bigint,
+    outcomeCount: number,
+  ): Promise<TradeQuote> {
+    const liquidity = await this.getOutcomeLiquidity(marketId, outcomeCount);
+    return this.calculateSellQuote(liquidity, outcome, shares);
+  }
+
+  /**
+   * Apply sellShares' calculateSellAmount, fee split and reserve update to a liquidity snapshot
+   * @param liquidity - Outcome reserves and total shares before the sale
+   * @param outcome - Outcome index to sell
+   * @param shares - Number of shares to sell (6 decimals)
+   * @returns Sale value, fees, payout and probabilities before and after the sale
+   */
+  calculateSellQuote(
+    liquidity: OutcomeLiquidity,
+    outcome: number,
+    shares: bigint,
+  ): TradeQuote {
+    const {
+      TOTAL_FEE_BPS,
+      CREATOR_FEE_BPS,
+      SHAREHOLDER_FEE_BPS,
+      BPS_DENOMINATOR,
+    } = OPINION_MARKET_FEES;
+
+    const outcomeShares = liquidity.totalShares[outcome];
+    const traderReserve =
+      liquidity.reserves[outcome] - liquidity.seeded[outcome];
+    const amount =
+      outcomeShares > BigInt(0)
+        ? (traderReserve * shares) / outcomeShares
+        : BigInt(0);
+
+    const totalFee = (amount * TOTAL_FEE_BPS) / BPS_DENOMINATOR;
+    const { platformFee, liquidityFee } = this.splitPlatformFee(
+      liquidity,
+      amount,
+    );
+    const reservesAfter = liquidity.reserves.map((reserve, i) =>
+      i === outcome ? reserve - amount : reserve,
+    );
+
+    return {
+      amount,
+      totalFee,
+      platformFee,
+      creatorFee: (amount * CREATOR_FEE_BPS) / BPS_DENOMINATOR,
+      shareholderFee: (amount * SHAREHOLDER_FEE_BPS) / BPS_DENOMINATOR,
+      liquidityFee,
+      amountAfterFee: amount - totalFee,
+      shares,
+      probabilitiesBefore: this.calculateProbabilities(liquidity.reserves),
+      probabilitiesAfter: this.calculateProbabilities(reservesAfter),
+      potentialPayout: BigInt(0),
+    };
+  }
+
+  /**
+   * Helper: Wait until a sent transaction is mined and fail if it reverted
+   */
+  private async waitForSuccess(
+    tx: ethers.ContractTransactionResponse,
+    method: string,
+  ): Promise<void> {
+    const receipt = await tx.wait();
+
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`${method} transaction ${tx.hash} reverted`);
+    }
+
+    this.logger.log(`${method} transaction mined: ${tx.hash}`);
+  }
+
+  /**
+   * Platform and liquidity provider parts of the platform fee, as split by _accrueLiquidityFee
+   */
+  private splitPlatformFee(
+    liquidity: OutcomeLiquidity,
+    amount: bigint,
+  ): { platformFee: bigint; liquidityFee: bigint } {
+    const { PLATFORM_FEE_BPS, LIQUIDITY_FEE_BPS, BPS_DENOMINATOR } =
+      OPINION_MARKET_FEES;
+    const seeded = liquidity.seeded.some((seed) => seed > BigInt(0));
+    const liquidityFee = seeded
+      ? (amount * LIQUIDITY_FEE_BPS) / BPS_DENOMINATOR
+      : BigInt(0);
+
+    return {
+      platformFee: (amount * PLATFORM_FEE_BPS) / BPS_DENOMINATOR - liquidityFee,
+      liquidityFee,
+    };
+  }
+
+  /**
+   * Outcome probabilities in basis points, as computed by getOutcomeProbability
+   */
+  private calculateProbabilities(reserves: bigint[]): bigint[] {
+    const total = reserves.reduce((sum, reserve) => sum + reserve, BigInt(0));
+
+    return reserves.map((reserve) =>
+      total > BigInt(0)
+        ? (reserve * OPINION_MARKET_FEES.BPS_DENOMINATOR) / total
+        : BigInt(0),
+    );
+  }
+
   /**
    * Listen to market events
    * @param callbacks - Callback functions for different market events
    */
   listenToMarketEvents(callbacks: {
-    onMarketCreated?: (marketId: bigint, creator: string, question: string, endTime: bigint) => void;
-    onBetPlaced?: (marketId: bigint, user: string, isYes: boolean, amount: bigint, cost: bigint) => void;
-    onMarketResolved?: (marketId: bigint, winningOutcome: boolean, timestamp: bigint) => void;
-    onWinningsClaimed?: (marketId: bigint, user: string, payout: bigint) => void;
+    onMarketCreated?: (
+      marketId: bigint,
+      creator: string,
+      question: string,
+      endTime: bigint,
+    ) => void;
+    onBetPlaced?: (
+      marketId: bigint,
+      user: string,
+      isYes: boolean,
+      amount: bigint,
+      cost: bigint,
+    ) => void;
+    onMarketResolved?: (
+      marketId: bigint,
+      winningOutcome: boolean,
+      timestamp: bigint,
+    ) => void;
+    onWinningsClaimed?: (
+      marketId: bigint,
+      user: string,
+      payout: bigint,
+    ) => void;
   }) {
     try {
       const contract = this.contractsService.getContract('opinionMarket');
 
       // Listen to MarketCreated events
       if (callbacks.onMarketCreated) {
-        contract.on('MarketCreated', (marketId, creator, question, endTime, timestamp) => {
-          this.logger.log(`MarketCreated: ${marketId} by ${creator} - "${question}"`);
-          callbacks.onMarketCreated?.(marketId, creator, question, endTime);
-        });
+        contract.on(
+          'MarketCreated',
+          (marketId, creator, question, endTime, timestamp) => {
+            this.logger.log(
+              `MarketCreated: ${marketId} by ${creator} - "${question}"`,
+            );
+            callbacks.onMarketCreated?.(marketId, creator, question, endTime);
+          },
+        );
       }
 
       // Listen to BetPlaced events
       if (callbacks.onBetPlaced) {
-        contract.on('BetPlaced', (marketId, user, isYes, amount, cost, timestamp) => {
-          this.logger.log(`BetPlaced: Market ${marketId}, User ${user}, ${isYes ? 'YES' : 'NO'}, Amount ${amount}`);
-          callbacks.onBetPlaced?.(marketId, user, isYes, amount, cost);
-        });
+        contract.on(
+          'BetPlaced',
+          (marketId, user, isYes, amount, cost, timestamp) => {
+            this.logger.log(
+              `BetPlaced: Market ${marketId}, User ${user}, ${isYes ? 'YES' : 'NO'}, Amount ${amount}`,
+            );
+            callbacks.onBetPlaced?.(marketId, user, isYes, amount, cost);
+          },
+        );
       }
 
       // Listen to MarketResolved events
       if (callbacks.onMarketResolved) {
         contract.on('MarketResolved', (marketId, winningOutcome, timestamp) => {
-          this.logger.log(`MarketResolved: ${marketId} -> ${winningOutcome ? 'YES' : 'NO'}`);
+          this.logger.log(
+            `MarketResolved: ${marketId} -> ${winningOutcome ? 'YES' : 'NO'}`,
+          );
           callbacks.onMarketResolved?.(marketId, winningOutcome, timestamp);
         });
       }
@@ -268,14 +1167,18 @@ export class OpinionMarketService {
       // Listen to WinningsClaimed events
       if (callbacks.onWinningsClaimed) {
         contract.on('WinningsClaimed', (marketId, user, payout, timestamp) => {
-          this.logger.log(`WinningsClaimed: Market ${marketId}, User ${user}, Payout ${payout}`);
+          this.logger.log(
+            `WinningsClaimed: Market ${marketId}, User ${user}, Payout ${payout}`,
+          );
           callbacks.onWinningsClaimed?.(marketId, user, payout);
         });
       }
 
       this.logger.log('Market event listeners setup');
     } catch (error) {
-      this.logger.error(`Failed to setup market event listeners: ${error.message}`);
+      this.logger.error(
+        `Failed to setup market event listeners: ${error.message}`,
+      );
       throw error;
     }
   }
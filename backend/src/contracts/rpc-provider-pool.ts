@@ -0,0 +1,333 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { BlockchainConfig } from '../config/blockchain.config';
+
+/**
+ * Request metrics of one RPC endpoint, as shown in /health
+ */
+export interface RpcEndpointMetrics {
+  name: string; // Host only, as RPC URLs often embed API keys
+  healthy: boolean;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  latencyMs: number; // Moving average
+  score: number; // Lower is preferred
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+/**
+ * Reads one value through a runner bound to a single endpoint, at the given block
+ */
+export type RpcQuorumCall<T, R = ethers.JsonRpcProvider> = (
+  runner: R,
+  blockTag: ethers.BlockTag,
+) => Promise<T>;
+
+interface RpcEndpoint {
+  name: string;
+  provider: ethers.JsonRpcProvider;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  latencyMs: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  benchedUntil: number; // Epoch ms
+}
+
+/**
+ * Error codes about the request itself, e.g. a revert; another endpoint gives the same answer
+ */
+const REQUEST_ERROR_CODES = new Set<string>([
+  'CALL_EXCEPTION',
+  'INSUFFICIENT_FUNDS',
+  'NONCE_EXPIRED',
+  'REPLACEMENT_UNDERPRICED',
+  'TRANSACTION_REPLACED',
+  'INVALID_ARGUMENT',
+  'MISSING_ARGUMENT',
+  'UNEXPECTED_ARGUMENT',
+  'NUMERIC_FAULT',
+  'ACTION_REJECTED',
+  'UNCONFIGURED_NAME',
+  'OFFCHAIN_FAULT',
+]);
+
+const LATENCY_WEIGHT = 0.2; // Share of the newest sample in the moving average
+
+/**
+ * Provider that sends every request through the pool, so contracts and wallets fail over too
+ */
+class PooledProvider extends ethers.AbstractProvider {
+  constructor(
+    private readonly pool: RpcProviderPool,
+    private readonly staticNetwork: ethers.Network,
+  ) {
+    super(staticNetwork);
+  }
+
+  _detectNetwork(): Promise<ethers.Network> {
+    return Promise.resolve(this.staticNetwork);
+  }
+
+  _perform<T = any>(req: ethers.PerformActionRequest): Promise<T> {
+    return this.pool.execute((provider) => provider._perform(req));
+  }
+}
+
+/**
+ * Several JSON-RPC endpoints behind one provider. Requests go to the best-scored
+ * endpoint and fail over to the next one; endpoints that keep failing are benched.
+ */
+export class RpcProviderPool {
+  private readonly logger = new Logger(RpcProviderPool.name);
+  private readonly endpoints: RpcEndpoint[];
+
+  readonly provider: ethers.AbstractProvider;
+
+  constructor(private readonly config: BlockchainConfig) {
+    if (config.rpcUrls.length === 0) {
+      throw new Error('No RPC URL configured');
+    }
+
+    const network = ethers.Network.from({
+      chainId: config.chainId,
+      name: config.network,
+    });
+
+    this.endpoints = config.rpcUrls.map((url) => {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = config.rpcPool.timeoutMs;
+
+      return {
+        name: new URL(url).host,
+        provider: new ethers.JsonRpcProvider(request, network, {
+          staticNetwork: network,
+        }),
+        requests: 0,
+        errors: 0,
+        consecutiveErrors: 0,
+        latencyMs: 0,
+        lastError: null,
+        lastErrorAt: null,
+        benchedUntil: 0,
+      };
+    });
+    this.provider = new PooledProvider(this, network);
+
+    if (config.rpcPool.quorum > this.endpoints.length) {
+      this.logger.warn(
+        `RPC quorum of ${config.rpcPool.quorum} exceeds the ${this.endpoints.length} configured endpoints; using ${this.endpoints.length}`,
+      );
+    }
+
+    this.logger.log(
+      `RPC pool: ${this.endpoints.map((endpoint) => endpoint.name).join(', ')}`,
+    );
+  }
+
+  /**
+   * Run a request on the best endpoint, failing over to the others on endpoint errors
+   */
+  async execute<T>(
+    call: (provider: ethers.JsonRpcProvider) => Promise<T>,
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (const endpoint of this.rankEndpoints()) {
+      try {
+        return await this.track(endpoint, call);
+      } catch (error) {
+        if (this.isRequestError(error)) {
+          throw error;
+        }
+
+        lastError = error;
+        this.logger.warn(
+          `RPC ${endpoint.name} failed, trying the next endpoint: ${error.message}`,
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Read a value from several endpoints at one block and return it once enough of them agree
+   */
+  async quorum<T>(call: RpcQuorumCall<T>): Promise<T> {
+    const quorum = Math.min(this.config.rpcPool.quorum, this.endpoints.length);
+
+    if (quorum <= 1) {
+      return this.execute((provider) => call(provider, 'latest'));
+    }
+
+    // One block behind the head, so endpoints that lag slightly can answer too
+    const blockTag =
+      (await this.execute((provider) => provider.getBlockNumber())) - 1;
+    const healthy = this.rankEndpoints().filter((endpoint) =>
+      this.isHealthy(endpoint),
+    );
+    const endpoints = healthy.length >= quorum ? healthy : this.rankEndpoints();
+    const results = await Promise.allSettled(
+      endpoints.map((endpoint) =>
+        this.track(endpoint, (provider) => call(provider, blockTag)),
+      ),
+    );
+    const votes = new Map<string, { value: T; count: number }>();
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        continue;
+      }
+
+      const key = JSON.stringify(result.value, (_, value: unknown) =>
+        typeof value === 'bigint' ? value.toString() : value,
+      );
+      const vote = votes.get(key) ?? { value: result.value, count: 0 };
+
+      vote.count++;
+      votes.set(key, vote);
+    }
+
+    const [best] = [...votes.values()].sort((a, b) => b.count - a.count);
+
+    if (best && best.count >= quorum) {
+      return best.value;
+    }
+
+    // A revert on every endpoint is an answer, not an outage
+    const requestError = results.find(
+      (result): result is PromiseRejectedResult =>
+        result.status === 'rejected' && this.isRequestError(result.reason),
+    );
+
+    if (!best && requestError) {
+      throw requestError.reason;
+    }
+
+    throw new Error(
+      `RPC quorum of ${quorum} not reached at block ${blockTag}: ${best?.count ?? 0} of ${endpoints.length} endpoints agreed`,
+    );
+  }
+
+  /**
+   * Get request metrics for every endpoint, best first
+   */
+  getMetrics(): RpcEndpointMetrics[] {
+    return this.rankEndpoints().map((endpoint) => ({
+      name: endpoint.name,
+      healthy: this.isHealthy(endpoint),
+      requests: endpoint.requests,
+      errors: endpoint.errors,
+      consecutiveErrors: endpoint.consecutiveErrors,
+      latencyMs: Math.round(endpoint.latencyMs),
+      score: Math.round(this.score(endpoint)),
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt?.toISOString() ?? null,
+    }));
+  }
+
+  /**
+   * Helper: Run a call on one endpoint and record its latency or failure
+   */
+  private async track<T>(
+    endpoint: RpcEndpoint,
+    call: (provider: ethers.JsonRpcProvider) => Promise<T>,
+  ): Promise<T> {
+    const startedAt = Date.now();
+
+    endpoint.requests++;
+
+    try {
+      const result = await call(endpoint.provider);
+      this.recordSuccess(endpoint, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      if (this.isRequestError(error)) {
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+      } else {
+        this.recordFailure(endpoint, error as Error);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Helper: Update the moving latency and clear the error streak
+   */
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number) {
+    endpoint.latencyMs =
+      endpoint.latencyMs === 0
+        ? latencyMs
+        : endpoint.latencyMs * (1 - LATENCY_WEIGHT) +
+          latencyMs * LATENCY_WEIGHT;
+
+    if (endpoint.consecutiveErrors > 0) {
+      endpoint.consecutiveErrors = 0;
+      endpoint.benchedUntil = 0;
+      this.logger.log(`RPC ${endpoint.name} recovered`);
+    }
+  }
+
+  /**
+   * Helper: Count an endpoint error and bench the endpoint after too many in a row
+   */
+  private recordFailure(endpoint: RpcEndpoint, error: Error) {
+    const { failureThreshold, cooldownMs } = this.config.rpcPool;
+
+    endpoint.errors++;
+    endpoint.consecutiveErrors++;
+    // ethers' full message includes the request URL
+    endpoint.lastError =
+      (error as ethers.EthersError).shortMessage ?? error.message;
+    endpoint.lastErrorAt = new Date();
+
+    if (endpoint.consecutiveErrors >= failureThreshold) {
+      endpoint.benchedUntil = Date.now() + cooldownMs;
+      this.logger.warn(
+        `RPC ${endpoint.name} benched for ${cooldownMs}ms after ${endpoint.consecutiveErrors} consecutive errors`,
+      );
+    }
+  }
+
+  /**
+   * Helper: Endpoints by preference; benched ones last, still tried if all else fails
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    return [...this.endpoints].sort(
+      (a, b) =>
+        Number(this.isHealthy(b)) - Number(this.isHealthy(a)) ||
+        this.score(a) - this.score(b),
+    );
+  }
+
+  /**
+   * Helper: Whether an endpoint is outside its bench period
+   */
+  private isHealthy(endpoint: RpcEndpoint): boolean {
+    return endpoint.benchedUntil <= Date.now();
+  }
+
+  /**
+   * Helper: Latency inflated by the error rate; untried endpoints score 0
+   */
+  private score(endpoint: RpcEndpoint): number {
+    const successRate =
+      (endpoint.requests - endpoint.errors + 1) / (endpoint.requests + 1);
+
+    return endpoint.latencyMs / successRate;
+  }
+
+  /**
+   * Helper: Whether an error is about the request rather than the endpoint
+   */
+  private isRequestError(error: unknown): boolean {
+    const code = (error as { code?: unknown } | null)?.code;
+
+    return typeof code === 'string' && REQUEST_ERROR_CODES.has(code);
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { MarketComment } from './market-comment.entity';
+import { User } from './user.entity';
+
+@Entity('comment_likes')
+@Index(['userId'])
+@Unique(['commentId', 'userId'])
+export class CommentLike {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  commentId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => MarketComment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'commentId' })
+  comment: MarketComment;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { Creator } from './creator.entity';
+import { User } from './user.entity';
+
+@Entity('creator_follows')
+@Index(['creatorId'])
+@Unique(['userId', 'creatorId'])
+export class CreatorFollow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string; // Follower
+
+  @Column({ type: 'uuid' })
+  creatorId: string;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => Creator, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'creatorId' })
+  creator: Creator;
+}
@@ -40,6 +40,9 @@ export class Creator {
   @Column({ type: 'integer', default: 0 })
   followerCount: number;
 
+  @Column({ type: 'integer', default: 0 })
+  platformFollowerCount: number; // Users following this creator on Guessly
+
   @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
   engagementRate: number;
 
@@ -73,6 +76,9 @@ export class Creator {
   @Column({ type: 'integer', default: 0 })
   totalShares: number;
 
+  @Column({ type: 'boolean', default: false })
+  trusted: boolean; // Publishes markets without pre-publication review
+
   @Column({
     type: 'enum',
     enum: CreatorStatus,
@@ -0,0 +1,91 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { FailedEventStatus } from '../enums';
+
+/**
+ * Log fields as returned by eth_getLogs, enough to rebuild the log for a replay
+ */
+export interface FailedEventLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  index: number;
+  removed: boolean;
+}
+
+@Entity('failed_events')
+@Unique(['chainId', 'txHash', 'logIndex'])
+@Index(['status', 'createdAt'])
+export class FailedEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'int' })
+  chainId: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  contractName: string;
+
+  @Column({ type: 'varchar', length: 42 })
+  contractAddress: string; // Lowercase
+
+  @Column({ type: 'varchar', length: 100 })
+  eventName: string;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'varchar', length: 66 })
+  txHash: string;
+
+  @Column({ type: 'int' })
+  logIndex: number;
+
+  @Column({ type: 'jsonb' })
+  rawLog: FailedEventLog;
+
+  @Column({ type: 'jsonb', default: {} })
+  args: Record<string, unknown>; // Decoded arguments, bigints as strings
+
+  @Column({ type: 'text' })
+  error: string; // Message of the latest failure
+
+  @Column({ type: 'text', nullable: true })
+  stack: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number; // Including admin replays
+
+  @Column({
+    type: 'enum',
+    enum: FailedEventStatus,
+    default: FailedEventStatus.FAILED,
+  })
+  status: FailedEventStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  replayedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  replayedBy: string | null; // Admin who replayed it; null when the indexer retried it
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Unique,
+} from 'typeorm';
+
+@Entity('indexer_cursors')
+@Unique(['chainId', 'contractAddress'])
+export class IndexerCursor {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  contractName: string; // e.g. opinionMarket, creatorShare:0x...
+
+  @Column({ type: 'varchar', length: 42 })
+  contractAddress: string; // Lowercase
+
+  @Column({ type: 'int' })
+  chainId: number;
+
+  @Column({ type: 'bigint' })
+  lastBlock: string; // Last block whose logs were fully handled
+
+  @Column({ type: 'varchar', length: 66, nullable: true })
+  lastBlockHash: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,100 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { Outcome } from './outcome.entity';
+import { User } from './user.entity';
+import { TradeAction } from './trade.entity';
+import { LimitOrderStatus } from '../enums';
+
+/**
+ * A trade that filled (part of) a limit order
+ */
+export interface LimitOrderFill {
+  txHash: string;
+  amount: string; // Added to filledAmount
+}
+
+@Entity('limit_orders')
+@Index(['marketId', 'status'])
+@Index(['userId', 'marketId'])
+@Index(['status', 'expiresAt'])
+export class LimitOrder {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid' })
+  outcomeId: string;
+
+  @Column({ type: 'varchar', nullable: false })
+  walletAddress: string;
+
+  @Column({
+    type: 'enum',
+    enum: TradeAction,
+  })
+  side: TradeAction;
+
+  @Column({ type: 'decimal', precision: 18, scale: 6 })
+  amount: string; // USDC to spend for buys, shares to sell for sells
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
+  filledAmount: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  fills: LimitOrderFill[];
+
+  @Column({ type: 'decimal', precision: 5, scale: 2 })
+  limitProbability: string; // Buys trigger at or below, sells at or above
+
+  @Column({
+    type: 'enum',
+    enum: LimitOrderStatus,
+    default: LimitOrderStatus.OPEN,
+  })
+  status: LimitOrderStatus;
+
+  @Column({ type: 'timestamp', nullable: false })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  triggeredAt: Date | null;
+
+  @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true })
+  triggerProbability: string | null; // Outcome probability when last triggered
+
+  @Column({ type: 'text', nullable: true })
+  triggerTxData: string | null; // Calldata of the trade sent when last triggered
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => Outcome, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'outcomeId' })
+  outcome: Outcome;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { User } from './user.entity';
+
+@Entity('liquidity_positions')
+@Index(['marketId', 'walletAddress'], { unique: true })
+@Index(['userId'])
+export class LiquidityPosition {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null; // Null when the provider wallet is not linked to a user
+
+  @Column({ type: 'varchar', nullable: false })
+  walletAddress: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 6 })
+  amount: string; // USDC seeded into the reserves
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
+  feesEarned: string; // Liquidity fees paid out on withdrawal
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
+  withdrawnAmount: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  txHash: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  withdrawTxHash: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  withdrawnAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'userId' })
+  user: User | null;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { User } from './user.entity';
+import { MarketActivityType } from '../enums';
+
+@Entity('market_activities')
+@Index(['marketId', 'occurredAt'])
+@Index(['marketId', 'type', 'occurredAt'])
+@Index(['referenceId'])
+export class MarketActivity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({
+    type: 'enum',
+    enum: MarketActivityType,
+  })
+  type: MarketActivityType;
+
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null; // User behind the activity, null for platform actions
+
+  @Column({ type: 'uuid', nullable: true })
+  referenceId: string | null; // Trade or comment the activity was derived from
+
+  @Column({ type: 'jsonb', default: {} })
+  data: Record<string, unknown>;
+
+  @Column({ type: 'timestamp', nullable: false })
+  occurredAt: Date;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'actorId' })
+  actor: User | null;
+}
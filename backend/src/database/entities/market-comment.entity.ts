@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { User } from './user.entity';
+import { CommentStatus } from '../enums';
+
+@Entity('market_comments')
+@Index(['marketId', 'createdAt'])
+@Index(['parentId'])
+@Index(['userId', 'createdAt'])
+export class MarketComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  parentId: string | null; // Top-level comment this is a reply to
+
+  @Column({ type: 'text', nullable: false })
+  content: string;
+
+  @Column({
+    type: 'enum',
+    enum: CommentStatus,
+    default: CommentStatus.VISIBLE,
+  })
+  status: CommentStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  likeCount: number;
+
+  @Column({ type: 'integer', default: 0 })
+  replyCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  removedBy: string | null; // Admin user id
+
+  @Column({ type: 'text', nullable: true })
+  removalReason: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => MarketComment, (comment) => comment.replies, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'parentId' })
+  parent: MarketComment | null;
+
+  @OneToMany(() => MarketComment, (comment) => comment.parent)
+  replies: MarketComment[];
+}
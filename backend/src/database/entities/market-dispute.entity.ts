@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { User } from './user.entity';
+import { MarketDisputeStatus, MarketStatus } from '../enums';
+
+@Entity('market_disputes')
+@Index(['marketId', 'createdAt'])
+@Index(['status', 'createdAt'])
+export class MarketDispute {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({ type: 'uuid' })
+  raisedBy: string; // Position holder, or the admin for admin-raised disputes
+
+  @Column({ type: 'text', nullable: false })
+  reason: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  evidenceUrls: string[];
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, nullable: true })
+  bondAmount: string | null; // USDC escrowed by the contract with the dispute
+
+  @Column({ type: 'varchar', unique: true, nullable: true })
+  txHash: string | null; // disputeMarket transaction, null for off-chain markets
+
+  @Column({ type: 'varchar', nullable: true })
+  settlementTxHash: string | null; // settleDispute transaction
+
+  @Column({
+    type: 'enum',
+    enum: MarketStatus,
+  })
+  previousStatus: MarketStatus; // Restored when the dispute is upheld
+
+  @Column({ type: 'integer', nullable: true })
+  originalOutcomeIndex: number | null; // Null if raised before resolution
+
+  @Column({
+    type: 'enum',
+    enum: MarketDisputeStatus,
+    default: MarketDisputeStatus.OPEN,
+  })
+  status: MarketDisputeStatus;
+
+  @Column({ type: 'integer', nullable: true })
+  finalOutcomeIndex: number | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  adjudicatedBy: string | null; // Admin user id
+
+  @Column({ type: 'text', nullable: true })
+  adjudicationNote: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  adjudicatedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'raisedBy' })
+  user: User;
+}
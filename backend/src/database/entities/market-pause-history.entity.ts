@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { MarketStatusChangeSource } from '../enums';
+
+@Entity('market_pause_history')
+@Index(['marketId', 'createdAt'])
+export class MarketPauseHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({ type: 'boolean' })
+  paused: boolean; // True when trading was paused, false when it resumed
+
+  @Column({
+    type: 'enum',
+    enum: MarketStatusChangeSource,
+  })
+  source: MarketStatusChangeSource;
+
+  @Column({ type: 'uuid', nullable: true })
+  changedBy: string | null; // Admin user, when the change was made by hand
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  txHash: string | null; // pauseMarket/unpauseMarket transaction sent by the backend
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+}
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { MarketStatus, MarketStatusChangeSource } from '../enums';
+
+@Entity('market_status_history')
+@Index(['marketId', 'createdAt'])
+export class MarketStatusHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({
+    type: 'enum',
+    enum: MarketStatus,
+  })
+  fromStatus: MarketStatus;
+
+  @Column({
+    type: 'enum',
+    enum: MarketStatus,
+  })
+  toStatus: MarketStatus;
+
+  @Column({
+    type: 'enum',
+    enum: MarketStatusChangeSource,
+  })
+  source: MarketStatusChangeSource;
+
+  @Column({ type: 'uuid', nullable: true })
+  changedBy: string | null; // Admin user, when the change was made by hand
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+}
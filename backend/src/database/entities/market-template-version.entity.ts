@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import {
+  MarketTemplate,
+  MarketTemplateOutcome,
+} from './market-template.entity';
+import { MarketCategory } from '../enums';
+
+/**
+ * Immutable copy of a template's market content; instances link to the
+ * version they were created from.
+ */
+@Entity('market_template_versions')
+@Index(['templateId', 'version'], { unique: true })
+export class MarketTemplateVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  templateId: string;
+
+  @Column({ type: 'integer' })
+  version: number;
+
+  @Column({ type: 'varchar', nullable: false })
+  titleTemplate: string;
+
+  @Column({ type: 'text', nullable: false })
+  descriptionTemplate: string;
+
+  @Column({
+    type: 'enum',
+    enum: MarketCategory,
+  })
+  category: MarketCategory;
+
+  @Column({ type: 'jsonb' })
+  outcomes: MarketTemplateOutcome[];
+
+  @Column({ type: 'integer', nullable: false })
+  duration: number;
+
+  @Column({ type: 'text', nullable: true })
+  resolutionCriteria: string | null;
+
+  @Column({ type: 'simple-array', nullable: true })
+  evidenceLinks: string[] | null;
+
+  @Column({ type: 'simple-array', nullable: true })
+  tags: string[] | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => MarketTemplate, (template) => template.versions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'templateId' })
+  template: MarketTemplate;
+}
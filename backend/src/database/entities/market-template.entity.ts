@@ -0,0 +1,103 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Creator } from './creator.entity';
+import { MarketTemplateVersion } from './market-template-version.entity';
+import { MarketCategory, RecurrenceFrequency } from '../enums';
+
+export interface MarketTemplateOutcome {
+  text: string;
+  initialProbability: number;
+}
+
+@Entity('market_templates')
+@Index(['creatorId'])
+@Index(['active', 'nextRunAt'])
+export class MarketTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  creatorId: string;
+
+  @Column({ type: 'varchar', nullable: false })
+  name: string;
+
+  @Column({ type: 'integer', default: 1 })
+  currentVersion: number; // Bumped whenever the market content changes
+
+  @Column({ type: 'varchar', nullable: false })
+  titleTemplate: string; // May contain {{date}}, {{end_date}}, {{week}} and {{n}}
+
+  @Column({ type: 'text', nullable: false })
+  descriptionTemplate: string;
+
+  @Column({
+    type: 'enum',
+    enum: MarketCategory,
+    default: MarketCategory.OTHER,
+  })
+  category: MarketCategory;
+
+  @Column({ type: 'jsonb' })
+  outcomes: MarketTemplateOutcome[];
+
+  @Column({ type: 'integer', nullable: false })
+  duration: number; // in seconds (6h to 7d)
+
+  @Column({ type: 'text', nullable: true })
+  resolutionCriteria: string | null;
+
+  @Column({ type: 'simple-array', nullable: true })
+  evidenceLinks: string[] | null;
+
+  @Column({ type: 'simple-array', nullable: true })
+  tags: string[] | null;
+
+  @Column({
+    type: 'enum',
+    enum: RecurrenceFrequency,
+    nullable: true,
+  })
+  recurrenceFrequency: RecurrenceFrequency | null; // Null for templates instantiated by hand
+
+  @Column({ type: 'integer', nullable: true })
+  recurrenceDayOfWeek: number | null; // 0 = Sunday, weekly recurrences only
+
+  @Column({ type: 'varchar', nullable: true })
+  recurrenceTime: string | null; // HH:mm in UTC
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  nextRunAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastRunAt: Date | null;
+
+  @Column({ type: 'integer', default: 0 })
+  instanceCount: number;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Creator, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'creatorId' })
+  creator: Creator;
+
+  @OneToMany(() => MarketTemplateVersion, (version) => version.template)
+  versions: MarketTemplateVersion[];
+}
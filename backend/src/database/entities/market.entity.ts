@@ -13,14 +13,23 @@ import { Creator } from './creator.entity';
 import { Outcome } from './outcome.entity';
 import { Position } from './position.entity';
 import { Trade } from './trade.entity';
-import { MarketStatus, MarketCategory } from '../enums';
+import { MarketTemplateVersion } from './market-template-version.entity';
+import {
+  MarketStatus,
+  MarketCategory,
+  MarketType,
+  ResolverType,
+} from '../enums';
 
 @Entity('markets')
 @Index(['status'])
 @Index(['category'])
 @Index(['creatorId'])
 @Index(['endTime'])
+@Index(['totalVolume'])
 @Index(['contractAddress'])
+@Index(['onChainMarketId'])
+@Index(['templateId'])
 export class Market {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -38,6 +47,22 @@ export class Market {
   })
   category: MarketCategory;
 
+  @Column({
+    type: 'enum',
+    enum: MarketType,
+    default: MarketType.CATEGORICAL,
+  })
+  marketType: MarketType;
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, nullable: true })
+  scalarLowerBound: string | null; // Scalar markets only
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, nullable: true })
+  scalarUpperBound: string | null; // Scalar markets only
+
+  @Column({ type: 'varchar', nullable: true })
+  scalarUnit: string | null; // e.g. "USD", "°C"
+
   @Column({
     type: 'enum',
     enum: MarketStatus,
@@ -51,6 +76,9 @@ export class Market {
   @Column({ type: 'varchar', nullable: true })
   txHash: string | null;
 
+  @Column({ type: 'varchar', nullable: true })
+  onChainMarketId: string | null; // OpinionMarket market id, set once MarketCreated is observed
+
   @Column({ type: 'uuid' })
   creatorId: string;
 
@@ -66,14 +94,69 @@ export class Market {
   @Column({ type: 'simple-array', nullable: true })
   evidenceLinks: string[] | null;
 
+  @Column({
+    type: 'enum',
+    enum: ResolverType,
+    nullable: true,
+  })
+  resolverType: ResolverType | null; // Oracle adapter that proposes the winning outcome
+
+  @Column({ type: 'jsonb', nullable: true })
+  resolverParams: Record<string, unknown> | null;
+
   @Column({ type: 'simple-array', nullable: true })
   tags: string[] | null;
 
+  @Column({
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector: string | null; // Generated from title, tags and description
+
+  @Column({ type: 'uuid', nullable: true })
+  templateId: string | null; // Template this market was instantiated from
+
+  @Column({ type: 'uuid', nullable: true })
+  templateVersionId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewSubmittedAt: Date | null; // Set when the market enters pre-publication review
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedBy: string | null; // Admin who approved or rejected the market
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  reviewRejectionReason: string | null; // Cleared when the draft is resubmitted
+
+  @Column({ type: 'boolean', default: false })
+  paused: boolean; // Trading halted on-chain by the contract owner
+
+  @Column({ type: 'timestamp', nullable: true })
+  pausedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  pauseReason: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  endingSoonAlertedAt: Date | null; // Watchers were told the market ends soon
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAlertedAt: Date | null; // Watchers were told the market resolved
+
   @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
   totalVolume: string;
 
   @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
-  totalLiquidity: string;
+  totalLiquidity: string; // Seeded liquidity, synced from LiquiditySeeded events
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, nullable: true })
+  seedLiquidityAmount: string | null; // Seed requested at creation, signed once deployed
 
   @Column({ type: 'integer', default: 0 })
   participantCount: number;
@@ -84,9 +167,18 @@ export class Market {
   @Column({ type: 'integer', nullable: true })
   winningOutcomeIndex: number | null;
 
+  @Column({ type: 'decimal', precision: 18, scale: 6, nullable: true })
+  resolvedValue: string | null; // Observed value a scalar market resolved to
+
   @Column({ type: 'timestamp', nullable: true })
   resolvedAt: Date | null;
 
+  @Column({ type: 'timestamp', nullable: true })
+  resolutionDeadline: Date | null; // Set when the market moves to PENDING_RESOLUTION
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolutionEscalatedAt: Date | null; // Set when an overdue resolution is escalated to admins
+
   @CreateDateColumn({ type: 'timestamp' })
   createdAt: Date;
 
@@ -98,6 +190,10 @@ export class Market {
   @JoinColumn({ name: 'creatorId' })
   creator: Creator;
 
+  @ManyToOne(() => MarketTemplateVersion, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'templateVersionId' })
+  templateVersion: MarketTemplateVersion | null;
+
   @OneToMany(() => Outcome, (outcome) => outcome.market, { cascade: true })
   outcomes: Outcome[];
 
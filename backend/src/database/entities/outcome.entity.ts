@@ -40,6 +40,9 @@ export class Outcome {
   @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
   totalStaked: string;
 
+  @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
+  seedLiquidity: string; // Part of the creator's seed held in this outcome's reserve
+
   @CreateDateColumn({ type: 'timestamp' })
   createdAt: Date;
 
@@ -56,6 +56,15 @@ export class Position {
   @Column({ type: 'timestamp', nullable: true })
   claimedAt: Date | null;
 
+  @Column({ type: 'boolean', default: false })
+  refunded: boolean; // Stake claimed back from a cancelled market
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, nullable: true })
+  refundedAmount: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  refundedAt: Date | null;
+
   @CreateDateColumn({ type: 'timestamp' })
   createdAt: Date;
 
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { Trade } from './trade.entity';
+
+@Entity('probability_snapshots')
+@Index(['marketId', 'timestamp'])
+export class ProbabilitySnapshot {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  tradeId: string | null;
+
+  @Column({ type: 'jsonb', nullable: false })
+  probabilities: number[]; // Percentages ordered by outcome index
+
+  @Column({ type: 'decimal', precision: 18, scale: 6, default: '0' })
+  volume: string; // USDC traded by the trade that produced this snapshot
+
+  @Column({ type: 'timestamp', nullable: false })
+  timestamp: Date;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+
+  @ManyToOne(() => Trade, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'tradeId' })
+  trade: Trade | null;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+
+@Entity('processed_logs')
+@Unique(['chainId', 'txHash', 'logIndex'])
+@Index(['chainId', 'blockNumber'])
+export class ProcessedLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'int' })
+  chainId: number;
+
+  @Column({ type: 'varchar', length: 42 })
+  contractAddress: string; // Lowercase
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'varchar', length: 66 })
+  blockHash: string; // Compared against the canonical chain to detect reorgs
+
+  @Column({ type: 'varchar', length: 66 })
+  txHash: string;
+
+  @Column({ type: 'int' })
+  logIndex: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  eventName: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  args: Record<string, unknown>; // Decoded arguments, bigints as strings
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Market } from './market.entity';
+import { ResolutionProposalStatus, ResolverType } from '../enums';
+
+@Entity('resolution_proposals')
+@Index(['marketId'])
+@Index(['status', 'challengeEndsAt'])
+export class ResolutionProposal {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  marketId: string;
+
+  @Column({
+    type: 'enum',
+    enum: ResolverType,
+  })
+  resolverType: ResolverType;
+
+  @Column({ type: 'integer' })
+  proposedOutcomeIndex: number;
+
+  @Column({ type: 'jsonb', default: {} })
+  evidence: Record<string, unknown>; // Data observed by the resolver
+
+  @Column({
+    type: 'enum',
+    enum: ResolutionProposalStatus,
+    default: ResolutionProposalStatus.PENDING,
+  })
+  status: ResolutionProposalStatus;
+
+  @Column({ type: 'timestamp', nullable: false })
+  challengeEndsAt: Date; // Executed through AdminService.resolveMarket after this
+
+  @Column({ type: 'timestamp', nullable: true })
+  executedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedBy: string | null; // Admin who rejected the proposal
+
+  @Column({ type: 'text', nullable: true })
+  statusReason: string | null; // Rejection reason or execution error
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Market, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'marketId' })
+  market: Market;
+}
@@ -0,0 +1,5 @@
+export enum CommentStatus {
+  VISIBLE = 'visible',
+  DELETED = 'deleted', // Deleted by its author
+  REMOVED = 'removed', // Removed by an admin
+}
@@ -0,0 +1,4 @@
+export enum FailedEventStatus {
+  FAILED = 'failed', // Waiting in the dead-letter queue
+  REPLAYED = 'replayed', // Handled on a later attempt
+}
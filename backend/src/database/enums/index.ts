@@ -2,3 +2,13 @@ export * from './creator-status.enum';
 export * from './market-status.enum';
 export * from './market-category.enum';
 export * from './transaction-type.enum';
+export * from './comment-status.enum';
+export * from './market-activity-type.enum';
+export * from './market-status-change-source.enum';
+export * from './resolver-type.enum';
+export * from './resolution-proposal-status.enum';
+export * from './market-dispute-status.enum';
+export * from './limit-order-status.enum';
+export * from './market-type.enum';
+export * from './recurrence-frequency.enum';
+export * from './failed-event-status.enum';
@@ -0,0 +1,8 @@
+export enum LimitOrderStatus {
+  OPEN = 'open',
+  TRIGGERED = 'triggered', // Limit reached, user sent a ready-made transaction
+  PARTIALLY_FILLED = 'partially_filled',
+  FILLED = 'filled',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+}
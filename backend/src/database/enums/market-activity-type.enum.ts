@@ -0,0 +1,11 @@
+export enum MarketActivityType {
+  TRADE = 'trade',
+  COMMENT = 'comment',
+  RESOLUTION = 'resolution',
+  RESOLUTION_PROPOSED = 'resolution_proposed',
+  DISPUTE = 'dispute',
+  EXTENSION = 'extension',
+  CANCELLATION = 'cancellation',
+  LARGE_POSITION = 'large_position',
+  ANNOUNCEMENT = 'announcement',
+}
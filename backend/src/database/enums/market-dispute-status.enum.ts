@@ -0,0 +1,5 @@
+export enum MarketDisputeStatus {
+  OPEN = 'open',
+  UPHELD = 'upheld', // Original result stands
+  OVERTURNED = 'overturned', // Market re-resolved to another outcome
+}
@@ -0,0 +1,7 @@
+export enum MarketStatusChangeSource {
+  SYSTEM = 'system',
+  ADMIN = 'admin',
+  CHAIN = 'chain',
+  ORACLE = 'oracle',
+  USER = 'user',
+}
@@ -1,4 +1,7 @@
 export enum MarketStatus {
+  DRAFT = 'draft',
+  PENDING_REVIEW = 'pending_review',
+  PENDING_DEPLOYMENT = 'pending_deployment',
   ACTIVE = 'active',
   PENDING_RESOLUTION = 'pending_resolution',
   RESOLVED = 'resolved',
@@ -0,0 +1,4 @@
+export enum MarketType {
+  CATEGORICAL = 'categorical', // One of 2-4 outcomes wins
+  SCALAR = 'scalar', // Long/short positions paid out on a value within a numeric range
+}
@@ -0,0 +1,4 @@
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly', // On recurrenceDayOfWeek
+}
@@ -0,0 +1,6 @@
+export enum ResolutionProposalStatus {
+  PENDING = 'pending', // Waiting for the challenge window to close
+  EXECUTED = 'executed',
+  REJECTED = 'rejected',
+  FAILED = 'failed',
+}
@@ -0,0 +1,5 @@
+export enum ResolverType {
+  PRICE_THRESHOLD = 'price_threshold',
+  SPORTS_SCORE = 'sports_score',
+  TWITTER_FOLLOWERS = 'twitter_followers',
+}
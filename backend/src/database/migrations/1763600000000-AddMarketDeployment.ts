@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketDeployment1763600000000 implements MigrationInterface {
+  name = 'AddMarketDeployment1763600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // On-chain market id assigned by OpinionMarket.createMarket
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "onChainMarketId" varchar`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_markets_onChainMarketId" ON "markets"("onChainMarketId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_markets_onChainMarketId"`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "onChainMarketId"`,
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProbabilitySnapshots1763700000000
+  implements MigrationInterface
+{
+  name = 'AddProbabilitySnapshots1763700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Outcome probabilities recorded after every trade, used for market charts
+    await queryRunner.query(`
+      CREATE TABLE "probability_snapshots" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "tradeId" uuid,
+        "probabilities" jsonb NOT NULL,
+        "volume" decimal(18,6) DEFAULT '0',
+        "timestamp" timestamp NOT NULL,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_probability_snapshots_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_probability_snapshots_trade" FOREIGN KEY ("tradeId") REFERENCES "trades"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_probability_snapshots_marketId_timestamp" ON "probability_snapshots"("marketId", "timestamp")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_probability_snapshots_marketId_timestamp"`,
+    );
+    await queryRunner.query(`DROP TABLE "probability_snapshots"`);
+  }
+}
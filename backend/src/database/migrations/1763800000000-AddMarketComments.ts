@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketComments1763800000000 implements MigrationInterface {
+  name = 'AddMarketComments1763800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create market_comments table
+    await queryRunner.query(`
+      CREATE TABLE "market_comments" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "parentId" uuid,
+        "content" text NOT NULL,
+        "status" varchar NOT NULL DEFAULT 'visible',
+        "likeCount" integer DEFAULT 0,
+        "replyCount" integer DEFAULT 0,
+        "editedAt" timestamp,
+        "removedBy" uuid,
+        "removalReason" text,
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_market_comments_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_market_comments_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_market_comments_parent" FOREIGN KEY ("parentId") REFERENCES "market_comments"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_comments_marketId_createdAt" ON "market_comments"("marketId", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_comments_parentId" ON "market_comments"("parentId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_comments_userId_createdAt" ON "market_comments"("userId", "createdAt")`,
+    );
+
+    // Create comment_likes table
+    await queryRunner.query(`
+      CREATE TABLE "comment_likes" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "commentId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_comment_likes_comment" FOREIGN KEY ("commentId") REFERENCES "market_comments"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_comment_likes_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "UQ_comment_likes_comment_user" UNIQUE ("commentId", "userId")
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_comment_likes_userId" ON "comment_likes"("userId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "comment_likes"`);
+    await queryRunner.query(`DROP TABLE "market_comments"`);
+  }
+}
@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketActivities1763900000000 implements MigrationInterface {
+  name = 'AddMarketActivities1763900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Chronological per-market feed of trades, comments and platform actions
+    await queryRunner.query(`
+      CREATE TABLE "market_activities" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "type" varchar NOT NULL,
+        "actorId" uuid,
+        "referenceId" uuid,
+        "data" jsonb NOT NULL DEFAULT '{}',
+        "occurredAt" timestamp NOT NULL,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_market_activities_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_market_activities_actor" FOREIGN KEY ("actorId") REFERENCES "users"("id")
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_activities_marketId_occurredAt" ON "market_activities"("marketId", "occurredAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_activities_marketId_type_occurredAt" ON "market_activities"("marketId", "type", "occurredAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_activities_referenceId" ON "market_activities"("referenceId")`,
+    );
+
+    // Backfill existing trades and visible comments
+    await queryRunner.query(`
+      INSERT INTO "market_activities" ("marketId", "type", "actorId", "referenceId", "data", "occurredAt")
+      SELECT t."marketId", 'trade', t."userId", t."id",
+        jsonb_build_object(
+          'action', t."action",
+          'outcomeIndex', o."outcomeIndex",
+          'outcomeText', o."text",
+          'shares', t."shares",
+          'amount', t."amount",
+          'price', t."price",
+          'walletAddress', t."walletAddress",
+          'txHash', t."txHash"
+        ),
+        date_trunc('milliseconds', COALESCE(t."blockTimestamp", t."createdAt"))
+      FROM "trades" t
+      INNER JOIN "outcomes" o ON o."id" = t."outcomeId"
+    `);
+    await queryRunner.query(`
+      INSERT INTO "market_activities" ("marketId", "type", "actorId", "referenceId", "data", "occurredAt")
+      SELECT c."marketId", 'comment', c."userId", c."id",
+        jsonb_build_object('content', c."content", 'parentId', c."parentId"),
+        date_trunc('milliseconds', c."createdAt")
+      FROM "market_comments" c
+      WHERE c."status" = 'visible'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_market_activities_referenceId"`);
+    await queryRunner.query(
+      `DROP INDEX "IDX_market_activities_marketId_type_occurredAt"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_market_activities_marketId_occurredAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "market_activities"`);
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketStatusHistory1764000000000 implements MigrationInterface {
+  name = 'AddMarketStatusHistory1764000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Resolution SLA tracking for markets awaiting resolution
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "resolutionDeadline" timestamp`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "resolutionEscalatedAt" timestamp`,
+    );
+    await queryRunner.query(`
+      UPDATE "markets"
+      SET "resolutionDeadline" = "endTime" + interval '1 hour'
+      WHERE "status" = 'pending_resolution'
+    `);
+
+    // Audit trail of every market status change
+    await queryRunner.query(`
+      CREATE TABLE "market_status_history" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "fromStatus" varchar NOT NULL,
+        "toStatus" varchar NOT NULL,
+        "source" varchar NOT NULL,
+        "changedBy" uuid,
+        "reason" text,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_market_status_history_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_status_history_marketId_createdAt" ON "market_status_history"("marketId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_market_status_history_marketId_createdAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "market_status_history"`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "resolutionEscalatedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "resolutionDeadline"`,
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOracleResolvers1764100000000 implements MigrationInterface {
+  name = 'AddOracleResolvers1764100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Oracle adapter declared at market creation
+    await queryRunner.query(`ALTER TABLE "markets" ADD "resolverType" varchar`);
+    await queryRunner.query(`ALTER TABLE "markets" ADD "resolverParams" jsonb`);
+
+    // Outcomes proposed by oracle adapters, executed after a challenge window
+    await queryRunner.query(`
+      CREATE TABLE "resolution_proposals" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "resolverType" varchar NOT NULL,
+        "proposedOutcomeIndex" integer NOT NULL,
+        "evidence" jsonb NOT NULL DEFAULT '{}',
+        "status" varchar NOT NULL DEFAULT 'pending',
+        "challengeEndsAt" timestamp NOT NULL,
+        "executedAt" timestamp,
+        "reviewedBy" uuid,
+        "statusReason" text,
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_resolution_proposals_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_resolution_proposals_marketId" ON "resolution_proposals"("marketId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_resolution_proposals_status_challengeEndsAt" ON "resolution_proposals"("status", "challengeEndsAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_resolution_proposals_status_challengeEndsAt"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_resolution_proposals_marketId"`);
+    await queryRunner.query(`DROP TABLE "resolution_proposals"`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "resolverParams"`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "resolverType"`);
+  }
+}
@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketDisputes1764200000000 implements MigrationInterface {
+  name = 'AddMarketDisputes1764200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create market_disputes table
+    await queryRunner.query(`
+      CREATE TABLE "market_disputes" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "raisedBy" uuid NOT NULL,
+        "reason" text NOT NULL,
+        "evidenceUrls" jsonb NOT NULL DEFAULT '[]',
+        "bondAmount" decimal(18,6),
+        "bondTxHash" varchar,
+        "previousStatus" varchar NOT NULL,
+        "originalOutcomeIndex" integer,
+        "status" varchar NOT NULL DEFAULT 'open',
+        "finalOutcomeIndex" integer,
+        "adjudicatedBy" uuid,
+        "adjudicationNote" text,
+        "adjudicatedAt" timestamp,
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_market_disputes_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_market_disputes_user" FOREIGN KEY ("raisedBy") REFERENCES "users"("id")
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_disputes_marketId_createdAt" ON "market_disputes"("marketId", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_disputes_status_createdAt" ON "market_disputes"("status", "createdAt")`,
+    );
+
+    // Create notifications table
+    await queryRunner.query(`
+      CREATE TABLE "notifications" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "type" varchar NOT NULL,
+        "title" varchar NOT NULL,
+        "message" text NOT NULL,
+        "data" jsonb,
+        "read" boolean DEFAULT false,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_notifications_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_notifications_userId_createdAt" ON "notifications"("userId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "notifications"`);
+    await queryRunner.query(`DROP TABLE "market_disputes"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLimitOrders1764300000000 implements MigrationInterface {
+  name = 'AddLimitOrders1764300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create limit_orders table
+    await queryRunner.query(`
+      CREATE TABLE "limit_orders" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "outcomeId" uuid NOT NULL,
+        "walletAddress" varchar NOT NULL,
+        "side" varchar NOT NULL,
+        "amount" decimal(18,6) NOT NULL,
+        "filledAmount" decimal(18,6) DEFAULT 0,
+        "limitProbability" decimal(5,2) NOT NULL,
+        "status" varchar NOT NULL DEFAULT 'open',
+        "expiresAt" timestamp NOT NULL,
+        "triggeredAt" timestamp,
+        "triggerProbability" decimal(5,2),
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_limit_orders_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_limit_orders_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_limit_orders_outcome" FOREIGN KEY ("outcomeId") REFERENCES "outcomes"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_limit_orders_marketId_status" ON "limit_orders"("marketId", "status")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_limit_orders_userId_marketId" ON "limit_orders"("userId", "marketId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_limit_orders_status_expiresAt" ON "limit_orders"("status", "expiresAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "limit_orders"`);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddScalarMarkets1764400000000 implements MigrationInterface {
+  name = 'AddScalarMarkets1764400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Scalar markets pay long/short positions on a value within a range
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "marketType" varchar NOT NULL DEFAULT 'categorical'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "scalarLowerBound" decimal(18,6)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "scalarUpperBound" decimal(18,6)`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" ADD "scalarUnit" varchar`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "resolvedValue" decimal(18,6)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "resolvedValue"`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "scalarUnit"`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "scalarUpperBound"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "scalarLowerBound"`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "marketType"`);
+  }
+}
@@ -0,0 +1,90 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketTemplates1764500000000 implements MigrationInterface {
+  name = 'AddMarketTemplates1764500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create market_templates table
+    await queryRunner.query(`
+      CREATE TABLE "market_templates" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "creatorId" uuid NOT NULL,
+        "name" varchar NOT NULL,
+        "currentVersion" integer NOT NULL DEFAULT 1,
+        "titleTemplate" varchar NOT NULL,
+        "descriptionTemplate" text NOT NULL,
+        "category" varchar NOT NULL DEFAULT 'other',
+        "outcomes" jsonb NOT NULL,
+        "duration" integer NOT NULL,
+        "resolutionCriteria" text,
+        "evidenceLinks" text,
+        "tags" text,
+        "recurrenceFrequency" varchar,
+        "recurrenceDayOfWeek" integer,
+        "recurrenceTime" varchar,
+        "active" boolean NOT NULL DEFAULT true,
+        "nextRunAt" timestamp,
+        "lastRunAt" timestamp,
+        "instanceCount" integer NOT NULL DEFAULT 0,
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_market_templates_creator" FOREIGN KEY ("creatorId") REFERENCES "creators"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_templates_creatorId" ON "market_templates"("creatorId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_templates_active_nextRunAt" ON "market_templates"("active", "nextRunAt")`,
+    );
+
+    // Snapshots of template content, one per version
+    await queryRunner.query(`
+      CREATE TABLE "market_template_versions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "templateId" uuid NOT NULL,
+        "version" integer NOT NULL,
+        "titleTemplate" varchar NOT NULL,
+        "descriptionTemplate" text NOT NULL,
+        "category" varchar NOT NULL,
+        "outcomes" jsonb NOT NULL,
+        "duration" integer NOT NULL,
+        "resolutionCriteria" text,
+        "evidenceLinks" text,
+        "tags" text,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_market_template_versions_template" FOREIGN KEY ("templateId") REFERENCES "market_templates"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_market_template_versions_templateId_version" ON "market_template_versions"("templateId", "version")`,
+    );
+
+    // Link instances to the template version they were created from
+    await queryRunner.query(`ALTER TABLE "markets" ADD "templateId" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "templateVersionId" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD CONSTRAINT "FK_markets_template_version" FOREIGN KEY ("templateVersionId") REFERENCES "market_template_versions"("id") ON DELETE SET NULL`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_markets_templateId" ON "markets"("templateId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_markets_templateId"`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP CONSTRAINT "FK_markets_template_version"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "templateVersionId"`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "templateId"`);
+    await queryRunner.query(`DROP TABLE "market_template_versions"`);
+    await queryRunner.query(`DROP TABLE "market_templates"`);
+  }
+}
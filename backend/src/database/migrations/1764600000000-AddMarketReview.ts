@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketReview1764600000000 implements MigrationInterface {
+  name = 'AddMarketReview1764600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Drafts and markets awaiting pre-publication review
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "reviewSubmittedAt" timestamp`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" ADD "reviewedBy" uuid`);
+    await queryRunner.query(`ALTER TABLE "markets" ADD "reviewedAt" timestamp`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "reviewRejectionReason" text`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_markets_review_queue" ON "markets"("reviewSubmittedAt") WHERE "status" = 'pending_review'`,
+    );
+
+    // Trusted creators publish without review
+    await queryRunner.query(
+      `ALTER TABLE "creators" ADD "trusted" boolean NOT NULL DEFAULT false`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "creators" DROP COLUMN "trusted"`);
+    await queryRunner.query(`DROP INDEX "IDX_markets_review_queue"`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "reviewRejectionReason"`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "reviewedAt"`);
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "reviewedBy"`);
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "reviewSubmittedAt"`,
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLiquidityPositions1764700000000 implements MigrationInterface {
+  name = 'AddLiquidityPositions1764700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create liquidity_positions table
+    await queryRunner.query(`
+      CREATE TABLE "liquidity_positions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "userId" uuid,
+        "walletAddress" varchar NOT NULL,
+        "amount" decimal(18,6) NOT NULL,
+        "feesEarned" decimal(18,6) DEFAULT 0,
+        "withdrawnAmount" decimal(18,6) DEFAULT 0,
+        "txHash" varchar,
+        "withdrawTxHash" varchar,
+        "withdrawnAt" timestamp,
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_liquidity_positions_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_liquidity_positions_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_liquidity_positions_marketId_walletAddress" ON "liquidity_positions"("marketId", "walletAddress")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_liquidity_positions_userId" ON "liquidity_positions"("userId")`,
+    );
+
+    // Requested seed, sent to the creator to sign once the market is on-chain
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "seedLiquidityAmount" decimal(18,6)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "outcomes" ADD "seedLiquidity" decimal(18,6) DEFAULT 0`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "outcomes" DROP COLUMN "seedLiquidity"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "seedLiquidityAmount"`,
+    );
+    await queryRunner.query(`DROP TABLE "liquidity_positions"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPositionRefunds1764800000000 implements MigrationInterface {
+  name = 'AddPositionRefunds1764800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Stakes claimed back from cancelled markets
+    await queryRunner.query(
+      `ALTER TABLE "positions" ADD "refunded" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "positions" ADD "refundedAmount" decimal(18,6)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "positions" ADD "refundedAt" timestamp`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "positions" DROP COLUMN "refundedAt"`);
+    await queryRunner.query(
+      `ALTER TABLE "positions" DROP COLUMN "refundedAmount"`,
+    );
+    await queryRunner.query(`ALTER TABLE "positions" DROP COLUMN "refunded"`);
+  }
+}
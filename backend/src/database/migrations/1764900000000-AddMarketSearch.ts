@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketSearch1764900000000 implements MigrationInterface {
+  name = 'AddMarketSearch1764900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Weighted full-text document kept up to date by Postgres
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "searchVector" tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('english', replace(coalesce("tags", ''), ',', ' ')), 'B') ||
+        setweight(to_tsvector('english', coalesce("description", '')), 'C')
+      ) STORED`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_markets_searchVector" ON "markets" USING GIN ("searchVector")`,
+    );
+
+    // Tags are stored comma-separated; index them as an array for containment filters
+    await queryRunner.query(
+      `CREATE INDEX "IDX_markets_tags" ON "markets" USING GIN (string_to_array("tags", ','))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_markets_totalVolume" ON "markets"("totalVolume")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_markets_totalVolume"`);
+    await queryRunner.query(`DROP INDEX "IDX_markets_tags"`);
+    await queryRunner.query(`DROP INDEX "IDX_markets_searchVector"`);
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "searchVector"`);
+  }
+}
@@ -0,0 +1,70 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWatchlistsAndFollows1765000000000
+  implements MigrationInterface
+{
+  name = 'AddWatchlistsAndFollows1765000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create market_watches table
+    await queryRunner.query(`
+      CREATE TABLE "market_watches" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "marketId" uuid NOT NULL,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "UQ_market_watches_userId_marketId" UNIQUE ("userId", "marketId"),
+        CONSTRAINT "FK_market_watches_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_market_watches_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_watches_marketId" ON "market_watches"("marketId")`,
+    );
+
+    // Create creator_follows table
+    await queryRunner.query(`
+      CREATE TABLE "creator_follows" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "creatorId" uuid NOT NULL,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "UQ_creator_follows_userId_creatorId" UNIQUE ("userId", "creatorId"),
+        CONSTRAINT "FK_creator_follows_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_creator_follows_creator" FOREIGN KEY ("creatorId") REFERENCES "creators"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_creator_follows_creatorId" ON "creator_follows"("creatorId")`,
+    );
+
+    // Followers on the platform, distinct from the Twitter followerCount
+    await queryRunner.query(
+      `ALTER TABLE "creators" ADD "platformFollowerCount" integer DEFAULT 0`,
+    );
+
+    // Set once watchers have been alerted, so each alert is sent once
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "endingSoonAlertedAt" timestamp`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "resolvedAlertedAt" timestamp`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "resolvedAlertedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "markets" DROP COLUMN "endingSoonAlertedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "creators" DROP COLUMN "platformFollowerCount"`,
+    );
+    await queryRunner.query(`DROP TABLE "creator_follows"`);
+    await queryRunner.query(`DROP TABLE "market_watches"`);
+  }
+}
@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketPauses1765100000000 implements MigrationInterface {
+  name = 'AddMarketPauses1765100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Mirrors the per-market paused flag of OpinionMarket
+    await queryRunner.query(
+      `ALTER TABLE "markets" ADD "paused" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(`ALTER TABLE "markets" ADD "pausedAt" timestamp`);
+    await queryRunner.query(`ALTER TABLE "markets" ADD "pauseReason" text`);
+
+    // Create market_pause_history table
+    await queryRunner.query(`
+      CREATE TABLE "market_pause_history" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "marketId" uuid NOT NULL,
+        "paused" boolean NOT NULL,
+        "source" varchar NOT NULL,
+        "changedBy" uuid,
+        "reason" text,
+        "txHash" varchar,
+        "createdAt" timestamp DEFAULT now(),
+        CONSTRAINT "FK_market_pause_history_market" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_market_pause_history_marketId_createdAt" ON "market_pause_history"("marketId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "market_pause_history"`);
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "pauseReason"`);
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "pausedAt"`);
+    await queryRunner.query(`ALTER TABLE "markets" DROP COLUMN "paused"`);
+  }
+}
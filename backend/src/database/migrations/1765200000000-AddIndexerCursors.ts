@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddIndexerCursors1765200000000 implements MigrationInterface {
+  name = 'AddIndexerCursors1765200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create indexer_cursors table
+    await queryRunner.query(`
+      CREATE TABLE "indexer_cursors" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "contractName" varchar(100) NOT NULL,
+        "contractAddress" varchar(42) NOT NULL,
+        "chainId" integer NOT NULL,
+        "lastBlock" bigint NOT NULL,
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "UQ_indexer_cursors_chainId_contractAddress" UNIQUE ("chainId", "contractAddress")
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "indexer_cursors"`);
+  }
+}
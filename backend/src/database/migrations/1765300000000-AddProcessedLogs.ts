@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProcessedLogs1765300000000 implements MigrationInterface {
+  name = 'AddProcessedLogs1765300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Hash of the cursor block, to notice reorgs that only touched empty blocks
+    await queryRunner.query(
+      `ALTER TABLE "indexer_cursors" ADD "lastBlockHash" varchar(66)`,
+    );
+
+    // Create processed_logs table
+    await queryRunner.query(`
+      CREATE TABLE "processed_logs" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "chainId" integer NOT NULL,
+        "contractAddress" varchar(42) NOT NULL,
+        "blockNumber" bigint NOT NULL,
+        "blockHash" varchar(66) NOT NULL,
+        "txHash" varchar(66) NOT NULL,
+        "logIndex" integer NOT NULL,
+        "eventName" varchar(100) NOT NULL,
+        "args" jsonb NOT NULL DEFAULT '{}',
+        "createdAt" timestamp DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_processed_logs_chainId_blockNumber" ON "processed_logs"("chainId", "blockNumber")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "processed_logs"`);
+    await queryRunner.query(
+      `ALTER TABLE "indexer_cursors" DROP COLUMN "lastBlockHash"`,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProcessedLogUniqueKey1765400000000
+  implements MigrationInterface
+{
+  name = 'AddProcessedLogUniqueKey1765400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Overlapping backfills could record a log twice; keep the first record
+    await queryRunner.query(`
+      DELETE FROM "processed_logs" a
+      USING "processed_logs" b
+      WHERE a."chainId" = b."chainId"
+        AND a."txHash" = b."txHash"
+        AND a."logIndex" = b."logIndex"
+        AND (a."createdAt", a."id") > (b."createdAt", b."id")
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "processed_logs" ADD CONSTRAINT "UQ_processed_logs_chainId_txHash_logIndex" UNIQUE ("chainId", "txHash", "logIndex")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "processed_logs" DROP CONSTRAINT "UQ_processed_logs_chainId_txHash_logIndex"`,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFailedEvents1765500000000 implements MigrationInterface {
+  name = 'AddFailedEvents1765500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create failed_events table
+    await queryRunner.query(`
+      CREATE TABLE "failed_events" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "chainId" integer NOT NULL,
+        "contractName" varchar(100) NOT NULL,
+        "contractAddress" varchar(42) NOT NULL,
+        "eventName" varchar(100) NOT NULL,
+        "blockNumber" bigint NOT NULL,
+        "txHash" varchar(66) NOT NULL,
+        "logIndex" integer NOT NULL,
+        "rawLog" jsonb NOT NULL,
+        "args" jsonb NOT NULL DEFAULT '{}',
+        "error" text NOT NULL,
+        "stack" text,
+        "attempts" integer NOT NULL DEFAULT 0,
+        "status" varchar NOT NULL DEFAULT 'failed',
+        "lastAttemptAt" timestamp,
+        "replayedAt" timestamp,
+        "replayedBy" uuid,
+        "createdAt" timestamp DEFAULT now(),
+        "updatedAt" timestamp DEFAULT now(),
+        CONSTRAINT "UQ_failed_events_chainId_txHash_logIndex" UNIQUE ("chainId", "txHash", "logIndex")
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_failed_events_status_createdAt" ON "failed_events"("status", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "failed_events"`);
+  }
+}
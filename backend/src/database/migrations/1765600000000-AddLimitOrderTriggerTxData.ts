@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLimitOrderTriggerTxData1765600000000
+  implements MigrationInterface
+{
+  name = 'AddLimitOrderTriggerTxData1765600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Calldata sent with the trigger notification, matched against on-chain trades
+    await queryRunner.query(
+      `ALTER TABLE "limit_orders" ADD "triggerTxData" text`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "limit_orders" DROP COLUMN "triggerTxData"`,
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDisputeSettlementTx1765700000000 implements MigrationInterface {
+  name = 'AddDisputeSettlementTx1765700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Disputes are opened by a disputeMarket transaction that escrows the bond
+    await queryRunner.query(
+      `ALTER TABLE "market_disputes" RENAME COLUMN "bondTxHash" TO "txHash"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "market_disputes" ADD CONSTRAINT "UQ_market_disputes_txHash" UNIQUE ("txHash")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "market_disputes" ADD "settlementTxHash" varchar`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "market_disputes" DROP COLUMN "settlementTxHash"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "market_disputes" DROP CONSTRAINT "UQ_market_disputes_txHash"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "market_disputes" RENAME COLUMN "txHash" TO "bondTxHash"`,
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLimitOrderFills1765800000000 implements MigrationInterface {
+  name = 'AddLimitOrderFills1765800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Transactions that filled each order, so a reorg can take the fill back
+    await queryRunner.query(
+      `ALTER TABLE "limit_orders" ADD "fills" jsonb NOT NULL DEFAULT '[]'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "limit_orders" DROP COLUMN "fills"`);
+  }
+}
@@ -0,0 +1,66 @@
+// Polyfill for crypto global (needed for @nestjs/typeorm)
+import * as crypto from 'crypto';
+(global as any).crypto = crypto;
+
+import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { AppModule } from '../../app.module';
+import { BlockchainConfig } from '../../config/blockchain.config';
+import { EventIndexerService } from '../../contracts/event-indexer.service';
+
+/**
+ * Index contract logs from a block, e.g. the deployment block, up to the confirmed head.
+ * Usage: npm run indexer:backfill [-- <fromBlock> [toBlock]]
+ */
+async function backfillEvents(fromArg?: string, toArg?: string) {
+  console.log('⏪ Backfilling contract events...\n');
+
+  // The live poller would race the backfill over the same blocks
+  process.env.INDEXER_ENABLED = 'false';
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+  console.log('✅ Application context initialized\n');
+
+  try {
+    const config = app.get(ConfigService).get<BlockchainConfig>('blockchain');
+    const fromBlock = parseInt(
+      fromArg ?? String(config?.indexer.startBlock ?? 0),
+      10,
+    );
+    const toBlock = toArg ? parseInt(toArg, 10) : undefined;
+
+    if (!(fromBlock > 0)) {
+      throw new Error('Pass a start block or set INDEXER_START_BLOCK');
+    }
+
+    const results = await app
+      .get(EventIndexerService)
+      .backfill(fromBlock, toBlock);
+
+    for (const result of results) {
+      console.log(
+        `  ${result.contractName}: ${result.logs} logs in blocks ${result.fromBlock}-${result.toBlock}`,
+      );
+    }
+
+    console.log(`\n✅ Backfilled ${results.length} contracts`);
+  } catch (error) {
+    console.error('❌ Error during backfill:', error);
+    throw error;
+  } finally {
+    await app.close();
+    console.log('✅ Application context closed');
+  }
+}
+
+backfillEvents(process.argv[2], process.argv[3])
+  .then(() => {
+    console.log('✅ Backfill finished');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  });
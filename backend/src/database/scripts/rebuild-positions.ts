@@ -0,0 +1,48 @@
+import 'reflect-metadata';
+import dataSource from '../data-source';
+import { Market } from '../entities/market.entity';
+import { PositionAccountingService } from '../../modules/markets/position-accounting.service';
+
+/**
+ * Replay every trade to recompute positions and market stats.
+ * Usage: npm run positions:rebuild [-- <marketId>]
+ */
+async function rebuildPositions(marketId?: string) {
+  console.log('🔁 Rebuilding positions from trades...\n');
+
+  try {
+    await dataSource.initialize();
+    console.log('✅ Data source initialized\n');
+
+    const accounting = new PositionAccountingService(
+      dataSource.getRepository(Market),
+    );
+    const results = marketId
+      ? [await accounting.rebuildMarket(marketId)]
+      : await accounting.rebuildAll();
+
+    for (const result of results) {
+      console.log(
+        `  ${result.marketId}: ${result.trades} trades, ${result.positions} positions, ${result.participantCount} participants`,
+      );
+    }
+
+    console.log(`\n✅ Rebuilt ${results.length} markets`);
+  } catch (error) {
+    console.error('❌ Error during rebuild:', error);
+    throw error;
+  } finally {
+    await dataSource.destroy();
+    console.log('✅ Data source destroyed');
+  }
+}
+
+rebuildPositions(process.argv[2])
+  .then(() => {
+    console.log('✅ Rebuild finished');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Rebuild failed:', error);
+    process.exit(1);
+  });
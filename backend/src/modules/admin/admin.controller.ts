@@ -8,6 +8,7 @@ import {
   Param,
   Query,
   UseGuards,
+  Req,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -17,6 +18,7 @@ import {
   ApiParam,
 } from '@nestjs/swagger';
 import { AdminService } from './admin.service';
+import { OracleResolutionService } from './oracle-resolution.service';
 import { AdminAuthGuard } from '../auth/guards/admin-auth.guard';
 import {
   PendingMarketsQueryDto,
@@ -40,6 +42,31 @@ import {
   TriggerJobResponseDto,
   ErrorLogsResponseDto,
   PauseContractsResponseDto,
+  RemoveCommentDto,
+  RemoveCommentResponseDto,
+  MarketStatusHistoryResponseDto,
+  PauseMarketDto,
+  UnpauseMarketDto,
+  MarketPauseResponseDto,
+  MarketPauseHistoryResponseDto,
+  ResolutionProposalsQueryDto,
+  ResolutionProposalDto,
+  ResolutionProposalListResponseDto,
+  RejectProposalDto,
+  DisputesQueryDto,
+  DisputeListResponseDto,
+  AdjudicateDisputeDto,
+  AdjudicateDisputeResponseDto,
+  ReviewQueueQueryDto,
+  ReviewQueueResponseDto,
+  RejectMarketDto,
+  ReviewMarketResponseDto,
+  CreatorTrustDto,
+  FailedEventsQueryDto,
+  FailedEventsResponseDto,
+  FailedEventDto,
+  ReplayFailedEventsDto,
+  ReplayFailedEventsResponseDto,
 } from './dto';
 
 @ApiTags('Admin')
@@ -47,7 +74,10 @@ import {
 @UseGuards(AdminAuthGuard)
 @ApiBearerAuth()
 export class AdminController {
-  constructor(private readonly adminService: AdminService) {}
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly oracleResolutionService: OracleResolutionService,
+  ) {}
 
   /**
    * GET /admin/markets/pending - Get markets awaiting resolution
@@ -71,13 +101,112 @@ export class AdminController {
     return this.adminService.getPendingMarkets(query);
   }
 
+  /**
+   * GET /admin/markets/review - Get markets awaiting pre-publication review
+   */
+  @Get('markets/review')
+  @ApiOperation({
+    summary: 'Get markets awaiting review (admin only)',
+    description:
+      'Returns markets from new or low-reputation creators waiting to be approved or rejected, oldest submission first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Review queue retrieved',
+    type: ReviewQueueResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getReviewQueue(
+    @Query() query: ReviewQueueQueryDto,
+  ): Promise<ReviewQueueResponseDto> {
+    return this.adminService.getReviewQueue(query);
+  }
+
+  /**
+   * POST /admin/markets/:id/approve - Approve a market in review
+   */
+  @Post('markets/:id/approve')
+  @ApiOperation({
+    summary: 'Approve a market awaiting review (admin only)',
+    description:
+      'Starts the market clock and deploys it on-chain from the platform wallet',
+  })
+  @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Market approved',
+    type: ReviewMarketResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Market is not awaiting review' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async approveMarket(
+    @Param('id') marketId: string,
+    @Req() req: any,
+  ): Promise<ReviewMarketResponseDto> {
+    return this.adminService.approveMarket(marketId, req.user.userId);
+  }
+
+  /**
+   * POST /admin/markets/:id/reject - Reject a market in review
+   */
+  @Post('markets/:id/reject')
+  @ApiOperation({
+    summary: 'Reject a market awaiting review (admin only)',
+    description:
+      'Sends the market back to the creator as an editable draft with the rejection reason',
+  })
+  @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Market rejected',
+    type: ReviewMarketResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Market is not awaiting review' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async rejectMarket(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() dto: RejectMarketDto,
+  ): Promise<ReviewMarketResponseDto> {
+    return this.adminService.rejectMarket(marketId, req.user.userId, dto);
+  }
+
+  /**
+   * GET /admin/markets/:id/history - Get market status history
+   */
+  @Get('markets/:id/history')
+  @ApiOperation({
+    summary: 'Get market status history (admin only)',
+    description: 'Returns every status change of the market, oldest first',
+  })
+  @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status history retrieved',
+    type: MarketStatusHistoryResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async getMarketStatusHistory(
+    @Param('id') marketId: string,
+  ): Promise<MarketStatusHistoryResponseDto> {
+    return this.adminService.getMarketStatusHistory(marketId);
+  }
+
   /**
    * POST /admin/markets/:id/resolve - Resolve a market
    */
   @Post('markets/:id/resolve')
   @ApiOperation({
     summary: 'Manually resolve a market (admin only)',
-    description: 'Sets the winning outcome and triggers payout distribution',
+    description:
+      'Sets the winning outcome (or the resolved value of a scalar market) and triggers payout distribution',
   })
   @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
   @ApiResponse({
@@ -91,9 +220,14 @@ export class AdminController {
   @ApiResponse({ status: 404, description: 'Market not found' })
   async resolveMarket(
     @Param('id') marketId: string,
+    @Req() req: any,
     @Body() resolveDto: ResolveMarketDto,
   ): Promise<ResolveMarketResponseDto> {
-    return this.adminService.resolveMarket(marketId, resolveDto);
+    return this.adminService.resolveMarket(
+      marketId,
+      resolveDto,
+      req.user.userId,
+    );
   }
 
   /**
@@ -102,7 +236,8 @@ export class AdminController {
   @Post('markets/:id/dispute')
   @ApiOperation({
     summary: 'Mark market as disputed (admin only)',
-    description: 'Flags market for manual review due to resolution issues',
+    description:
+      'Opens a dispute on behalf of the platform and flags the market for review. Resolved on-chain markets are disputed on the contract too, which locks claims.',
   })
   @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
   @ApiResponse({
@@ -116,9 +251,14 @@ export class AdminController {
   @ApiResponse({ status: 404, description: 'Market not found' })
   async disputeMarket(
     @Param('id') marketId: string,
+    @Req() req: any,
     @Body() disputeDto: DisputeMarketDto,
   ): Promise<DisputeMarketResponseDto> {
-    return this.adminService.disputeMarket(marketId, disputeDto);
+    return this.adminService.disputeMarket(
+      marketId,
+      disputeDto,
+      req.user.userId,
+    );
   }
 
   /**
@@ -147,12 +287,13 @@ export class AdminController {
   }
 
   /**
-   * DELETE /admin/markets/:id/cancel - Cancel market and refund users
+   * DELETE /admin/markets/:id/cancel - Cancel market and open refund claims
    */
   @Delete('markets/:id/cancel')
   @ApiOperation({
-    summary: 'Cancel market and optionally refund users (admin only)',
-    description: 'Cancels market and processes refunds if requested',
+    summary: 'Cancel market and open refund claims (admin only)',
+    description:
+      'Cancels the market on-chain; each participant then claims back their net stake with POST /markets/:id/refund. With refundUsers, participants are notified.',
   })
   @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
   @ApiResponse({
@@ -160,15 +301,235 @@ export class AdminController {
     description: 'Market cancelled successfully',
     type: CancelMarketResponseDto,
   })
-  @ApiResponse({ status: 400, description: 'Cannot cancel resolved market' })
+  @ApiResponse({
+    status: 400,
+    description: 'Market is already resolved, cancelled or disputed',
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Admin access required' })
   @ApiResponse({ status: 404, description: 'Market not found' })
   async cancelMarket(
     @Param('id') marketId: string,
+    @Req() req: any,
     @Body() cancelDto: CancelMarketDto,
   ): Promise<CancelMarketResponseDto> {
-    return this.adminService.cancelMarket(marketId, cancelDto);
+    return this.adminService.cancelMarket(marketId, cancelDto, req.user.userId);
+  }
+
+  /**
+   * POST /admin/markets/:id/pause - Pause trading on a market
+   */
+  @Post('markets/:id/pause')
+  @ApiOperation({
+    summary: 'Pause trading on a single market (admin only)',
+    description:
+      'Calls pauseMarket on-chain so bets and sells revert, and records the reason in the pause history',
+  })
+  @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Market paused',
+    type: MarketPauseResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Market is not active or already paused',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async pauseMarket(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() pauseDto: PauseMarketDto,
+  ): Promise<MarketPauseResponseDto> {
+    return this.adminService.pauseMarket(marketId, pauseDto, req.user.userId);
+  }
+
+  /**
+   * POST /admin/markets/:id/unpause - Resume trading on a market
+   */
+  @Post('markets/:id/unpause')
+  @ApiOperation({ summary: 'Resume trading on a paused market (admin only)' })
+  @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Market unpaused',
+    type: MarketPauseResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Market is not paused' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async unpauseMarket(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() unpauseDto: UnpauseMarketDto,
+  ): Promise<MarketPauseResponseDto> {
+    return this.adminService.unpauseMarket(
+      marketId,
+      unpauseDto,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * GET /admin/markets/:id/pause-history - Get market pause history
+   */
+  @Get('markets/:id/pause-history')
+  @ApiOperation({
+    summary: 'Get market pause history (admin only)',
+    description:
+      'Returns every pause and unpause of the market, oldest first, including those made directly on-chain',
+  })
+  @ApiParam({ name: 'id', description: 'Market ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pause history retrieved',
+    type: MarketPauseHistoryResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async getMarketPauseHistory(
+    @Param('id') marketId: string,
+  ): Promise<MarketPauseHistoryResponseDto> {
+    return this.adminService.getMarketPauseHistory(marketId);
+  }
+
+  /**
+   * GET /admin/resolution-proposals - List oracle resolution proposals
+   */
+  @Get('resolution-proposals')
+  @ApiOperation({
+    summary: 'List oracle resolution proposals (admin only)',
+    description:
+      'Pending proposals resolve their market automatically once the challenge window closes',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Proposals retrieved',
+    type: ResolutionProposalListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getResolutionProposals(
+    @Query() query: ResolutionProposalsQueryDto,
+  ): Promise<ResolutionProposalListResponseDto> {
+    return this.oracleResolutionService.getProposals(query);
+  }
+
+  /**
+   * POST /admin/resolution-proposals/:id/reject - Reject an oracle proposal
+   */
+  @Post('resolution-proposals/:id/reject')
+  @ApiOperation({
+    summary: 'Reject an oracle resolution proposal (admin only)',
+    description:
+      'Stops a pending proposal from executing; the market then needs manual resolution',
+  })
+  @ApiParam({ name: 'id', description: 'Proposal ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Proposal rejected',
+    type: ResolutionProposalDto,
+  })
+  @ApiResponse({ status: 400, description: 'Proposal is not pending' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Proposal not found' })
+  async rejectResolutionProposal(
+    @Param('id') proposalId: string,
+    @Req() req: any,
+    @Body() rejectDto: RejectProposalDto,
+  ): Promise<ResolutionProposalDto> {
+    return this.oracleResolutionService.rejectProposal(
+      proposalId,
+      req.user.userId,
+      rejectDto,
+    );
+  }
+
+  /**
+   * GET /admin/disputes - List market disputes
+   */
+  @Get('disputes')
+  @ApiOperation({
+    summary: 'List market disputes (admin only)',
+    description: 'Open disputes keep their market frozen until adjudicated',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Disputes retrieved',
+    type: DisputeListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getDisputes(
+    @Query() query: DisputesQueryDto,
+  ): Promise<DisputeListResponseDto> {
+    return this.adminService.getDisputes(query);
+  }
+
+  /**
+   * POST /admin/disputes/:id/adjudicate - Uphold or overturn a dispute
+   */
+  @Post('disputes/:id/adjudicate')
+  @ApiOperation({
+    summary: 'Adjudicate a market dispute (admin only)',
+    description:
+      'Upholding restores the original result; overturning re-resolves the market to a new winning outcome. Disputes on resolved on-chain markets are settled by the contract, which refunds or keeps the bond.',
+  })
+  @ApiParam({ name: 'id', description: 'Dispute ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Dispute adjudicated',
+    type: AdjudicateDisputeResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Dispute is not open' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  async adjudicateDispute(
+    @Param('id') disputeId: string,
+    @Req() req: any,
+    @Body() adjudicateDto: AdjudicateDisputeDto,
+  ): Promise<AdjudicateDisputeResponseDto> {
+    return this.adminService.adjudicateDispute(
+      disputeId,
+      req.user.userId,
+      adjudicateDto,
+    );
+  }
+
+  /**
+   * DELETE /admin/comments/:id - Remove a comment
+   */
+  @Delete('comments/:id')
+  @ApiOperation({
+    summary: 'Remove a comment (admin only)',
+    description: 'Hides the comment content and records the moderation reason',
+  })
+  @ApiParam({ name: 'id', description: 'Comment ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Comment removed',
+    type: RemoveCommentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Comment already removed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async removeComment(
+    @Param('id') commentId: string,
+    @Req() req: any,
+    @Body() removeDto: RemoveCommentDto,
+  ): Promise<RemoveCommentResponseDto> {
+    return this.adminService.removeComment(
+      commentId,
+      req.user.userId,
+      removeDto,
+    );
   }
 
   /**
@@ -215,6 +576,30 @@ export class AdminController {
     return this.adminService.suspendCreator(creatorId, dto);
   }
 
+  /**
+   * PUT /admin/creators/:id/trust - Let a creator skip market review
+   */
+  @Put('creators/:id/trust')
+  @ApiOperation({
+    summary: 'Set whether a creator is trusted (admin only)',
+    description:
+      'Trusted creators publish markets without pre-publication review',
+  })
+  @ApiParam({ name: 'id', description: 'Creator ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Creator trust updated',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Creator not found' })
+  async setCreatorTrust(
+    @Param('id') creatorId: string,
+    @Body() dto: CreatorTrustDto,
+  ) {
+    return this.adminService.setCreatorTrust(creatorId, dto);
+  }
+
   /**
    * PUT /admin/creators/:id/override-unlock - Manually unlock creator shares
    */
@@ -421,6 +806,77 @@ export class AdminController {
     return this.adminService.getErrorLogs(limit, level);
   }
 
+  /**
+   * GET /admin/events/failed - List chain events in the dead-letter queue
+   */
+  @Get('events/failed')
+  @ApiOperation({
+    summary: 'List failed chain events (admin only)',
+    description:
+      'Returns indexed contract events whose handlers kept failing, with the raw log, decoded args and error',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Failed events retrieved',
+    type: FailedEventsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getFailedEvents(
+    @Query() query: FailedEventsQueryDto,
+  ): Promise<FailedEventsResponseDto> {
+    return this.adminService.getFailedEvents(query);
+  }
+
+  /**
+   * POST /admin/events/failed/replay - Replay a batch of failed chain events
+   */
+  @Post('events/failed/replay')
+  @ApiOperation({
+    summary: 'Replay failed chain events (admin only)',
+    description:
+      'Runs the given failed events, or the oldest ones, through their handlers again in block order',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Events replayed; events that failed again stay in the queue',
+    type: ReplayFailedEventsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async replayFailedEvents(
+    @Body() dto: ReplayFailedEventsDto,
+    @Req() req: any,
+  ): Promise<ReplayFailedEventsResponseDto> {
+    return this.adminService.replayFailedEvents(dto, req.user.userId);
+  }
+
+  /**
+   * POST /admin/events/failed/:id/replay - Replay one failed chain event
+   */
+  @Post('events/failed/:id/replay')
+  @ApiOperation({
+    summary: 'Replay a failed chain event (admin only)',
+    description:
+      'Runs a failed event through its handlers again; a new failure is recorded on the event',
+  })
+  @ApiParam({ name: 'id', description: 'Failed event ID', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Replay attempted',
+    type: FailedEventDto,
+  })
+  @ApiResponse({ status: 400, description: 'Event was already replayed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Failed event not found' })
+  async replayFailedEvent(
+    @Param('id') failedEventId: string,
+    @Req() req: any,
+  ): Promise<FailedEventDto> {
+    return this.adminService.replayFailedEvent(failedEventId, req.user.userId);
+  }
+
   /**
    * POST /admin/contracts/pause - Emergency pause all contracts
    */
@@ -2,13 +2,20 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
+import { OracleResolutionService } from './oracle-resolution.service';
 import { Market } from '../../database/entities/market.entity';
 import { Position } from '../../database/entities/position.entity';
 import { Creator } from '../../database/entities/creator.entity';
 import { User } from '../../database/entities/user.entity';
 import { Trade } from '../../database/entities/trade.entity';
+import { MarketComment } from '../../database/entities/market-comment.entity';
+import { ResolutionProposal } from '../../database/entities/resolution-proposal.entity';
+import { FailedEvent } from '../../database/entities/failed-event.entity';
 import { ContractsModule } from '../../contracts/contracts.module';
 import { AuthModule } from '../auth/auth.module';
+import { MarketsModule } from '../markets/markets.module';
+import { OraclesModule } from '../../oracles/oracles.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
@@ -18,12 +25,18 @@ import { AuthModule } from '../auth/auth.module';
       Creator,
       User,
       Trade,
+      MarketComment,
+      ResolutionProposal,
+      FailedEvent,
     ]),
     ContractsModule,
     AuthModule,
+    MarketsModule,
+    OraclesModule,
+    NotificationsModule,
   ],
   controllers: [AdminController],
-  providers: [AdminService],
+  providers: [AdminService, OracleResolutionService],
   exports: [AdminService],
 })
 export class AdminModule {}
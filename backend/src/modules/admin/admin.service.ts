@@ -5,14 +5,39 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan, MoreThan, Like } from 'typeorm';
+import { ethers } from 'ethers';
+import { Repository, LessThan, MoreThan, Like, In } from 'typeorm';
 import { Market } from '../../database/entities/market.entity';
 import { Position } from '../../database/entities/position.entity';
 import { Creator } from '../../database/entities/creator.entity';
 import { User } from '../../database/entities/user.entity';
 import { Trade } from '../../database/entities/trade.entity';
-import { MarketStatus, CreatorStatus } from '../../database/enums';
+import { MarketComment } from '../../database/entities/market-comment.entity';
+import { FailedEvent } from '../../database/entities/failed-event.entity';
+import {
+  FailedEventStatus,
+  MarketStatus,
+  CreatorStatus,
+  CommentStatus,
+  MarketActivityType,
+  MarketStatusChangeSource,
+} from '../../database/enums';
 import { OpinionMarketService } from '../../contracts/opinion-market.service';
+import { EventIndexerService } from '../../contracts/event-indexer.service';
+import { EventListenerService } from '../../contracts/event-listener.service';
+import { MarketActivityService } from '../markets/market-activity.service';
+import { MarketLifecycleService } from '../markets/market-lifecycle.service';
+import { MarketDisputesService } from '../markets/market-disputes.service';
+import { MarketsService } from '../markets/markets.service';
+import { MarketDeploymentMode } from '../markets/dto';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/dto';
+import {
+  SCALAR_SHORT_INDEX,
+  SCALAR_LONG_INDEX,
+  isScalarMarket,
+  scalarLongPayoutShare,
+} from '../markets/scalar-market';
 import {
   ResolveMarketDto,
   ResolveMarketResponseDto,
@@ -36,6 +61,29 @@ import {
   TriggerJobResponseDto,
   ErrorLogsResponseDto,
   PauseContractsResponseDto,
+  RemoveCommentDto,
+  RemoveCommentResponseDto,
+  MarketStatusHistoryResponseDto,
+  PauseMarketDto,
+  UnpauseMarketDto,
+  MarketPauseResponseDto,
+  MarketPauseHistoryResponseDto,
+  DisputesQueryDto,
+  DisputeListResponseDto,
+  AdjudicateDisputeDto,
+  AdjudicateDisputeResponseDto,
+  DisputeDecision,
+  ReviewQueueQueryDto,
+  ReviewQueueResponseDto,
+  ReviewMarketDto,
+  RejectMarketDto,
+  ReviewMarketResponseDto,
+  CreatorTrustDto,
+  FailedEventsQueryDto,
+  FailedEventsResponseDto,
+  FailedEventDto,
+  ReplayFailedEventsDto,
+  ReplayFailedEventsResponseDto,
 } from './dto';
 
 @Injectable()
@@ -53,7 +101,18 @@ export class AdminService {
     private readonly userRepository: Repository<User>,
     @InjectRepository(Trade)
     private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(MarketComment)
+    private readonly commentRepository: Repository<MarketComment>,
+    @InjectRepository(FailedEvent)
+    private readonly failedEventRepository: Repository<FailedEvent>,
     private readonly opinionMarketService: OpinionMarketService,
+    private readonly eventIndexerService: EventIndexerService,
+    private readonly eventListenerService: EventListenerService,
+    private readonly marketActivityService: MarketActivityService,
+    private readonly marketLifecycleService: MarketLifecycleService,
+    private readonly marketDisputesService: MarketDisputesService,
+    private readonly marketsService: MarketsService,
+    private readonly notificationsService: NotificationsService,
   ) {}
 
   /**
@@ -74,15 +133,13 @@ export class AdminService {
       .andWhere('market.endTime < :now', { now });
 
     if (query.overdue) {
-      // Overdue = more than 60 minutes past end time
-      const sixtyMinutesAgo = new Date(now.getTime() - 60 * 60 * 1000);
-      queryBuilder.andWhere('market.endTime < :sixtyMin', {
-        sixtyMin: sixtyMinutesAgo,
-      });
+      // Overdue = past the resolution deadline set by the market monitor
+      queryBuilder.andWhere('market.resolutionDeadline < :now', { now });
     }
 
     const [markets, total] = await queryBuilder
-      .orderBy('market.endTime', 'ASC')
+      .orderBy('market.resolutionDeadline', 'ASC')
+      .addOrderBy('market.endTime', 'ASC')
       .skip((page - 1) * limit)
       .take(limit)
       .getManyAndCount();
@@ -91,9 +148,7 @@ export class AdminService {
     const overdueCount = await this.marketRepository
       .createQueryBuilder('market')
       .where('market.status = :status', { status: MarketStatus.PENDING_RESOLUTION })
-      .andWhere('market.endTime < :sixtyMin', {
-        sixtyMin: new Date(now.getTime() - 60 * 60 * 1000),
-      })
+      .andWhere('market.resolutionDeadline < :now', { now })
       .getCount();
 
     const marketDtos: PendingMarketDto[] = markets.map((market) => {
@@ -110,6 +165,8 @@ export class AdminService {
         },
         endTime: market.endTime.toISOString(),
         minutesPastEnd,
+        resolutionDeadline: market.resolutionDeadline?.toISOString() ?? null,
+        escalated: market.resolutionEscalatedAt !== null,
         volume: Number(market.totalVolume) || 0,
         totalTrades: market.tradeCount || 0,
         status: market.status,
@@ -131,12 +188,164 @@ export class AdminService {
     };
   }
 
+  /**
+   * Get markets awaiting pre-publication review, oldest submission first
+   */
+  async getReviewQueue(
+    query: ReviewQueueQueryDto,
+  ): Promise<ReviewQueueResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [markets, total] = await this.marketRepository.findAndCount({
+      where: { status: MarketStatus.PENDING_REVIEW },
+      relations: ['creator', 'outcomes'],
+      order: { reviewSubmittedAt: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const marketDtos: ReviewMarketDto[] = markets.map((market) => ({
+      id: market.id,
+      title: market.title,
+      description: market.description,
+      category: market.category,
+      type: market.marketType,
+      outcomes: [...market.outcomes]
+        .sort((a, b) => a.outcomeIndex - b.outcomeIndex)
+        .map((outcome) => outcome.text),
+      duration: market.duration,
+      resolutionCriteria: market.resolutionCriteria ?? undefined,
+      evidenceLinks: market.evidenceLinks ?? undefined,
+      tags: market.tags ?? undefined,
+      creator: {
+        id: market.creator.id,
+        twitterHandle: market.creator.twitterHandle,
+        trusted: market.creator.trusted,
+      },
+      submittedAt: (market.reviewSubmittedAt ?? market.createdAt).toISOString(),
+    }));
+
+    return {
+      markets: marketDtos,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Approve a market in review and deploy it from the platform wallet
+   */
+  async approveMarket(
+    marketId: string,
+    adminId: string,
+  ): Promise<ReviewMarketResponseDto> {
+    const market = await this.findMarketInReview(marketId);
+
+    market.reviewedBy = adminId;
+    market.reviewedAt = new Date();
+
+    const result = await this.marketsService.publishMarket(
+      market,
+      MarketDeploymentMode.SERVER,
+      { source: MarketStatusChangeSource.ADMIN, changedBy: adminId },
+    );
+
+    await this.notificationsService.notify(
+      [market.creator.userId],
+      NotificationType.MARKET_APPROVED,
+      'Market Approved',
+      `"${market.title}" passed review and is being published.`,
+      { marketId: market.id },
+    );
+
+    this.logger.log(`Market ${marketId} approved by admin ${adminId}`);
+
+    return {
+      success: true,
+      market: {
+        id: market.id,
+        status: market.status,
+      },
+      txHash: result.txHash,
+    };
+  }
+
+  /**
+   * Reject a market in review, sending it back to the creator as a draft
+   */
+  async rejectMarket(
+    marketId: string,
+    adminId: string,
+    dto: RejectMarketDto,
+  ): Promise<ReviewMarketResponseDto> {
+    const market = await this.findMarketInReview(marketId);
+
+    market.reviewedBy = adminId;
+    market.reviewedAt = new Date();
+    market.reviewRejectionReason = dto.reason;
+
+    await this.marketLifecycleService.transition(market, MarketStatus.DRAFT, {
+      source: MarketStatusChangeSource.ADMIN,
+      changedBy: adminId,
+      reason: dto.reason,
+    });
+
+    await this.notificationsService.notify(
+      [market.creator.userId],
+      NotificationType.MARKET_REJECTED,
+      'Market Needs Changes',
+      `"${market.title}" was not approved: ${dto.reason}. Edit the draft and submit it again.`,
+      { marketId: market.id, reason: dto.reason },
+    );
+
+    this.logger.log(
+      `Market ${marketId} rejected by admin ${adminId}: ${dto.reason}`,
+    );
+
+    return {
+      success: true,
+      market: {
+        id: market.id,
+        status: market.status,
+      },
+    };
+  }
+
+  /**
+   * Get the status change history of a market
+   */
+  async getMarketStatusHistory(
+    marketId: string,
+  ): Promise<MarketStatusHistoryResponseDto> {
+    const history = await this.marketLifecycleService.getHistory(marketId);
+
+    return {
+      marketId,
+      history: history.map((entry) => ({
+        id: entry.id,
+        fromStatus: entry.fromStatus,
+        toStatus: entry.toStatus,
+        source: entry.source,
+        changedBy: entry.changedBy ?? undefined,
+        reason: entry.reason ?? undefined,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    };
+  }
+
   /**
    * Resolve a market (admin only)
    */
   async resolveMarket(
     marketId: string,
     resolveDto: ResolveMarketDto,
+    adminId?: string,
+    source: MarketStatusChangeSource = MarketStatusChangeSource.ADMIN,
   ): Promise<ResolveMarketResponseDto> {
     const market = await this.marketRepository.findOne({
       where: { id: marketId },
@@ -153,48 +362,82 @@ export class AdminService {
       );
     }
 
-    // Validate winning outcome
-    if (resolveDto.winningOutcome >= market.outcomes.length) {
+    const scalar = isScalarMarket(market);
+
+    // Scalar markets resolve to a value, categorical ones to a winning outcome
+    if (scalar) {
+      if (resolveDto.resolvedValue === undefined) {
+        throw new BadRequestException(
+          'Scalar markets require a resolved value',
+        );
+      }
+    } else if (
+      resolveDto.winningOutcome === undefined ||
+      resolveDto.winningOutcome >= market.outcomes.length
+    ) {
       throw new BadRequestException('Invalid winning outcome index');
     }
 
-    // Update market status
-    market.status = MarketStatus.RESOLVED;
+    // Wait for the on-chain resolution to be mined so a reverted one leaves the market pending
+    const txHash = market.onChainMarketId
+      ? scalar
+        ? await this.opinionMarketService.resolveScalarMarket(
+            BigInt(market.onChainMarketId),
+            ethers.parseUnits((resolveDto.resolvedValue ?? 0).toFixed(6), 6),
+          )
+        : await this.opinionMarketService.resolveMarket(
+            BigInt(market.onChainMarketId),
+            resolveDto.winningOutcome ?? 0,
+          )
+      : undefined;
+
     market.resolvedAt = new Date();
-    market.winningOutcomeIndex = resolveDto.winningOutcome;
+    market.winningOutcomeIndex = scalar
+      ? null
+      : (resolveDto.winningOutcome ?? null);
+    market.resolvedValue = scalar
+      ? (resolveDto.resolvedValue ?? 0).toFixed(6)
+      : null;
 
     if (resolveDto.resolutionNote) {
       market.resolutionCriteria = resolveDto.resolutionNote;
     }
 
-    await this.marketRepository.save(market);
+    await this.marketLifecycleService.transition(
+      market,
+      MarketStatus.RESOLVED,
+      {
+        source,
+        changedBy: adminId,
+        reason: resolveDto.resolutionNote,
+      },
+    );
 
-    // Call blockchain to resolve market
-    let txHash = '0x0'; // Placeholder
-    try {
-      // This would interact with smart contract to distribute winnings
-      // const tx = await this.opinionMarketService.resolveMarket(
-      //   market.contractAddress,
-      //   resolveDto.winningOutcome,
-      // );
-      // txHash = tx.hash;
-
-      this.logger.log(
-        `Market ${marketId} resolved with outcome ${resolveDto.winningOutcome}`,
-      );
-    } catch (error) {
-      this.logger.error(`Failed to resolve market on-chain: ${error.message}`);
-      // Roll back database change
-      market.status = MarketStatus.PENDING_RESOLUTION;
-      market.resolvedAt = null;
-      market.winningOutcomeIndex = null;
-      await this.marketRepository.save(market);
-      throw error;
+    this.logger.log(
+      scalar
+        ? `Market ${marketId} resolved to value ${market.resolvedValue}`
+        : `Market ${marketId} resolved with outcome ${resolveDto.winningOutcome}`,
+    );
+
+    if (scalar) {
+      return this.completeScalarResolution(market, resolveDto, txHash);
     }
 
     // Count winners and total payout
     // Get the winning outcome entity
-    const winningOutcome = market.outcomes[resolveDto.winningOutcome];
+    const winningOutcome = market.outcomes[market.winningOutcomeIndex ?? 0];
+
+    await this.marketActivityService.record(
+      market.id,
+      MarketActivityType.RESOLUTION,
+      {
+        winningOutcomeIndex: market.winningOutcomeIndex,
+        winningOutcomeText: winningOutcome.text,
+        resolutionNote: resolveDto.resolutionNote ?? null,
+        txHash,
+      },
+      { occurredAt: market.resolvedAt },
+    );
 
     const winners = await this.positionRepository.count({
       where: {
@@ -235,29 +478,73 @@ export class AdminService {
   async disputeMarket(
     marketId: string,
     disputeDto: DisputeMarketDto,
+    adminId: string,
   ): Promise<DisputeMarketResponseDto> {
-    const market = await this.marketRepository.findOne({
-      where: { id: marketId },
-    });
+    const dispute = await this.marketDisputesService.raiseAdminDispute(
+      marketId,
+      adminId,
+      disputeDto.reason,
+    );
 
-    if (!market) {
-      throw new NotFoundException('Market not found');
-    }
+    return {
+      success: true,
+      market: {
+        id: dispute.marketId,
+        status: MarketStatus.DISPUTED,
+      },
+      disputeId: dispute.id,
+    };
+  }
 
-    if (market.status === MarketStatus.RESOLVED) {
-      throw new BadRequestException('Cannot dispute already resolved market');
-    }
+  /**
+   * List market disputes for review
+   */
+  async getDisputes(query: DisputesQueryDto): Promise<DisputeListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
 
-    market.status = MarketStatus.DISPUTED;
-    await this.marketRepository.save(market);
+    const { disputes, total } = await this.marketDisputesService.listDisputes(
+      query.status,
+      page,
+      limit,
+    );
+
+    return {
+      disputes,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
 
-    this.logger.log(`Market ${marketId} marked as disputed: ${disputeDto.reason}`);
+  /**
+   * Uphold or overturn a market dispute
+   */
+  async adjudicateDispute(
+    disputeId: string,
+    adminId: string,
+    adjudicateDto: AdjudicateDisputeDto,
+  ): Promise<AdjudicateDisputeResponseDto> {
+    const result = await this.marketDisputesService.adjudicate(
+      disputeId,
+      adminId,
+      {
+        overturn: adjudicateDto.decision === DisputeDecision.OVERTURN,
+        winningOutcome: adjudicateDto.winningOutcome,
+        note: adjudicateDto.note,
+      },
+    );
 
     return {
       success: true,
+      dispute: result.dispute,
       market: {
-        id: market.id,
-        status: market.status,
+        id: result.market.id,
+        status: result.market.status,
+        winningOutcome: result.market.winningOutcomeIndex,
       },
     };
   }
@@ -293,6 +580,17 @@ export class AdminService {
       `Market ${marketId} extended by ${extendDto.additionalHours} hours: ${extendDto.reason}`,
     );
 
+    await this.marketActivityService.record(
+      market.id,
+      MarketActivityType.EXTENSION,
+      {
+        additionalHours: extendDto.additionalHours,
+        oldEndTime: oldEndTime.toISOString(),
+        newEndTime: newEndTime.toISOString(),
+        reason: extendDto.reason,
+      },
+    );
+
     return {
       success: true,
       market: {
@@ -309,6 +607,7 @@ export class AdminService {
   async cancelMarket(
     marketId: string,
     cancelDto: CancelMarketDto,
+    adminId?: string,
   ): Promise<CancelMarketResponseDto> {
     const market = await this.marketRepository.findOne({
       where: { id: marketId },
@@ -323,39 +622,76 @@ export class AdminService {
       throw new BadRequestException('Cannot cancel already resolved market');
     }
 
-    market.status = MarketStatus.CANCELLED;
-    await this.marketRepository.save(market);
+    if (market.status === MarketStatus.CANCELLED) {
+      throw new BadRequestException('Market is already cancelled');
+    }
 
-    let refundedUsers = 0;
-    let totalRefunded = 0;
-    let txHash = '0x0';
-
-    if (cancelDto.refundUsers) {
-      // Get all positions
-      const positions = await this.positionRepository.find({
-        where: { marketId: market.id },
-      });
-
-      refundedUsers = new Set(positions.map((p) => p.walletAddress)).size;
-      totalRefunded = positions.reduce((sum, p) => sum + Number(p.costBasis || 0), 0);
-
-      // Call blockchain to process refunds
-      try {
-        // This would interact with smart contract to refund users
-        // const tx = await this.opinionMarketService.cancelAndRefund(
-        //   market.contractAddress,
-        // );
-        // txHash = tx.hash;
-
-        this.logger.log(
-          `Market ${marketId} cancelled. Refunded ${refundedUsers} users: ${totalRefunded} USDC`,
-        );
-      } catch (error) {
-        this.logger.error(`Failed to process refunds: ${error.message}`);
-        throw error;
-      }
+    // The contract cannot cancel a disputed market, and the dispute would stay open
+    if (market.status === MarketStatus.DISPUTED) {
+      throw new BadRequestException(
+        'Market is disputed, adjudicate the dispute first',
+      );
+    }
+
+    // Cancelling on-chain lets each participant claim back their net stake
+    const txHash = market.onChainMarketId
+      ? await this.opinionMarketService.cancelMarket(
+          BigInt(market.onChainMarketId),
+        )
+      : undefined;
+
+    await this.marketLifecycleService.transition(
+      market,
+      MarketStatus.CANCELLED,
+      {
+        source: MarketStatusChangeSource.ADMIN,
+        changedBy: adminId,
+        reason: cancelDto.reason,
+      },
+    );
+
+    // A participant's net stake is the value of the shares they still hold
+    const positions = await this.positionRepository.find({
+      where: { marketId: market.id },
+    });
+    const stakes = new Map<string, number>();
+
+    for (const position of positions) {
+      stakes.set(
+        position.userId,
+        (stakes.get(position.userId) ?? 0) + parseFloat(position.shares),
+      );
+    }
+
+    const refundable = [...stakes].filter(([, stake]) => stake > 0);
+    const refundedUsers = refundable.length;
+    const totalRefunded = refundable.reduce((sum, [, stake]) => sum + stake, 0);
+
+    if (cancelDto.refundUsers && refundedUsers > 0) {
+      await this.notificationsService.notify(
+        refundable.map(([userId]) => userId),
+        NotificationType.MARKET_CANCELLED,
+        'Market Cancelled',
+        `"${market.title}" was cancelled: ${cancelDto.reason}. Claim back your stake from the market page.`,
+        { marketId: market.id, reason: cancelDto.reason },
+      );
     }
 
+    this.logger.log(
+      `Market ${marketId} cancelled. ${refundedUsers} users can claim ${totalRefunded} USDC`,
+    );
+
+    await this.marketActivityService.record(
+      market.id,
+      MarketActivityType.CANCELLATION,
+      {
+        reason: cancelDto.reason,
+        refundUsers: cancelDto.refundUsers,
+        refundedUsers,
+        totalRefunded,
+      },
+    );
+
     return {
       success: true,
       market: {
@@ -368,6 +704,152 @@ export class AdminService {
     };
   }
 
+  /**
+   * Pause trading on a single market (admin only)
+   */
+  async pauseMarket(
+    marketId: string,
+    pauseDto: PauseMarketDto,
+    adminId?: string,
+  ): Promise<MarketPauseResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.status !== MarketStatus.ACTIVE) {
+      throw new BadRequestException('Only active markets can be paused');
+    }
+
+    if (market.paused) {
+      throw new BadRequestException('Market is already paused');
+    }
+
+    const txHash = market.onChainMarketId
+      ? await this.opinionMarketService.pauseMarket(
+          BigInt(market.onChainMarketId),
+        )
+      : undefined;
+
+    await this.marketLifecycleService.setPaused(market, true, {
+      source: MarketStatusChangeSource.ADMIN,
+      changedBy: adminId,
+      reason: pauseDto.reason,
+      txHash,
+    });
+
+    return { success: true, marketId, paused: true, txHash };
+  }
+
+  /**
+   * Resume trading on a paused market (admin only)
+   */
+  async unpauseMarket(
+    marketId: string,
+    unpauseDto: UnpauseMarketDto,
+    adminId?: string,
+  ): Promise<MarketPauseResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (!market.paused) {
+      throw new BadRequestException('Market is not paused');
+    }
+
+    const txHash = market.onChainMarketId
+      ? await this.opinionMarketService.unpauseMarket(
+          BigInt(market.onChainMarketId),
+        )
+      : undefined;
+
+    await this.marketLifecycleService.setPaused(market, false, {
+      source: MarketStatusChangeSource.ADMIN,
+      changedBy: adminId,
+      reason: unpauseDto.reason,
+      txHash,
+    });
+
+    return { success: true, marketId, paused: false, txHash };
+  }
+
+  /**
+   * Get the pause history of a market, oldest first (admin only)
+   */
+  async getMarketPauseHistory(
+    marketId: string,
+  ): Promise<MarketPauseHistoryResponseDto> {
+    const history = await this.marketLifecycleService.getPauseHistory(marketId);
+
+    return {
+      marketId,
+      history: history.map((entry) => ({
+        id: entry.id,
+        paused: entry.paused,
+        source: entry.source,
+        changedBy: entry.changedBy ?? undefined,
+        reason: entry.reason ?? undefined,
+        txHash: entry.txHash ?? undefined,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Remove a comment for violating community rules
+   */
+  async removeComment(
+    commentId: string,
+    adminId: string,
+    removeDto: RemoveCommentDto,
+  ): Promise<RemoveCommentResponseDto> {
+    const comment = await this.commentRepository.findOne({
+      where: { id: commentId },
+    });
+
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    if (comment.status === CommentStatus.REMOVED) {
+      throw new BadRequestException('Comment already removed');
+    }
+
+    const wasVisible = comment.status === CommentStatus.VISIBLE;
+
+    comment.status = CommentStatus.REMOVED;
+    comment.removedBy = adminId;
+    comment.removalReason = removeDto.reason;
+    await this.commentRepository.save(comment);
+    await this.marketActivityService.removeForReference(comment.id);
+
+    if (wasVisible && comment.parentId) {
+      await this.commentRepository.decrement(
+        { id: comment.parentId },
+        'replyCount',
+        1,
+      );
+    }
+
+    this.logger.log(`Comment ${commentId} removed: ${removeDto.reason}`);
+
+    return {
+      success: true,
+      comment: {
+        id: comment.id,
+        marketId: comment.marketId,
+        status: comment.status,
+      },
+    };
+  }
+
   /**
    * Get pending creator applications
    */
@@ -435,6 +917,35 @@ export class AdminService {
     };
   }
 
+  /**
+   * Let a creator publish markets without review, or require review again
+   */
+  async setCreatorTrust(creatorId: string, dto: CreatorTrustDto) {
+    const creator = await this.creatorRepository.findOne({
+      where: { id: creatorId },
+    });
+
+    if (!creator) {
+      throw new NotFoundException('Creator not found');
+    }
+
+    creator.trusted = dto.trusted;
+    await this.creatorRepository.save(creator);
+
+    this.logger.log(
+      `Creator ${creatorId} ${dto.trusted ? 'trusted' : 'untrusted'}${dto.reason ? `: ${dto.reason}` : ''}`,
+    );
+
+    return {
+      success: true,
+      creator: {
+        id: creator.id,
+        twitterHandle: creator.twitterHandle,
+        trusted: creator.trusted,
+      },
+    };
+  }
+
   /**
    * Manually override share unlock for a creator
    */
@@ -626,6 +1137,11 @@ export class AdminService {
       database: { status: 'healthy', responseTime: 0 },
       redis: { status: 'healthy', responseTime: 0 },
       blockchain: { status: 'healthy', rpcResponseTime: 0, blockNumber: 0 },
+      eventIndexer: {
+        status: 'healthy',
+        deadLetterDepth: 0,
+        lastProcessedBlock: 0,
+      },
       twitter: { status: 'healthy', scraperAccountsHealthy: 0 },
     };
 
@@ -648,6 +1164,18 @@ export class AdminService {
       services.blockchain.status = 'unhealthy';
     }
 
+    // Event indexer check; failed events wait for a replay
+    try {
+      const stats = await this.eventListenerService.getStatistics();
+      services.eventIndexer.deadLetterDepth = stats.deadLetterDepth;
+      services.eventIndexer.lastProcessedBlock = stats.lastProcessedBlock;
+      services.eventIndexer.status =
+        stats.deadLetterDepth > 0 ? 'degraded' : 'healthy';
+    } catch (error) {
+      services.eventIndexer.status = 'unhealthy';
+      this.logger.error(`Event indexer health check failed: ${error.message}`);
+    }
+
     // System metrics (placeholder)
     const metrics = {
       cpuUsage: 45.2,
@@ -845,6 +1373,102 @@ export class AdminService {
     };
   }
 
+  /**
+   * List chain events in the dead-letter queue, oldest first
+   */
+  async getFailedEvents(
+    query: FailedEventsQueryDto,
+  ): Promise<FailedEventsResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [events, total] = await this.failedEventRepository.findAndCount({
+      where: {
+        status: query.status ?? FailedEventStatus.FAILED,
+        ...(query.eventName && { eventName: query.eventName }),
+      },
+      order: { createdAt: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      events: events.map((failedEvent) => this.toFailedEventDto(failedEvent)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Replay a failed chain event through its handlers
+   */
+  async replayFailedEvent(
+    failedEventId: string,
+    adminId: string,
+  ): Promise<FailedEventDto> {
+    const failedEvent = await this.failedEventRepository.findOne({
+      where: { id: failedEventId },
+    });
+
+    if (!failedEvent) {
+      throw new NotFoundException('Failed event not found');
+    }
+
+    if (failedEvent.status !== FailedEventStatus.FAILED) {
+      throw new BadRequestException('Event was already replayed');
+    }
+
+    return this.toFailedEventDto(
+      await this.eventIndexerService.replay(failedEvent, adminId),
+    );
+  }
+
+  /**
+   * Replay failed chain events in block order, by ID or the oldest ones
+   */
+  async replayFailedEvents(
+    dto: ReplayFailedEventsDto,
+    adminId: string,
+  ): Promise<ReplayFailedEventsResponseDto> {
+    const failedEvents = await this.failedEventRepository.find({
+      where: {
+        status: FailedEventStatus.FAILED,
+        ...(dto.ids && { id: In(dto.ids) }),
+      },
+      order: { blockNumber: 'ASC', logIndex: 'ASC' },
+      take: dto.ids ? undefined : dto.limit || 20,
+    });
+
+    const events: FailedEventDto[] = [];
+
+    // One at a time, so later events see the effects of earlier ones
+    for (const failedEvent of failedEvents) {
+      events.push(
+        this.toFailedEventDto(
+          await this.eventIndexerService.replay(failedEvent, adminId),
+        ),
+      );
+    }
+
+    const replayed = events.filter(
+      (event) => event.status === FailedEventStatus.REPLAYED,
+    ).length;
+
+    this.logger.log(
+      `Admin ${adminId} replayed ${replayed}/${events.length} failed events`,
+    );
+
+    return {
+      replayed,
+      failed: events.length - replayed,
+      events,
+    };
+  }
+
   /**
    * Emergency pause all contracts
    */
@@ -909,4 +1533,110 @@ export class AdminService {
       ],
     };
   }
+
+  /**
+   * Helper: Load a market that is awaiting review
+   */
+  private async findMarketInReview(marketId: string): Promise<Market> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+      relations: ['creator'],
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.status !== MarketStatus.PENDING_REVIEW) {
+      throw new BadRequestException('Market is not awaiting review');
+    }
+
+    return market;
+  }
+
+  /**
+   * Helper: Record a scalar resolution and summarize the payouts of both sides
+   */
+  private async completeScalarResolution(
+    market: Market,
+    resolveDto: ResolveMarketDto,
+    txHash: string | undefined,
+  ): Promise<ResolveMarketResponseDto> {
+    const resolvedValue = parseFloat(market.resolvedValue ?? '0');
+    const longShare = scalarLongPayoutShare(market, resolvedValue);
+
+    await this.marketActivityService.record(
+      market.id,
+      MarketActivityType.RESOLUTION,
+      {
+        resolvedValue: market.resolvedValue,
+        unit: market.scalarUnit,
+        longPayoutShare: longShare,
+        resolutionNote: resolveDto.resolutionNote ?? null,
+        txHash,
+      },
+      { occurredAt: market.resolvedAt ?? undefined },
+    );
+
+    // A side paid nothing has no winners
+    const payingIndexes = [
+      ...(longShare < 1 ? [SCALAR_SHORT_INDEX] : []),
+      ...(longShare > 0 ? [SCALAR_LONG_INDEX] : []),
+    ];
+    const payingOutcomeIds = market.outcomes
+      .filter((o) => payingIndexes.includes(o.outcomeIndex))
+      .map((o) => o.id);
+
+    const winners = await this.positionRepository.count({
+      where: { marketId: market.id, outcomeId: In(payingOutcomeIds) },
+    });
+
+    // Shares are minted 1:1 with the pool, which is paid out in full
+    const positions = await this.positionRepository.find({
+      where: { marketId: market.id },
+    });
+    const totalPayout = positions.reduce(
+      (sum, pos) => sum + Number(pos.shares || 0),
+      0,
+    );
+
+    return {
+      success: true,
+      market: {
+        id: market.id,
+        status: market.status,
+        winningOutcome: null,
+        resolvedValue: market.resolvedValue ?? undefined,
+        resolutionTime: (market.resolvedAt ?? new Date()).toISOString(),
+      },
+      txHash,
+      winnersCount: winners,
+      totalPayout,
+    };
+  }
+
+  /**
+   * Helper: Map a dead-lettered event to its response shape
+   */
+  private toFailedEventDto(failedEvent: FailedEvent): FailedEventDto {
+    return {
+      id: failedEvent.id,
+      contractName: failedEvent.contractName,
+      contractAddress: failedEvent.contractAddress,
+      eventName: failedEvent.eventName,
+      blockNumber: Number(failedEvent.blockNumber),
+      txHash: failedEvent.txHash,
+      logIndex: failedEvent.logIndex,
+      args: failedEvent.args,
+      rawLog: { ...failedEvent.rawLog },
+      error: failedEvent.error,
+      stack: failedEvent.stack ?? undefined,
+      attempts: failedEvent.attempts,
+      status: failedEvent.status,
+      lastAttemptAt: failedEvent.lastAttemptAt?.toISOString(),
+      replayedAt: failedEvent.replayedAt?.toISOString(),
+      replayedBy: failedEvent.replayedBy ?? undefined,
+      createdAt: failedEvent.createdAt.toISOString(),
+    };
+  }
 }
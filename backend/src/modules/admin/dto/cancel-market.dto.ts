@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsString, IsBoolean } from 'class-validator';
 
 export class CancelMarketDto {
@@ -10,7 +10,8 @@ export class CancelMarketDto {
   reason: string;
 
   @ApiProperty({
-    description: 'Whether to refund users',
+    description:
+      'Whether to notify participants that they can claim back their stake',
     example: true,
     default: true,
   })
@@ -35,12 +36,21 @@ export class CancelMarketResponseDto {
     status: string;
   };
 
-  @ApiProperty({ description: 'Number of refunded users', example: 120 })
+  @ApiProperty({
+    description: 'Number of participants with a refund to claim',
+    example: 120,
+  })
   refundedUsers: number;
 
-  @ApiProperty({ description: 'Total refunded amount', example: 15000.0 })
+  @ApiProperty({
+    description: 'Total USDC participants can claim back (net stakes)',
+    example: 15000.0,
+  })
   totalRefunded: number;
 
-  @ApiProperty({ description: 'Transaction hash', example: '0x...' })
-  txHash: string;
+  @ApiPropertyOptional({
+    description: 'cancelMarket transaction hash (markets deployed on-chain)',
+    example: '0x...',
+  })
+  txHash?: string;
 }
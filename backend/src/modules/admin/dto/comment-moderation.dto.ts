@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength } from 'class-validator';
+
+export class RemoveCommentDto {
+  @ApiProperty({
+    description: 'Reason for removal',
+    example: 'Spam',
+  })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class RemoveCommentResponseDto {
+  @ApiProperty({ description: 'Success status', example: true })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Comment details',
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      marketId: { type: 'string' },
+      status: { type: 'string', example: 'removed' },
+    },
+  })
+  comment: {
+    id: string;
+    marketId: string;
+    status: string;
+  };
+}
@@ -0,0 +1,121 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MarketDisputeStatus } from '../../../database/enums';
+import { MarketDisputeDto } from '../../markets/dto';
+
+export enum DisputeDecision {
+  UPHOLD = 'uphold', // Keep the original result
+  OVERTURN = 'overturn', // Re-resolve to winningOutcome
+}
+
+export class DisputesQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by dispute status',
+    enum: MarketDisputeStatus,
+  })
+  @IsOptional()
+  @IsEnum(MarketDisputeStatus)
+  status?: MarketDisputeStatus;
+
+  @ApiPropertyOptional({
+    description: 'Page number',
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    default: 20,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number;
+}
+
+export class AdjudicateDisputeDto {
+  @ApiProperty({ description: 'Adjudication decision', enum: DisputeDecision })
+  @IsEnum(DisputeDecision)
+  decision: DisputeDecision;
+
+  @ApiPropertyOptional({
+    description: 'New winning outcome index, required when overturning',
+    example: 1,
+    minimum: 0,
+  })
+  @ValidateIf(
+    (dto: AdjudicateDisputeDto) => dto.decision === DisputeDecision.OVERTURN,
+  )
+  @IsNumber()
+  @Min(0)
+  winningOutcome?: number;
+
+  @ApiProperty({
+    description: 'Explanation shown to market participants',
+    example: 'Official results confirm the original outcome',
+  })
+  @IsString()
+  @MaxLength(1000)
+  note: string;
+}
+
+export class AdjudicateDisputeResponseDto {
+  @ApiProperty({ description: 'Success status', example: true })
+  success: boolean;
+
+  @ApiProperty({ type: MarketDisputeDto })
+  dispute: MarketDisputeDto;
+
+  @ApiProperty({
+    description: 'Market details',
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', example: 'resolved' },
+      winningOutcome: { type: 'number', nullable: true },
+    },
+  })
+  market: {
+    id: string;
+    status: string;
+    winningOutcome: number | null;
+  };
+}
+
+export class DisputeListResponseDto {
+  @ApiProperty({ type: [MarketDisputeDto] })
+  disputes: MarketDisputeDto[];
+
+  @ApiProperty({
+    description: 'Pagination info',
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      limit: { type: 'number' },
+      total: { type: 'number' },
+      totalPages: { type: 'number' },
+    },
+  })
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
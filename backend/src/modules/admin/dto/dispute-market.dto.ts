@@ -34,4 +34,7 @@ export class DisputeMarketResponseDto {
     id: string;
     status: string;
   };
+
+  @ApiProperty({ description: 'Dispute record ID' })
+  disputeId: string;
 }
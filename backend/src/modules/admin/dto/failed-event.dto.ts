@@ -0,0 +1,176 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { FailedEventStatus } from '../../../database/enums';
+
+export class FailedEventsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: FailedEventStatus,
+    default: FailedEventStatus.FAILED,
+  })
+  @IsOptional()
+  @IsEnum(FailedEventStatus)
+  status?: FailedEventStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by contract event name',
+    example: 'BetPlaced',
+  })
+  @IsOptional()
+  @IsString()
+  eventName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number',
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    default: 20,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number;
+}
+
+export class ReplayFailedEventsDto {
+  @ApiPropertyOptional({
+    description:
+      'Failed events to replay; without ids the oldest failed events are replayed',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsUUID('4', { each: true })
+  ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'How many of the oldest failed events to replay without ids',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class FailedEventDto {
+  @ApiProperty({ description: 'Failed event ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Indexed contract', example: 'opinionMarket' })
+  contractName: string;
+
+  @ApiProperty({ description: 'Contract address' })
+  contractAddress: string;
+
+  @ApiProperty({ description: 'Contract event name', example: 'BetPlaced' })
+  eventName: string;
+
+  @ApiProperty({ description: 'Block number' })
+  blockNumber: number;
+
+  @ApiProperty({ description: 'Transaction hash' })
+  txHash: string;
+
+  @ApiProperty({ description: 'Log index within the block' })
+  logIndex: number;
+
+  @ApiProperty({
+    description: 'Decoded event arguments, bigints as strings',
+    type: 'object',
+    additionalProperties: true,
+  })
+  args: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Raw log as returned by eth_getLogs',
+    type: 'object',
+    additionalProperties: true,
+  })
+  rawLog: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Latest error message' })
+  error: string;
+
+  @ApiPropertyOptional({ description: 'Latest error stack' })
+  stack?: string;
+
+  @ApiProperty({ description: 'Handling attempts, including replays' })
+  attempts: number;
+
+  @ApiProperty({ enum: FailedEventStatus, example: 'failed' })
+  status: FailedEventStatus;
+
+  @ApiPropertyOptional({ description: 'When handling was last attempted' })
+  lastAttemptAt?: string;
+
+  @ApiPropertyOptional({ description: 'When the event was handled' })
+  replayedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Admin who replayed the event' })
+  replayedBy?: string;
+
+  @ApiProperty({ description: 'When the event first failed' })
+  createdAt: string;
+}
+
+export class FailedEventsResponseDto {
+  @ApiProperty({ type: [FailedEventDto] })
+  events: FailedEventDto[];
+
+  @ApiProperty({
+    description: 'Pagination info',
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      limit: { type: 'number' },
+      total: { type: 'number' },
+      totalPages: { type: 'number' },
+    },
+  })
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class ReplayFailedEventsResponseDto {
+  @ApiProperty({ description: 'Events handled on replay', example: 3 })
+  replayed: number;
+
+  @ApiProperty({ description: 'Events that failed again', example: 0 })
+  failed: number;
+
+  @ApiProperty({ type: [FailedEventDto] })
+  events: FailedEventDto[];
+}
@@ -5,3 +5,10 @@ export * from './cancel-market.dto';
 export * from './pending-markets.dto';
 export * from './creator-admin.dto';
 export * from './system-admin.dto';
+export * from './comment-moderation.dto';
+export * from './market-status-history.dto';
+export * from './resolution-proposal.dto';
+export * from './dispute-adjudication.dto';
+export * from './market-review.dto';
+export * from './market-pause.dto';
+export * from './failed-event.dto';
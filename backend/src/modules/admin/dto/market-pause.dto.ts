@@ -0,0 +1,78 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import { MarketStatusChangeSource } from '../../../database/enums';
+
+export class PauseMarketDto {
+  @ApiProperty({
+    description: 'Why trading is paused, shown on the market',
+    example: 'Resolution source under review',
+  })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class UnpauseMarketDto {
+  @ApiPropertyOptional({
+    description: 'Why trading resumes',
+    example: 'Resolution source confirmed',
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class MarketPauseResponseDto {
+  @ApiProperty({ description: 'Success status', example: true })
+  success: boolean;
+
+  @ApiProperty({ description: 'Market ID' })
+  marketId: string;
+
+  @ApiProperty({ description: 'Whether trading is now paused' })
+  paused: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'pauseMarket/unpauseMarket transaction hash (markets deployed on-chain)',
+    example: '0x...',
+  })
+  txHash?: string;
+}
+
+export class MarketPauseChangeDto {
+  @ApiProperty({ description: 'History entry ID' })
+  id: string;
+
+  @ApiProperty({
+    description: 'True when trading was paused, false when resumed',
+  })
+  paused: boolean;
+
+  @ApiProperty({
+    enum: MarketStatusChangeSource,
+    description: 'What triggered the change',
+    example: 'admin',
+  })
+  source: MarketStatusChangeSource;
+
+  @ApiPropertyOptional({ description: 'Admin who made the change' })
+  changedBy?: string;
+
+  @ApiPropertyOptional({ description: 'Reason for the change' })
+  reason?: string;
+
+  @ApiPropertyOptional({ description: 'Transaction hash' })
+  txHash?: string;
+
+  @ApiProperty({ description: 'When the change happened' })
+  createdAt: string;
+}
+
+export class MarketPauseHistoryResponseDto {
+  @ApiProperty({ description: 'Market ID' })
+  marketId: string;
+
+  @ApiProperty({ type: [MarketPauseChangeDto] })
+  history: MarketPauseChangeDto[];
+}
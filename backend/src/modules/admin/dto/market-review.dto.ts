@@ -0,0 +1,157 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsOptional,
+  IsNumber,
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ReviewQueueQueryDto {
+  @ApiProperty({
+    description: 'Page number',
+    required: false,
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number;
+
+  @ApiProperty({
+    description: 'Items per page',
+    required: false,
+    default: 20,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number;
+}
+
+export class ReviewMarketDto {
+  @ApiProperty({ description: 'Market ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Market title' })
+  title: string;
+
+  @ApiProperty({ description: 'Market description' })
+  description: string;
+
+  @ApiProperty({ description: 'Market category' })
+  category: string;
+
+  @ApiProperty({ description: 'Market type (categorical or scalar)' })
+  type: string;
+
+  @ApiProperty({ description: 'Outcome texts', type: [String] })
+  outcomes: string[];
+
+  @ApiProperty({ description: 'Duration in seconds once published' })
+  duration: number;
+
+  @ApiPropertyOptional({ description: 'Resolution criteria' })
+  resolutionCriteria?: string;
+
+  @ApiPropertyOptional({ description: 'Evidence links', type: [String] })
+  evidenceLinks?: string[];
+
+  @ApiPropertyOptional({ description: 'Tags', type: [String] })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Creator info',
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      twitterHandle: { type: 'string' },
+      trusted: { type: 'boolean' },
+    },
+  })
+  creator: {
+    id: string;
+    twitterHandle: string;
+    trusted: boolean;
+  };
+
+  @ApiProperty({ description: 'When the market was submitted for review' })
+  submittedAt: string;
+}
+
+export class ReviewQueueResponseDto {
+  @ApiProperty({ type: [ReviewMarketDto] })
+  markets: ReviewMarketDto[];
+
+  @ApiProperty({
+    description: 'Pagination',
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      limit: { type: 'number' },
+      total: { type: 'number' },
+      totalPages: { type: 'number' },
+    },
+  })
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class RejectMarketDto {
+  @ApiProperty({
+    description: 'Reason shown to the creator',
+    example: 'Resolution criteria are ambiguous',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class ReviewMarketResponseDto {
+  @ApiProperty({ description: 'Success status', example: true })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Market details',
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', example: 'pending_deployment' },
+    },
+  })
+  market: {
+    id: string;
+    status: string;
+  };
+
+  @ApiPropertyOptional({
+    description: 'createMarket transaction hash (approved markets)',
+  })
+  txHash?: string;
+}
+
+export class CreatorTrustDto {
+  @ApiProperty({
+    description: 'Whether the creator publishes markets without review',
+    example: true,
+  })
+  @IsBoolean()
+  trusted: boolean;
+
+  @ApiProperty({ description: 'Reason for the change', required: false })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  MarketStatus,
+  MarketStatusChangeSource,
+} from '../../../database/enums';
+
+export class MarketStatusChangeDto {
+  @ApiProperty({ description: 'History entry ID' })
+  id: string;
+
+  @ApiProperty({ enum: MarketStatus, example: 'active' })
+  fromStatus: MarketStatus;
+
+  @ApiProperty({ enum: MarketStatus, example: 'pending_resolution' })
+  toStatus: MarketStatus;
+
+  @ApiProperty({
+    enum: MarketStatusChangeSource,
+    description: 'What triggered the change',
+    example: 'system',
+  })
+  source: MarketStatusChangeSource;
+
+  @ApiPropertyOptional({ description: 'Admin who made the change' })
+  changedBy?: string;
+
+  @ApiPropertyOptional({ description: 'Reason for the change' })
+  reason?: string;
+
+  @ApiProperty({ description: 'When the change happened' })
+  createdAt: string;
+}
+
+export class MarketStatusHistoryResponseDto {
+  @ApiProperty({ description: 'Market ID' })
+  marketId: string;
+
+  @ApiProperty({ type: [MarketStatusChangeDto] })
+  history: MarketStatusChangeDto[];
+}
@@ -4,7 +4,7 @@ import { Type } from 'class-transformer';
 
 export class PendingMarketsQueryDto {
   @ApiProperty({
-    description: 'Filter overdue markets (>60 min past end)',
+    description: 'Filter overdue markets (past their resolution deadline)',
     required: false,
     default: false,
   })
@@ -64,6 +64,17 @@ export class PendingMarketDto {
   @ApiProperty({ description: 'Minutes past end time' })
   minutesPastEnd: number;
 
+  @ApiProperty({
+    description: 'Time by which the market should be resolved',
+    nullable: true,
+  })
+  resolutionDeadline: string | null;
+
+  @ApiProperty({
+    description: 'Whether the missed deadline has been escalated to admins',
+  })
+  escalated: boolean;
+
   @ApiProperty({ description: 'Total volume' })
   volume: number;
 
@@ -0,0 +1,124 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ResolutionProposalStatus,
+  ResolverType,
+} from '../../../database/enums';
+
+export class ResolutionProposalsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by proposal status',
+    enum: ResolutionProposalStatus,
+  })
+  @IsOptional()
+  @IsEnum(ResolutionProposalStatus)
+  status?: ResolutionProposalStatus;
+
+  @ApiPropertyOptional({
+    description: 'Page number',
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    default: 20,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number;
+}
+
+export class RejectProposalDto {
+  @ApiProperty({
+    description: 'Why the proposed outcome is wrong',
+    example: 'Price feed reported a stale value',
+  })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class ResolutionProposalDto {
+  @ApiProperty({ description: 'Proposal ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Market ID' })
+  marketId: string;
+
+  @ApiProperty({ description: 'Market title' })
+  marketTitle: string;
+
+  @ApiProperty({ enum: ResolverType })
+  resolverType: ResolverType;
+
+  @ApiProperty({ description: 'Proposed winning outcome index', example: 0 })
+  proposedOutcomeIndex: number;
+
+  @ApiPropertyOptional({ description: 'Proposed winning outcome text' })
+  proposedOutcomeText?: string;
+
+  @ApiProperty({
+    description: 'Data observed by the resolver',
+    type: 'object',
+    additionalProperties: true,
+    example: { asset: 'bitcoin', price: 101250.5, threshold: 100000 },
+  })
+  evidence: Record<string, unknown>;
+
+  @ApiProperty({ enum: ResolutionProposalStatus })
+  status: ResolutionProposalStatus;
+
+  @ApiProperty({ description: 'End of the challenge window' })
+  challengeEndsAt: string;
+
+  @ApiPropertyOptional({ description: 'When the proposal was executed' })
+  executedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Admin who rejected the proposal' })
+  reviewedBy?: string;
+
+  @ApiPropertyOptional({ description: 'Rejection reason or execution error' })
+  statusReason?: string;
+
+  @ApiProperty({ description: 'When the proposal was made' })
+  createdAt: string;
+}
+
+export class ResolutionProposalListResponseDto {
+  @ApiProperty({ type: [ResolutionProposalDto] })
+  proposals: ResolutionProposalDto[];
+
+  @ApiProperty({
+    description: 'Pagination',
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      limit: { type: 'number' },
+      total: { type: 'number' },
+      totalPages: { type: 'number' },
+    },
+  })
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
@@ -1,15 +1,36 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsNumber, IsString, IsArray, IsOptional, Min, Max } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsString,
+  IsArray,
+  IsOptional,
+  Min,
+  Max,
+  ValidateIf,
+} from 'class-validator';
 
 export class ResolveMarketDto {
   @ApiProperty({
-    description: 'Winning outcome index (0, 1, etc.)',
+    description:
+      'Winning outcome index (0, 1, etc.). Not used for scalar markets',
     example: 0,
     minimum: 0,
+    required: false,
   })
+  @ValidateIf((dto: ResolveMarketDto) => dto.resolvedValue === undefined)
   @IsNumber()
   @Min(0)
-  winningOutcome: number;
+  winningOutcome?: number;
+
+  @ApiProperty({
+    description:
+      'Observed value a scalar market resolves to; clamped to its range for payouts',
+    example: 104250,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 6 })
+  resolvedValue?: number;
 
   @ApiProperty({
     description: 'Resolution explanation',
@@ -42,19 +63,25 @@ export class ResolveMarketResponseDto {
     properties: {
       id: { type: 'string' },
       status: { type: 'string', example: 'resolved' },
-      winningOutcome: { type: 'number' },
+      winningOutcome: { type: 'number', nullable: true },
+      resolvedValue: { type: 'string' },
       resolutionTime: { type: 'string' },
     },
   })
   market: {
     id: string;
     status: string;
-    winningOutcome: number;
+    winningOutcome: number | null;
+    resolvedValue?: string;
     resolutionTime: string;
   };
 
-  @ApiProperty({ description: 'Transaction hash', example: '0x...' })
-  txHash: string;
+  @ApiPropertyOptional({
+    description:
+      'resolveMarket/resolveScalarMarket transaction hash (markets deployed on-chain)',
+    example: '0x...',
+  })
+  txHash?: string;
 
   @ApiProperty({ description: 'Number of winners', example: 120 })
   winnersCount: number;
@@ -12,6 +12,11 @@ export class SystemHealthResponseDto {
     database: { status: string; responseTime: number };
     redis: { status: string; responseTime: number };
     blockchain: { status: string; rpcResponseTime: number; blockNumber: number };
+    eventIndexer: {
+      status: string;
+      deadLetterDepth: number;
+      lastProcessedBlock: number;
+    };
     twitter: { status: string; scraperAccountsHealthy: number };
   };
 
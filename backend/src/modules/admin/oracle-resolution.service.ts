@@ -0,0 +1,288 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull, LessThan, Not } from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { ResolutionProposal } from '../../database/entities/resolution-proposal.entity';
+import {
+  MarketStatus,
+  MarketStatusChangeSource,
+  MarketActivityType,
+  ResolutionProposalStatus,
+} from '../../database/enums';
+import { OracleRegistryService } from '../../oracles/oracle-registry.service';
+import { MarketActivityService } from '../markets/market-activity.service';
+import { AdminService } from './admin.service';
+import {
+  ResolutionProposalsQueryDto,
+  ResolutionProposalDto,
+  ResolutionProposalListResponseDto,
+  RejectProposalDto,
+} from './dto';
+
+@Injectable()
+export class OracleResolutionService {
+  private readonly logger = new Logger(OracleResolutionService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(ResolutionProposal)
+    private readonly proposalRepository: Repository<ResolutionProposal>,
+    private readonly oracleRegistryService: OracleRegistryService,
+    private readonly adminService: AdminService,
+    private readonly marketActivityService: MarketActivityService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Ask oracle resolvers for the outcome of ended markets (every 5 minutes)
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async proposeResolutions() {
+    try {
+      const markets = await this.marketRepository.find({
+        where: {
+          status: MarketStatus.PENDING_RESOLUTION,
+          resolverType: Not(IsNull()),
+        },
+        relations: ['outcomes'],
+      });
+
+      for (const market of markets) {
+        try {
+          await this.proposeResolution(market);
+        } catch (error) {
+          this.logger.error(
+            `Failed to propose resolution for market ${market.id}: ${error.message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error proposing oracle resolutions', error);
+    }
+  }
+
+  /**
+   * Resolve markets whose challenge window has closed (every minute)
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async executeProposals() {
+    try {
+      const proposals = await this.proposalRepository.find({
+        where: {
+          status: ResolutionProposalStatus.PENDING,
+          challengeEndsAt: LessThan(new Date()),
+        },
+        relations: ['market'],
+      });
+
+      for (const proposal of proposals) {
+        await this.executeProposal(proposal);
+      }
+    } catch (error) {
+      this.logger.error('Error executing resolution proposals', error);
+    }
+  }
+
+  /**
+   * List resolution proposals for review
+   */
+  async getProposals(
+    query: ResolutionProposalsQueryDto,
+  ): Promise<ResolutionProposalListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [proposals, total] = await this.proposalRepository.findAndCount({
+      where: query.status ? { status: query.status } : {},
+      relations: ['market', 'market.outcomes'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      proposals: proposals.map((proposal) => this.mapToResponseDto(proposal)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Reject a pending proposal during its challenge window
+   */
+  async rejectProposal(
+    proposalId: string,
+    adminId: string,
+    rejectDto: RejectProposalDto,
+  ): Promise<ResolutionProposalDto> {
+    const proposal = await this.proposalRepository.findOne({
+      where: { id: proposalId },
+      relations: ['market', 'market.outcomes'],
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Resolution proposal not found');
+    }
+
+    if (proposal.status !== ResolutionProposalStatus.PENDING) {
+      throw new BadRequestException(
+        `Proposal is ${proposal.status}, cannot reject`,
+      );
+    }
+
+    proposal.status = ResolutionProposalStatus.REJECTED;
+    proposal.reviewedBy = adminId;
+    proposal.statusReason = rejectDto.reason;
+    await this.proposalRepository.save(proposal);
+
+    this.logger.log(
+      `Resolution proposal ${proposal.id} rejected: ${rejectDto.reason}`,
+    );
+
+    return this.mapToResponseDto(proposal);
+  }
+
+  /**
+   * Helper: Run a market's resolver and store its proposal
+   */
+  private async proposeResolution(market: Market) {
+    // Rejected proposals fall back to manual resolution; failed ones are retried
+    const existing = await this.proposalRepository.findOne({
+      where: {
+        marketId: market.id,
+        status: In([
+          ResolutionProposalStatus.PENDING,
+          ResolutionProposalStatus.EXECUTED,
+          ResolutionProposalStatus.REJECTED,
+        ]),
+      },
+    });
+
+    if (existing || !market.resolverType) {
+      return;
+    }
+
+    const resolution = await this.oracleRegistryService.resolve(
+      market.resolverType,
+      { endTime: market.endTime, outcomeCount: market.outcomes.length },
+      market.resolverParams ?? {},
+    );
+
+    if (!resolution) {
+      this.logger.debug(`No ${market.resolverType} data yet for ${market.id}`);
+      return;
+    }
+
+    const challengeWindowMinutes =
+      this.configService.get<number>('oracle.challengeWindowMinutes') ?? 60;
+    const challengeEndsAt = new Date(
+      Date.now() + challengeWindowMinutes * 60 * 1000,
+    );
+
+    const proposal = await this.proposalRepository.save(
+      this.proposalRepository.create({
+        marketId: market.id,
+        resolverType: market.resolverType,
+        proposedOutcomeIndex: resolution.outcomeIndex,
+        evidence: resolution.evidence,
+        challengeEndsAt,
+      }),
+    );
+
+    const outcome = market.outcomes.find(
+      (o) => o.outcomeIndex === resolution.outcomeIndex,
+    );
+
+    await this.marketActivityService.record(
+      market.id,
+      MarketActivityType.RESOLUTION_PROPOSED,
+      {
+        proposalId: proposal.id,
+        resolverType: market.resolverType,
+        outcomeIndex: resolution.outcomeIndex,
+        outcomeText: outcome?.text,
+        evidence: resolution.evidence,
+        challengeEndsAt: challengeEndsAt.toISOString(),
+      },
+      { referenceId: proposal.id },
+    );
+
+    this.logger.log(
+      `Market ${market.id}: ${market.resolverType} proposed outcome ${resolution.outcomeIndex}, challenge window ends ${challengeEndsAt.toISOString()}`,
+    );
+  }
+
+  /**
+   * Helper: Resolve the market of an unchallenged proposal
+   */
+  private async executeProposal(proposal: ResolutionProposal) {
+    if (proposal.market.status !== MarketStatus.PENDING_RESOLUTION) {
+      proposal.status = ResolutionProposalStatus.REJECTED;
+      proposal.statusReason = `Market is ${proposal.market.status}`;
+      await this.proposalRepository.save(proposal);
+      return;
+    }
+
+    try {
+      await this.adminService.resolveMarket(
+        proposal.marketId,
+        { winningOutcome: proposal.proposedOutcomeIndex },
+        undefined,
+        MarketStatusChangeSource.ORACLE,
+      );
+
+      proposal.status = ResolutionProposalStatus.EXECUTED;
+      proposal.executedAt = new Date();
+
+      this.logger.log(
+        `Market ${proposal.marketId} resolved by ${proposal.resolverType} oracle`,
+      );
+    } catch (error) {
+      proposal.status = ResolutionProposalStatus.FAILED;
+      proposal.statusReason = error.message;
+
+      this.logger.error(
+        `Failed to execute resolution proposal ${proposal.id}: ${error.message}`,
+      );
+    }
+
+    await this.proposalRepository.save(proposal);
+  }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(
+    proposal: ResolutionProposal,
+  ): ResolutionProposalDto {
+    return {
+      id: proposal.id,
+      marketId: proposal.marketId,
+      marketTitle: proposal.market.title,
+      resolverType: proposal.resolverType,
+      proposedOutcomeIndex: proposal.proposedOutcomeIndex,
+      proposedOutcomeText: proposal.market.outcomes?.find(
+        (o) => o.outcomeIndex === proposal.proposedOutcomeIndex,
+      )?.text,
+      evidence: proposal.evidence,
+      status: proposal.status,
+      challengeEndsAt: proposal.challengeEndsAt.toISOString(),
+      executedAt: proposal.executedAt?.toISOString(),
+      reviewedBy: proposal.reviewedBy ?? undefined,
+      statusReason: proposal.statusReason ?? undefined,
+      createdAt: proposal.createdAt.toISOString(),
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Controller, Get, Post, Param, Body, Query, UseGuards, Req } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Param, Body, Query, UseGuards, Req } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiParam } from '@nestjs/swagger';
 import { CreatorsService } from './creators.service';
 import { CreatorResponseDto } from './dto/creator-response.dto';
@@ -8,6 +8,7 @@ import {
   VolumeProgressResponseDto,
   ShareholdersResponseDto,
   PerformanceResponseDto,
+  CreatorFollowResponseDto,
 } from './dto';
 import { AuthGuard } from '../auth/guards/auth.guard';
 import { AdminAuthGuard } from '../auth/guards/admin-auth.guard';
@@ -95,6 +96,38 @@ export class CreatorsController {
     return this.creatorsService.rejectCreator(id);
   }
 
+  /**
+   * POST /creators/:id/follow - Follow a creator
+   */
+  @Post(':id/follow')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Follow a creator',
+    description: "The creator's markets appear in GET /users/me/watchlist",
+  })
+  @ApiResponse({ status: 201, description: 'Creator followed', type: CreatorFollowResponseDto })
+  @ApiResponse({ status: 400, description: 'Cannot follow yourself' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Creator not found' })
+  async followCreator(@Param('id') id: string, @Req() req: any): Promise<CreatorFollowResponseDto> {
+    return this.creatorsService.followCreator(id, req.user.userId);
+  }
+
+  /**
+   * DELETE /creators/:id/follow - Unfollow a creator
+   */
+  @Delete(':id/follow')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Unfollow a creator' })
+  @ApiResponse({ status: 200, description: 'Creator unfollowed', type: CreatorFollowResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Creator not found' })
+  async unfollowCreator(@Param('id') id: string, @Req() req: any): Promise<CreatorFollowResponseDto> {
+    return this.creatorsService.unfollowCreator(id, req.user.userId);
+  }
+
   /**
    * POST /creators/check-eligibility - Check creator eligibility
    */
@@ -7,6 +7,7 @@ import { User } from '../../database/entities/user.entity';
 import { Market } from '../../database/entities/market.entity';
 import { CreatorShare } from '../../database/entities/creator-share.entity';
 import { ShareTransaction } from '../../database/entities/share-transaction.entity';
+import { CreatorFollow } from '../../database/entities/creator-follow.entity';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
@@ -17,6 +18,7 @@ import { AuthModule } from '../auth/auth.module';
       Market,
       CreatorShare,
       ShareTransaction,
+      CreatorFollow,
     ]),
     AuthModule,
   ],
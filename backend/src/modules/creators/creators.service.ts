@@ -7,6 +7,7 @@ import { User } from '../../database/entities/user.entity';
 import { Market } from '../../database/entities/market.entity';
 import { CreatorShare } from '../../database/entities/creator-share.entity';
 import { ShareTransaction } from '../../database/entities/share-transaction.entity';
+import { CreatorFollow } from '../../database/entities/creator-follow.entity';
 import { CreatorResponseDto } from './dto/creator-response.dto';
 import { ApplyCreatorDto } from './dto/apply-creator.dto';
 import {
@@ -16,6 +17,7 @@ import {
   PerformanceResponseDto,
   MarketVolumeDto,
   ShareholderDto,
+  CreatorFollowResponseDto,
 } from './dto';
 
 @Injectable()
@@ -33,6 +35,8 @@ export class CreatorsService {
     private readonly creatorShareRepository: Repository<CreatorShare>,
     @InjectRepository(ShareTransaction)
     private readonly shareTransactionRepository: Repository<ShareTransaction>,
+    @InjectRepository(CreatorFollow)
+    private readonly followRepository: Repository<CreatorFollow>,
   ) {}
 
   /**
@@ -165,6 +169,61 @@ export class CreatorsService {
     return this.mapToResponseDto(creator);
   }
 
+  /**
+   * Follow a creator; their new markets appear in the follower's watchlist feed
+   */
+  async followCreator(creatorId: string, userId: string): Promise<CreatorFollowResponseDto> {
+    const creator = await this.creatorRepository.findOne({
+      where: { id: creatorId },
+    });
+
+    if (!creator) {
+      throw new NotFoundException('Creator not found');
+    }
+
+    if (creator.userId === userId) {
+      throw new BadRequestException('You cannot follow yourself');
+    }
+
+    const existing = await this.followRepository.findOne({
+      where: { creatorId, userId },
+    });
+
+    if (!existing) {
+      await this.creatorRepository.manager.transaction(async (manager) => {
+        await manager.save(this.followRepository.create({ creatorId, userId }));
+        await manager.increment(Creator, { id: creatorId }, 'platformFollowerCount', 1);
+      });
+
+      this.logger.log(`User ${userId} followed creator @${creator.twitterHandle}`);
+    }
+
+    return this.getFollowStatus(creatorId, true);
+  }
+
+  /**
+   * Unfollow a creator
+   */
+  async unfollowCreator(creatorId: string, userId: string): Promise<CreatorFollowResponseDto> {
+    const creator = await this.creatorRepository.findOne({
+      where: { id: creatorId },
+    });
+
+    if (!creator) {
+      throw new NotFoundException('Creator not found');
+    }
+
+    await this.creatorRepository.manager.transaction(async (manager) => {
+      const result = await manager.delete(CreatorFollow, { creatorId, userId });
+
+      if (result.affected) {
+        await manager.decrement(Creator, { id: creatorId }, 'platformFollowerCount', result.affected);
+      }
+    });
+
+    return this.getFollowStatus(creatorId, false);
+  }
+
   /**
    * Check if user meets creator eligibility requirements
    */
@@ -424,6 +483,21 @@ export class CreatorsService {
     };
   }
 
+  /**
+   * Helper: Follow state of a creator after a change
+   */
+  private async getFollowStatus(creatorId: string, following: boolean): Promise<CreatorFollowResponseDto> {
+    const creator = await this.creatorRepository.findOneOrFail({
+      where: { id: creatorId },
+    });
+
+    return {
+      creatorId,
+      following,
+      platformFollowerCount: creator.platformFollowerCount,
+    };
+  }
+
   /**
    * Map Creator entity to response DTO
    */
@@ -434,6 +508,7 @@ export class CreatorsService {
       twitterId: creator.twitterId,
       twitterHandle: creator.twitterHandle,
       followerCount: creator.followerCount,
+      platformFollowerCount: creator.platformFollowerCount,
       engagementRate: creator.engagementRate,
       postCount30d: creator.postCount30d,
       qualifiedAt: creator.qualifiedAt,
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreatorFollowResponseDto {
+  @ApiProperty()
+  creatorId: string;
+
+  @ApiProperty({ description: 'Whether the current user follows the creator' })
+  following: boolean;
+
+  @ApiProperty({ description: 'Users following the creator on the platform' })
+  platformFollowerCount: number;
+}
@@ -14,9 +14,12 @@ export class CreatorResponseDto {
   @ApiProperty()
   twitterHandle: string;
 
-  @ApiProperty()
+  @ApiProperty({ description: 'Twitter followers' })
   followerCount: number;
 
+  @ApiProperty({ description: 'Users following the creator on the platform' })
+  platformFollowerCount: number;
+
   @ApiProperty()
   engagementRate: number;
 
@@ -4,3 +4,4 @@ export * from './eligibility-check-response.dto';
 export * from './volume-progress-response.dto';
 export * from './shareholders-response.dto';
 export * from './performance-response.dto';
+export * from './creator-follow-response.dto';
@@ -3,12 +3,14 @@ import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import {
   HealthCheck,
   HealthCheckService,
+  HealthIndicatorService,
   TypeOrmHealthIndicator,
   MemoryHealthIndicator,
   DiskHealthIndicator,
 } from '@nestjs/terminus';
 import { ConfigService } from '@nestjs/config';
 import { Public } from '../../common/decorators';
+import { ContractsService } from '../../contracts/contracts.service';
 
 @ApiTags('System')
 @Controller()
@@ -18,7 +20,9 @@ export class HealthController {
     private db: TypeOrmHealthIndicator,
     private memory: MemoryHealthIndicator,
     private disk: DiskHealthIndicator,
+    private healthIndicatorService: HealthIndicatorService,
     private configService: ConfigService,
+    private contractsService: ContractsService,
   ) {}
 
   @Get('health')
@@ -43,9 +47,24 @@ export class HealthController {
           path: '/',
           thresholdPercent: 0.9,
         }),
+
+      // RPC pool health check (down once every endpoint is benched)
+      () => this.checkRpcEndpoints(),
     ]);
   }
 
+  /**
+   * Helper: Report per-endpoint RPC latency and errors
+   */
+  private checkRpcEndpoints() {
+    const rpc = this.healthIndicatorService.check('rpc');
+    const endpoints = this.contractsService.getRpcMetrics();
+
+    return endpoints.some((endpoint) => endpoint.healthy)
+      ? rpc.up({ endpoints })
+      : rpc.down({ endpoints });
+  }
+
   /**
    * GET /version - Get API version info
    */
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { TerminusModule } from '@nestjs/terminus';
 import { HealthController } from './health.controller';
+import { ContractsModule } from '../../contracts/contracts.module';
 
 @Module({
-  imports: [TerminusModule],
+  imports: [TerminusModule, ContractsModule],
   controllers: [HealthController],
 })
 export class HealthModule {}
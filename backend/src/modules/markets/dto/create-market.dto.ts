@@ -11,10 +11,26 @@ import {
   Max,
   IsOptional,
   IsUrl,
+  IsObject,
+  IsNumber,
+  IsDefined,
+  IsBoolean,
+  ValidateIf,
+  MaxLength,
+  IsNumberString,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { MarketCategory } from '../../../database/enums';
+import {
+  MarketCategory,
+  MarketType,
+  ResolverType,
+} from '../../../database/enums';
+
+export enum MarketDeploymentMode {
+  SERVER = 'server', // Backend wallet signs OpinionMarket.createMarket
+  CREATOR = 'creator', // Creator signs the returned unsigned transaction
+}
 
 export class CreateOutcomeDto {
   @ApiProperty({ description: 'Outcome text', example: 'Yes' })
@@ -34,6 +50,48 @@ export class CreateOutcomeDto {
   initialProbability: number;
 }
 
+export class MarketResolverDto {
+  @ApiProperty({
+    description: 'Oracle adapter that proposes the winning outcome',
+    enum: ResolverType,
+    example: ResolverType.PRICE_THRESHOLD,
+  })
+  @IsEnum(ResolverType)
+  type: ResolverType;
+
+  @ApiProperty({
+    description:
+      'Adapter parameters. price_threshold: { asset, threshold, direction? }; sports_score: { eventId, homeOutcome, awayOutcome, drawOutcome? }; twitter_followers: { handle, threshold }',
+    type: 'object',
+    additionalProperties: true,
+    example: { asset: 'bitcoin', threshold: 100000, direction: 'above' },
+  })
+  @IsObject()
+  params: Record<string, unknown>;
+}
+
+export class ScalarRangeDto {
+  @ApiProperty({
+    description: 'Lowest value the market pays out on',
+    example: 50000,
+  })
+  @IsNumber({ maxDecimalPlaces: 6 })
+  lowerBound: number;
+
+  @ApiProperty({
+    description: 'Highest value the market pays out on',
+    example: 150000,
+  })
+  @IsNumber({ maxDecimalPlaces: 6 })
+  upperBound: number;
+
+  @ApiProperty({ description: 'Unit of the value', example: 'USD' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  unit: string;
+}
+
 export class CreateMarketDto {
   @ApiProperty({
     description: 'Market title',
@@ -59,20 +117,43 @@ export class CreateMarketDto {
   @IsEnum(MarketCategory)
   category: MarketCategory;
 
-  @ApiProperty({
-    description: 'Market outcomes (2-4 outcomes)',
+  @ApiPropertyOptional({
+    description:
+      'Categorical pays one winning outcome; scalar pays long/short positions on a value within a range',
+    enum: MarketType,
+    default: MarketType.CATEGORICAL,
+  })
+  @IsOptional()
+  @IsEnum(MarketType)
+  type?: MarketType;
+
+  @ApiPropertyOptional({
+    description:
+      'Market outcomes (2-4 outcomes, required for categorical markets). Scalar markets get Short and Long',
     type: [CreateOutcomeDto],
     example: [
       { text: 'Yes', initialProbability: 60 },
       { text: 'No', initialProbability: 40 },
     ],
   })
+  @ValidateIf((dto: CreateMarketDto) => dto.type !== MarketType.SCALAR)
   @IsArray()
   @ArrayMinSize(2)
   @ArrayMaxSize(4)
   @ValidateNested({ each: true })
   @Type(() => CreateOutcomeDto)
-  outcomes: CreateOutcomeDto[];
+  outcomes?: CreateOutcomeDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Numeric range of a scalar market (required for scalar markets)',
+    type: ScalarRangeDto,
+  })
+  @ValidateIf((dto: CreateMarketDto) => dto.type === MarketType.SCALAR)
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => ScalarRangeDto)
+  scalar?: ScalarRangeDto;
 
   @ApiProperty({
     description: 'Market duration in seconds (6 hours to 7 days)',
@@ -112,4 +193,40 @@ export class CreateMarketDto {
   @IsArray()
   @IsString({ each: true })
   tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Who signs the on-chain createMarket transaction',
+    enum: MarketDeploymentMode,
+    default: MarketDeploymentMode.SERVER,
+  })
+  @IsOptional()
+  @IsEnum(MarketDeploymentMode)
+  deploymentMode?: MarketDeploymentMode;
+
+  @ApiPropertyOptional({
+    description:
+      'Save as an editable draft instead of publishing (or submitting for review)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  draft?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'USDC liquidity to seed once the market is on-chain, spread by the initial probabilities. Returned after resolution with a share of fees',
+    example: '500.00',
+  })
+  @IsOptional()
+  @IsNumberString()
+  liquidity?: string;
+
+  @ApiPropertyOptional({
+    description: 'Resolve automatically from external data',
+    type: MarketResolverDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MarketResolverDto)
+  resolver?: MarketResolverDto;
 }
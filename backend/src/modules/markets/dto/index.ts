@@ -5,3 +5,15 @@ export * from './outcome-response.dto';
 export * from './market-response.dto';
 export * from './position-response.dto';
 export * from './trade-response.dto';
+export * from './market-deployment.dto';
+export * from './trade-quote.dto';
+export * from './market-chart.dto';
+export * from './market-comment.dto';
+export * from './market-activity.dto';
+export * from './market-dispute.dto';
+export * from './limit-order.dto';
+export * from './market-template.dto';
+export * from './market-draft.dto';
+export * from './market-liquidity.dto';
+export * from './market-search.dto';
+export * from './market-watchlist.dto';
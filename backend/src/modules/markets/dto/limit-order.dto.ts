@@ -0,0 +1,123 @@
+import {
+  IsOptional,
+  IsEnum,
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  IsNumber,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LimitOrderStatus } from '../../../database/enums';
+import { TradeActionType } from './trade-market.dto';
+
+export class CreateLimitOrderDto {
+  @ApiProperty({
+    description: 'Outcome index to trade (0-3)',
+    example: 1,
+    minimum: 0,
+    maximum: 3,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(3)
+  outcome: number;
+
+  @ApiProperty({
+    description: 'Order side',
+    enum: TradeActionType,
+    example: TradeActionType.BUY,
+  })
+  @IsEnum(TradeActionType)
+  side: TradeActionType;
+
+  @ApiProperty({
+    description: 'Amount in USDC to buy with, or number of shares to sell',
+    example: '100.00',
+  })
+  @IsString()
+  @IsNotEmpty()
+  amount: string;
+
+  @ApiProperty({
+    description:
+      'Outcome probability (percentage) at which the order triggers: buys at or below it, sells at or above it',
+    example: 30,
+    minimum: 0.01,
+    maximum: 99.99,
+  })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(99.99)
+  limitProbability: number;
+
+  @ApiPropertyOptional({
+    description: 'When the order expires (defaults to the market end time)',
+    example: '2025-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class LimitOrdersQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by order status',
+    enum: LimitOrderStatus,
+  })
+  @IsOptional()
+  @IsEnum(LimitOrderStatus)
+  status?: LimitOrderStatus;
+}
+
+export class LimitOrderDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  marketId: string;
+
+  @ApiProperty()
+  outcomeIndex: number;
+
+  @ApiProperty({ enum: TradeActionType })
+  side: string;
+
+  @ApiProperty({ description: 'Order size (USDC for buys, shares for sells)' })
+  amount: string;
+
+  @ApiProperty({ description: 'Size filled so far' })
+  filledAmount: string;
+
+  @ApiProperty({ description: 'Size still to fill' })
+  remainingAmount: string;
+
+  @ApiProperty({ description: 'Trigger probability (percentage)' })
+  limitProbability: string;
+
+  @ApiProperty({ enum: LimitOrderStatus })
+  status: LimitOrderStatus;
+
+  @ApiProperty()
+  expiresAt: string;
+
+  @ApiPropertyOptional()
+  triggeredAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Outcome probability when the order last triggered',
+  })
+  triggerProbability?: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class LimitOrderListResponseDto {
+  @ApiProperty({ type: [LimitOrderDto] })
+  orders: LimitOrderDto[];
+}
@@ -0,0 +1,130 @@
+import {
+  IsOptional,
+  IsEnum,
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketActivityType } from '../../../database/enums';
+
+export class MarketActivityQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only return these activity types (comma-separated)',
+    enum: MarketActivityType,
+    isArray: true,
+    example: 'trade,comment',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+  )
+  @IsEnum(MarketActivityType, { each: true })
+  type?: MarketActivityType[];
+
+  @ApiPropertyOptional({
+    description: 'Cursor returned as nextCursor by the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Activities per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class CreateAnnouncementDto {
+  @ApiProperty({
+    description: 'Announcement text shown in the market activity feed',
+    example:
+      'Resolution source updated: we will use the official results page.',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  content: string;
+}
+
+export class MarketActivityActorDto {
+  @ApiProperty({ description: 'User ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Twitter handle', example: '@trader' })
+  twitterHandle: string;
+
+  @ApiProperty({ description: 'Display name' })
+  displayName: string;
+
+  @ApiProperty({ description: 'Profile picture URL' })
+  profilePictureUrl: string;
+}
+
+export class MarketActivityDto {
+  @ApiProperty({ description: 'Activity ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Market ID' })
+  marketId: string;
+
+  @ApiProperty({ enum: MarketActivityType, example: 'trade' })
+  type: MarketActivityType;
+
+  @ApiPropertyOptional({
+    description: 'User behind the activity, absent for platform actions',
+    type: MarketActivityActorDto,
+  })
+  actor?: MarketActivityActorDto;
+
+  @ApiPropertyOptional({
+    description: 'Trade or comment the activity refers to',
+  })
+  referenceId?: string;
+
+  @ApiProperty({
+    description: 'Type-specific details',
+    type: 'object',
+    additionalProperties: true,
+    example: {
+      action: 'buy',
+      outcomeIndex: 0,
+      outcomeText: 'Yes',
+      shares: '98.500000',
+      amount: '100.000000',
+    },
+  })
+  data: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'When the activity happened',
+    example: '2025-01-01T12:00:00.000Z',
+  })
+  timestamp: string;
+}
+
+export class MarketActivityListResponseDto {
+  @ApiProperty({ type: [MarketActivityDto] })
+  activity: MarketActivityDto[];
+
+  @ApiPropertyOptional({
+    description: 'Cursor for the next page, absent on the last page',
+  })
+  nextCursor?: string;
+
+  @ApiProperty({ description: 'Whether more activity is available' })
+  hasMore: boolean;
+}
@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+
+export enum MarketChartTimeframe {
+  HOUR_24 = '24h',
+  DAYS_7 = '7d',
+  ALL = 'all',
+}
+
+export enum MarketChartInterval {
+  HOUR_1 = '1h',
+  HOUR_4 = '4h',
+  DAY_1 = '1d',
+}
+
+export class MarketChartQueryDto {
+  @ApiPropertyOptional({
+    description: 'Timeframe for chart data',
+    enum: MarketChartTimeframe,
+    default: MarketChartTimeframe.DAYS_7,
+  })
+  @IsOptional()
+  @IsEnum(MarketChartTimeframe)
+  timeframe?: MarketChartTimeframe;
+
+  @ApiPropertyOptional({
+    description: 'Data interval',
+    enum: MarketChartInterval,
+    default: MarketChartInterval.HOUR_1,
+  })
+  @IsOptional()
+  @IsEnum(MarketChartInterval)
+  interval?: MarketChartInterval;
+}
+
+export class MarketChartPointDto {
+  @ApiProperty({
+    description: 'Bucket start time',
+    example: '2025-01-01T00:00:00.000Z',
+  })
+  timestamp: string;
+
+  @ApiProperty({
+    description:
+      'Outcome probabilities (%) at the end of the bucket, by outcome index',
+    type: [Number],
+    example: [62.5, 37.5],
+  })
+  probabilities: number[];
+
+  @ApiPropertyOptional({
+    description: 'Value implied by the long probability (scalar markets only)',
+    example: 112500,
+  })
+  impliedValue?: number;
+
+  @ApiProperty({
+    description: 'USDC traded during the bucket',
+    example: 1250.5,
+  })
+  volume: number;
+}
+
+export class MarketChartResponseDto {
+  @ApiProperty({ enum: MarketChartTimeframe })
+  timeframe: MarketChartTimeframe;
+
+  @ApiProperty({ enum: MarketChartInterval })
+  interval: MarketChartInterval;
+
+  @ApiProperty({ type: [MarketChartPointDto] })
+  data: MarketChartPointDto[];
+}
@@ -0,0 +1,182 @@
+import {
+  IsOptional,
+  IsEnum,
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  IsUUID,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CommentStatus } from '../../../database/enums';
+
+export enum CommentSortBy {
+  RECENT = 'recent',
+  POPULAR = 'popular',
+  OLDEST = 'oldest',
+}
+
+export class CreateCommentDto {
+  @ApiProperty({
+    description: 'Comment text',
+    example: 'The latest polls make outcome 0 look underpriced.',
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  content: string;
+
+  @ApiPropertyOptional({
+    description: 'Comment to reply to',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+}
+
+export class UpdateCommentDto {
+  @ApiProperty({
+    description: 'New comment text',
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  content: string;
+}
+
+export class CommentsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Sort order',
+    enum: CommentSortBy,
+    default: CommentSortBy.RECENT,
+  })
+  @IsOptional()
+  @IsEnum(CommentSortBy)
+  sort?: CommentSortBy;
+
+  @ApiPropertyOptional({
+    description: 'Page number',
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Top-level comments per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class CommentAuthorDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  twitterHandle: string;
+
+  @ApiProperty()
+  displayName: string;
+
+  @ApiProperty()
+  profilePictureUrl: string;
+}
+
+export class CommentPositionBadgeDto {
+  @ApiProperty({ description: 'Outcome index held by the author' })
+  outcomeIndex: number;
+
+  @ApiProperty({ description: 'Outcome text', example: 'Yes' })
+  outcomeText: string;
+
+  @ApiProperty({ description: 'Shares currently held' })
+  shares: string;
+}
+
+export class CommentResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  marketId: string;
+
+  @ApiPropertyOptional()
+  parentId?: string;
+
+  @ApiProperty({ type: CommentAuthorDto })
+  user: CommentAuthorDto;
+
+  @ApiProperty({
+    description: 'Comment text, null once deleted or removed',
+    nullable: true,
+    type: String,
+  })
+  content: string | null;
+
+  @ApiProperty({ enum: CommentStatus })
+  status: CommentStatus;
+
+  @ApiProperty()
+  likes: number;
+
+  @ApiProperty()
+  replies: number;
+
+  @ApiProperty({ description: 'Whether the current user liked the comment' })
+  likedByMe: boolean;
+
+  @ApiProperty({
+    description: 'Outcomes the author holds a position in',
+    type: [CommentPositionBadgeDto],
+  })
+  positions: CommentPositionBadgeDto[];
+
+  @ApiPropertyOptional()
+  editedAt?: string;
+
+  @ApiProperty()
+  createdAt: string;
+
+  @ApiPropertyOptional({
+    description: 'Replies, oldest first (top-level comments only)',
+    type: () => [CommentResponseDto],
+  })
+  thread?: CommentResponseDto[];
+}
+
+export class CommentListResponseDto {
+  @ApiProperty({ type: [CommentResponseDto] })
+  comments: CommentResponseDto[];
+
+  @ApiProperty({
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      limit: { type: 'number' },
+      total: { type: 'number' },
+      totalPages: { type: 'number' },
+    },
+  })
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
@@ -0,0 +1,14 @@
+import { IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SubmitMarketDeploymentDto {
+  @ApiProperty({
+    description: 'Hash of the createMarket transaction signed by the creator',
+    example: '0x3f2a...',
+  })
+  @IsString()
+  @Matches(/^0x[a-fA-F0-9]{64}$/, {
+    message: 'txHash must be a transaction hash',
+  })
+  txHash: string;
+}
@@ -0,0 +1,136 @@
+import {
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsUrl,
+  IsNumberString,
+  ArrayMaxSize,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketDisputeStatus, MarketStatus } from '../../../database/enums';
+
+export class OpenDisputeDto {
+  @ApiProperty({
+    description: 'Why the resolution is wrong',
+    example: 'The official source reported the opposite result.',
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Links supporting the dispute',
+    type: [String],
+    example: ['https://example.com/official-results'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUrl({}, { each: true })
+  evidenceUrls?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Hash of the disputeMarket transaction that escrowed the bond; required for markets deployed on-chain',
+    example: '0x3f2a...',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^0x[a-fA-F0-9]{64}$/, {
+    message: 'txHash must be a transaction hash',
+  })
+  txHash?: string;
+}
+
+export class PrepareDisputeDto {
+  @ApiPropertyOptional({
+    description:
+      'USDC bond to escrow with the dispute, returned if the result is overturned',
+    example: '50.00',
+  })
+  @IsOptional()
+  @IsNumberString()
+  bondAmount?: string;
+}
+
+export class DisputeTransactionResponseDto {
+  @ApiProperty()
+  unsignedTx: {
+    to: string;
+    data: string;
+    value: string;
+  };
+
+  @ApiPropertyOptional({
+    description:
+      'USDC approve transaction to send first when the current allowance is too low',
+  })
+  approvalTx?: {
+    to: string;
+    data: string;
+    value: string;
+  };
+
+  @ApiProperty({ description: 'USDC bond escrowed', example: '50.000000' })
+  bondAmount: string;
+}
+
+export class MarketDisputeDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  marketId: string;
+
+  @ApiProperty({ description: 'User who raised the dispute' })
+  raisedBy: string;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty({ type: [String] })
+  evidenceUrls: string[];
+
+  @ApiPropertyOptional({ description: 'USDC bond escrowed by the contract' })
+  bondAmount?: string;
+
+  @ApiPropertyOptional({ description: 'disputeMarket transaction' })
+  txHash?: string;
+
+  @ApiPropertyOptional({ description: 'settleDispute transaction' })
+  settlementTxHash?: string;
+
+  @ApiProperty({ enum: MarketDisputeStatus })
+  status: MarketDisputeStatus;
+
+  @ApiProperty({
+    enum: MarketStatus,
+    description: 'Market status when the dispute was raised',
+  })
+  previousStatus: MarketStatus;
+
+  @ApiPropertyOptional({ description: 'Winning outcome being disputed' })
+  originalOutcomeIndex?: number;
+
+  @ApiPropertyOptional({ description: 'Winning outcome after adjudication' })
+  finalOutcomeIndex?: number;
+
+  @ApiPropertyOptional()
+  adjudicationNote?: string;
+
+  @ApiPropertyOptional()
+  adjudicatedAt?: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class MarketDisputeListResponseDto {
+  @ApiProperty({ type: [MarketDisputeDto] })
+  disputes: MarketDisputeDto[];
+}
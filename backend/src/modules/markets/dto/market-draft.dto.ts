@@ -0,0 +1,107 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  IsInt,
+  Min,
+  Max,
+  IsOptional,
+  IsUrl,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketCategory } from '../../../database/enums';
+import {
+  CreateOutcomeDto,
+  ScalarRangeDto,
+  MarketDeploymentMode,
+} from './create-market.dto';
+import { MarketResponseDto } from './market-response.dto';
+
+export class UpdateMarketDraftDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  title?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  description?: string;
+
+  @ApiPropertyOptional({ enum: MarketCategory })
+  @IsOptional()
+  @IsEnum(MarketCategory)
+  category?: MarketCategory;
+
+  @ApiPropertyOptional({
+    description: 'Replacement outcomes (categorical markets only)',
+    type: [CreateOutcomeDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(4)
+  @ValidateNested({ each: true })
+  @Type(() => CreateOutcomeDto)
+  outcomes?: CreateOutcomeDto[];
+
+  @ApiPropertyOptional({
+    description: 'Replacement range (scalar markets only)',
+    type: ScalarRangeDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScalarRangeDto)
+  scalar?: ScalarRangeDto;
+
+  @ApiPropertyOptional({ minimum: 21600, maximum: 604800 })
+  @IsOptional()
+  @IsInt()
+  @Min(21600)
+  @Max(604800)
+  duration?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  resolutionCriteria?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  evidenceLinks?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+}
+
+export class SubmitMarketDraftDto {
+  @ApiPropertyOptional({
+    description:
+      'Who signs the on-chain createMarket transaction if the market publishes without review',
+    enum: MarketDeploymentMode,
+    default: MarketDeploymentMode.SERVER,
+  })
+  @IsOptional()
+  @IsEnum(MarketDeploymentMode)
+  deploymentMode?: MarketDeploymentMode;
+}
+
+export class MarketDraftListResponseDto {
+  @ApiProperty({
+    description: 'Drafts and markets awaiting review, newest first',
+    type: [MarketResponseDto],
+  })
+  markets: MarketResponseDto[];
+}
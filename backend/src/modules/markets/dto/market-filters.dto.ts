@@ -1,5 +1,13 @@
-import { IsOptional, IsEnum, IsString, IsInt, Min } from 'class-validator';
-import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsEnum,
+  IsString,
+  IsInt,
+  IsNumber,
+  IsDateString,
+  Min,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { MarketStatus, MarketCategory } from '../../../database/enums';
 
@@ -9,6 +17,8 @@ export enum MarketSortBy {
   VOLUME = 'totalVolume',
   PARTICIPANTS = 'participantCount',
   TRADES = 'tradeCount',
+  RELEVANCE = 'relevance', // Full-text rank; requires search
+  ENDING_SOON = 'endingSoon', // Open markets closest to their end time first
 }
 
 export class MarketFiltersDto {
@@ -36,16 +46,70 @@ export class MarketFiltersDto {
   creatorId?: string;
 
   @ApiPropertyOptional({
-    description: 'Search in title and description',
+    description:
+      'Full-text search in title, tags and description. Supports quoted phrases, OR and -term.',
   })
   @IsOptional()
   @IsString()
   search?: string;
 
   @ApiPropertyOptional({
-    description: 'Sort by field',
+    description: 'Only markets with all of these tags (comma-separated)',
+    type: [String],
+    example: 'bitcoin,etf',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only markets ending at or after this time',
+    example: '2025-12-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endsAfter?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only markets ending at or before this time',
+    example: '2025-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endsBefore?: string;
+
+  @ApiPropertyOptional({
+    description: 'Minimum total volume (USDC)',
+    minimum: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minVolume?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum total volume (USDC)',
+    minimum: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxVolume?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Sort by field. Defaults to relevance when searching, otherwise createdAt',
     enum: MarketSortBy,
-    default: MarketSortBy.CREATED_AT,
   })
   @IsOptional()
   @IsEnum(MarketSortBy)
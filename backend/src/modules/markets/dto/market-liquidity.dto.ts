@@ -0,0 +1,112 @@
+import { IsOptional, IsNumberString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SeedLiquidityDto {
+  @ApiPropertyOptional({
+    description:
+      'USDC to seed; defaults to the liquidity requested when the market was created',
+    example: '500.00',
+  })
+  @IsOptional()
+  @IsNumberString()
+  amount?: string;
+}
+
+export class LiquidityTransactionResponseDto {
+  @ApiProperty()
+  unsignedTx: {
+    to: string;
+    data: string;
+    value: string;
+  };
+
+  @ApiPropertyOptional({
+    description:
+      'USDC approve transaction to send first when the current allowance is too low',
+  })
+  approvalTx?: {
+    to: string;
+    data: string;
+    value: string;
+  };
+
+  @ApiProperty({
+    description: 'USDC seeded (seed) or returned before fees (withdrawal)',
+    example: '500.000000',
+  })
+  amount: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Share of the seed per outcome in basis points, from the initial probabilities (seed only)',
+    type: [Number],
+    example: [6000, 4000],
+  })
+  weightsBps?: number[];
+
+  @ApiPropertyOptional({
+    description: 'Liquidity fees paid out with the seed (withdrawal only)',
+    example: '12.250000',
+  })
+  fees?: string;
+}
+
+export class LiquidityPositionDto {
+  @ApiProperty()
+  walletAddress: string;
+
+  @ApiPropertyOptional()
+  userId?: string;
+
+  @ApiProperty({ description: 'USDC seeded', example: '500.000000' })
+  amount: string;
+
+  @ApiProperty({ description: 'Liquidity fees paid out on withdrawal' })
+  feesEarned: string;
+
+  @ApiProperty()
+  withdrawnAmount: string;
+
+  @ApiPropertyOptional()
+  withdrawnAt?: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class OutcomeLiquidityDto {
+  @ApiProperty()
+  outcomeIndex: number;
+
+  @ApiProperty()
+  text: string;
+
+  @ApiProperty({ description: 'Seeded USDC held in this outcome reserve' })
+  seedLiquidity: string;
+}
+
+export class MarketLiquidityResponseDto {
+  @ApiProperty()
+  marketId: string;
+
+  @ApiProperty({ description: 'Total seeded USDC', example: '500.000000' })
+  totalLiquidity: string;
+
+  @ApiPropertyOptional({
+    description: 'Seed requested at creation and not yet provided',
+  })
+  pendingSeed?: string;
+
+  @ApiProperty({
+    description:
+      'Liquidity fees accrued so far, shared pro rata between providers',
+    example: '3.125000',
+  })
+  accruedFees: string;
+
+  @ApiProperty({ type: [OutcomeLiquidityDto] })
+  outcomes: OutcomeLiquidityDto[];
+
+  @ApiProperty({ type: [LiquidityPositionDto] })
+  positions: LiquidityPositionDto[];
+}
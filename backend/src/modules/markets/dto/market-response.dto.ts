@@ -1,6 +1,12 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { MarketStatus, MarketCategory } from '../../../database/enums';
+import {
+  MarketStatus,
+  MarketCategory,
+  MarketType,
+} from '../../../database/enums';
 import { OutcomeResponseDto } from './outcome-response.dto';
+import { MarketResolverDto } from './create-market.dto';
+import { MarketSearchFacetsDto } from './market-search.dto';
 
 export class MarketCreatorDto {
   @ApiProperty()
@@ -16,6 +22,29 @@ export class MarketCreatorDto {
   };
 }
 
+export class MarketScalarDto {
+  @ApiProperty({ example: '50000.000000' })
+  lowerBound: string;
+
+  @ApiProperty({ example: '150000.000000' })
+  upperBound: string;
+
+  @ApiProperty({ example: 'USD' })
+  unit: string;
+
+  @ApiProperty({
+    description: 'Value implied by the current long probability',
+    example: 112500,
+  })
+  impliedValue: number;
+
+  @ApiPropertyOptional({
+    description: 'Observed value the market resolved to',
+    example: '104250.000000',
+  })
+  resolvedValue?: string;
+}
+
 export class MarketResponseDto {
   @ApiProperty()
   id: string;
@@ -29,15 +58,33 @@ export class MarketResponseDto {
   @ApiProperty({ enum: MarketCategory })
   category: MarketCategory;
 
+  @ApiProperty({ enum: MarketType })
+  type: MarketType;
+
+  @ApiPropertyOptional({
+    description: 'Range and implied value (scalar markets only)',
+    type: MarketScalarDto,
+  })
+  scalar?: MarketScalarDto;
+
   @ApiProperty({ enum: MarketStatus })
   status: MarketStatus;
 
+  @ApiProperty({ description: 'Trading is paused on-chain' })
+  paused: boolean;
+
+  @ApiPropertyOptional({ description: 'Why trading was paused' })
+  pauseReason?: string;
+
   @ApiPropertyOptional()
   contractAddress?: string;
 
   @ApiPropertyOptional()
   txHash?: string;
 
+  @ApiPropertyOptional()
+  onChainMarketId?: string;
+
   @ApiProperty()
   creatorId: string;
 
@@ -59,6 +106,32 @@ export class MarketResponseDto {
   @ApiPropertyOptional({ type: [String] })
   tags?: string[];
 
+  @ApiPropertyOptional({
+    description: 'Template this market was instantiated from',
+  })
+  templateId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Template version this market was instantiated from',
+  })
+  templateVersionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the market was submitted for pre-publication review',
+  })
+  reviewSubmittedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Why a reviewer sent the market back to draft',
+  })
+  reviewRejectionReason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Oracle adapter resolving this market',
+    type: MarketResolverDto,
+  })
+  resolver?: MarketResolverDto;
+
   @ApiProperty()
   totalVolume: string;
 
@@ -77,6 +150,11 @@ export class MarketResponseDto {
   @ApiPropertyOptional()
   resolvedAt?: string;
 
+  @ApiPropertyOptional({
+    description: 'Time by which a pending market should be resolved',
+  })
+  resolutionDeadline?: string;
+
   @ApiProperty()
   createdAt: string;
 
@@ -102,6 +180,9 @@ export class MarketListResponseDto {
 
   @ApiProperty()
   totalPages: number;
+
+  @ApiProperty({ type: MarketSearchFacetsDto })
+  facets: MarketSearchFacetsDto;
 }
 
 export class CreateMarketResponseDto {
@@ -114,6 +195,16 @@ export class CreateMarketResponseDto {
   @ApiPropertyOptional()
   txHash?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Unsigned createMarket transaction, returned when the creator deploys the market',
+  })
+  unsignedTx?: {
+    to: string;
+    data: string;
+    value: string;
+  };
+
   @ApiProperty({ type: MarketResponseDto })
   market: MarketResponseDto;
 }
@@ -0,0 +1,79 @@
+import {
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketStatus, MarketCategory } from '../../../database/enums';
+
+export class MarketFacetCountDto {
+  @ApiProperty({ example: 'crypto' })
+  value: string;
+
+  @ApiProperty({ example: 12 })
+  count: number;
+}
+
+export class MarketSearchFacetsDto {
+  @ApiProperty({
+    type: [MarketFacetCountDto],
+    description: 'Matching markets per category, ignoring the category filter',
+  })
+  categories: MarketFacetCountDto[];
+
+  @ApiProperty({
+    type: [MarketFacetCountDto],
+    description:
+      'Most used tags among matching markets, ignoring the tags filter',
+  })
+  tags: MarketFacetCountDto[];
+}
+
+export class MarketSuggestQueryDto {
+  @ApiProperty({
+    description: 'What the user has typed so far',
+    example: 'bitc',
+  })
+  @IsString()
+  @IsNotEmpty()
+  q: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum suggestions',
+    default: 5,
+    minimum: 1,
+    maximum: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  limit?: number;
+}
+
+export class MarketSuggestionDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty({ enum: MarketCategory })
+  category: MarketCategory;
+
+  @ApiProperty({ enum: MarketStatus })
+  status: MarketStatus;
+
+  @ApiProperty()
+  endTime: string;
+}
+
+export class MarketSuggestResponseDto {
+  @ApiProperty({ type: [MarketSuggestionDto] })
+  suggestions: MarketSuggestionDto[];
+}
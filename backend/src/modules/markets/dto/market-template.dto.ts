@@ -0,0 +1,301 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  IsInt,
+  Min,
+  Max,
+  IsOptional,
+  IsUrl,
+  IsBoolean,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketCategory, RecurrenceFrequency } from '../../../database/enums';
+import { CreateOutcomeDto } from './create-market.dto';
+
+export class MarketTemplateRecurrenceDto {
+  @ApiProperty({
+    enum: RecurrenceFrequency,
+    example: RecurrenceFrequency.WEEKLY,
+  })
+  @IsEnum(RecurrenceFrequency)
+  frequency: RecurrenceFrequency;
+
+  @ApiPropertyOptional({
+    description: 'Day of the week for weekly recurrences (0 = Sunday)',
+    example: 1,
+    minimum: 0,
+    maximum: 6,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek?: number;
+
+  @ApiProperty({ description: 'Time of day in UTC (HH:mm)', example: '12:00' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'time must be HH:mm (UTC)',
+  })
+  time: string;
+}
+
+export class CreateMarketTemplateDto {
+  @ApiProperty({ description: 'Template name', example: 'Weekly BTC close' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Market title; {{date}}, {{end_date}}, {{week}} and {{n}} are filled in for each instance',
+    example: 'Will BTC close above $100K on {{end_date}}?',
+  })
+  @IsString()
+  @IsNotEmpty()
+  titleTemplate: string;
+
+  @ApiProperty({
+    description: 'Market description, with the same placeholders as the title',
+    example:
+      'Resolves YES if the BTC daily close on {{end_date}} is above $100K.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  descriptionTemplate: string;
+
+  @ApiProperty({ enum: MarketCategory, example: MarketCategory.CRYPTO })
+  @IsEnum(MarketCategory)
+  category: MarketCategory;
+
+  @ApiProperty({
+    description: 'Market outcomes (2-4 outcomes)',
+    type: [CreateOutcomeDto],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(4)
+  @ValidateNested({ each: true })
+  @Type(() => CreateOutcomeDto)
+  outcomes: CreateOutcomeDto[];
+
+  @ApiProperty({
+    description: 'Duration of each instance in seconds (6 hours to 7 days)',
+    example: 604800,
+    minimum: 21600,
+    maximum: 604800,
+  })
+  @IsInt()
+  @Min(21600) // 6 hours
+  @Max(604800) // 7 days
+  duration: number;
+
+  @ApiPropertyOptional({ description: 'Resolution criteria' })
+  @IsOptional()
+  @IsString()
+  resolutionCriteria?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  evidenceLinks?: string[];
+
+  @ApiPropertyOptional({ type: [String], example: ['crypto', 'weekly'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Create instances automatically on this schedule',
+    type: MarketTemplateRecurrenceDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MarketTemplateRecurrenceDto)
+  recurrence?: MarketTemplateRecurrenceDto;
+}
+
+export class UpdateMarketTemplateDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  titleTemplate?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  descriptionTemplate?: string;
+
+  @ApiPropertyOptional({ enum: MarketCategory })
+  @IsOptional()
+  @IsEnum(MarketCategory)
+  category?: MarketCategory;
+
+  @ApiPropertyOptional({ type: [CreateOutcomeDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(4)
+  @ValidateNested({ each: true })
+  @Type(() => CreateOutcomeDto)
+  outcomes?: CreateOutcomeDto[];
+
+  @ApiPropertyOptional({ minimum: 21600, maximum: 604800 })
+  @IsOptional()
+  @IsInt()
+  @Min(21600)
+  @Max(604800)
+  duration?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  resolutionCriteria?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUrl({}, { each: true })
+  evidenceLinks?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'New schedule; null stops recurring instances',
+    type: MarketTemplateRecurrenceDto,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MarketTemplateRecurrenceDto)
+  recurrence?: MarketTemplateRecurrenceDto | null;
+
+  @ApiPropertyOptional({ description: 'Pause or resume recurring instances' })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class MarketTemplateDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  creatorId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ description: 'Version new instances are created from' })
+  currentVersion: number;
+
+  @ApiProperty()
+  titleTemplate: string;
+
+  @ApiProperty()
+  descriptionTemplate: string;
+
+  @ApiProperty({ enum: MarketCategory })
+  category: MarketCategory;
+
+  @ApiProperty({ type: [CreateOutcomeDto] })
+  outcomes: CreateOutcomeDto[];
+
+  @ApiProperty()
+  duration: number;
+
+  @ApiPropertyOptional()
+  resolutionCriteria?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  evidenceLinks?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  tags?: string[];
+
+  @ApiPropertyOptional({ type: MarketTemplateRecurrenceDto })
+  recurrence?: MarketTemplateRecurrenceDto;
+
+  @ApiProperty()
+  active: boolean;
+
+  @ApiPropertyOptional({ description: 'Next scheduled instance' })
+  nextRunAt?: string;
+
+  @ApiPropertyOptional()
+  lastRunAt?: string;
+
+  @ApiProperty()
+  instanceCount: number;
+
+  @ApiProperty()
+  createdAt: string;
+
+  @ApiProperty()
+  updatedAt: string;
+}
+
+export class MarketTemplateListResponseDto {
+  @ApiProperty({ type: [MarketTemplateDto] })
+  templates: MarketTemplateDto[];
+}
+
+export class MarketTemplateVersionPerformanceDto {
+  @ApiProperty()
+  version: number;
+
+  @ApiProperty()
+  titleTemplate: string;
+
+  @ApiProperty()
+  createdAt: string;
+
+  @ApiProperty({ description: 'Markets created from this version' })
+  marketCount: number;
+
+  @ApiProperty({ description: 'Of which resolved' })
+  resolvedCount: number;
+
+  @ApiProperty({ description: 'Total USDC volume', example: '15234.500000' })
+  totalVolume: string;
+
+  @ApiProperty({ description: 'Average USDC volume per market' })
+  averageVolume: string;
+
+  @ApiProperty({ description: 'Average participants per market' })
+  averageParticipants: number;
+
+  @ApiProperty({ description: 'Average trades per market' })
+  averageTrades: number;
+}
+
+export class MarketTemplatePerformanceResponseDto {
+  @ApiProperty()
+  templateId: string;
+
+  @ApiProperty({ type: [MarketTemplateVersionPerformanceDto] })
+  versions: MarketTemplateVersionPerformanceDto[];
+}
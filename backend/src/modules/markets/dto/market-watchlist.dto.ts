@@ -0,0 +1,72 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketResponseDto } from './market-response.dto';
+
+export class WatchlistQueryDto {
+  @ApiPropertyOptional({
+    description: 'Page number',
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class MarketWatchResponseDto {
+  @ApiProperty()
+  marketId: string;
+
+  @ApiProperty({ description: 'Whether the current user watches the market' })
+  watching: boolean;
+
+  @ApiProperty({ description: 'Users watching the market' })
+  watcherCount: number;
+}
+
+export class WatchlistItemDto {
+  @ApiProperty({ type: MarketResponseDto })
+  market: MarketResponseDto;
+
+  @ApiProperty({ description: 'The market is on the watchlist' })
+  watching: boolean;
+
+  @ApiProperty({ description: 'The market was created by a followed creator' })
+  followingCreator: boolean;
+
+  @ApiPropertyOptional({ description: 'When the market was added' })
+  watchedAt?: string;
+}
+
+export class WatchlistResponseDto {
+  @ApiProperty({ type: [WatchlistItemDto] })
+  items: WatchlistItemDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
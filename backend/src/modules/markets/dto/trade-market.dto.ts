@@ -26,7 +26,7 @@ export class TradeMarketDto {
   outcome: number;
 
   @ApiProperty({
-    description: 'Amount in USDC',
+    description: 'Amount in USDC to buy with, or number of shares to sell',
     example: '100.00',
   })
   @IsString()
@@ -0,0 +1,167 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TradeActionType } from './trade-market.dto';
+
+export class TradeQuoteQueryDto {
+  @ApiProperty({
+    description: 'Outcome index to trade (0-3)',
+    example: 0,
+    minimum: 0,
+    maximum: 3,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(3)
+  outcome: number;
+
+  @ApiProperty({
+    description: 'Amount in USDC to buy with, or number of shares to sell',
+    example: '100.00',
+  })
+  @IsString()
+  @IsNotEmpty()
+  amount: string;
+
+  @ApiPropertyOptional({
+    description: 'Trade action',
+    enum: TradeActionType,
+    default: TradeActionType.BUY,
+  })
+  @IsOptional()
+  @IsEnum(TradeActionType)
+  action?: TradeActionType = TradeActionType.BUY;
+}
+
+export class TradeFeeBreakdownDto {
+  @ApiProperty({ description: 'Total fee in USDC', example: '1.500000' })
+  total: string;
+
+  @ApiProperty({ description: 'Platform fee in USDC', example: '0.750000' })
+  platform: string;
+
+  @ApiProperty({ description: 'Creator fee in USDC', example: '0.600000' })
+  creator: string;
+
+  @ApiProperty({
+    description: 'Creator shareholder fee in USDC',
+    example: '0.150000',
+  })
+  shareholder: string;
+
+  @ApiProperty({
+    description:
+      'Liquidity provider fee in USDC, taken from the platform fee on seeded markets',
+    example: '0.250000',
+  })
+  liquidity: string;
+}
+
+export class OutcomeQuoteDto {
+  @ApiProperty()
+  outcomeIndex: number;
+
+  @ApiProperty()
+  text: string;
+
+  @ApiProperty({
+    description: 'Probability before the trade (%)',
+    example: '45.50',
+  })
+  currentProbability: string;
+
+  @ApiProperty({
+    description: 'Probability after the trade (%)',
+    example: '47.20',
+  })
+  newProbability: string;
+}
+
+export class ScalarQuoteDto {
+  @ApiProperty({
+    description: 'Value implied by the long probability before the trade',
+    example: 112500,
+  })
+  currentValue: number;
+
+  @ApiProperty({
+    description: 'Value implied by the long probability after the trade',
+    example: 113100,
+  })
+  newValue: number;
+
+  @ApiProperty({ example: 'USD' })
+  unit: string;
+}
+
+export class TradeQuoteResponseDto {
+  @ApiProperty()
+  marketId: string;
+
+  @ApiProperty()
+  outcome: number;
+
+  @ApiProperty({ enum: TradeActionType })
+  action: TradeActionType;
+
+  @ApiProperty({
+    description:
+      'USDC paid including fees (buy) or share value before fees (sell)',
+  })
+  amount: string;
+
+  @ApiProperty()
+  expectedShares: string;
+
+  @ApiProperty({
+    description:
+      'Average USDC paid (buy) or received (sell) per share, after fees',
+  })
+  averagePrice: string;
+
+  @ApiProperty({ type: TradeFeeBreakdownDto })
+  fees: TradeFeeBreakdownDto;
+
+  @ApiProperty({
+    description:
+      'Change of the traded outcome probability caused by this trade (percentage points)',
+  })
+  priceImpact: string;
+
+  @ApiProperty({
+    description:
+      'USDC paid out for these shares if the outcome wins and no other trades happen',
+  })
+  potentialPayout: string;
+
+  @ApiProperty({
+    description:
+      'USDC seeded into the market reserves; deeper liquidity means smaller price impact',
+    example: '1000.000000',
+  })
+  liquidityDepth: string;
+
+  @ApiPropertyOptional({
+    description: 'USDC received after fees (sell only)',
+  })
+  proceeds?: string;
+
+  @ApiProperty({ type: [OutcomeQuoteDto] })
+  outcomes: OutcomeQuoteDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Implied values before and after the trade (scalar markets only)',
+    type: ScalarQuoteDto,
+  })
+  scalar?: ScalarQuoteDto;
+}
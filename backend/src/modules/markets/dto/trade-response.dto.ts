@@ -1,4 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TradeQuoteResponseDto } from './trade-quote.dto';
 
 export enum TradeActionResponse {
   BUY = 'buy',
@@ -71,6 +72,16 @@ export class UnsignedTransactionResponseDto {
     value: string;
   };
 
+  @ApiPropertyOptional({
+    description:
+      'USDC approve transaction to send first when the current allowance is too low',
+  })
+  approvalTx?: {
+    to: string;
+    data: string;
+    value: string;
+  };
+
   @ApiProperty()
   expectedShares: string;
 
@@ -79,4 +90,13 @@ export class UnsignedTransactionResponseDto {
 
   @ApiProperty()
   priceImpact: string;
+
+  @ApiPropertyOptional({
+    description: 'USDC paid back by the transaction (refunds only)',
+    example: '98.500000',
+  })
+  refundAmount?: string;
+
+  @ApiPropertyOptional({ type: TradeQuoteResponseDto })
+  quote?: TradeQuoteResponseDto;
 }
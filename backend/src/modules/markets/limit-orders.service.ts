@@ -0,0 +1,478 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  EntityManager,
+  Repository,
+  In,
+  LessThan,
+  LessThanOrEqual,
+  MoreThan,
+} from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { Outcome } from '../../database/entities/outcome.entity';
+import { Position } from '../../database/entities/position.entity';
+import { Trade, TradeAction } from '../../database/entities/trade.entity';
+import { LimitOrder } from '../../database/entities/limit-order.entity';
+import { LimitOrderStatus, MarketStatus } from '../../database/enums';
+import { ContractsService } from '../../contracts/contracts.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/dto';
+import { MarketsService } from './markets.service';
+import {
+  CreateLimitOrderDto,
+  LimitOrdersQueryDto,
+  LimitOrderDto,
+  LimitOrderListResponseDto,
+  TradeActionType,
+} from './dto';
+
+// Live (untriggered or partially filled) orders a user may keep per market
+const MAX_LIVE_ORDERS_PER_MARKET = 20;
+
+// Orders that can still trigger when the outcome probability moves
+const MATCHABLE_STATUSES = [
+  LimitOrderStatus.OPEN,
+  LimitOrderStatus.PARTIALLY_FILLED,
+];
+
+// Orders that still count towards a user's trades
+const LIVE_STATUSES = [...MATCHABLE_STATUSES, LimitOrderStatus.TRIGGERED];
+
+@Injectable()
+export class LimitOrdersService {
+  private readonly logger = new Logger(LimitOrdersService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(Position)
+    private readonly positionRepository: Repository<Position>,
+    @InjectRepository(LimitOrder)
+    private readonly orderRepository: Repository<LimitOrder>,
+    private readonly marketsService: MarketsService,
+    private readonly contractsService: ContractsService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Place a limit order on an outcome
+   */
+  async createOrder(
+    marketId: string,
+    userId: string,
+    walletAddress: string,
+    dto: CreateLimitOrderDto,
+  ): Promise<LimitOrderDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+      relations: ['outcomes'],
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.status !== MarketStatus.ACTIVE || market.endTime <= new Date()) {
+      throw new BadRequestException('Market is not active');
+    }
+
+    const outcome = market.outcomes.find((o) => o.outcomeIndex === dto.outcome);
+
+    if (!outcome) {
+      throw new BadRequestException('Invalid outcome index');
+    }
+
+    const amount = Number(dto.amount);
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new BadRequestException('Amount must be greater than zero');
+    }
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : market.endTime;
+
+    if (expiresAt <= new Date() || expiresAt > market.endTime) {
+      throw new BadRequestException(
+        'Expiry must be in the future and before the market ends',
+      );
+    }
+
+    if (dto.side === TradeActionType.SELL) {
+      const position = await this.positionRepository.findOne({
+        where: { marketId, userId, outcomeId: outcome.id },
+      });
+
+      if (!position || parseFloat(position.shares) < amount) {
+        throw new BadRequestException('Insufficient shares to sell');
+      }
+    }
+
+    const liveCount = await this.orderRepository.count({
+      where: { marketId, userId, status: In(LIVE_STATUSES) },
+    });
+
+    if (liveCount >= MAX_LIVE_ORDERS_PER_MARKET) {
+      throw new BadRequestException(
+        `At most ${MAX_LIVE_ORDERS_PER_MARKET} open orders per market`,
+      );
+    }
+
+    const order = await this.orderRepository.save(
+      this.orderRepository.create({
+        marketId,
+        userId,
+        outcomeId: outcome.id,
+        walletAddress: walletAddress.toLowerCase(),
+        side:
+          dto.side === TradeActionType.SELL
+            ? TradeAction.SELL
+            : TradeAction.BUY,
+        amount: amount.toFixed(6),
+        limitProbability: dto.limitProbability.toFixed(2),
+        expiresAt,
+      }),
+    );
+
+    this.logger.log(
+      `Limit order ${order.id} placed: ${order.side} outcome ${outcome.outcomeIndex} at ${order.limitProbability}%`,
+    );
+
+    // The limit may already be reached
+    const notifyTriggered = await this.matchOrders(market);
+    await notifyTriggered();
+
+    const saved = await this.orderRepository.findOneOrFail({
+      where: { id: order.id },
+      relations: ['outcome'],
+    });
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Get the user's orders on a market, newest first
+   */
+  async getOrders(
+    marketId: string,
+    userId: string,
+    query: LimitOrdersQueryDto,
+  ): Promise<LimitOrderListResponseDto> {
+    const orders = await this.orderRepository.find({
+      where: query.status
+        ? { marketId, userId, status: query.status }
+        : { marketId, userId },
+      relations: ['outcome'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      orders: orders.map((order) => this.mapToResponseDto(order)),
+    };
+  }
+
+  /**
+   * Cancel an order that has not been fully filled
+   */
+  async cancelOrder(
+    marketId: string,
+    orderId: string,
+    userId: string,
+  ): Promise<LimitOrderDto> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId, marketId, userId },
+      relations: ['outcome'],
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (!LIVE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`Order is ${order.status}, cannot cancel`);
+    }
+
+    order.status = LimitOrderStatus.CANCELLED;
+    await this.orderRepository.save(order);
+
+    return this.mapToResponseDto(order);
+  }
+
+  /**
+   * Trigger orders whose limit is reached by the market's current probabilities.
+   * Trades are signed by the user's own wallet, so a triggered order sends
+   * its owner a ready-made unsigned transaction instead of executing.
+   * Pass a manager to make the triggers part of the caller's transaction;
+   * the returned callback sends the notifications once it has committed.
+   */
+  async matchOrders(
+    market: Market,
+    parent?: EntityManager,
+  ): Promise<() => Promise<void>> {
+    const manager = parent ?? this.orderRepository.manager;
+    const notifications: (() => Promise<void>)[] = [];
+    const orders = await manager.find(LimitOrder, {
+      where: {
+        marketId: market.id,
+        status: In(MATCHABLE_STATUSES),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    for (const order of orders) {
+      const outcome = market.outcomes.find((o) => o.id === order.outcomeId);
+
+      if (!outcome || !this.isTriggered(order, outcome)) {
+        continue;
+      }
+
+      try {
+        notifications.push(
+          await this.triggerOrder(market, order, outcome, manager),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Could not trigger limit order ${order.id}: ${error.message}`,
+        );
+      }
+    }
+
+    return async () => {
+      for (const notify of notifications) {
+        await notify();
+      }
+    };
+  }
+
+  /**
+   * Count an on-chain trade towards the triggered order it was signed from, if any.
+   * Pass a manager to make the fill part of the caller's transaction.
+   */
+  async recordFill(trade: Trade, parent?: EntityManager): Promise<void> {
+    if (!trade.txHash || !trade.blockTimestamp) {
+      return;
+    }
+
+    const manager = parent ?? this.orderRepository.manager;
+
+    // Trades made before the trigger cannot fill it
+    const orders = await manager.find(LimitOrder, {
+      where: {
+        marketId: trade.marketId,
+        userId: trade.userId,
+        outcomeId: trade.outcomeId,
+        side: trade.action,
+        status: In([
+          LimitOrderStatus.TRIGGERED,
+          LimitOrderStatus.PARTIALLY_FILLED,
+        ]),
+        triggeredAt: LessThanOrEqual(trade.blockTimestamp),
+      },
+      order: { triggeredAt: 'ASC' },
+    });
+
+    if (orders.length === 0) {
+      return;
+    }
+
+    // Only the transaction attached to the trigger notification fills the order
+    const transaction = await this.contractsService
+      .getProvider()
+      .getTransaction(trade.txHash);
+    const order = orders.find(
+      (o) =>
+        o.triggerTxData !== null &&
+        o.triggerTxData.toLowerCase() === transaction?.data.toLowerCase(),
+    );
+
+    if (!order) {
+      return;
+    }
+
+    // Buy orders are sized in USDC, sell orders in shares
+    const traded = parseFloat(
+      trade.action === TradeAction.BUY ? trade.amount : trade.shares,
+    );
+    const filled = Math.min(
+      parseFloat(order.amount),
+      parseFloat(order.filledAmount) + traded,
+    );
+
+    order.fills = [
+      ...order.fills,
+      {
+        txHash: trade.txHash,
+        amount: (filled - parseFloat(order.filledAmount)).toFixed(6),
+      },
+    ];
+    order.filledAmount = filled.toFixed(6);
+    order.status =
+      filled >= parseFloat(order.amount)
+        ? LimitOrderStatus.FILLED
+        : LimitOrderStatus.PARTIALLY_FILLED;
+
+    await manager.save(order);
+
+    this.logger.log(
+      `Limit order ${order.id} ${order.status}: ${order.filledAmount}/${order.amount}`,
+    );
+  }
+
+  /**
+   * Take back fills made by a transaction a chain reorganization dropped
+   */
+  async revertFills(txHash: string, manager: EntityManager): Promise<void> {
+    const orders = await manager
+      .createQueryBuilder(LimitOrder, 'limitOrder')
+      .where('limitOrder.fills @> CAST(:fill AS jsonb)', {
+        fill: JSON.stringify([{ txHash }]),
+      })
+      .getMany();
+
+    for (const order of orders) {
+      const reverted = order.fills
+        .filter((fill) => fill.txHash === txHash)
+        .reduce((sum, fill) => sum + parseFloat(fill.amount), 0);
+      const filled = Math.max(parseFloat(order.filledAmount) - reverted, 0);
+
+      order.fills = order.fills.filter((fill) => fill.txHash !== txHash);
+      order.filledAmount = filled.toFixed(6);
+
+      // Cancelled and expired orders stay closed
+      if (
+        order.status === LimitOrderStatus.FILLED ||
+        order.status === LimitOrderStatus.PARTIALLY_FILLED
+      ) {
+        order.status =
+          filled > 0
+            ? LimitOrderStatus.PARTIALLY_FILLED
+            : LimitOrderStatus.TRIGGERED;
+      }
+
+      await manager.save(order);
+
+      this.logger.warn(
+        `Limit order ${order.id} fill in tx ${txHash} reverted: ${order.filledAmount}/${order.amount}`,
+      );
+    }
+  }
+
+  /**
+   * Expire orders past their expiry time (every 5 minutes)
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async expireOrders() {
+    try {
+      const result = await this.orderRepository.update(
+        {
+          status: In(LIVE_STATUSES),
+          expiresAt: LessThan(new Date()),
+        },
+        { status: LimitOrderStatus.EXPIRED },
+      );
+
+      if (result.affected) {
+        this.logger.log(`Expired ${result.affected} limit orders`);
+      }
+    } catch (error) {
+      this.logger.error('Error expiring limit orders', error);
+    }
+  }
+
+  /**
+   * Helper: Whether the outcome probability has reached the order's limit
+   */
+  private isTriggered(order: LimitOrder, outcome: Outcome): boolean {
+    const probability = parseFloat(outcome.currentProbability);
+    const limit = parseFloat(order.limitProbability);
+
+    return order.side === TradeAction.BUY
+      ? probability <= limit
+      : probability >= limit;
+  }
+
+  /**
+   * Helper: Build the remaining trade for the order's owner. Returns the
+   * callback that sends it to them.
+   */
+  private async triggerOrder(
+    market: Market,
+    order: LimitOrder,
+    outcome: Outcome,
+    manager: EntityManager,
+  ): Promise<() => Promise<void>> {
+    const remaining = (
+      parseFloat(order.amount) - parseFloat(order.filledAmount)
+    ).toFixed(6);
+
+    const transaction = await this.marketsService.prepareTrade(
+      market.id,
+      order.userId,
+      order.walletAddress,
+      {
+        outcome: outcome.outcomeIndex,
+        amount: remaining,
+        action:
+          order.side === TradeAction.SELL
+            ? TradeActionType.SELL
+            : TradeActionType.BUY,
+        slippage: 2,
+      },
+    );
+
+    order.status = LimitOrderStatus.TRIGGERED;
+    order.triggeredAt = new Date();
+    order.triggerProbability = outcome.currentProbability;
+    order.triggerTxData = transaction.unsignedTx.data;
+    await manager.save(order);
+
+    this.logger.log(
+      `Limit order ${order.id} triggered at ${outcome.currentProbability}%`,
+    );
+
+    return () =>
+      this.notificationsService.notify(
+        [order.userId],
+        NotificationType.LIMIT_ORDER_TRIGGERED,
+        'Limit Order Triggered',
+        `"${outcome.text}" on "${market.title}" is at ${outcome.currentProbability}%. Sign the attached transaction to ${order.side} ${remaining} ${order.side === TradeAction.BUY ? 'USDC' : 'shares'}.`,
+        {
+          marketId: market.id,
+          orderId: order.id,
+          outcomeIndex: outcome.outcomeIndex,
+          probability: outcome.currentProbability,
+          unsignedTx: transaction.unsignedTx,
+          approvalTx: transaction.approvalTx,
+          expectedShares: transaction.expectedShares,
+        },
+      );
+  }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(order: LimitOrder): LimitOrderDto {
+    return {
+      id: order.id,
+      marketId: order.marketId,
+      outcomeIndex: order.outcome.outcomeIndex,
+      side: order.side,
+      amount: order.amount,
+      filledAmount: order.filledAmount,
+      remainingAmount: (
+        parseFloat(order.amount) - parseFloat(order.filledAmount)
+      ).toFixed(6),
+      limitProbability: order.limitProbability,
+      status: order.status,
+      expiresAt: order.expiresAt.toISOString(),
+      triggeredAt: order.triggeredAt?.toISOString(),
+      triggerProbability: order.triggerProbability ?? undefined,
+      createdAt: order.createdAt.toISOString(),
+    };
+  }
+}
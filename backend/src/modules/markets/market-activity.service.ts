@@ -0,0 +1,299 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Brackets, EntityManager } from 'typeorm';
+import { isUUID } from 'class-validator';
+import { Market } from '../../database/entities/market.entity';
+import { Outcome } from '../../database/entities/outcome.entity';
+import { Trade, TradeAction } from '../../database/entities/trade.entity';
+import { MarketComment } from '../../database/entities/market-comment.entity';
+import { MarketActivity } from '../../database/entities/market-activity.entity';
+import { MarketActivityType } from '../../database/enums';
+import {
+  MarketActivityQueryDto,
+  MarketActivityDto,
+  MarketActivityListResponseDto,
+  CreateAnnouncementDto,
+} from './dto';
+
+// Buys of at least this many USDC also raise a large-position alert
+const LARGE_POSITION_THRESHOLD_USDC = 1000;
+
+export interface RecordActivityOptions {
+  actorId?: string | null;
+  referenceId?: string | null;
+  occurredAt?: Date;
+}
+
+@Injectable()
+export class MarketActivityService {
+  private readonly logger = new Logger(MarketActivityService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(MarketActivity)
+    private readonly activityRepository: Repository<MarketActivity>,
+  ) {}
+
+  /**
+   * Get the activity feed of a market, newest first
+   */
+  async getActivity(
+    marketId: string,
+    query: MarketActivityQueryDto,
+  ): Promise<MarketActivityListResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    const limit = query.limit || 20;
+
+    const qb = this.activityRepository
+      .createQueryBuilder('activity')
+      .leftJoinAndSelect('activity.actor', 'actor')
+      .where('activity.marketId = :marketId', { marketId })
+      .orderBy('activity.occurredAt', 'DESC')
+      .addOrderBy('activity.id', 'DESC')
+      .take(limit + 1);
+
+    if (query.type && query.type.length > 0) {
+      qb.andWhere('activity.type IN (:...types)', { types: query.type });
+    }
+
+    if (query.cursor) {
+      const cursor = this.decodeCursor(query.cursor);
+
+      qb.andWhere(
+        new Brackets((where) => {
+          where
+            .where('activity.occurredAt < :cursorTime', {
+              cursorTime: cursor.occurredAt,
+            })
+            .orWhere(
+              'activity.occurredAt = :cursorTime AND activity.id < :cursorId',
+              { cursorTime: cursor.occurredAt, cursorId: cursor.id },
+            );
+        }),
+      );
+    }
+
+    const activities = await qb.getMany();
+    const hasMore = activities.length > limit;
+    const page = activities.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      activity: page.map((activity) => this.mapToResponseDto(activity)),
+      nextCursor: hasMore && last ? this.encodeCursor(last) : undefined,
+      hasMore,
+    };
+  }
+
+  /**
+   * Post a creator announcement to a market's feed
+   */
+  async createAnnouncement(
+    marketId: string,
+    userId: string,
+    dto: CreateAnnouncementDto,
+  ): Promise<MarketActivityDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+      relations: ['creator'],
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.creator?.userId !== userId) {
+      throw new ForbiddenException(
+        'Only the market creator can post announcements',
+      );
+    }
+
+    const activity = await this.record(
+      market.id,
+      MarketActivityType.ANNOUNCEMENT,
+      { content: dto.content.trim() },
+      { actorId: userId },
+    );
+
+    const saved = await this.activityRepository.findOneOrFail({
+      where: { id: activity.id },
+      relations: ['actor'],
+    });
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Append an activity to a market's feed.
+   * Pass a manager to make it part of the caller's transaction.
+   */
+  async record(
+    marketId: string,
+    type: MarketActivityType,
+    data: Record<string, unknown>,
+    options: RecordActivityOptions = {},
+    parent?: EntityManager,
+  ): Promise<MarketActivity> {
+    const manager = parent ?? this.activityRepository.manager;
+    const activity = manager.create(MarketActivity, {
+      marketId,
+      type,
+      data,
+      actorId: options.actorId ?? null,
+      referenceId: options.referenceId ?? null,
+      occurredAt: options.occurredAt ?? new Date(),
+    });
+
+    return manager.save(activity);
+  }
+
+  /**
+   * Record a trade, plus a large-position alert for big buys
+   */
+  async recordTrade(
+    trade: Trade,
+    outcome: Outcome,
+    parent?: EntityManager,
+  ): Promise<void> {
+    const occurredAt = trade.blockTimestamp ?? new Date();
+    const data = {
+      action: trade.action,
+      outcomeIndex: outcome.outcomeIndex,
+      outcomeText: outcome.text,
+      shares: trade.shares,
+      amount: trade.amount,
+      price: trade.price,
+      walletAddress: trade.walletAddress,
+      txHash: trade.txHash,
+    };
+
+    await this.record(
+      trade.marketId,
+      MarketActivityType.TRADE,
+      data,
+      { actorId: trade.userId, referenceId: trade.id, occurredAt },
+      parent,
+    );
+
+    if (
+      trade.action === TradeAction.BUY &&
+      parseFloat(trade.amount) >= LARGE_POSITION_THRESHOLD_USDC
+    ) {
+      await this.record(
+        trade.marketId,
+        MarketActivityType.LARGE_POSITION,
+        data,
+        { actorId: trade.userId, referenceId: trade.id, occurredAt },
+        parent,
+      );
+
+      this.logger.log(
+        `Large position of ${trade.amount} USDC on market ${trade.marketId}`,
+      );
+    }
+  }
+
+  /**
+   * Record a newly posted comment
+   */
+  async recordComment(comment: MarketComment): Promise<void> {
+    await this.record(
+      comment.marketId,
+      MarketActivityType.COMMENT,
+      { content: comment.content, parentId: comment.parentId },
+      {
+        actorId: comment.userId,
+        referenceId: comment.id,
+        occurredAt: comment.createdAt,
+      },
+    );
+  }
+
+  /**
+   * Refresh the feed entry of an edited comment
+   */
+  async recordCommentEdit(comment: MarketComment): Promise<void> {
+    const activity = await this.activityRepository.findOne({
+      where: { referenceId: comment.id, type: MarketActivityType.COMMENT },
+    });
+
+    if (!activity) {
+      return;
+    }
+
+    activity.data = {
+      ...activity.data,
+      content: comment.content,
+      editedAt: comment.editedAt?.toISOString() ?? null,
+    };
+    await this.activityRepository.save(activity);
+  }
+
+  /**
+   * Drop the activities derived from a trade or comment (e.g. deleted comments)
+   */
+  async removeForReference(referenceId: string): Promise<void> {
+    await this.activityRepository.delete({ referenceId });
+  }
+
+  /**
+   * Helper: Encode the position of an activity as an opaque cursor
+   */
+  private encodeCursor(activity: MarketActivity): string {
+    return Buffer.from(
+      `${activity.occurredAt.toISOString()}|${activity.id}`,
+    ).toString('base64url');
+  }
+
+  /**
+   * Helper: Decode a cursor produced by encodeCursor
+   */
+  private decodeCursor(cursor: string): { occurredAt: Date; id: string } {
+    const [time, id] = Buffer.from(cursor, 'base64url')
+      .toString('utf8')
+      .split('|');
+    const occurredAt = new Date(time);
+
+    if (!isUUID(id) || isNaN(occurredAt.getTime())) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return { occurredAt, id };
+  }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(activity: MarketActivity): MarketActivityDto {
+    return {
+      id: activity.id,
+      marketId: activity.marketId,
+      type: activity.type,
+      actor: activity.actor
+        ? {
+            id: activity.actor.id,
+            twitterHandle: activity.actor.twitterHandle,
+            displayName: activity.actor.displayName,
+            profilePictureUrl: activity.actor.profilePictureUrl,
+          }
+        : undefined,
+      referenceId: activity.referenceId ?? undefined,
+      data: activity.data,
+      timestamp: activity.occurredAt.toISOString(),
+    };
+  }
+}
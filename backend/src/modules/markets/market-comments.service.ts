@@ -0,0 +1,429 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull, MoreThan } from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { Position } from '../../database/entities/position.entity';
+import { MarketComment } from '../../database/entities/market-comment.entity';
+import { CommentLike } from '../../database/entities/comment-like.entity';
+import { CommentStatus } from '../../database/enums';
+import {
+  CreateCommentDto,
+  UpdateCommentDto,
+  CommentsQueryDto,
+  CommentSortBy,
+  CommentResponseDto,
+  CommentListResponseDto,
+  CommentPositionBadgeDto,
+} from './dto';
+import { MarketActivityService } from './market-activity.service';
+
+// A user may post at most COMMENT_RATE_LIMIT comments per window
+const COMMENT_RATE_LIMIT = 5;
+const COMMENT_RATE_WINDOW_MS = 60 * 1000;
+
+@Injectable()
+export class MarketCommentsService {
+  private readonly logger = new Logger(MarketCommentsService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(Position)
+    private readonly positionRepository: Repository<Position>,
+    @InjectRepository(MarketComment)
+    private readonly commentRepository: Repository<MarketComment>,
+    @InjectRepository(CommentLike)
+    private readonly likeRepository: Repository<CommentLike>,
+    private readonly marketActivityService: MarketActivityService,
+  ) {}
+
+  /**
+   * Get top-level comments with their replies
+   */
+  async getComments(
+    marketId: string,
+    query: CommentsQueryDto,
+    viewerId?: string,
+  ): Promise<CommentListResponseDto> {
+    await this.findMarket(marketId);
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const sort = query.sort || CommentSortBy.RECENT;
+
+    const order: Record<string, 'ASC' | 'DESC'> =
+      sort === CommentSortBy.POPULAR
+        ? { likeCount: 'DESC', createdAt: 'DESC' }
+        : { createdAt: sort === CommentSortBy.OLDEST ? 'ASC' : 'DESC' };
+
+    // Deleted comments stay in the list while they still anchor a thread
+    const [comments, total] = await this.commentRepository.findAndCount({
+      where: [
+        { marketId, parentId: IsNull(), status: CommentStatus.VISIBLE },
+        { marketId, parentId: IsNull(), replyCount: MoreThan(0) },
+      ],
+      relations: ['user'],
+      order,
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const replies =
+      comments.length > 0
+        ? await this.commentRepository.find({
+            where: {
+              parentId: In(comments.map((c) => c.id)),
+              status: CommentStatus.VISIBLE,
+            },
+            relations: ['user'],
+            order: { createdAt: 'ASC' },
+          })
+        : [];
+
+    const all = [...comments, ...replies];
+    const [badges, likedIds] = await Promise.all([
+      this.getPositionBadges(marketId, all),
+      this.getLikedCommentIds(all, viewerId),
+    ]);
+
+    return {
+      comments: comments.map((comment) =>
+        this.mapToResponseDto(
+          comment,
+          badges,
+          likedIds,
+          replies
+            .filter((reply) => reply.parentId === comment.id)
+            .map((reply) => this.mapToResponseDto(reply, badges, likedIds)),
+        ),
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Post a comment or a reply
+   */
+  async createComment(
+    marketId: string,
+    userId: string,
+    dto: CreateCommentDto,
+  ): Promise<CommentResponseDto> {
+    await this.findMarket(marketId);
+
+    const recentCount = await this.commentRepository.count({
+      where: {
+        userId,
+        createdAt: MoreThan(new Date(Date.now() - COMMENT_RATE_WINDOW_MS)),
+      },
+    });
+
+    if (recentCount >= COMMENT_RATE_LIMIT) {
+      throw new HttpException(
+        'Too many comments, please wait a minute before posting again',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    let parentId: string | null = null;
+
+    if (dto.parentId) {
+      const parent = await this.commentRepository.findOne({
+        where: { id: dto.parentId, marketId },
+      });
+
+      if (!parent || parent.status !== CommentStatus.VISIBLE) {
+        throw new BadRequestException('Parent comment not found');
+      }
+
+      // Threads are one level deep: replies to a reply join the same thread
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const comment = await this.commentRepository.save(
+      this.commentRepository.create({
+        marketId,
+        userId,
+        parentId,
+        content: dto.content.trim(),
+      }),
+    );
+
+    if (parentId) {
+      await this.commentRepository.increment({ id: parentId }, 'replyCount', 1);
+    }
+
+    await this.marketActivityService.recordComment(comment);
+
+    this.logger.log(`Comment ${comment.id} posted on market ${marketId}`);
+
+    return this.getCommentResponse(comment.id, userId);
+  }
+
+  /**
+   * Edit a comment (author only)
+   */
+  async updateComment(
+    marketId: string,
+    commentId: string,
+    userId: string,
+    dto: UpdateCommentDto,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.findOwnComment(marketId, commentId, userId);
+
+    comment.content = dto.content.trim();
+    comment.editedAt = new Date();
+    await this.commentRepository.save(comment);
+    await this.marketActivityService.recordCommentEdit(comment);
+
+    return this.getCommentResponse(comment.id, userId);
+  }
+
+  /**
+   * Delete a comment (author only)
+   */
+  async deleteComment(
+    marketId: string,
+    commentId: string,
+    userId: string,
+  ): Promise<{ success: boolean }> {
+    const comment = await this.findOwnComment(marketId, commentId, userId);
+
+    comment.status = CommentStatus.DELETED;
+    await this.commentRepository.save(comment);
+    await this.marketActivityService.removeForReference(comment.id);
+
+    if (comment.parentId) {
+      await this.commentRepository.decrement(
+        { id: comment.parentId },
+        'replyCount',
+        1,
+      );
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Like a comment
+   */
+  async likeComment(
+    marketId: string,
+    commentId: string,
+    userId: string,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.findVisibleComment(marketId, commentId);
+
+    const existing = await this.likeRepository.findOne({
+      where: { commentId: comment.id, userId },
+    });
+
+    if (!existing) {
+      await this.likeRepository.save(
+        this.likeRepository.create({ commentId: comment.id, userId }),
+      );
+      await this.commentRepository.increment(
+        { id: comment.id },
+        'likeCount',
+        1,
+      );
+    }
+
+    return this.getCommentResponse(comment.id, userId);
+  }
+
+  /**
+   * Remove a like from a comment
+   */
+  async unlikeComment(
+    marketId: string,
+    commentId: string,
+    userId: string,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.findVisibleComment(marketId, commentId);
+
+    const result = await this.likeRepository.delete({
+      commentId: comment.id,
+      userId,
+    });
+
+    if (result.affected) {
+      await this.commentRepository.decrement(
+        { id: comment.id },
+        'likeCount',
+        1,
+      );
+    }
+
+    return this.getCommentResponse(comment.id, userId);
+  }
+
+  /**
+   * Helper: Ensure the market exists
+   */
+  private async findMarket(marketId: string): Promise<Market> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    return market;
+  }
+
+  /**
+   * Helper: Find a visible comment of a market
+   */
+  private async findVisibleComment(
+    marketId: string,
+    commentId: string,
+  ): Promise<MarketComment> {
+    const comment = await this.commentRepository.findOne({
+      where: { id: commentId, marketId },
+    });
+
+    if (!comment || comment.status !== CommentStatus.VISIBLE) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    return comment;
+  }
+
+  /**
+   * Helper: Find a visible comment written by the user
+   */
+  private async findOwnComment(
+    marketId: string,
+    commentId: string,
+    userId: string,
+  ): Promise<MarketComment> {
+    const comment = await this.findVisibleComment(marketId, commentId);
+
+    if (comment.userId !== userId) {
+      throw new ForbiddenException('You can only modify your own comments');
+    }
+
+    return comment;
+  }
+
+  /**
+   * Helper: Load a single comment as seen by the user
+   */
+  private async getCommentResponse(
+    commentId: string,
+    viewerId: string,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.commentRepository.findOneOrFail({
+      where: { id: commentId },
+      relations: ['user'],
+    });
+
+    const [badges, likedIds] = await Promise.all([
+      this.getPositionBadges(comment.marketId, [comment]),
+      this.getLikedCommentIds([comment], viewerId),
+    ]);
+
+    return this.mapToResponseDto(comment, badges, likedIds);
+  }
+
+  /**
+   * Helper: Outcomes each comment author currently holds shares in
+   */
+  private async getPositionBadges(
+    marketId: string,
+    comments: MarketComment[],
+  ): Promise<Map<string, CommentPositionBadgeDto[]>> {
+    const badges = new Map<string, CommentPositionBadgeDto[]>();
+    const userIds = [...new Set(comments.map((c) => c.userId))];
+
+    if (userIds.length === 0) {
+      return badges;
+    }
+
+    const positions = await this.positionRepository
+      .createQueryBuilder('position')
+      .innerJoinAndSelect('position.outcome', 'outcome')
+      .where('position.marketId = :marketId', { marketId })
+      .andWhere('position.userId IN (:...userIds)', { userIds })
+      .andWhere('position.shares > 0')
+      .orderBy('outcome.outcomeIndex', 'ASC')
+      .getMany();
+
+    for (const position of positions) {
+      const userBadges = badges.get(position.userId) ?? [];
+      userBadges.push({
+        outcomeIndex: position.outcome.outcomeIndex,
+        outcomeText: position.outcome.text,
+        shares: position.shares,
+      });
+      badges.set(position.userId, userBadges);
+    }
+
+    return badges;
+  }
+
+  /**
+   * Helper: IDs of the given comments liked by the viewer
+   */
+  private async getLikedCommentIds(
+    comments: MarketComment[],
+    viewerId?: string,
+  ): Promise<Set<string>> {
+    if (!viewerId || comments.length === 0) {
+      return new Set();
+    }
+
+    const likes = await this.likeRepository.find({
+      where: { userId: viewerId, commentId: In(comments.map((c) => c.id)) },
+    });
+
+    return new Set(likes.map((like) => like.commentId));
+  }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(
+    comment: MarketComment,
+    badges: Map<string, CommentPositionBadgeDto[]>,
+    likedIds: Set<string>,
+    thread?: CommentResponseDto[],
+  ): CommentResponseDto {
+    return {
+      id: comment.id,
+      marketId: comment.marketId,
+      parentId: comment.parentId ?? undefined,
+      user: {
+        id: comment.user.id,
+        twitterHandle: comment.user.twitterHandle,
+        displayName: comment.user.displayName,
+        profilePictureUrl: comment.user.profilePictureUrl,
+      },
+      content:
+        comment.status === CommentStatus.VISIBLE ? comment.content : null,
+      status: comment.status,
+      likes: comment.likeCount,
+      replies: comment.replyCount,
+      likedByMe: likedIds.has(comment.id),
+      positions: badges.get(comment.userId) ?? [],
+      editedAt: comment.editedAt?.toISOString(),
+      createdAt: comment.createdAt.toISOString(),
+      thread,
+    };
+  }
+}
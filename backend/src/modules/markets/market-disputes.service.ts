@@ -0,0 +1,773 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { ethers } from 'ethers';
+import { Market } from '../../database/entities/market.entity';
+import { Position } from '../../database/entities/position.entity';
+import { MarketDispute } from '../../database/entities/market-dispute.entity';
+import { MarketActivity } from '../../database/entities/market-activity.entity';
+import {
+  MarketStatus,
+  MarketStatusChangeSource,
+  MarketDisputeStatus,
+  MarketActivityType,
+} from '../../database/enums';
+import { OpinionMarketService } from '../../contracts/opinion-market.service';
+import { BlockchainService } from '../../contracts/blockchain.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/dto';
+import { MarketLifecycleService } from './market-lifecycle.service';
+import { MarketActivityService } from './market-activity.service';
+import { isScalarMarket } from './scalar-market';
+import {
+  OpenDisputeDto,
+  PrepareDisputeDto,
+  DisputeTransactionResponseDto,
+  MarketDisputeDto,
+  MarketDisputeListResponseDto,
+} from './dto';
+
+// Position holders may dispute a resolution for this long after it (DISPUTE_WINDOW in OpinionMarket.sol)
+export const DISPUTE_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+export interface DisputeAdjudication {
+  overturn: boolean;
+  winningOutcome?: number; // Required when overturning
+  note: string;
+}
+
+export interface DisputeAdjudicationResult {
+  dispute: MarketDisputeDto;
+  market: Market;
+}
+
+@Injectable()
+export class MarketDisputesService {
+  private readonly logger = new Logger(MarketDisputesService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(Position)
+    private readonly positionRepository: Repository<Position>,
+    @InjectRepository(MarketDispute)
+    private readonly disputeRepository: Repository<MarketDispute>,
+    private readonly marketLifecycleService: MarketLifecycleService,
+    private readonly marketActivityService: MarketActivityService,
+    private readonly notificationsService: NotificationsService,
+    private readonly opinionMarketService: OpinionMarketService,
+    private readonly blockchainService: BlockchainService,
+  ) {}
+
+  /**
+   * Get all disputes raised on a market, newest first
+   */
+  async getDisputes(marketId: string): Promise<MarketDisputeListResponseDto> {
+    await this.findMarket(marketId);
+
+    const disputes = await this.disputeRepository.find({
+      where: { marketId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      disputes: disputes.map((dispute) => this.mapToResponseDto(dispute)),
+    };
+  }
+
+  /**
+   * List disputes across markets for review
+   */
+  async listDisputes(
+    status: MarketDisputeStatus | undefined,
+    page: number,
+    limit: number,
+  ): Promise<{ disputes: MarketDisputeDto[]; total: number }> {
+    const [disputes, total] = await this.disputeRepository.findAndCount({
+      where: status ? { status } : {},
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      disputes: disputes.map((dispute) => this.mapToResponseDto(dispute)),
+      total,
+    };
+  }
+
+  /**
+   * Prepare the disputeMarket transaction that escrows the bond (position holders only)
+   */
+  async prepareDispute(
+    marketId: string,
+    userId: string,
+    walletAddress: string,
+    dto: PrepareDisputeDto,
+  ): Promise<DisputeTransactionResponseDto> {
+    const market = await this.findMarket(marketId);
+
+    if (!market.onChainMarketId) {
+      throw new BadRequestException(
+        'Market is not deployed on-chain, open the dispute without a transaction',
+      );
+    }
+
+    await this.assertDisputable(market, userId);
+
+    const bond = this.parseBondAmount(dto.bondAmount ?? '0');
+    const unsignedTx = this.opinionMarketService.buildDisputeMarketTransaction(
+      BigInt(market.onChainMarketId),
+      bond,
+    );
+
+    // disputeMarket pulls the bond with transferFrom, so the market needs an allowance
+    const allowance =
+      bond > BigInt(0)
+        ? await this.blockchainService.getUSDCAllowance(
+            walletAddress,
+            unsignedTx.to,
+          )
+        : BigInt(0);
+
+    return {
+      unsignedTx,
+      approvalTx:
+        allowance < bond
+          ? this.blockchainService.buildUSDCApprovalTransaction(
+              unsignedTx.to,
+              bond,
+            )
+          : undefined,
+      bondAmount: this.formatUSDCUnits(bond),
+    };
+  }
+
+  /**
+   * Dispute a resolved market (position holders only). On-chain markets are
+   * disputed by the holder's disputeMarket transaction, which is verified here.
+   */
+  async openDispute(
+    marketId: string,
+    userId: string,
+    walletAddress: string,
+    dto: OpenDisputeDto,
+  ): Promise<MarketDisputeDto> {
+    const market = await this.findMarket(marketId);
+    const details = {
+      reason: dto.reason.trim(),
+      evidenceUrls: dto.evidenceUrls ?? [],
+    };
+
+    if (!market.onChainMarketId) {
+      await this.assertDisputable(market, userId);
+
+      return this.createDispute(market, userId, MarketStatusChangeSource.USER, {
+        ...details,
+        bondAmount: null,
+        txHash: null,
+      });
+    }
+
+    if (!dto.txHash) {
+      throw new BadRequestException(
+        'txHash of the disputeMarket transaction is required',
+      );
+    }
+
+    // The indexer may have moved the market to DISPUTED before this call
+    if (
+      market.status !== MarketStatus.RESOLVED &&
+      !(await this.isDisputedWithoutRecord(market))
+    ) {
+      throw new BadRequestException(
+        `Market is ${market.status}, only resolved markets can be disputed`,
+      );
+    }
+
+    const used = await this.disputeRepository.findOne({
+      where: { txHash: dto.txHash },
+    });
+
+    if (used) {
+      throw new BadRequestException(
+        'This transaction was already used to open a dispute',
+      );
+    }
+
+    // The contract checked the window and the holding, and escrowed the bond
+    const event = await this.opinionMarketService.getMarketDisputedEvent(
+      dto.txHash,
+    );
+
+    if (!event || event.marketId !== BigInt(market.onChainMarketId)) {
+      throw new BadRequestException('Transaction did not dispute this market');
+    }
+
+    if (event.disputer.toLowerCase() !== walletAddress.toLowerCase()) {
+      throw new ForbiddenException('Transaction was not sent from your wallet');
+    }
+
+    return this.createDispute(market, userId, MarketStatusChangeSource.USER, {
+      ...details,
+      bondAmount:
+        event.bond > BigInt(0) ? this.formatUSDCUnits(event.bond) : null,
+      txHash: dto.txHash,
+    });
+  }
+
+  /**
+   * Dispute a market on behalf of the platform (admin only)
+   */
+  async raiseAdminDispute(
+    marketId: string,
+    adminId: string,
+    reason: string,
+  ): Promise<MarketDisputeDto> {
+    const market = await this.findMarket(marketId);
+
+    // Markets disputed directly on the contract only need a record
+    if (
+      market.status === MarketStatus.CANCELLED ||
+      (market.status === MarketStatus.DISPUTED &&
+        !(await this.isDisputedWithoutRecord(market)))
+    ) {
+      throw new BadRequestException(
+        `Market is ${market.status}, cannot dispute`,
+      );
+    }
+
+    let txHash: string | null = null;
+
+    // Resolved on-chain markets are frozen by the contract, which locks claims
+    if (market.status === MarketStatus.RESOLVED && market.onChainMarketId) {
+      if (
+        !market.resolvedAt ||
+        market.resolvedAt.getTime() + DISPUTE_WINDOW_MS < Date.now()
+      ) {
+        throw new BadRequestException('Dispute window has closed');
+      }
+
+      txHash = await this.opinionMarketService.disputeMarket(
+        BigInt(market.onChainMarketId),
+      );
+    }
+
+    return this.createDispute(market, adminId, MarketStatusChangeSource.ADMIN, {
+      reason,
+      evidenceUrls: [],
+      bondAmount: null,
+      txHash,
+    });
+  }
+
+  /**
+   * Settle an open dispute, either keeping or replacing the market result.
+   * Upholding restores the market to its status before the dispute;
+   * overturning re-resolves it so the new winners can claim. Disputes on
+   * resolved on-chain markets are settled by the contract first.
+   */
+  async adjudicate(
+    disputeId: string,
+    adminId: string,
+    adjudication: DisputeAdjudication,
+  ): Promise<DisputeAdjudicationResult> {
+    const dispute = await this.disputeRepository.findOne({
+      where: { id: disputeId },
+      relations: ['market', 'market.outcomes', 'market.creator'],
+    });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    if (dispute.status !== MarketDisputeStatus.OPEN) {
+      throw new BadRequestException(`Dispute is already ${dispute.status}`);
+    }
+
+    const market = dispute.market;
+
+    if (market.status !== MarketStatus.DISPUTED) {
+      throw new BadRequestException(
+        `Market is ${market.status}, cannot adjudicate`,
+      );
+    }
+
+    const onChainMarketId = market.onChainMarketId
+      ? BigInt(market.onChainMarketId)
+      : null;
+    const settledOnChain =
+      onChainMarketId !== null &&
+      dispute.previousStatus === MarketStatus.RESOLVED;
+
+    if (adjudication.overturn) {
+      const winningOutcome = adjudication.winningOutcome;
+
+      // Scalar payouts follow the resolved value, not a winning outcome
+      if (isScalarMarket(market)) {
+        throw new BadRequestException(
+          'Scalar markets cannot be overturned to an outcome',
+        );
+      }
+
+      if (
+        winningOutcome === undefined ||
+        winningOutcome >= market.outcomes.length
+      ) {
+        throw new BadRequestException('Invalid winning outcome index');
+      }
+
+      if (winningOutcome === dispute.originalOutcomeIndex) {
+        throw new BadRequestException(
+          'Overturning requires a different winning outcome',
+        );
+      }
+
+      if (market.endTime > new Date()) {
+        throw new BadRequestException('Market has not ended yet');
+      }
+
+      // Claims stayed locked on-chain, so no payout was made on the old result
+      if (settledOnChain) {
+        dispute.settlementTxHash =
+          await this.opinionMarketService.settleDispute(
+            onChainMarketId,
+            true,
+            winningOutcome,
+          );
+      } else if (onChainMarketId !== null) {
+        dispute.settlementTxHash =
+          await this.opinionMarketService.resolveMarket(
+            onChainMarketId,
+            winningOutcome,
+          );
+      }
+
+      market.winningOutcomeIndex = winningOutcome;
+      market.resolvedAt = new Date();
+
+      dispute.status = MarketDisputeStatus.OVERTURNED;
+      dispute.finalOutcomeIndex = winningOutcome;
+    } else {
+      if (settledOnChain) {
+        dispute.settlementTxHash =
+          await this.opinionMarketService.settleDispute(
+            onChainMarketId,
+            false,
+            0,
+          );
+      }
+
+      dispute.status = MarketDisputeStatus.UPHELD;
+      dispute.finalOutcomeIndex = dispute.originalOutcomeIndex;
+    }
+
+    dispute.adjudicatedBy = adminId;
+    dispute.adjudicationNote = adjudication.note;
+    dispute.adjudicatedAt = new Date();
+
+    const finalOutcome = market.outcomes.find(
+      (o) => o.outcomeIndex === dispute.finalOutcomeIndex,
+    );
+
+    // The on-chain settlement is mined by now; the market and dispute change together
+    await this.disputeRepository.manager.transaction(async (manager) => {
+      await this.marketLifecycleService.transition(
+        market,
+        adjudication.overturn ? MarketStatus.RESOLVED : dispute.previousStatus,
+        {
+          source: MarketStatusChangeSource.ADMIN,
+          changedBy: adminId,
+          reason: `Dispute ${adjudication.overturn ? 'overturned' : 'upheld'}: ${adjudication.note}`,
+        },
+        manager,
+      );
+
+      await manager.save(dispute);
+
+      await this.marketActivityService.record(
+        market.id,
+        adjudication.overturn
+          ? MarketActivityType.RESOLUTION
+          : MarketActivityType.DISPUTE,
+        {
+          disputeId: dispute.id,
+          disputeStatus: dispute.status,
+          winningOutcomeIndex: dispute.finalOutcomeIndex,
+          winningOutcomeText: finalOutcome?.text ?? null,
+          resolutionNote: adjudication.note,
+        },
+        { referenceId: dispute.id },
+        manager,
+      );
+    });
+
+    const overturned = dispute.status === MarketDisputeStatus.OVERTURNED;
+
+    await this.notificationsService.notify(
+      await this.getParticipantIds(market, dispute.raisedBy),
+      overturned
+        ? NotificationType.DISPUTE_OVERTURNED
+        : NotificationType.DISPUTE_UPHELD,
+      overturned ? 'Market Result Overturned' : 'Market Result Upheld',
+      overturned
+        ? `The dispute on "${market.title}" was accepted. The market now resolves to "${finalOutcome?.text}".`
+        : `The dispute on "${market.title}" was rejected and the original result stands.`,
+      {
+        marketId: market.id,
+        disputeId: dispute.id,
+        winningOutcomeIndex: dispute.finalOutcomeIndex,
+        note: adjudication.note,
+        // The contract returns the bond when a dispute succeeds and keeps it otherwise
+        bondRefunded: dispute.bondAmount ? overturned : undefined,
+        settlementTxHash: dispute.settlementTxHash ?? undefined,
+      },
+    );
+
+    this.logger.log(
+      `Dispute ${dispute.id} on market ${market.id} ${dispute.status}: ${adjudication.note}`,
+    );
+
+    return {
+      dispute: this.mapToResponseDto(dispute),
+      market,
+    };
+  }
+
+  /**
+   * Apply a DisputeSettled event the admin API did not already apply
+   * (settleDispute called directly on the contract, or a replay)
+   */
+  async applyChainSettlement(
+    market: Market,
+    txHash: string,
+    overturned: boolean,
+    winningOutcome: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const dispute = await manager.findOne(MarketDispute, {
+      where: { marketId: market.id, status: MarketDisputeStatus.OPEN },
+    });
+
+    if (overturned) {
+      market.winningOutcomeIndex = winningOutcome;
+      market.resolvedAt = new Date();
+    }
+
+    await this.marketLifecycleService.transition(
+      market,
+      MarketStatus.RESOLVED,
+      {
+        source: MarketStatusChangeSource.CHAIN,
+        reason: `Dispute ${overturned ? 'overturned' : 'upheld'} on-chain in tx ${txHash}`,
+      },
+      manager,
+    );
+
+    if (dispute) {
+      dispute.status = overturned
+        ? MarketDisputeStatus.OVERTURNED
+        : MarketDisputeStatus.UPHELD;
+      dispute.finalOutcomeIndex = overturned
+        ? winningOutcome
+        : dispute.originalOutcomeIndex;
+      dispute.settlementTxHash = txHash;
+      dispute.adjudicationNote = 'Settled on-chain';
+      dispute.adjudicatedAt = new Date();
+      await manager.save(dispute);
+    }
+  }
+
+  /**
+   * Undo a reorged MarketDisputed event: drop the dispute it opened and
+   * return the market to its resolved state
+   */
+  async revertChainDispute(
+    market: Market,
+    txHash: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    const dispute = await manager.findOne(MarketDispute, {
+      where: { txHash },
+    });
+
+    if (dispute) {
+      await manager.delete(MarketActivity, { referenceId: dispute.id });
+      await manager.remove(dispute);
+    }
+
+    if (market.status === MarketStatus.DISPUTED) {
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.RESOLVED,
+        {
+          source: MarketStatusChangeSource.CHAIN,
+          reason: `Dispute in tx ${txHash} reverted by a chain reorg`,
+        },
+        manager,
+      );
+    }
+
+    this.logger.warn(
+      `Reverted dispute of market ${market.id} from reorged tx ${txHash}`,
+    );
+  }
+
+  /**
+   * Undo a reorged DisputeSettled event: reopen the dispute and freeze the
+   * market again under its original result
+   */
+  async revertChainSettlement(
+    market: Market,
+    txHash: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    const dispute = await manager.findOne(MarketDispute, {
+      where: { settlementTxHash: txHash },
+    });
+
+    if (dispute) {
+      if (dispute.status === MarketDisputeStatus.OVERTURNED) {
+        market.winningOutcomeIndex = dispute.originalOutcomeIndex;
+      }
+
+      dispute.status = MarketDisputeStatus.OPEN;
+      dispute.finalOutcomeIndex = null;
+      dispute.adjudicatedBy = null;
+      dispute.adjudicationNote = null;
+      dispute.adjudicatedAt = null;
+      dispute.settlementTxHash = null;
+      await manager.save(dispute);
+    }
+
+    await this.marketLifecycleService.transition(
+      market,
+      MarketStatus.DISPUTED,
+      {
+        source: MarketStatusChangeSource.CHAIN,
+        reason: `Dispute settlement in tx ${txHash} reverted by a chain reorg`,
+      },
+      manager,
+    );
+
+    this.logger.warn(
+      `Reopened dispute on market ${market.id} after reorged settlement ${txHash}`,
+    );
+  }
+
+  /**
+   * Helper: Whether the contract disputed the market without a dispute record
+   */
+  private async isDisputedWithoutRecord(market: Market): Promise<boolean> {
+    if (market.status !== MarketStatus.DISPUTED) {
+      return false;
+    }
+
+    const open = await this.disputeRepository.count({
+      where: { marketId: market.id, status: MarketDisputeStatus.OPEN },
+    });
+
+    return open === 0;
+  }
+
+  /**
+   * Helper: Store a dispute, freeze the market and tell its participants
+   */
+  private async createDispute(
+    market: Market,
+    raisedBy: string,
+    source: MarketStatusChangeSource,
+    details: Pick<
+      MarketDispute,
+      'reason' | 'evidenceUrls' | 'bondAmount' | 'txHash'
+    >,
+  ): Promise<MarketDisputeDto> {
+    const dispute = await this.disputeRepository.save(
+      this.disputeRepository.create({
+        ...details,
+        marketId: market.id,
+        raisedBy,
+        // The contract only disputes resolved markets
+        previousStatus:
+          market.status === MarketStatus.DISPUTED
+            ? MarketStatus.RESOLVED
+            : market.status,
+        originalOutcomeIndex: market.winningOutcomeIndex,
+      }),
+    );
+
+    // On-chain the contract locks claims until the dispute is settled
+    await this.marketLifecycleService.transition(
+      market,
+      MarketStatus.DISPUTED,
+      { source, changedBy: raisedBy, reason: details.reason },
+    );
+
+    await this.marketActivityService.record(
+      market.id,
+      MarketActivityType.DISPUTE,
+      {
+        disputeId: dispute.id,
+        reason: details.reason,
+        evidenceUrls: details.evidenceUrls,
+        bondAmount: details.bondAmount,
+      },
+      {
+        actorId: source === MarketStatusChangeSource.USER ? raisedBy : null,
+        referenceId: dispute.id,
+      },
+    );
+
+    await this.notificationsService.notify(
+      await this.getParticipantIds(market, raisedBy),
+      NotificationType.DISPUTE_OPENED,
+      'Market Disputed',
+      `The result of "${market.title}" is under review. Claims stay locked until the dispute is settled.`,
+      { marketId: market.id, disputeId: dispute.id, reason: details.reason },
+    );
+
+    this.logger.log(
+      `Dispute ${dispute.id} opened on market ${market.id}: ${details.reason}`,
+    );
+
+    return this.mapToResponseDto(dispute);
+  }
+
+  /**
+   * Helper: Ensure the market exists
+   */
+  private async findMarket(marketId: string): Promise<Market> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+      relations: ['creator'],
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    return market;
+  }
+
+  /**
+   * Helper: Users to notify about a dispute (holders, creator and disputer)
+   */
+  private async getParticipantIds(
+    market: Market,
+    raisedBy: string,
+  ): Promise<string[]> {
+    const positions = await this.positionRepository
+      .createQueryBuilder('position')
+      .select('DISTINCT position.userId', 'userId')
+      .where('position.marketId = :marketId', { marketId: market.id })
+      .andWhere('position.shares > 0')
+      .getRawMany<{ userId: string }>();
+
+    const userIds = positions.map((p) => p.userId);
+
+    if (market.creator?.userId) {
+      userIds.push(market.creator.userId);
+    }
+
+    return [...userIds, raisedBy];
+  }
+
+  /**
+   * Helper: Ensure a user can dispute the current result of a market
+   */
+  private async assertDisputable(market: Market, userId: string) {
+    if (market.status !== MarketStatus.RESOLVED || !market.resolvedAt) {
+      throw new BadRequestException(
+        `Market is ${market.status}, only resolved markets can be disputed`,
+      );
+    }
+
+    if (market.resolvedAt.getTime() + DISPUTE_WINDOW_MS < Date.now()) {
+      throw new BadRequestException('Dispute window has closed');
+    }
+
+    // Holders who already claimed keep their stake in the result
+    const holding = await this.positionRepository
+      .createQueryBuilder('position')
+      .where('position.marketId = :marketId', { marketId: market.id })
+      .andWhere('position.userId = :userId', { userId })
+      .andWhere('(position.shares > 0 OR position.claimed = true)')
+      .getCount();
+
+    if (holding === 0) {
+      throw new ForbiddenException(
+        'Only users holding a position in this market can dispute it',
+      );
+    }
+
+    // A result that survived adjudication cannot be disputed again
+    const upheld = await this.disputeRepository.findOne({
+      where: {
+        marketId: market.id,
+        status: MarketDisputeStatus.UPHELD,
+        originalOutcomeIndex: market.winningOutcomeIndex ?? undefined,
+      },
+    });
+
+    if (upheld) {
+      throw new BadRequestException(
+        'This result was already upheld after a dispute',
+      );
+    }
+  }
+
+  /**
+   * Helper: Parse a USDC bond into base units (6 decimals)
+   */
+  private parseBondAmount(amount: string): bigint {
+    let units: bigint;
+
+    try {
+      units = ethers.parseUnits(amount, 6);
+    } catch {
+      throw new BadRequestException('Invalid USDC amount');
+    }
+
+    if (units < BigInt(0)) {
+      throw new BadRequestException('Bond cannot be negative');
+    }
+
+    return units;
+  }
+
+  /**
+   * Helper: Format USDC base units (6 decimals) as a decimal string
+   */
+  private formatUSDCUnits(units: bigint): string {
+    return (Number(units) / 1e6).toFixed(6);
+  }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(dispute: MarketDispute): MarketDisputeDto {
+    return {
+      id: dispute.id,
+      marketId: dispute.marketId,
+      raisedBy: dispute.raisedBy,
+      reason: dispute.reason,
+      evidenceUrls: dispute.evidenceUrls,
+      bondAmount: dispute.bondAmount ?? undefined,
+      txHash: dispute.txHash ?? undefined,
+      settlementTxHash: dispute.settlementTxHash ?? undefined,
+      status: dispute.status,
+      previousStatus: dispute.previousStatus,
+      originalOutcomeIndex: dispute.originalOutcomeIndex ?? undefined,
+      finalOutcomeIndex: dispute.finalOutcomeIndex ?? undefined,
+      adjudicationNote: dispute.adjudicationNote ?? undefined,
+      adjudicatedAt: dispute.adjudicatedAt?.toISOString(),
+      createdAt: dispute.createdAt.toISOString(),
+    };
+  }
+}
@@ -1,74 +1,432 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager } from 'typeorm';
+import { Log, LogDescription } from 'ethers';
 import { Market } from '../../database/entities/market.entity';
 import { Outcome } from '../../database/entities/outcome.entity';
-import { Position } from '../../database/entities/position.entity';
 import { Trade, TradeAction } from '../../database/entities/trade.entity';
 import { User } from '../../database/entities/user.entity';
-import { MarketStatus } from '../../database/enums';
+import { ProbabilitySnapshot } from '../../database/entities/probability-snapshot.entity';
+import { ProcessedLog } from '../../database/entities/processed-log.entity';
+import { MarketStatus, MarketStatusChangeSource } from '../../database/enums';
 import { OpinionMarketService } from '../../contracts/opinion-market.service';
+import {
+  EventIndexerService,
+  IndexedLogEffect,
+} from '../../contracts/event-indexer.service';
+import { MarketActivityService } from './market-activity.service';
+import { MarketLifecycleService } from './market-lifecycle.service';
+import { LimitOrdersService } from './limit-orders.service';
+import { MarketLiquidityService } from './market-liquidity.service';
+import { MarketDisputesService } from './market-disputes.service';
+import {
+  PositionAccountingService,
+  RevertedPositionClose,
+} from './position-accounting.service';
+import { applyOutcomeProbabilities } from './market-probability';
+
+/**
+ * Decoded OpinionMarket event arguments, by ABI parameter name
+ */
+interface OpinionMarketEventArgs {
+  marketId: bigint;
+  creator: string;
+  title: string;
+  endTime: bigint;
+  user: string;
+  outcome: bigint;
+  amount: bigint;
+  shares: bigint;
+  payout: bigint;
+  winningOutcome: bigint;
+  resolvedValue: bigint;
+  provider: string;
+  weightsBps: bigint[];
+  fees: bigint;
+  disputer: string;
+  bond: bigint;
+  overturned: boolean;
+  timestamp: bigint;
+}
 
 @Injectable()
 export class MarketEventsService implements OnModuleInit {
   private readonly logger = new Logger(MarketEventsService.name);
 
   constructor(
-    @InjectRepository(Market)
-    private readonly marketRepository: Repository<Market>,
-    @InjectRepository(Outcome)
-    private readonly outcomeRepository: Repository<Outcome>,
-    @InjectRepository(Position)
-    private readonly positionRepository: Repository<Position>,
-    @InjectRepository(Trade)
-    private readonly tradeRepository: Repository<Trade>,
-    @InjectRepository(User)
-    private readonly userRepository: Repository<User>,
     private readonly opinionMarketService: OpinionMarketService,
+    private readonly eventIndexerService: EventIndexerService,
+    private readonly marketActivityService: MarketActivityService,
+    private readonly marketLifecycleService: MarketLifecycleService,
+    private readonly limitOrdersService: LimitOrdersService,
+    private readonly marketLiquidityService: MarketLiquidityService,
+    private readonly positionAccountingService: PositionAccountingService,
+    private readonly marketDisputesService: MarketDisputesService,
   ) {}
 
-  async onModuleInit() {
-    this.logger.log('Starting market event listeners...');
-    await this.startEventListeners();
+  onModuleInit() {
+    this.logger.log('Registering market event handlers...');
+    this.startEventListeners();
   }
 
   /**
-   * Start listening to blockchain events
+   * Register the OpinionMarket contract with the event indexer
    */
-  private async startEventListeners() {
-    // TODO: Enable event listeners when OpinionMarketService.getContract() is implemented
-    this.logger.log('Event listeners temporarily disabled - blockchain integration pending');
-    return;
-
-    /* Temporarily disabled - will be enabled once OpinionMarketService.getContract() is available
+  private startEventListeners() {
     try {
-      const contract = this.opinionMarketService.getContract();
+      this.eventIndexerService.register(
+        'opinionMarket',
+        this.opinionMarketService.getContract(),
+        (event, log, manager) => this.handleLog(event, log, manager),
+      );
+      this.eventIndexerService.onReorg((forkBlock, revertedLogs, manager) =>
+        this.handleReorg(forkBlock, revertedLogs, manager),
+      );
 
-      // Listen to MarketCreated events
-      contract.on('MarketCreated', async (marketId: bigint, creator: string, question: string, endTime: bigint, event: any) => {
-        await this.handleMarketCreated(marketId, creator, question, endTime, event);
-      });
+      this.logger.log('Market event listeners started successfully');
+    } catch (error) {
+      this.logger.error('Failed to start event listeners', error);
+    }
+  }
 
-      // Listen to BetPlaced events
-      contract.on('BetPlaced', async (marketId: bigint, user: string, optionIndex: bigint, amount: bigint, event: any) => {
-        await this.handleBetPlaced(marketId, user, optionIndex, amount, event);
-      });
+  /**
+   * Dispatch an indexed OpinionMarket log to its handler, inside the indexer's transaction.
+   * Handlers rethrow failures so the indexer retries the log, then dead-letters it.
+   */
+  private async handleLog(
+    event: LogDescription,
+    log: Log,
+    manager: EntityManager,
+  ): Promise<IndexedLogEffect | void> {
+    const args = event.args.toObject() as OpinionMarketEventArgs;
 
-      // Listen to MarketResolved events
-      contract.on('MarketResolved', async (marketId: bigint, winningOption: bigint, event: any) => {
-        await this.handleMarketResolved(marketId, winningOption, event);
-      });
+    switch (event.name) {
+      case 'MarketCreated':
+        return this.handleMarketCreated(
+          args.marketId,
+          args.creator,
+          args.title,
+          args.endTime,
+          log,
+          manager,
+        );
+      case 'BetPlaced':
+        return this.handleBetPlaced(
+          args.marketId,
+          args.user,
+          args.outcome,
+          args.amount,
+          args.shares,
+          args.timestamp,
+          log,
+          manager,
+        );
+      case 'SharesSold':
+        return this.handleSharesSold(
+          args.marketId,
+          args.user,
+          args.outcome,
+          args.shares,
+          args.amount,
+          args.payout,
+          args.timestamp,
+          log,
+          manager,
+        );
+      case 'MarketResolved':
+        return this.handleMarketResolved(
+          args.marketId,
+          args.winningOutcome,
+          args.timestamp,
+          manager,
+        );
+      case 'ScalarMarketResolved':
+        return this.handleScalarMarketResolved(
+          args.marketId,
+          args.resolvedValue,
+          args.timestamp,
+          manager,
+        );
+      case 'WinningsClaimed':
+        return this.handleWinningsClaimed(
+          args.marketId,
+          args.user,
+          args.amount,
+          manager,
+        );
+      case 'MarketCancelled':
+        return this.handleMarketCancelled(args.marketId, manager);
+      case 'RefundClaimed':
+        return this.handleRefundClaimed(
+          args.marketId,
+          args.user,
+          args.amount,
+          manager,
+        );
+      case 'MarketPaused':
+        return this.handleMarketPauseChanged(args.marketId, true, manager);
+      case 'MarketUnpaused':
+        return this.handleMarketPauseChanged(args.marketId, false, manager);
+      case 'LiquiditySeeded':
+        return this.handleLiquiditySeeded(
+          args.marketId,
+          args.provider,
+          args.amount,
+          args.weightsBps,
+          log,
+          manager,
+        );
+      case 'LiquidityWithdrawn':
+        return this.handleLiquidityWithdrawn(
+          args.marketId,
+          args.provider,
+          args.amount,
+          args.fees,
+          log,
+          manager,
+        );
+      case 'MarketDisputed':
+        return this.handleMarketDisputed(
+          args.marketId,
+          args.disputer,
+          log,
+          manager,
+        );
+      case 'DisputeSettled':
+        return this.handleDisputeSettled(
+          args.marketId,
+          args.overturned,
+          args.winningOutcome,
+          log,
+          manager,
+        );
+    }
+  }
+
+  /**
+   * Roll back the state written by OpinionMarket logs dropped by a chain
+   * reorganization, inside the indexer's rollback transaction
+   */
+  private async handleReorg(
+    forkBlock: number,
+    revertedLogs: ProcessedLog[],
+    manager: EntityManager,
+  ) {
+    const contractAddress = this.opinionMarketService
+      .getContractAddress()
+      .toLowerCase();
+    const closes: RevertedPositionClose[] = [];
+    const reseeded = new Set<string>();
 
-      // Listen to WinningsClaimed events
-      contract.on('WinningsClaimed', async (marketId: bigint, user: string, amount: bigint, event: any) => {
-        await this.handleWinningsClaimed(marketId, user, amount, event);
+    // Logs come newest first, so each revert starts from the state its log left
+    for (const log of revertedLogs) {
+      if (log.contractAddress !== contractAddress) {
+        continue;
+      }
+
+      const market = await manager.findOne(Market, {
+        where: { onChainMarketId: log.args.marketId as string },
+        relations: ['outcomes'],
       });
 
-      this.logger.log('Market event listeners started successfully');
-    } catch (error) {
-      this.logger.error('Failed to start event listeners', error);
+      if (market) {
+        await this.revertLog(log, market, closes, manager);
+
+        if (log.eventName === 'LiquiditySeeded') {
+          reseeded.add(market.id);
+        }
+      }
+    }
+
+    // Trades are found by block number; claims and refunds only by their logs.
+    // Errors propagate so the indexer retries the rollback on its next sync.
+    const rebuilt = await this.positionAccountingService.revertAfterBlock(
+      forkBlock,
+      closes,
+      manager,
+    );
+
+    // Reverted seeds shift the probabilities of markets without reverted trades too
+    for (const marketId of reseeded) {
+      if (!rebuilt.some((result) => result.marketId === marketId)) {
+        await this.positionAccountingService.rebuildMarket(marketId, manager);
+      }
     }
-    */
+  }
+
+  /**
+   * Helper: Undo the market state written by a single reorged log
+   */
+  private async revertLog(
+    log: ProcessedLog,
+    market: Market,
+    closes: RevertedPositionClose[],
+    manager: EntityManager,
+  ) {
+    const options = {
+      source: MarketStatusChangeSource.CHAIN,
+      reason: `${log.eventName} in tx ${log.txHash} reverted by a chain reorg`,
+    };
+
+    switch (log.eventName) {
+      case 'MarketCreated':
+        // The replayed MarketCreated confirms the deployment again
+        market.onChainMarketId = null;
+        await this.marketLifecycleService.transition(
+          market,
+          MarketStatus.PENDING_DEPLOYMENT,
+          options,
+          manager,
+        );
+        break;
+      case 'MarketResolved':
+      case 'ScalarMarketResolved':
+        if (market.status === MarketStatus.RESOLVED) {
+          market.winningOutcomeIndex = null;
+          market.resolvedValue = null;
+          market.resolvedAt = null;
+          await this.marketLifecycleService.revertTransition(
+            market,
+            options,
+            manager,
+          );
+        }
+        break;
+      case 'MarketCancelled':
+        if (market.status === MarketStatus.CANCELLED) {
+          await this.marketLifecycleService.revertTransition(
+            market,
+            options,
+            manager,
+          );
+        }
+        break;
+      case 'MarketPaused':
+      case 'MarketUnpaused': {
+        const paused = log.eventName === 'MarketPaused';
+
+        if (market.paused === paused) {
+          await this.marketLifecycleService.setPaused(
+            market,
+            !paused,
+            options,
+            manager,
+          );
+        }
+        break;
+      }
+      case 'LiquiditySeeded':
+        await this.marketLiquidityService.revertSeed(
+          market,
+          log.args.provider as string,
+          BigInt(log.args.amount as string),
+          (log.args.weightsBps as string[]).map((weight) => BigInt(weight)),
+          manager,
+        );
+        break;
+      case 'LiquidityWithdrawn':
+        await this.marketLiquidityService.revertWithdrawal(
+          market,
+          log.args.provider as string,
+          manager,
+        );
+        break;
+      case 'BetPlaced':
+      case 'SharesSold':
+        await this.limitOrdersService.revertFills(log.txHash, manager);
+        break;
+      case 'WinningsClaimed':
+      case 'RefundClaimed':
+        closes.push({
+          marketId: market.id,
+          walletAddress: log.args.user as string,
+          kind: log.eventName === 'WinningsClaimed' ? 'claim' : 'refund',
+        });
+        break;
+      case 'MarketDisputed':
+        await this.marketDisputesService.revertChainDispute(
+          market,
+          log.txHash,
+          manager,
+        );
+        break;
+      case 'DisputeSettled':
+        if (market.status === MarketStatus.RESOLVED) {
+          await this.marketDisputesService.revertChainSettlement(
+            market,
+            log.txHash,
+            manager,
+          );
+        }
+        break;
+    }
+  }
+
+  /**
+   * Find a market by its OpinionMarket market ID
+   */
+  private async findMarketByChainId(
+    marketId: bigint,
+    manager: EntityManager,
+    relations: string[] = [],
+  ): Promise<Market | null> {
+    return manager.findOne(Market, {
+      where: { onChainMarketId: marketId.toString() },
+      relations,
+    });
+  }
+
+  /**
+   * Recompute outcome probabilities after a trade or seed and store a chart snapshot,
+   * inside the indexer's transaction so the chart never misses a trade
+   */
+  private async recordProbabilities(
+    market: Market,
+    trade: Trade | null,
+    manager: EntityManager,
+  ) {
+    const outcomes = [...market.outcomes].sort(
+      (a, b) => a.outcomeIndex - b.outcomeIndex,
+    );
+
+    applyOutcomeProbabilities(outcomes);
+
+    // Only the probability is written so concurrent trade totals are not overwritten
+    for (const outcome of outcomes) {
+      await manager.update(Outcome, outcome.id, {
+        currentProbability: outcome.currentProbability,
+      });
+    }
+
+    const snapshot = manager.create(ProbabilitySnapshot, {
+      marketId: market.id,
+      tradeId: trade?.id ?? null,
+      probabilities: outcomes.map((o) => parseFloat(o.currentProbability)),
+      volume: trade?.amount ?? '0',
+      timestamp: trade?.blockTimestamp ?? new Date(),
+    });
+
+    await manager.save(snapshot);
+  }
+
+  /**
+   * Refresh probabilities, activity and limit orders after a trade was applied.
+   * The returned effect notifies the owners of triggered orders.
+   */
+  private async recordTradeEffects(
+    market: Market,
+    outcome: Outcome,
+    trade: Trade,
+    manager: EntityManager,
+  ): Promise<IndexedLogEffect> {
+    market.outcomes = await manager.find(Outcome, {
+      where: { marketId: market.id },
+    });
+
+    await this.recordProbabilities(market, trade, manager);
+    await this.marketActivityService.recordTrade(trade, outcome, manager);
+    await this.limitOrdersService.recordFill(trade, manager);
+
+    return this.limitOrdersService.matchOrders(market, manager);
   }
 
   /**
@@ -77,26 +435,131 @@ export class MarketEventsService implements OnModuleInit {
   private async handleMarketCreated(
     marketId: bigint,
     creator: string,
-    question: string,
+    title: string,
     endTime: bigint,
-    event: any,
+    log: Log,
+    manager: EntityManager,
   ) {
     try {
       this.logger.log(`MarketCreated event: ${marketId} by ${creator}`);
 
       // Find market by transaction hash
-      const txHash = event.transactionHash;
-      const market = await this.marketRepository.findOne({
+      const txHash = log.transactionHash.toLowerCase();
+      const market = await manager.findOne(Market, {
         where: { txHash },
       });
 
-      if (market) {
-        this.logger.log(`Market ${market.id} confirmed on blockchain`);
-      } else {
+      if (!market) {
         this.logger.warn(`Market not found for tx ${txHash}`);
+        return;
       }
+
+      if (market.status !== MarketStatus.PENDING_DEPLOYMENT) {
+        this.logger.warn(
+          `Market ${market.id} is ${market.status}, ignoring MarketCreated`,
+        );
+        return;
+      }
+
+      // The contract computes endTime from the block timestamp, so it is authoritative
+      market.onChainMarketId = marketId.toString();
+      market.endTime = new Date(Number(endTime) * 1000);
+
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.ACTIVE,
+        {
+          source: MarketStatusChangeSource.CHAIN,
+          reason: `MarketCreated in tx ${txHash}`,
+        },
+        manager,
+      );
+
+      this.logger.log(
+        `Market ${market.id} confirmed on blockchain as #${marketId}`,
+      );
+
+      return () => this.marketLiquidityService.notifySeedReady(market);
     } catch (error) {
       this.logger.error('Error handling MarketCreated event', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle LiquiditySeeded event
+   */
+  private async handleLiquiditySeeded(
+    marketId: bigint,
+    providerAddress: string,
+    amount: bigint,
+    weightsBps: bigint[],
+    log: Log,
+    manager: EntityManager,
+  ) {
+    try {
+      this.logger.log(
+        `LiquiditySeeded event: Market ${marketId}, Provider ${providerAddress}`,
+      );
+
+      const market = await this.findMarketByChainId(marketId, manager, [
+        'outcomes',
+      ]);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
+      }
+
+      await this.marketLiquidityService.recordSeed(
+        market,
+        providerAddress,
+        amount,
+        [...weightsBps],
+        log.transactionHash,
+        manager,
+      );
+      await this.recordProbabilities(market, null, manager);
+    } catch (error) {
+      this.logger.error('Error handling LiquiditySeeded event', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle LiquidityWithdrawn event
+   */
+  private async handleLiquidityWithdrawn(
+    marketId: bigint,
+    providerAddress: string,
+    amount: bigint,
+    fees: bigint,
+    log: Log,
+    manager: EntityManager,
+  ) {
+    try {
+      this.logger.log(
+        `LiquidityWithdrawn event: Market ${marketId}, Provider ${providerAddress}`,
+      );
+
+      const market = await this.findMarketByChainId(marketId, manager);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
+      }
+
+      await this.marketLiquidityService.recordWithdrawal(
+        market,
+        providerAddress,
+        amount,
+        fees,
+        log.transactionHash,
+        manager,
+      );
+    } catch (error) {
+      this.logger.error('Error handling LiquidityWithdrawn event', error);
+      throw error;
     }
   }
 
@@ -108,25 +571,25 @@ export class MarketEventsService implements OnModuleInit {
     userAddress: string,
     optionIndex: bigint,
     amount: bigint,
-    event: any,
+    sharesBought: bigint,
+    timestamp: bigint,
+    log: Log,
+    manager: EntityManager,
   ) {
     try {
       this.logger.log(`BetPlaced event: Market ${marketId}, User ${userAddress}`);
 
-      // Find market by contract address
-      const contractAddress = event.address.toLowerCase();
-      const market = await this.marketRepository.findOne({
-        where: { contractAddress },
-        relations: ['outcomes'],
-      });
+      const market = await this.findMarketByChainId(marketId, manager, [
+        'outcomes',
+      ]);
 
       if (!market) {
-        this.logger.warn(`Market not found for contract ${contractAddress}`);
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
         return;
       }
 
       // Find user
-      const user = await this.userRepository.findOne({
+      const user = await manager.findOne(User, {
         where: { walletAddress: userAddress.toLowerCase() },
       });
 
@@ -145,83 +608,112 @@ export class MarketEventsService implements OnModuleInit {
         return;
       }
 
-      // Convert amount from wei to USDC (6 decimals)
+      // Convert amount and shares from base units (6 decimals)
       const amountUSDC = Number(amount) / 1e6;
-      const shares = amountUSDC; // Simplified - should calculate based on price
-      const price = 1; // Simplified
+      const shares = Number(sharesBought) / 1e6;
+      const price = shares > 0 ? amountUSDC / shares : 0;
 
-      // Create or update position
-      let position = await this.positionRepository.findOne({
-        where: {
-          marketId: market.id,
-          userId: user.id,
-          outcomeId: outcome.id,
-        },
-      });
-
-      if (position) {
-        // Update existing position
-        const oldShares = parseFloat(position.shares);
-        const oldCostBasis = parseFloat(position.costBasis);
-        const newShares = oldShares + shares;
-        const newCostBasis = oldCostBasis + amountUSDC;
-
-        position.shares = newShares.toFixed(6);
-        position.costBasis = newCostBasis.toFixed(6);
-        position.averagePrice = (newCostBasis / newShares).toFixed(6);
-      } else {
-        // Create new position
-        position = this.positionRepository.create({
+      const trade = await this.positionAccountingService.applyTrade(
+        manager.create(Trade, {
           marketId: market.id,
           userId: user.id,
           outcomeId: outcome.id,
           walletAddress: userAddress.toLowerCase(),
+          action: TradeAction.BUY,
           shares: shares.toFixed(6),
-          costBasis: amountUSDC.toFixed(6),
-          averagePrice: price.toFixed(6),
-        });
+          amount: amountUSDC.toFixed(6),
+          price: price.toFixed(6),
+          fee: (amountUSDC * 0.015).toFixed(6), // OpinionMarket.TOTAL_FEE_BPS
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber.toString(),
+          blockTimestamp: new Date(Number(timestamp) * 1000),
+        }),
+        manager,
+      );
+
+      this.logger.log(`Trade recorded for market ${market.id}`);
+
+      return this.recordTradeEffects(market, outcome, trade, manager);
+    } catch (error) {
+      this.logger.error('Error handling BetPlaced event', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle SharesSold event
+   */
+  private async handleSharesSold(
+    marketId: bigint,
+    userAddress: string,
+    optionIndex: bigint,
+    sharesSold: bigint,
+    amount: bigint,
+    payout: bigint,
+    timestamp: bigint,
+    log: Log,
+    manager: EntityManager,
+  ) {
+    try {
+      this.logger.log(`SharesSold event: Market ${marketId}, User ${userAddress}`);
+
+      const market = await this.findMarketByChainId(marketId, manager, [
+        'outcomes',
+      ]);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
       }
 
-      await this.positionRepository.save(position);
-
-      // Create trade record
-      const trade = this.tradeRepository.create({
-        marketId: market.id,
-        userId: user.id,
-        outcomeId: outcome.id,
-        walletAddress: userAddress.toLowerCase(),
-        action: TradeAction.BUY,
-        shares: shares.toFixed(6),
-        amount: amountUSDC.toFixed(6),
-        price: price.toFixed(6),
-        fee: (amountUSDC * 0.02).toFixed(6),
-        txHash: event.transactionHash,
-        blockNumber: event.blockNumber?.toString(),
-        blockTimestamp: new Date(),
+      const user = await manager.findOne(User, {
+        where: { walletAddress: userAddress.toLowerCase() },
       });
 
-      await this.tradeRepository.save(trade);
+      if (!user) {
+        this.logger.warn(`User not found for address ${userAddress}`);
+        return;
+      }
 
-      // Update market stats
-      market.totalVolume = (parseFloat(market.totalVolume) + amountUSDC).toFixed(6);
-      market.tradeCount += 1;
+      const outcome = market.outcomes.find(
+        (o) => o.outcomeIndex === Number(optionIndex),
+      );
 
-      // Update participant count if new participant
-      if (!position.id) {
-        market.participantCount += 1;
+      if (!outcome) {
+        this.logger.warn(`Outcome ${optionIndex} not found for market ${market.id}`);
+        return;
       }
 
-      await this.marketRepository.save(market);
+      // Convert amounts and shares from base units (6 decimals)
+      const amountUSDC = Number(amount) / 1e6;
+      const payoutUSDC = Number(payout) / 1e6;
+      const shares = Number(sharesSold) / 1e6;
+      const price = shares > 0 ? amountUSDC / shares : 0;
 
-      // Update outcome stats
-      outcome.totalShares = (parseFloat(outcome.totalShares) + shares).toFixed(6);
-      outcome.totalStaked = (parseFloat(outcome.totalStaked) + amountUSDC).toFixed(6);
+      const trade = await this.positionAccountingService.applyTrade(
+        manager.create(Trade, {
+          marketId: market.id,
+          userId: user.id,
+          outcomeId: outcome.id,
+          walletAddress: userAddress.toLowerCase(),
+          action: TradeAction.SELL,
+          shares: shares.toFixed(6),
+          amount: amountUSDC.toFixed(6),
+          price: price.toFixed(6),
+          fee: (amountUSDC - payoutUSDC).toFixed(6),
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber.toString(),
+          blockTimestamp: new Date(Number(timestamp) * 1000),
+        }),
+        manager,
+      );
 
-      await this.outcomeRepository.save(outcome);
+      this.logger.log(`Sell recorded for market ${market.id}`);
 
-      this.logger.log(`Trade recorded for market ${market.id}`);
+      return this.recordTradeEffects(market, outcome, trade, manager);
     } catch (error) {
-      this.logger.error('Error handling BetPlaced event', error);
+      this.logger.error('Error handling SharesSold event', error);
+      throw error;
     }
   }
 
@@ -231,30 +723,78 @@ export class MarketEventsService implements OnModuleInit {
   private async handleMarketResolved(
     marketId: bigint,
     winningOption: bigint,
-    event: any,
+    timestamp: bigint,
+    manager: EntityManager,
   ) {
     try {
       this.logger.log(`MarketResolved event: Market ${marketId}, Winner ${winningOption}`);
 
-      const contractAddress = event.address.toLowerCase();
-      const market = await this.marketRepository.findOne({
-        where: { contractAddress },
-      });
+      const market = await this.findMarketByChainId(marketId, manager);
 
       if (!market) {
-        this.logger.warn(`Market not found for contract ${contractAddress}`);
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
         return;
       }
 
-      market.status = MarketStatus.RESOLVED;
       market.winningOutcomeIndex = Number(winningOption);
-      market.resolvedAt = new Date();
+      market.resolvedAt = new Date(Number(timestamp) * 1000);
 
-      await this.marketRepository.save(market);
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.RESOLVED,
+        {
+          source: MarketStatusChangeSource.CHAIN,
+          reason: `MarketResolved with outcome ${winningOption}`,
+        },
+        manager,
+      );
 
       this.logger.log(`Market ${market.id} marked as resolved`);
     } catch (error) {
       this.logger.error('Error handling MarketResolved event', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle ScalarMarketResolved event
+   */
+  private async handleScalarMarketResolved(
+    marketId: bigint,
+    resolvedValue: bigint,
+    timestamp: bigint,
+    manager: EntityManager,
+  ) {
+    try {
+      const value = (Number(resolvedValue) / 1e6).toFixed(6);
+      this.logger.log(
+        `ScalarMarketResolved event: Market ${marketId}, Value ${value}`,
+      );
+
+      const market = await this.findMarketByChainId(marketId, manager);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
+      }
+
+      market.resolvedValue = value;
+      market.resolvedAt = new Date(Number(timestamp) * 1000);
+
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.RESOLVED,
+        {
+          source: MarketStatusChangeSource.CHAIN,
+          reason: `ScalarMarketResolved with value ${value}`,
+        },
+        manager,
+      );
+
+      this.logger.log(`Market ${market.id} marked as resolved`);
+    } catch (error) {
+      this.logger.error('Error handling ScalarMarketResolved event', error);
+      throw error;
     }
   }
 
@@ -265,51 +805,226 @@ export class MarketEventsService implements OnModuleInit {
     marketId: bigint,
     userAddress: string,
     amount: bigint,
-    event: any,
+    manager: EntityManager,
   ) {
     try {
       this.logger.log(`WinningsClaimed event: Market ${marketId}, User ${userAddress}`);
 
-      const contractAddress = event.address.toLowerCase();
-      const market = await this.marketRepository.findOne({
-        where: { contractAddress },
-      });
+      const market = await this.findMarketByChainId(marketId, manager);
 
       if (!market) {
-        this.logger.warn(`Market not found for contract ${contractAddress}`);
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
         return;
       }
 
-      const user = await this.userRepository.findOne({
-        where: { walletAddress: userAddress.toLowerCase() },
-      });
+      // Close the wallet's positions against the payout
+      await this.positionAccountingService.applyClaim(
+        market,
+        userAddress,
+        Number(amount) / 1e6,
+        manager,
+      );
 
-      if (!user) {
-        this.logger.warn(`User not found for address ${userAddress}`);
+      this.logger.log(
+        `Winnings claimed by ${userAddress} in market ${market.id}`,
+      );
+    } catch (error) {
+      this.logger.error('Error handling WinningsClaimed event', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle MarketCancelled event
+   */
+  private async handleMarketCancelled(
+    marketId: bigint,
+    manager: EntityManager,
+  ) {
+    try {
+      this.logger.log(`MarketCancelled event: Market ${marketId}`);
+
+      const market = await this.findMarketByChainId(marketId, manager);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
         return;
       }
 
-      // Mark position as claimed
-      const positions = await this.positionRepository.find({
-        where: {
-          marketId: market.id,
-          userId: user.id,
-          claimed: false,
+      // Admin cancellations already moved the market; this covers direct owner calls
+      if (market.status === MarketStatus.CANCELLED) {
+        return;
+      }
+
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.CANCELLED,
+        {
+          source: MarketStatusChangeSource.CHAIN,
+          reason: 'MarketCancelled on-chain',
         },
-      });
+        manager,
+      );
+    } catch (error) {
+      this.logger.error('Error handling MarketCancelled event', error);
+      throw error;
+    }
+  }
 
-      const amountUSDC = Number(amount) / 1e6;
+  /**
+   * Handle RefundClaimed event
+   */
+  private async handleRefundClaimed(
+    marketId: bigint,
+    userAddress: string,
+    amount: bigint,
+    manager: EntityManager,
+  ) {
+    try {
+      this.logger.log(`RefundClaimed event: Market ${marketId}, User ${userAddress}`);
 
-      for (const position of positions) {
-        position.claimed = true;
-        position.claimedAmount = amountUSDC.toFixed(6);
-        position.claimedAt = new Date();
-        await this.positionRepository.save(position);
+      const market = await this.findMarketByChainId(marketId, manager);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
       }
 
-      this.logger.log(`Winnings claimed for user ${user.id} in market ${market.id}`);
+      await this.positionAccountingService.applyRefund(
+        market,
+        userAddress,
+        Number(amount) / 1e6,
+        manager,
+      );
+
+      this.logger.log(
+        `Refund of ${(Number(amount) / 1e6).toFixed(6)} USDC claimed by ${userAddress} in market ${market.id}`,
+      );
     } catch (error) {
-      this.logger.error('Error handling WinningsClaimed event', error);
+      this.logger.error('Error handling RefundClaimed event', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle MarketPaused and MarketUnpaused events
+   */
+  private async handleMarketPauseChanged(
+    marketId: bigint,
+    paused: boolean,
+    manager: EntityManager,
+  ) {
+    const eventName = paused ? 'MarketPaused' : 'MarketUnpaused';
+
+    try {
+      this.logger.log(`${eventName} event: Market ${marketId}`);
+
+      const market = await this.findMarketByChainId(marketId, manager);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
+      }
+
+      // Admin pauses already updated the market; this covers direct owner calls
+      if (market.paused === paused) {
+        return;
+      }
+
+      await this.marketLifecycleService.setPaused(
+        market,
+        paused,
+        {
+          source: MarketStatusChangeSource.CHAIN,
+          reason: `${eventName} on-chain`,
+        },
+        manager,
+      );
+    } catch (error) {
+      this.logger.error(`Error handling ${eventName} event`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle MarketDisputed event
+   */
+  private async handleMarketDisputed(
+    marketId: bigint,
+    disputer: string,
+    log: Log,
+    manager: EntityManager,
+  ) {
+    try {
+      this.logger.log(
+        `MarketDisputed event: Market ${marketId} by ${disputer}`,
+      );
+
+      const market = await this.findMarketByChainId(marketId, manager);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
+      }
+
+      // Disputes opened through the API already moved the market; this covers
+      // direct contract calls, which get their record when the disputer opens it
+      if (market.status !== MarketStatus.RESOLVED) {
+        return;
+      }
+
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.DISPUTED,
+        {
+          source: MarketStatusChangeSource.CHAIN,
+          reason: `MarketDisputed by ${disputer} in tx ${log.transactionHash}`,
+        },
+        manager,
+      );
+    } catch (error) {
+      this.logger.error('Error handling MarketDisputed event', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle DisputeSettled event
+   */
+  private async handleDisputeSettled(
+    marketId: bigint,
+    overturned: boolean,
+    winningOutcome: bigint,
+    log: Log,
+    manager: EntityManager,
+  ) {
+    try {
+      this.logger.log(
+        `DisputeSettled event: Market ${marketId}, Overturned ${overturned}`,
+      );
+
+      const market = await this.findMarketByChainId(marketId, manager);
+
+      if (!market) {
+        this.logger.warn(`Market not found for on-chain market ${marketId}`);
+        return;
+      }
+
+      // Admin adjudications already settled the market; this covers direct owner calls
+      if (market.status !== MarketStatus.DISPUTED) {
+        return;
+      }
+
+      await this.marketDisputesService.applyChainSettlement(
+        market,
+        log.transactionHash,
+        overturned,
+        Number(winningOutcome),
+        manager,
+      );
+    } catch (error) {
+      this.logger.error('Error handling DisputeSettled event', error);
+      throw error;
     }
   }
 }
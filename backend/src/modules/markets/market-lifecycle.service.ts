@@ -0,0 +1,192 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { MarketStatusHistory } from '../../database/entities/market-status-history.entity';
+import { MarketPauseHistory } from '../../database/entities/market-pause-history.entity';
+import { MarketStatus, MarketStatusChangeSource } from '../../database/enums';
+
+export interface MarketTransitionOptions {
+  source: MarketStatusChangeSource;
+  changedBy?: string | null;
+  reason?: string | null;
+}
+
+export interface MarketPauseOptions extends MarketTransitionOptions {
+  txHash?: string | null;
+}
+
+@Injectable()
+export class MarketLifecycleService {
+  private readonly logger = new Logger(MarketLifecycleService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(MarketStatusHistory)
+    private readonly historyRepository: Repository<MarketStatusHistory>,
+    @InjectRepository(MarketPauseHistory)
+    private readonly pauseHistoryRepository: Repository<MarketPauseHistory>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Move a market to a new status and record the change in its history.
+   * Any other pending changes on the market entity are saved with it.
+   * Pass a manager to make the change part of the caller's transaction.
+   */
+  async transition(
+    market: Market,
+    toStatus: MarketStatus,
+    options: MarketTransitionOptions,
+    parent?: EntityManager,
+  ): Promise<Market> {
+    const fromStatus = market.status;
+
+    if (toStatus === MarketStatus.PENDING_RESOLUTION) {
+      market.resolutionDeadline = this.getResolutionDeadline(market);
+      market.resolutionEscalatedAt = null;
+    }
+
+    market.status = toStatus;
+
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    await entityManager.transaction(async (manager) => {
+      await manager.save(market);
+
+      if (fromStatus !== toStatus) {
+        await manager.save(
+          this.historyRepository.create({
+            marketId: market.id,
+            fromStatus,
+            toStatus,
+            source: options.source,
+            changedBy: options.changedBy ?? null,
+            reason: options.reason ?? null,
+          }),
+        );
+      }
+    });
+
+    if (fromStatus !== toStatus) {
+      this.logger.log(
+        `Market ${market.id} moved from ${fromStatus} to ${toStatus} (${options.source})`,
+      );
+    }
+
+    return market;
+  }
+
+  /**
+   * Pause or resume trading on a market and record the change in its pause history
+   */
+  async setPaused(
+    market: Market,
+    paused: boolean,
+    options: MarketPauseOptions,
+    parent?: EntityManager,
+  ): Promise<Market> {
+    market.paused = paused;
+    market.pausedAt = paused ? new Date() : null;
+    market.pauseReason = paused ? (options.reason ?? null) : null;
+
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    await entityManager.transaction(async (manager) => {
+      await manager.save(market);
+      await manager.save(
+        this.pauseHistoryRepository.create({
+          marketId: market.id,
+          paused,
+          source: options.source,
+          changedBy: options.changedBy ?? null,
+          reason: options.reason ?? null,
+          txHash: options.txHash ?? null,
+        }),
+      );
+    });
+
+    this.logger.log(
+      `Market ${market.id} ${paused ? 'paused' : 'unpaused'} (${options.source})`,
+    );
+
+    return market;
+  }
+
+  /**
+   * Move a market back to the status it held before its current one, e.g.
+   * when the event that moved it is dropped by a chain reorganization
+   */
+  async revertTransition(
+    market: Market,
+    options: MarketTransitionOptions,
+    manager: EntityManager,
+  ): Promise<Market> {
+    const last = await manager.findOne(MarketStatusHistory, {
+      where: { marketId: market.id, toStatus: market.status },
+      order: { createdAt: 'DESC' },
+    });
+
+    if (!last) {
+      return market;
+    }
+
+    return this.transition(market, last.fromStatus, options, manager);
+  }
+
+  /**
+   * Get the status history of a market, oldest first
+   */
+  async getHistory(marketId: string): Promise<MarketStatusHistory[]> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    return this.historyRepository.find({
+      where: { marketId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Get the pause history of a market, oldest first
+   */
+  async getPauseHistory(marketId: string): Promise<MarketPauseHistory[]> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    return this.pauseHistoryRepository.find({
+      where: { marketId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Helper: Deadline to resolve a market that has just ended. Oracle markets
+   * also get the challenge window their proposals wait out before execution.
+   */
+  private getResolutionDeadline(market: Market): Date {
+    const windowMinutes =
+      (this.configService.get<number>('market.resolutionWindowMinutes') ?? 60) +
+      (market.resolverType
+        ? (this.configService.get<number>('oracle.challengeWindowMinutes') ??
+          60)
+        : 0);
+
+    // Markets are picked up after they end, so count from whichever is later
+    const start = Math.max(market.endTime.getTime(), Date.now());
+
+    return new Date(start + windowMinutes * 60 * 1000);
+  }
+}
@@ -0,0 +1,525 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { ethers } from 'ethers';
+import { Market } from '../../database/entities/market.entity';
+import { Outcome } from '../../database/entities/outcome.entity';
+import { User } from '../../database/entities/user.entity';
+import { LiquidityPosition } from '../../database/entities/liquidity-position.entity';
+import { MarketStatus } from '../../database/enums';
+import {
+  OpinionMarketService,
+  OPINION_MARKET_FEES,
+} from '../../contracts/opinion-market.service';
+import { BlockchainService } from '../../contracts/blockchain.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/dto';
+import { UNPUBLISHED_STATUSES } from './markets.service';
+import {
+  SeedLiquidityDto,
+  LiquidityTransactionResponseDto,
+  LiquidityPositionDto,
+  MarketLiquidityResponseDto,
+} from './dto';
+
+// Markets whose reserves are settled and can be withdrawn from
+const SETTLED_STATUSES = [MarketStatus.RESOLVED, MarketStatus.CANCELLED];
+
+@Injectable()
+export class MarketLiquidityService {
+  private readonly logger = new Logger(MarketLiquidityService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(Outcome)
+    private readonly outcomeRepository: Repository<Outcome>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(LiquidityPosition)
+    private readonly positionRepository: Repository<LiquidityPosition>,
+    private readonly opinionMarketService: OpinionMarketService,
+    private readonly blockchainService: BlockchainService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Get a market's seeded liquidity, accrued fees and providers
+   */
+  async getLiquidity(marketId: string): Promise<MarketLiquidityResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+      relations: ['outcomes'],
+    });
+
+    if (!market || UNPUBLISHED_STATUSES.includes(market.status)) {
+      throw new NotFoundException('Market not found');
+    }
+
+    const positions = await this.positionRepository.find({
+      where: { marketId },
+      order: { createdAt: 'ASC' },
+    });
+
+    const accruedFees =
+      market.onChainMarketId && parseFloat(market.totalLiquidity) > 0
+        ? await this.opinionMarketService.getLiquidityFees(
+            BigInt(market.onChainMarketId),
+          )
+        : BigInt(0);
+
+    return {
+      marketId: market.id,
+      totalLiquidity: market.totalLiquidity,
+      pendingSeed:
+        market.seedLiquidityAmount && positions.length === 0
+          ? market.seedLiquidityAmount
+          : undefined,
+      accruedFees: this.formatUSDCUnits(accruedFees),
+      outcomes: [...market.outcomes]
+        .sort((a, b) => a.outcomeIndex - b.outcomeIndex)
+        .map((o) => ({
+          outcomeIndex: o.outcomeIndex,
+          text: o.text,
+          seedLiquidity: o.seedLiquidity,
+        })),
+      positions: positions.map((position) => this.mapToResponseDto(position)),
+    };
+  }
+
+  /**
+   * Prepare the creator's seedLiquidity transaction (returns unsigned tx)
+   */
+  async prepareSeed(
+    marketId: string,
+    creatorId: string,
+    walletAddress: string,
+    dto: SeedLiquidityDto,
+  ): Promise<LiquidityTransactionResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+      relations: ['outcomes'],
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.creatorId !== creatorId) {
+      throw new ForbiddenException(
+        'Only the market creator can seed liquidity',
+      );
+    }
+
+    if (market.status !== MarketStatus.ACTIVE || market.endTime <= new Date()) {
+      throw new BadRequestException('Market is not active');
+    }
+
+    // The contract rejects seeds once trading has moved the reserves
+    if (market.tradeCount > 0) {
+      throw new BadRequestException(
+        'Liquidity can only be seeded before trading starts',
+      );
+    }
+
+    const amount = dto.amount ?? market.seedLiquidityAmount;
+
+    if (!amount) {
+      throw new BadRequestException('Liquidity amount is required');
+    }
+
+    return this.buildSeedTransaction(
+      market,
+      walletAddress,
+      this.parseUSDCAmount(amount),
+    );
+  }
+
+  /**
+   * Prepare a provider's withdrawLiquidity transaction (returns unsigned tx)
+   */
+  async prepareWithdrawal(
+    marketId: string,
+    walletAddress: string,
+  ): Promise<LiquidityTransactionResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (!SETTLED_STATUSES.includes(market.status) || !market.onChainMarketId) {
+      throw new BadRequestException(
+        'Liquidity can be withdrawn once the market is resolved or cancelled',
+      );
+    }
+
+    const position = await this.positionRepository.findOne({
+      where: { marketId, walletAddress: walletAddress.toLowerCase() },
+    });
+
+    if (!position) {
+      throw new BadRequestException('No liquidity provided to this market');
+    }
+
+    if (position.withdrawnAt) {
+      throw new BadRequestException('Liquidity already withdrawn');
+    }
+
+    // Fees are shared pro rata to the seed, as in withdrawLiquidity
+    const onChainMarketId = BigInt(market.onChainMarketId);
+    const provided = this.parseUSDCAmount(position.amount);
+    const totalLiquidity = this.parseUSDCAmount(market.totalLiquidity);
+    const accruedFees =
+      await this.opinionMarketService.getLiquidityFees(onChainMarketId);
+
+    return {
+      unsignedTx:
+        this.opinionMarketService.buildWithdrawLiquidityTransaction(
+          onChainMarketId,
+        ),
+      amount: position.amount,
+      fees: this.formatUSDCUnits((accruedFees * provided) / totalLiquidity),
+    };
+  }
+
+  /**
+   * Send the creator the seed transaction requested at creation once the market is live
+   */
+  async notifySeedReady(market: Market): Promise<void> {
+    if (!market.seedLiquidityAmount) {
+      return;
+    }
+
+    const fullMarket = await this.marketRepository.findOne({
+      where: { id: market.id },
+      relations: ['outcomes', 'creator'],
+    });
+
+    if (!fullMarket?.creator) {
+      this.logger.warn(`Creator not found for market ${market.id}`);
+      return;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: fullMarket.creator.userId },
+    });
+
+    const transaction = await this.buildSeedTransaction(
+      fullMarket,
+      user?.walletAddress ?? null,
+      this.parseUSDCAmount(fullMarket.seedLiquidityAmount ?? '0'),
+    );
+
+    await this.notificationsService.notify(
+      [fullMarket.creator.userId],
+      NotificationType.LIQUIDITY_SEED_READY,
+      'Seed Your Market',
+      `"${fullMarket.title}" is live. Sign the attached transaction to seed ${transaction.amount} USDC of liquidity before trading starts.`,
+      {
+        marketId: fullMarket.id,
+        amount: transaction.amount,
+        weightsBps: transaction.weightsBps,
+        unsignedTx: transaction.unsignedTx,
+        approvalTx: transaction.approvalTx,
+      },
+    );
+
+    this.logger.log(`Seed transaction sent for market ${fullMarket.id}`);
+  }
+
+  /**
+   * Record a LiquiditySeeded event: spread the seed over the outcomes and track the position
+   */
+  async recordSeed(
+    market: Market,
+    providerAddress: string,
+    amount: bigint,
+    weightsBps: bigint[],
+    txHash: string,
+    parent?: EntityManager,
+  ): Promise<void> {
+    const outcomes = [...market.outcomes].sort(
+      (a, b) => a.outcomeIndex - b.outcomeIndex,
+    );
+
+    // Same split as seedLiquidity: the last outcome takes the rounding remainder
+    let allocated = BigInt(0);
+    outcomes.forEach((outcome, i) => {
+      const part =
+        i === outcomes.length - 1
+          ? amount - allocated
+          : (amount * weightsBps[i]) / OPINION_MARKET_FEES.BPS_DENOMINATOR;
+      allocated += part;
+      outcome.seedLiquidity = this.formatUSDCUnits(
+        this.parseUSDCAmount(outcome.seedLiquidity, true) + part,
+      );
+    });
+
+    const amountUSDC = this.formatUSDCUnits(amount);
+    market.totalLiquidity = this.formatUSDCUnits(
+      this.parseUSDCAmount(market.totalLiquidity, true) + amount,
+    );
+
+    const walletAddress = providerAddress.toLowerCase();
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    await entityManager.transaction(async (manager) => {
+      await manager.save(outcomes);
+      await manager.save(market);
+
+      const user = await manager.findOne(User, {
+        where: { walletAddress },
+      });
+      const position = await manager.findOne(LiquidityPosition, {
+        where: { marketId: market.id, walletAddress },
+      });
+
+      if (position) {
+        position.amount = this.formatUSDCUnits(
+          this.parseUSDCAmount(position.amount) + amount,
+        );
+        await manager.save(position);
+      } else {
+        await manager.save(
+          manager.create(LiquidityPosition, {
+            marketId: market.id,
+            userId: user?.id ?? null,
+            walletAddress,
+            amount: amountUSDC,
+            txHash,
+          }),
+        );
+      }
+    });
+
+    this.logger.log(
+      `Market ${market.id} seeded with ${amountUSDC} USDC by ${walletAddress}`,
+    );
+  }
+
+  /**
+   * Record a LiquidityWithdrawn event
+   */
+  async recordWithdrawal(
+    market: Market,
+    providerAddress: string,
+    amount: bigint,
+    fees: bigint,
+    txHash: string,
+    parent?: EntityManager,
+  ): Promise<void> {
+    const walletAddress = providerAddress.toLowerCase();
+    const entityManager = parent ?? this.positionRepository.manager;
+    const position = await entityManager.findOne(LiquidityPosition, {
+      where: { marketId: market.id, walletAddress },
+    });
+
+    if (!position) {
+      this.logger.warn(
+        `Liquidity position not found for ${walletAddress} in market ${market.id}`,
+      );
+      return;
+    }
+
+    position.withdrawnAmount = this.formatUSDCUnits(amount);
+    position.feesEarned = this.formatUSDCUnits(fees);
+    position.withdrawnAt = new Date();
+    position.withdrawTxHash = txHash;
+    await entityManager.save(position);
+
+    this.logger.log(
+      `Liquidity withdrawn from market ${market.id} by ${walletAddress}`,
+    );
+  }
+
+  /**
+   * Undo a LiquiditySeeded event dropped by a chain reorganization
+   */
+  async revertSeed(
+    market: Market,
+    providerAddress: string,
+    amount: bigint,
+    weightsBps: bigint[],
+    manager: EntityManager,
+  ): Promise<void> {
+    const outcomes = [...market.outcomes].sort(
+      (a, b) => a.outcomeIndex - b.outcomeIndex,
+    );
+
+    // Same split as recordSeed
+    let allocated = BigInt(0);
+    outcomes.forEach((outcome, i) => {
+      const part =
+        i === outcomes.length - 1
+          ? amount - allocated
+          : (amount * weightsBps[i]) / OPINION_MARKET_FEES.BPS_DENOMINATOR;
+      allocated += part;
+      outcome.seedLiquidity = this.formatUSDCUnits(
+        this.parseUSDCAmount(outcome.seedLiquidity, true) - part,
+      );
+    });
+
+    market.totalLiquidity = this.formatUSDCUnits(
+      this.parseUSDCAmount(market.totalLiquidity, true) - amount,
+    );
+
+    await manager.save(outcomes);
+    await manager.save(market);
+
+    const walletAddress = providerAddress.toLowerCase();
+    const position = await manager.findOne(LiquidityPosition, {
+      where: { marketId: market.id, walletAddress },
+    });
+
+    if (position) {
+      const remaining = this.parseUSDCAmount(position.amount, true) - amount;
+
+      if (remaining > BigInt(0)) {
+        position.amount = this.formatUSDCUnits(remaining);
+        await manager.save(position);
+      } else {
+        await manager.remove(position);
+      }
+    }
+
+    this.logger.warn(
+      `Reverted seed of ${this.formatUSDCUnits(amount)} USDC by ${walletAddress} in market ${market.id}`,
+    );
+  }
+
+  /**
+   * Undo a LiquidityWithdrawn event dropped by a chain reorganization
+   */
+  async revertWithdrawal(
+    market: Market,
+    providerAddress: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    const walletAddress = providerAddress.toLowerCase();
+
+    await manager.update(
+      LiquidityPosition,
+      { marketId: market.id, walletAddress },
+      {
+        withdrawnAmount: '0',
+        feesEarned: '0',
+        withdrawnAt: null,
+        withdrawTxHash: null,
+      },
+    );
+
+    this.logger.warn(
+      `Reverted liquidity withdrawal by ${walletAddress} in market ${market.id}`,
+    );
+  }
+
+  /**
+   * Helper: Build a seedLiquidity transaction weighted by the initial probabilities
+   */
+  private async buildSeedTransaction(
+    market: Market,
+    walletAddress: string | null,
+    amount: bigint,
+  ): Promise<LiquidityTransactionResponseDto> {
+    if (!market.onChainMarketId) {
+      throw new BadRequestException('Market is not deployed on-chain yet');
+    }
+
+    const weightsBps = this.seedWeights(market.outcomes);
+    const unsignedTx = this.opinionMarketService.buildSeedLiquidityTransaction(
+      BigInt(market.onChainMarketId),
+      amount,
+      weightsBps,
+    );
+
+    // seedLiquidity pulls USDC with transferFrom, so the market needs an allowance
+    const allowance = walletAddress
+      ? await this.blockchainService.getUSDCAllowance(
+          walletAddress,
+          unsignedTx.to,
+        )
+      : BigInt(0);
+
+    return {
+      unsignedTx,
+      approvalTx:
+        allowance < amount
+          ? this.blockchainService.buildUSDCApprovalTransaction(
+              unsignedTx.to,
+              amount,
+            )
+          : undefined,
+      amount: this.formatUSDCUnits(amount),
+      weightsBps: weightsBps.map(Number),
+    };
+  }
+
+  /**
+   * Helper: Convert initial probabilities to seed weights summing to 10000 bps
+   */
+  private seedWeights(outcomes: Outcome[]): bigint[] {
+    const sorted = [...outcomes].sort(
+      (a, b) => a.outcomeIndex - b.outcomeIndex,
+    );
+    const weights = sorted.map((o) =>
+      BigInt(Math.round(parseFloat(o.initialProbability) * 100)),
+    );
+    const assigned = weights
+      .slice(0, -1)
+      .reduce((sum, weight) => sum + weight, BigInt(0));
+    weights[weights.length - 1] =
+      OPINION_MARKET_FEES.BPS_DENOMINATOR - assigned;
+
+    return weights;
+  }
+
+  /**
+   * Helper: Parse a USDC amount (6 decimals), optionally allowing zero
+   */
+  private parseUSDCAmount(amount: string, allowZero = false): bigint {
+    let units: bigint;
+
+    try {
+      units = ethers.parseUnits(amount, 6);
+    } catch {
+      throw new BadRequestException('Invalid USDC amount');
+    }
+
+    if (units < BigInt(0) || (!allowZero && units === BigInt(0))) {
+      throw new BadRequestException('Amount must be greater than zero');
+    }
+
+    return units;
+  }
+
+  /**
+   * Helper: Format USDC base units (6 decimals) as a decimal string
+   */
+  private formatUSDCUnits(units: bigint): string {
+    return (Number(units) / 1e6).toFixed(6);
+  }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(position: LiquidityPosition): LiquidityPositionDto {
+    return {
+      walletAddress: position.walletAddress,
+      userId: position.userId ?? undefined,
+      amount: position.amount,
+      feesEarned: position.feesEarned,
+      withdrawnAmount: position.withdrawnAmount,
+      withdrawnAt: position.withdrawnAt?.toISOString(),
+      createdAt: position.createdAt.toISOString(),
+    };
+  }
+}
@@ -1,9 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan, MoreThan } from 'typeorm';
+import { Repository, LessThan, MoreThan, IsNull } from 'typeorm';
 import { Market } from '../../database/entities/market.entity';
-import { MarketStatus } from '../../database/enums';
+import { MarketStatus, MarketStatusChangeSource } from '../../database/enums';
+import { MarketLifecycleService } from './market-lifecycle.service';
+import { MarketWatchlistService } from './market-watchlist.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/dto';
+import { isScalarMarket } from './scalar-market';
 
 @Injectable()
 export class MarketMonitoringService {
@@ -12,10 +17,13 @@ export class MarketMonitoringService {
   constructor(
     @InjectRepository(Market)
     private readonly marketRepository: Repository<Market>,
+    private readonly marketLifecycleService: MarketLifecycleService,
+    private readonly marketWatchlistService: MarketWatchlistService,
+    private readonly notificationsService: NotificationsService,
   ) {}
 
   /**
-   * Check for markets ending soon (every 5 minutes)
+   * Alert watchers of markets ending soon (every 5 minutes)
    */
   @Cron(CronExpression.EVERY_5_MINUTES)
   async checkMarketsEndingSoon() {
@@ -27,8 +35,8 @@ export class MarketMonitoringService {
         where: {
           status: MarketStatus.ACTIVE,
           endTime: LessThan(oneHourFromNow),
+          endingSoonAlertedAt: IsNull(),
         },
-        relations: ['creator', 'creator.user'],
       });
 
       if (marketsEndingSoon.length > 0) {
@@ -36,12 +44,22 @@ export class MarketMonitoringService {
           `Found ${marketsEndingSoon.length} markets ending within 1 hour`,
         );
 
-        // TODO: Send notifications to participants
-        // This would integrate with a notification service
         for (const market of marketsEndingSoon) {
-          this.logger.log(
-            `Market "${market.title}" (${market.id}) ends at ${market.endTime}`,
+          const watcherIds = await this.marketWatchlistService.getWatcherIds(
+            market.id,
           );
+
+          await this.notificationsService.notify(
+            watcherIds,
+            NotificationType.MARKET_ENDING_SOON,
+            'Market Ending Soon',
+            `"${market.title}" ends at ${market.endTime.toISOString()}. Last chance to trade.`,
+            { marketId: market.id, endTime: market.endTime.toISOString() },
+          );
+
+          await this.marketRepository.update(market.id, {
+            endingSoonAlertedAt: now,
+          });
         }
       }
     } catch (error) {
@@ -50,7 +68,54 @@ export class MarketMonitoringService {
   }
 
   /**
-   * Check for expired markets that should be resolved (every 10 minutes)
+   * Alert watchers of newly resolved markets (every 5 minutes)
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async checkResolvedMarkets() {
+    try {
+      const resolvedMarkets = await this.marketRepository.find({
+        where: {
+          status: MarketStatus.RESOLVED,
+          resolvedAlertedAt: IsNull(),
+        },
+        relations: ['outcomes'],
+      });
+
+      for (const market of resolvedMarkets) {
+        const result = isScalarMarket(market)
+          ? `resolved at ${market.resolvedValue}`
+          : `resolved to "${
+              market.outcomes.find(
+                (o) => o.outcomeIndex === market.winningOutcomeIndex,
+              )?.text
+            }"`;
+        const watcherIds = await this.marketWatchlistService.getWatcherIds(
+          market.id,
+        );
+
+        await this.notificationsService.notify(
+          watcherIds,
+          NotificationType.MARKET_RESOLVED,
+          'Market Resolved',
+          `"${market.title}" ${result}`,
+          {
+            marketId: market.id,
+            winningOutcomeIndex: market.winningOutcomeIndex,
+            resolvedValue: market.resolvedValue,
+          },
+        );
+
+        await this.marketRepository.update(market.id, {
+          resolvedAlertedAt: new Date(),
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error checking resolved markets', error);
+    }
+  }
+
+  /**
+   * Move expired markets to pending resolution (every 10 minutes)
    */
   @Cron(CronExpression.EVERY_10_MINUTES)
   async checkExpiredMarkets() {
@@ -62,22 +127,21 @@ export class MarketMonitoringService {
           status: MarketStatus.ACTIVE,
           endTime: LessThan(now),
         },
-        relations: ['creator'],
       });
 
       if (expiredMarkets.length > 0) {
         this.logger.log(
-          `Found ${expiredMarkets.length} expired markets awaiting resolution`,
+          `Found ${expiredMarkets.length} expired markets, moving to pending resolution`,
         );
 
-        // TODO: Notify creators to resolve their markets
         for (const market of expiredMarkets) {
-          this.logger.log(
-            `Market "${market.title}" (${market.id}) expired at ${market.endTime}`,
-          );
-
-          // You could auto-resolve markets based on external data sources
-          // or send notifications to creators to manually resolve
+          try {
+            await this.moveToPendingResolution(market.id);
+          } catch (error) {
+            this.logger.error(
+              `Failed to move market ${market.id} to pending resolution: ${error.message}`,
+            );
+          }
         }
       }
     } catch (error) {
@@ -85,6 +149,57 @@ export class MarketMonitoringService {
     }
   }
 
+  /**
+   * Escalate markets that missed their resolution deadline (every 10 minutes)
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async escalateOverdueResolutions() {
+    try {
+      const now = new Date();
+
+      const overdueMarkets = await this.marketRepository.find({
+        where: {
+          status: MarketStatus.PENDING_RESOLUTION,
+          resolutionDeadline: LessThan(now),
+          resolutionEscalatedAt: IsNull(),
+        },
+      });
+
+      for (const market of overdueMarkets) {
+        // Only the escalation is written so indexed stats are not overwritten
+        const result = await this.marketRepository.update(
+          {
+            id: market.id,
+            status: MarketStatus.PENDING_RESOLUTION,
+            resolutionEscalatedAt: IsNull(),
+          },
+          { resolutionEscalatedAt: now },
+        );
+
+        if (!result.affected) {
+          continue;
+        }
+
+        // Escalated markets are surfaced first in GET /admin/markets/pending
+        await this.notificationsService.notifyAdmins(
+          NotificationType.RESOLUTION_OVERDUE,
+          'Market Resolution Overdue',
+          `"${market.title}" missed its resolution deadline and needs to be resolved.`,
+          {
+            marketId: market.id,
+            resolutionDeadline: market.resolutionDeadline?.toISOString(),
+          },
+        );
+
+        this.logger.warn(
+          `Market "${market.title}" (${market.id}) missed its resolution deadline of ${market.resolutionDeadline?.toISOString()}, escalated to admins`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error escalating overdue resolutions', error);
+    }
+  }
+
   /**
    * Update market statistics (every hour)
    */
@@ -183,4 +298,31 @@ export class MarketMonitoringService {
       this.logger.error('Error detecting suspicious activity', error);
     }
   }
+
+  /**
+   * Helper: Move an ended market to pending resolution. The market is re-read
+   * under a row lock so trades indexed since it was listed are not overwritten.
+   */
+  private async moveToPendingResolution(marketId: string): Promise<void> {
+    await this.marketRepository.manager.transaction(async (manager) => {
+      const market = await manager.findOne(Market, {
+        where: { id: marketId, status: MarketStatus.ACTIVE },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!market) {
+        return;
+      }
+
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.PENDING_RESOLUTION,
+        {
+          source: MarketStatusChangeSource.SYSTEM,
+          reason: `Market ended at ${market.endTime.toISOString()}`,
+        },
+        manager,
+      );
+    });
+  }
 }
@@ -0,0 +1,23 @@
+import { Outcome } from '../../database/entities/outcome.entity';
+
+/**
+ * Set each outcome's current probability (%) from its share of the reserves.
+ * Shares are minted 1:1 with the traders' part of an outcome reserve; adding
+ * the seeded part gives the full reserve used by getOutcomeProbability.
+ */
+export function applyOutcomeProbabilities(outcomes: Outcome[]): void {
+  const reserve = (o: Outcome) =>
+    parseFloat(o.totalShares) + parseFloat(o.seedLiquidity);
+  const totalReserves = outcomes.reduce((sum, o) => sum + reserve(o), 0);
+
+  if (totalReserves <= 0) {
+    return;
+  }
+
+  for (const outcome of outcomes) {
+    outcome.currentProbability = (
+      (reserve(outcome) / totalReserves) *
+      100
+    ).toFixed(2);
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { MarketTemplatesService } from './market-templates.service';
+import { CreatorAuthGuard } from '../auth/guards/creator-auth.guard';
+import {
+  CreateMarketTemplateDto,
+  UpdateMarketTemplateDto,
+  MarketTemplateDto,
+  MarketTemplateListResponseDto,
+  MarketTemplatePerformanceResponseDto,
+  CreateMarketResponseDto,
+} from './dto';
+
+@ApiTags('Market Templates')
+@Controller('market-templates')
+@UseGuards(CreatorAuthGuard)
+@ApiBearerAuth()
+export class MarketTemplatesController {
+  constructor(
+    private readonly marketTemplatesService: MarketTemplatesService,
+  ) {}
+
+  /**
+   * POST /market-templates - Save a market template (creator only)
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Save a market template',
+    description:
+      'Titles, descriptions and resolution criteria may use {{date}}, {{end_date}}, {{week}} and {{n}} placeholders. With a recurrence, a market is created from the template on each scheduled run (UTC).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Template saved',
+    type: MarketTemplateDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid template parameters' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not a creator' })
+  async createTemplate(
+    @Req() req: any,
+    @Body() createDto: CreateMarketTemplateDto,
+  ): Promise<MarketTemplateDto> {
+    return this.marketTemplatesService.createTemplate(
+      req.user.userId,
+      createDto,
+    );
+  }
+
+  /**
+   * GET /market-templates - List the creator's templates
+   */
+  @Get()
+  @ApiOperation({ summary: "List the current creator's market templates" })
+  @ApiResponse({
+    status: 200,
+    description: 'Templates retrieved',
+    type: MarketTemplateListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getTemplates(@Req() req: any): Promise<MarketTemplateListResponseDto> {
+    return this.marketTemplatesService.getTemplates(req.user.userId);
+  }
+
+  /**
+   * GET /market-templates/:id - Get a template
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a market template' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template retrieved',
+    type: MarketTemplateDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async getTemplate(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<MarketTemplateDto> {
+    return this.marketTemplatesService.getTemplate(id, req.user.userId);
+  }
+
+  /**
+   * PATCH /market-templates/:id - Update a template
+   */
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a market template',
+    description:
+      'Content changes create a new template version used by future instances; existing markets stay linked to the version they were created from. Pass recurrence: null to stop recurring.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Template updated',
+    type: MarketTemplateDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid template parameters' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async updateTemplate(
+    @Param('id') id: string,
+    @Req() req: any,
+    @Body() updateDto: UpdateMarketTemplateDto,
+  ): Promise<MarketTemplateDto> {
+    return this.marketTemplatesService.updateTemplate(
+      id,
+      req.user.userId,
+      updateDto,
+    );
+  }
+
+  /**
+   * POST /market-templates/:id/instantiate - Create a market from a template now
+   */
+  @Post(':id/instantiate')
+  @ApiOperation({
+    summary: "Create a market from the template's current version",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Market created',
+    type: CreateMarketResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async instantiateTemplate(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<CreateMarketResponseDto> {
+    return this.marketTemplatesService.instantiateTemplate(
+      id,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * GET /market-templates/:id/performance - Compare template versions
+   */
+  @Get(':id/performance')
+  @ApiOperation({
+    summary: 'Compare the performance of markets created from each version',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Performance retrieved',
+    type: MarketTemplatePerformanceResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async getPerformance(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<MarketTemplatePerformanceResponseDto> {
+    return this.marketTemplatesService.getPerformance(id, req.user.userId);
+  }
+}
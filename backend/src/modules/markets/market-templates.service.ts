@@ -0,0 +1,560 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, LessThanOrEqual, Not } from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { Creator } from '../../database/entities/creator.entity';
+import {
+  MarketTemplate,
+  MarketTemplateOutcome,
+} from '../../database/entities/market-template.entity';
+import { MarketTemplateVersion } from '../../database/entities/market-template-version.entity';
+import { MarketStatus, RecurrenceFrequency } from '../../database/enums';
+import { MarketsService } from './markets.service';
+import {
+  CreateMarketTemplateDto,
+  UpdateMarketTemplateDto,
+  MarketTemplateRecurrenceDto,
+  MarketTemplateDto,
+  MarketTemplateListResponseDto,
+  MarketTemplatePerformanceResponseDto,
+  CreateMarketResponseDto,
+} from './dto';
+
+// Template fields copied into each version; changing any of them bumps the version
+const VERSIONED_FIELDS = [
+  'titleTemplate',
+  'descriptionTemplate',
+  'category',
+  'outcomes',
+  'duration',
+  'resolutionCriteria',
+  'evidenceLinks',
+  'tags',
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class MarketTemplatesService {
+  private readonly logger = new Logger(MarketTemplatesService.name);
+
+  constructor(
+    @InjectRepository(MarketTemplate)
+    private readonly templateRepository: Repository<MarketTemplate>,
+    @InjectRepository(MarketTemplateVersion)
+    private readonly versionRepository: Repository<MarketTemplateVersion>,
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(Creator)
+    private readonly creatorRepository: Repository<Creator>,
+    private readonly marketsService: MarketsService,
+  ) {}
+
+  /**
+   * Save a market template, optionally with a recurrence schedule
+   */
+  async createTemplate(
+    creatorId: string,
+    createDto: CreateMarketTemplateDto,
+  ): Promise<MarketTemplateDto> {
+    const creator = await this.creatorRepository.findOne({
+      where: { id: creatorId },
+    });
+
+    if (!creator) {
+      throw new NotFoundException('Creator not found');
+    }
+
+    this.validateOutcomes(createDto.outcomes);
+
+    const template = this.templateRepository.create({
+      creatorId,
+      name: createDto.name,
+      titleTemplate: createDto.titleTemplate,
+      descriptionTemplate: createDto.descriptionTemplate,
+      category: createDto.category,
+      outcomes: this.toTemplateOutcomes(createDto.outcomes),
+      duration: createDto.duration,
+      resolutionCriteria: createDto.resolutionCriteria ?? null,
+      evidenceLinks: createDto.evidenceLinks ?? null,
+      tags: createDto.tags ?? null,
+    });
+
+    this.applyRecurrence(template, createDto.recurrence ?? null);
+
+    const saved = await this.templateRepository.save(template);
+    await this.saveVersion(saved);
+
+    this.logger.log(
+      `Market template ${saved.id} created by creator ${creatorId}`,
+    );
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Get the creator's templates, newest first
+   */
+  async getTemplates(
+    creatorId: string,
+  ): Promise<MarketTemplateListResponseDto> {
+    const templates = await this.templateRepository.find({
+      where: { creatorId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      templates: templates.map((template) => this.mapToResponseDto(template)),
+    };
+  }
+
+  /**
+   * Get one of the creator's templates
+   */
+  async getTemplate(
+    templateId: string,
+    creatorId: string,
+  ): Promise<MarketTemplateDto> {
+    const template = await this.findOwnedTemplate(templateId, creatorId);
+    return this.mapToResponseDto(template);
+  }
+
+  /**
+   * Update a template; content changes create a new version for future instances
+   */
+  async updateTemplate(
+    templateId: string,
+    creatorId: string,
+    updateDto: UpdateMarketTemplateDto,
+  ): Promise<MarketTemplateDto> {
+    const template = await this.findOwnedTemplate(templateId, creatorId);
+
+    if (updateDto.outcomes) {
+      this.validateOutcomes(updateDto.outcomes);
+    }
+
+    const changes: Partial<MarketTemplate> = {
+      titleTemplate: updateDto.titleTemplate,
+      descriptionTemplate: updateDto.descriptionTemplate,
+      category: updateDto.category,
+      outcomes: updateDto.outcomes
+        ? this.toTemplateOutcomes(updateDto.outcomes)
+        : undefined,
+      duration: updateDto.duration,
+      resolutionCriteria: updateDto.resolutionCriteria,
+      evidenceLinks: updateDto.evidenceLinks,
+      tags: updateDto.tags,
+    };
+
+    const contentChanged = VERSIONED_FIELDS.some(
+      (field) =>
+        changes[field] !== undefined &&
+        JSON.stringify(changes[field]) !== JSON.stringify(template[field]),
+    );
+
+    for (const field of VERSIONED_FIELDS) {
+      if (changes[field] !== undefined) {
+        Object.assign(template, { [field]: changes[field] });
+      }
+    }
+
+    if (updateDto.name !== undefined) {
+      template.name = updateDto.name;
+    }
+
+    if (updateDto.active !== undefined) {
+      template.active = updateDto.active;
+    }
+
+    if (updateDto.recurrence !== undefined) {
+      this.applyRecurrence(template, updateDto.recurrence);
+    } else {
+      template.nextRunAt = this.computeNextRun(template, new Date());
+    }
+
+    if (contentChanged) {
+      template.currentVersion += 1;
+    }
+
+    const saved = await this.templateRepository.save(template);
+
+    if (contentChanged) {
+      await this.saveVersion(saved);
+
+      this.logger.log(
+        `Market template ${saved.id} updated to version ${saved.currentVersion}`,
+      );
+    }
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Create a market from the template's current version right away
+   */
+  async instantiateTemplate(
+    templateId: string,
+    creatorId: string,
+  ): Promise<CreateMarketResponseDto> {
+    const template = await this.findOwnedTemplate(templateId, creatorId);
+    return this.instantiate(template);
+  }
+
+  /**
+   * Compare the markets created from each version of a template
+   */
+  async getPerformance(
+    templateId: string,
+    creatorId: string,
+  ): Promise<MarketTemplatePerformanceResponseDto> {
+    const template = await this.findOwnedTemplate(templateId, creatorId);
+
+    const [versions, stats] = await Promise.all([
+      this.versionRepository.find({
+        where: { templateId: template.id },
+        order: { version: 'ASC' },
+      }),
+      this.marketRepository
+        .createQueryBuilder('market')
+        .select('market.templateVersionId', 'templateVersionId')
+        .addSelect('COUNT(*)', 'marketCount')
+        .addSelect(
+          'COUNT(*) FILTER (WHERE market.status = :resolved)',
+          'resolvedCount',
+        )
+        .addSelect('COALESCE(SUM(market.totalVolume), 0)', 'totalVolume')
+        .addSelect(
+          'COALESCE(AVG(market.participantCount), 0)',
+          'averageParticipants',
+        )
+        .addSelect('COALESCE(AVG(market.tradeCount), 0)', 'averageTrades')
+        .where('market.templateId = :templateId', { templateId: template.id })
+        .setParameter('resolved', MarketStatus.RESOLVED)
+        .groupBy('market.templateVersionId')
+        .getRawMany<{
+          templateVersionId: string | null;
+          marketCount: string;
+          resolvedCount: string;
+          totalVolume: string;
+          averageParticipants: string;
+          averageTrades: string;
+        }>(),
+    ]);
+
+    return {
+      templateId: template.id,
+      versions: versions.map((version) => {
+        const row = stats.find((s) => s.templateVersionId === version.id);
+        const marketCount = Number(row?.marketCount ?? 0);
+        const totalVolume = parseFloat(row?.totalVolume ?? '0');
+
+        return {
+          version: version.version,
+          titleTemplate: version.titleTemplate,
+          createdAt: version.createdAt.toISOString(),
+          marketCount,
+          resolvedCount: Number(row?.resolvedCount ?? 0),
+          totalVolume: totalVolume.toFixed(6),
+          averageVolume: (marketCount > 0
+            ? totalVolume / marketCount
+            : 0
+          ).toFixed(6),
+          averageParticipants: parseFloat(
+            parseFloat(row?.averageParticipants ?? '0').toFixed(2),
+          ),
+          averageTrades: parseFloat(
+            parseFloat(row?.averageTrades ?? '0').toFixed(2),
+          ),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Create markets from templates whose next run is due (every minute)
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async instantiateDueTemplates() {
+    try {
+      const now = new Date();
+      const templates = await this.templateRepository.find({
+        where: {
+          active: true,
+          recurrenceFrequency: Not(IsNull()),
+          nextRunAt: LessThanOrEqual(now),
+        },
+      });
+
+      for (const template of templates) {
+        try {
+          await this.instantiate(template);
+        } catch (error) {
+          this.logger.error(
+            `Failed to instantiate market template ${template.id}: ${error.message}`,
+          );
+        }
+
+        // Missed runs are skipped rather than created late
+        template.nextRunAt = this.computeNextRun(template, now);
+        await this.templateRepository.save(template);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error instantiating recurring market templates',
+        error,
+      );
+    }
+  }
+
+  /**
+   * Helper: Create a market from the template's current version
+   */
+  private async instantiate(
+    template: MarketTemplate,
+  ): Promise<CreateMarketResponseDto> {
+    const version = await this.versionRepository.findOne({
+      where: { templateId: template.id, version: template.currentVersion },
+    });
+
+    if (!version) {
+      throw new NotFoundException('Template version not found');
+    }
+
+    const instanceNumber = template.instanceCount + 1;
+    const start = new Date();
+    const end = new Date(start.getTime() + version.duration * 1000);
+    const render = (text: string) =>
+      this.renderPlaceholders(text, instanceNumber, start, end);
+
+    const result = await this.marketsService.createMarket(
+      template.creatorId,
+      {
+        title: render(version.titleTemplate),
+        description: render(version.descriptionTemplate),
+        category: version.category,
+        outcomes: version.outcomes,
+        duration: version.duration,
+        resolutionCriteria: version.resolutionCriteria
+          ? render(version.resolutionCriteria)
+          : undefined,
+        evidenceLinks: version.evidenceLinks ?? undefined,
+        tags: version.tags ?? undefined,
+      },
+      version,
+    );
+
+    template.instanceCount = instanceNumber;
+    template.lastRunAt = start;
+    await this.templateRepository.save(template);
+
+    this.logger.log(
+      `Market ${result.marketId} created from template ${template.id} v${version.version}`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Helper: Fill in {{date}}, {{end_date}}, {{week}} and {{n}}
+   */
+  private renderPlaceholders(
+    text: string,
+    instanceNumber: number,
+    start: Date,
+    end: Date,
+  ): string {
+    const values: Record<string, string> = {
+      date: start.toISOString().slice(0, 10),
+      end_date: end.toISOString().slice(0, 10),
+      week: String(this.getIsoWeek(start)),
+      n: String(instanceNumber),
+    };
+
+    return text.replace(
+      /\{\{\s*(date|end_date|week|n)\s*\}\}/g,
+      (_, key: string) => values[key],
+    );
+  }
+
+  /**
+   * Helper: ISO 8601 week number of a date (UTC)
+   */
+  private getIsoWeek(date: Date): number {
+    const day = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+    // Thursday of the same week decides the year
+    day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+    const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+
+    return Math.ceil(((day.getTime() - yearStart) / DAY_MS + 1) / 7);
+  }
+
+  /**
+   * Helper: Next scheduled run strictly after the given time, if recurring
+   */
+  private computeNextRun(template: MarketTemplate, after: Date): Date | null {
+    if (
+      !template.active ||
+      !template.recurrenceFrequency ||
+      !template.recurrenceTime
+    ) {
+      return null;
+    }
+
+    const [hours, minutes] = template.recurrenceTime.split(':').map(Number);
+    const next = new Date(
+      Date.UTC(
+        after.getUTCFullYear(),
+        after.getUTCMonth(),
+        after.getUTCDate(),
+        hours,
+        minutes,
+      ),
+    );
+    const isWeekly =
+      template.recurrenceFrequency === RecurrenceFrequency.WEEKLY;
+
+    if (isWeekly) {
+      const dayOfWeek = template.recurrenceDayOfWeek ?? 0;
+      next.setUTCDate(
+        next.getUTCDate() + ((dayOfWeek - next.getUTCDay() + 7) % 7),
+      );
+    }
+
+    if (next <= after) {
+      next.setUTCDate(next.getUTCDate() + (isWeekly ? 7 : 1));
+    }
+
+    return next;
+  }
+
+  /**
+   * Helper: Set or clear the template's schedule
+   */
+  private applyRecurrence(
+    template: MarketTemplate,
+    recurrence: MarketTemplateRecurrenceDto | null,
+  ) {
+    if (
+      recurrence?.frequency === RecurrenceFrequency.WEEKLY &&
+      recurrence.dayOfWeek === undefined
+    ) {
+      throw new BadRequestException('Weekly recurrences require dayOfWeek');
+    }
+
+    template.recurrenceFrequency = recurrence?.frequency ?? null;
+    template.recurrenceDayOfWeek =
+      recurrence?.frequency === RecurrenceFrequency.WEEKLY
+        ? (recurrence.dayOfWeek ?? null)
+        : null;
+    template.recurrenceTime = recurrence?.time ?? null;
+    template.nextRunAt = this.computeNextRun(template, new Date());
+  }
+
+  /**
+   * Helper: Snapshot the template's content as its current version
+   */
+  private async saveVersion(template: MarketTemplate) {
+    await this.versionRepository.save(
+      this.versionRepository.create({
+        templateId: template.id,
+        version: template.currentVersion,
+        titleTemplate: template.titleTemplate,
+        descriptionTemplate: template.descriptionTemplate,
+        category: template.category,
+        outcomes: template.outcomes,
+        duration: template.duration,
+        resolutionCriteria: template.resolutionCriteria,
+        evidenceLinks: template.evidenceLinks,
+        tags: template.tags,
+      }),
+    );
+  }
+
+  /**
+   * Helper: Validate outcomes the same way market creation does
+   */
+  private validateOutcomes(outcomes: MarketTemplateOutcome[]) {
+    const totalProbability = outcomes.reduce(
+      (sum, outcome) => sum + outcome.initialProbability,
+      0,
+    );
+
+    if (totalProbability !== 100) {
+      throw new BadRequestException(
+        'Sum of outcome probabilities must equal 100',
+      );
+    }
+  }
+
+  /**
+   * Helper: Strip outcome DTOs down to the stored shape
+   */
+  private toTemplateOutcomes(
+    outcomes: MarketTemplateOutcome[],
+  ): MarketTemplateOutcome[] {
+    return outcomes.map((outcome) => ({
+      text: outcome.text,
+      initialProbability: outcome.initialProbability,
+    }));
+  }
+
+  /**
+   * Helper: Load a template owned by the creator
+   */
+  private async findOwnedTemplate(
+    templateId: string,
+    creatorId: string,
+  ): Promise<MarketTemplate> {
+    const template = await this.templateRepository.findOne({
+      where: { id: templateId, creatorId },
+    });
+
+    if (!template) {
+      throw new NotFoundException('Market template not found');
+    }
+
+    return template;
+  }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(template: MarketTemplate): MarketTemplateDto {
+    return {
+      id: template.id,
+      creatorId: template.creatorId,
+      name: template.name,
+      currentVersion: template.currentVersion,
+      titleTemplate: template.titleTemplate,
+      descriptionTemplate: template.descriptionTemplate,
+      category: template.category,
+      outcomes: template.outcomes,
+      duration: template.duration,
+      resolutionCriteria: template.resolutionCriteria ?? undefined,
+      evidenceLinks: template.evidenceLinks ?? undefined,
+      tags: template.tags ?? undefined,
+      recurrence:
+        template.recurrenceFrequency && template.recurrenceTime
+          ? {
+              frequency: template.recurrenceFrequency,
+              dayOfWeek: template.recurrenceDayOfWeek ?? undefined,
+              time: template.recurrenceTime,
+            }
+          : undefined,
+      active: template.active,
+      nextRunAt: template.nextRunAt?.toISOString(),
+      lastRunAt: template.lastRunAt?.toISOString(),
+      instanceCount: template.instanceCount,
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { MarketWatch } from '../../database/entities/market-watch.entity';
+import { CreatorFollow } from '../../database/entities/creator-follow.entity';
+import { MarketsService, UNPUBLISHED_STATUSES } from './markets.service';
+import {
+  MarketWatchResponseDto,
+  WatchlistQueryDto,
+  WatchlistResponseDto,
+} from './dto';
+
+@Injectable()
+export class MarketWatchlistService {
+  private readonly logger = new Logger(MarketWatchlistService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(MarketWatch)
+    private readonly watchRepository: Repository<MarketWatch>,
+    @InjectRepository(CreatorFollow)
+    private readonly followRepository: Repository<CreatorFollow>,
+    private readonly marketsService: MarketsService,
+  ) {}
+
+  /**
+   * Add a market to the user's watchlist
+   */
+  async watchMarket(
+    marketId: string,
+    userId: string,
+  ): Promise<MarketWatchResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market || UNPUBLISHED_STATUSES.includes(market.status)) {
+      throw new NotFoundException('Market not found');
+    }
+
+    const existing = await this.watchRepository.findOne({
+      where: { marketId, userId },
+    });
+
+    if (!existing) {
+      await this.watchRepository.save(
+        this.watchRepository.create({ marketId, userId }),
+      );
+      this.logger.log(`User ${userId} is watching market ${marketId}`);
+    }
+
+    return this.getWatchStatus(marketId, true);
+  }
+
+  /**
+   * Remove a market from the user's watchlist
+   */
+  async unwatchMarket(
+    marketId: string,
+    userId: string,
+  ): Promise<MarketWatchResponseDto> {
+    await this.watchRepository.delete({ marketId, userId });
+
+    return this.getWatchStatus(marketId, false);
+  }
+
+  /**
+   * IDs of the users watching a market, the audience for its alerts
+   */
+  async getWatcherIds(marketId: string): Promise<string[]> {
+    const watches = await this.watchRepository.find({
+      where: { marketId },
+      select: ['userId'],
+    });
+
+    return watches.map((w) => w.userId);
+  }
+
+  /**
+   * Watched markets and markets by followed creators, newest first
+   */
+  async getWatchlist(
+    userId: string,
+    query: WatchlistQueryDto,
+  ): Promise<WatchlistResponseDto> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+
+    const idQuery = this.marketRepository
+      .createQueryBuilder('market')
+      .select('market.id')
+      .where('market.status NOT IN (:...unpublished)', {
+        unpublished: UNPUBLISHED_STATUSES,
+      })
+      .andWhere(
+        `(market.id IN (SELECT w."marketId" FROM market_watches w WHERE w."userId" = :userId)
+          OR market.creatorId IN (SELECT f."creatorId" FROM creator_follows f WHERE f."userId" = :userId))`,
+        { userId },
+      )
+      .orderBy('market.createdAt', 'DESC')
+      .addOrderBy('market.id', 'ASC');
+
+    const total = await idQuery.getCount();
+    const rows = await idQuery
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getRawMany<{ market_id: string }>();
+    const ids = rows.map((row) => row.market_id);
+
+    const markets = await this.marketsService.getMarketsByIds(ids);
+    const watches = ids.length
+      ? await this.watchRepository.find({
+          where: { userId, marketId: In(ids) },
+        })
+      : [];
+    const follows = await this.followRepository.find({ where: { userId } });
+
+    const watchedAt = new Map(watches.map((w) => [w.marketId, w.createdAt]));
+    const followedCreators = new Set(follows.map((f) => f.creatorId));
+
+    return {
+      items: markets.map((market) => ({
+        market,
+        watching: watchedAt.has(market.id),
+        followingCreator: followedCreators.has(market.creatorId),
+        watchedAt: watchedAt.get(market.id)?.toISOString(),
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Helper: Watch state of a market after a change
+   */
+  private async getWatchStatus(
+    marketId: string,
+    watching: boolean,
+  ): Promise<MarketWatchResponseDto> {
+    const watcherCount = await this.watchRepository.count({
+      where: { marketId },
+    });
+
+    return { marketId, watching, watcherCount };
+  }
+}
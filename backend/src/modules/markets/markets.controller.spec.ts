@@ -0,0 +1,171 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import cookieParser from 'cookie-parser';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AuthService } from '../auth/auth.service';
+import { MarketsController } from './markets.controller';
+import { MarketsService } from './markets.service';
+import { MarketCommentsService } from './market-comments.service';
+import { MarketActivityService } from './market-activity.service';
+import { MarketDisputesService } from './market-disputes.service';
+import { LimitOrdersService } from './limit-orders.service';
+import { MarketLiquidityService } from './market-liquidity.service';
+import { MarketWatchlistService } from './market-watchlist.service';
+
+describe('MarketsController', () => {
+  let app: INestApplication<App>;
+  let marketCommentsService: Record<string, jest.Mock>;
+  let limitOrdersService: Record<string, jest.Mock>;
+
+  const session = {
+    userId: 'user-1',
+    walletAddress: '0xabc0000000000000000000000000000000000001',
+    isCreator: false,
+    isAdmin: false,
+  };
+
+  beforeEach(async () => {
+    marketCommentsService = {
+      createComment: jest.fn(() => Promise.resolve({ id: 'comment-1' })),
+      updateComment: jest.fn(() => Promise.resolve({ id: 'comment-1' })),
+      deleteComment: jest.fn(() => Promise.resolve({ success: true })),
+      likeComment: jest.fn(() => Promise.resolve({ id: 'comment-1' })),
+      unlikeComment: jest.fn(() => Promise.resolve({ id: 'comment-1' })),
+    };
+
+    limitOrdersService = {
+      createOrder: jest.fn(() => Promise.resolve({ id: 'order-1' })),
+      getOrders: jest.fn(() => Promise.resolve({ orders: [] })),
+      cancelOrder: jest.fn(() => Promise.resolve({ id: 'order-1' })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MarketsController],
+      providers: [
+        { provide: MarketsService, useValue: {} },
+        { provide: MarketCommentsService, useValue: marketCommentsService },
+        { provide: MarketActivityService, useValue: {} },
+        { provide: MarketDisputesService, useValue: {} },
+        { provide: LimitOrdersService, useValue: limitOrdersService },
+        { provide: MarketLiquidityService, useValue: {} },
+        { provide: MarketWatchlistService, useValue: {} },
+        {
+          provide: AuthService,
+          useValue: {
+            getSession: (sessionId: string) =>
+              Promise.resolve(sessionId === 'valid' ? session : null),
+          },
+        },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.use(cookieParser());
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('comments', () => {
+    it('should post a comment as the user of the session cookie', async () => {
+      await request(app.getHttpServer())
+        .post('/markets/market-1/comments')
+        .set('Cookie', 'session_id=valid')
+        .send({ content: 'Great market' })
+        .expect(201);
+
+      expect(marketCommentsService.createComment).toHaveBeenCalledWith(
+        'market-1',
+        'user-1',
+        { content: 'Great market' },
+      );
+    });
+
+    it('should edit, delete and like comments as the session user', async () => {
+      const server = request(app.getHttpServer());
+
+      await server
+        .patch('/markets/market-1/comments/comment-1')
+        .set('Cookie', 'session_id=valid')
+        .send({ content: 'Edited' })
+        .expect(200);
+      await server
+        .post('/markets/market-1/comments/comment-1/like')
+        .set('Cookie', 'session_id=valid')
+        .expect(201);
+      await server
+        .delete('/markets/market-1/comments/comment-1/like')
+        .set('Cookie', 'session_id=valid')
+        .expect(200);
+      await server
+        .delete('/markets/market-1/comments/comment-1')
+        .set('Cookie', 'session_id=valid')
+        .expect(200);
+
+      expect(marketCommentsService.updateComment).toHaveBeenCalledWith(
+        'market-1',
+        'comment-1',
+        'user-1',
+        { content: 'Edited' },
+      );
+      for (const method of ['likeComment', 'unlikeComment', 'deleteComment']) {
+        expect(marketCommentsService[method]).toHaveBeenCalledWith(
+          'market-1',
+          'comment-1',
+          'user-1',
+        );
+      }
+    });
+
+    it('should reject comments without a valid session', async () => {
+      await request(app.getHttpServer())
+        .post('/markets/market-1/comments')
+        .set('Cookie', 'session_id=expired')
+        .send({ content: 'Great market' })
+        .expect(401);
+
+      expect(marketCommentsService.createComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('limit orders', () => {
+    it('should place, list and cancel orders for the session wallet', async () => {
+      const server = request(app.getHttpServer());
+      const order = { outcomeIndex: 0, side: 'buy', amount: '10' };
+
+      await server
+        .post('/markets/market-1/orders')
+        .set('Cookie', 'session_id=valid')
+        .send(order)
+        .expect(201);
+      await server
+        .get('/markets/market-1/orders')
+        .set('Cookie', 'session_id=valid')
+        .expect(200);
+      await server
+        .delete('/markets/market-1/orders/order-1')
+        .set('Cookie', 'session_id=valid')
+        .expect(200);
+
+      expect(limitOrdersService.createOrder).toHaveBeenCalledWith(
+        'market-1',
+        'user-1',
+        session.walletAddress,
+        order,
+      );
+      expect(limitOrdersService.getOrders).toHaveBeenCalledWith(
+        'market-1',
+        'user-1',
+        {},
+      );
+      expect(limitOrdersService.cancelOrder).toHaveBeenCalledWith(
+        'market-1',
+        'order-1',
+        'user-1',
+      );
+    });
+  });
+});
@@ -2,6 +2,8 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
   Query,
@@ -15,9 +17,17 @@ import {
   ApiBearerAuth,
   ApiQuery,
 } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
 import { MarketsService } from './markets.service';
+import { MarketCommentsService } from './market-comments.service';
+import { MarketActivityService } from './market-activity.service';
+import { MarketDisputesService } from './market-disputes.service';
+import { LimitOrdersService } from './limit-orders.service';
+import { MarketLiquidityService } from './market-liquidity.service';
+import { MarketWatchlistService } from './market-watchlist.service';
 import { AuthGuard } from '../auth/guards/auth.guard';
 import { CreatorAuthGuard } from '../auth/guards/creator-auth.guard';
+import { OptionalAuthGuard } from '../auth/guards/optional-auth.guard';
 import {
   CreateMarketDto,
   MarketFiltersDto,
@@ -28,12 +38,56 @@ import {
   UserPositionsResponseDto,
   TradeListResponseDto,
   UnsignedTransactionResponseDto,
+  SubmitMarketDeploymentDto,
+  TradeQuoteQueryDto,
+  TradeQuoteResponseDto,
+  MarketChartQueryDto,
+  MarketChartResponseDto,
+  MarketChartTimeframe,
+  MarketChartInterval,
+  CreateCommentDto,
+  UpdateCommentDto,
+  CommentsQueryDto,
+  CommentSortBy,
+  CommentResponseDto,
+  CommentListResponseDto,
+  MarketActivityQueryDto,
+  MarketActivityDto,
+  MarketActivityListResponseDto,
+  CreateAnnouncementDto,
+  OpenDisputeDto,
+  PrepareDisputeDto,
+  DisputeTransactionResponseDto,
+  MarketDisputeDto,
+  MarketDisputeListResponseDto,
+  CreateLimitOrderDto,
+  LimitOrdersQueryDto,
+  LimitOrderDto,
+  LimitOrderListResponseDto,
+  UpdateMarketDraftDto,
+  SubmitMarketDraftDto,
+  MarketDraftListResponseDto,
+  SeedLiquidityDto,
+  LiquidityTransactionResponseDto,
+  MarketLiquidityResponseDto,
+  MarketSuggestQueryDto,
+  MarketSuggestResponseDto,
+  MarketWatchResponseDto,
 } from './dto';
+import { MarketActivityType } from '../../database/enums';
 
 @ApiTags('Markets')
 @Controller('markets')
 export class MarketsController {
-  constructor(private readonly marketsService: MarketsService) {}
+  constructor(
+    private readonly marketsService: MarketsService,
+    private readonly marketCommentsService: MarketCommentsService,
+    private readonly marketActivityService: MarketActivityService,
+    private readonly marketDisputesService: MarketDisputesService,
+    private readonly limitOrdersService: LimitOrdersService,
+    private readonly marketLiquidityService: MarketLiquidityService,
+    private readonly marketWatchlistService: MarketWatchlistService,
+  ) {}
 
   /**
    * POST /markets/create - Create a new market (creator only)
@@ -41,7 +95,11 @@ export class MarketsController {
   @Post('create')
   @UseGuards(CreatorAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Create a new prediction market (creators only)' })
+  @ApiOperation({
+    summary: 'Create a new prediction market (creators only)',
+    description:
+      'Set draft to save an editable draft. Markets from new or low-reputation creators wait in pending_review until an admin approves them; trusted creators publish directly.',
+  })
   @ApiResponse({
     status: 201,
     description: 'Market created successfully',
@@ -57,11 +115,153 @@ export class MarketsController {
     return this.marketsService.createMarket(req.session.userId, createDto);
   }
 
+  /**
+   * POST /markets/:id/deployment - Record creator-signed deployment tx
+   */
+  @Post(':id/deployment')
+  @UseGuards(CreatorAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Record the createMarket transaction signed by the creator',
+    description:
+      'The market stays pending deployment until the MarketCreated event for this transaction is observed',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Deployment transaction recorded',
+    type: MarketResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Market is not pending deployment' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the market creator' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async submitMarketDeployment(
+    @Req() req: any,
+    @Param('id') marketId: string,
+    @Body() deploymentDto: SubmitMarketDeploymentDto,
+  ): Promise<MarketResponseDto> {
+    return this.marketsService.submitMarketDeployment(
+      marketId,
+      req.user.userId,
+      deploymentDto,
+    );
+  }
+
+  /**
+   * GET /markets/drafts - List the creator's drafts and markets in review
+   */
+  @Get('drafts')
+  @UseGuards(CreatorAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List your draft markets and markets awaiting review',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Drafts retrieved',
+    type: MarketDraftListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not a creator' })
+  async getDrafts(@Req() req: any): Promise<MarketDraftListResponseDto> {
+    return this.marketsService.getDrafts(req.user.userId);
+  }
+
+  /**
+   * PATCH /markets/:id/draft - Edit a draft market
+   */
+  @Patch(':id/draft')
+  @UseGuards(CreatorAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Edit a draft market',
+    description:
+      'Only markets in draft status can be edited, including drafts a reviewer sent back',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Draft updated',
+    type: MarketResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid parameters or not a draft',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the market creator' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async updateDraft(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() updateDto: UpdateMarketDraftDto,
+  ): Promise<MarketResponseDto> {
+    return this.marketsService.updateDraft(
+      marketId,
+      req.user.userId,
+      updateDto,
+    );
+  }
+
+  /**
+   * POST /markets/:id/submit - Publish a draft or submit it for review
+   */
+  @Post(':id/submit')
+  @UseGuards(CreatorAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Publish a draft market or submit it for review',
+    description:
+      "Trusted creators publish directly and the market is deployed on-chain. Other creators' markets move to pending_review until an admin approves them.",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Draft published or submitted for review',
+    type: CreateMarketResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Market is not a draft' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the market creator' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async submitDraft(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() submitDto: SubmitMarketDraftDto,
+  ): Promise<CreateMarketResponseDto> {
+    return this.marketsService.submitDraft(
+      marketId,
+      req.user.userId,
+      submitDto,
+    );
+  }
+
+  /**
+   * DELETE /markets/:id/draft - Delete a draft market
+   */
+  @Delete(':id/draft')
+  @UseGuards(CreatorAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a draft market' })
+  @ApiResponse({ status: 200, description: 'Draft deleted' })
+  @ApiResponse({ status: 400, description: 'Market is not a draft' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the market creator' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async deleteDraft(
+    @Param('id') marketId: string,
+    @Req() req: any,
+  ): Promise<{ success: boolean }> {
+    return this.marketsService.deleteDraft(marketId, req.user.userId);
+  }
+
   /**
    * GET /markets - List all markets with filters
    */
   @Get()
-  @ApiOperation({ summary: 'List all markets with optional filters' })
+  @ApiOperation({
+    summary: 'List all markets with optional filters',
+    description:
+      'search uses full-text matching ranked by relevance. The response includes category and tag facet counts for the matching markets.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Markets retrieved successfully',
@@ -73,19 +273,46 @@ export class MarketsController {
     return this.marketsService.getMarkets(filters);
   }
 
+  /**
+   * GET /markets/suggest - Autocomplete for the search box
+   */
+  @Get('suggest')
+  @ApiOperation({
+    summary: 'Suggest markets as the user types',
+    description: 'Each word of q is matched as a prefix',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Suggestions retrieved',
+    type: MarketSuggestResponseDto,
+  })
+  async suggestMarkets(
+    @Query() query: MarketSuggestQueryDto,
+  ): Promise<MarketSuggestResponseDto> {
+    return this.marketsService.suggestMarkets(query);
+  }
+
   /**
    * GET /markets/:id - Get market details
    */
   @Get(':id')
-  @ApiOperation({ summary: 'Get market details by ID' })
+  @UseGuards(OptionalAuthGuard)
+  @ApiOperation({
+    summary: 'Get market details by ID',
+    description:
+      'Drafts and markets awaiting review are only visible to their creator',
+  })
   @ApiResponse({
     status: 200,
     description: 'Market details retrieved',
     type: MarketResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Market not found' })
-  async getMarket(@Param('id') id: string): Promise<MarketResponseDto> {
-    return this.marketsService.getMarketById(id);
+  async getMarket(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<MarketResponseDto> {
+    return this.marketsService.getVisibleMarket(id, req.user?.userId);
   }
 
   /**
@@ -106,6 +333,29 @@ export class MarketsController {
     return this.marketsService.getUserPosition(marketId, address);
   }
 
+  /**
+   * GET /markets/:id/quote - Preview a trade
+   */
+  @Get(':id/quote')
+  @ApiOperation({
+    summary: 'Quote a trade against on-chain reserves',
+    description:
+      'Returns expected shares, fee breakdown, post-trade probabilities and price impact; scalar markets also get the implied value before and after the trade',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trade quote',
+    type: TradeQuoteResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid trade parameters' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async getTradeQuote(
+    @Param('id') marketId: string,
+    @Query() quoteDto: TradeQuoteQueryDto,
+  ): Promise<TradeQuoteResponseDto> {
+    return this.marketsService.getTradeQuote(marketId, quoteDto);
+  }
+
   /**
    * POST /markets/:id/trade - Prepare trade transaction
    */
@@ -128,8 +378,7 @@ export class MarketsController {
     @Param('id') marketId: string,
     @Body() tradeDto: TradeMarketDto,
   ): Promise<UnsignedTransactionResponseDto> {
-    const { userId } = req.session;
-    const walletAddress = req.user?.walletAddress;
+    const { userId, walletAddress } = req.user;
 
     if (!walletAddress) {
       throw new Error('Wallet address not found');
@@ -143,6 +392,97 @@ export class MarketsController {
     );
   }
 
+  /**
+   * POST /markets/:id/orders - Place a limit order
+   */
+  @Post(':id/orders')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Place a limit order on an outcome',
+    description:
+      'Buy orders trigger when the outcome probability drops to the limit, sell orders when it rises to it. A triggered order sends you a notification with a ready-made unsigned transaction.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Order placed',
+    type: LimitOrderDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid order parameters' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async createLimitOrder(
+    @Req() req: any,
+    @Param('id') marketId: string,
+    @Body() orderDto: CreateLimitOrderDto,
+  ): Promise<LimitOrderDto> {
+    const { userId, walletAddress } = req.user;
+
+    if (!walletAddress) {
+      throw new Error('Wallet address not found');
+    }
+
+    return this.limitOrdersService.createOrder(
+      marketId,
+      userId,
+      walletAddress,
+      orderDto,
+    );
+  }
+
+  /**
+   * GET /markets/:id/orders - Get own limit orders
+   */
+  @Get(':id/orders')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get your limit orders on a market' })
+  @ApiQuery({ name: 'status', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Orders retrieved',
+    type: LimitOrderListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getLimitOrders(
+    @Req() req: any,
+    @Param('id') marketId: string,
+    @Query() query: LimitOrdersQueryDto,
+  ): Promise<LimitOrderListResponseDto> {
+    return this.limitOrdersService.getOrders(
+      marketId,
+      req.user.userId,
+      query,
+    );
+  }
+
+  /**
+   * DELETE /markets/:id/orders/:orderId - Cancel a limit order
+   */
+  @Delete(':id/orders/:orderId')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Cancel one of your limit orders' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order cancelled',
+    type: LimitOrderDto,
+  })
+  @ApiResponse({ status: 400, description: 'Order already closed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async cancelLimitOrder(
+    @Req() req: any,
+    @Param('id') marketId: string,
+    @Param('orderId') orderId: string,
+  ): Promise<LimitOrderDto> {
+    return this.limitOrdersService.cancelOrder(
+      marketId,
+      orderId,
+      req.user.userId,
+    );
+  }
+
   /**
    * POST /markets/:id/claim - Prepare claim transaction
    */
@@ -164,8 +504,7 @@ export class MarketsController {
     @Req() req: any,
     @Param('id') marketId: string,
   ): Promise<UnsignedTransactionResponseDto> {
-    const { userId } = req.session;
-    const walletAddress = req.user?.walletAddress;
+    const { userId, walletAddress } = req.user;
 
     if (!walletAddress) {
       throw new Error('Wallet address not found');
@@ -174,6 +513,180 @@ export class MarketsController {
     return this.marketsService.prepareClaim(marketId, userId, walletAddress);
   }
 
+  /**
+   * POST /markets/:id/refund - Prepare refund transaction
+   */
+  @Post(':id/refund')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Prepare refund transaction for cancelled market',
+    description:
+      'Refunds your net stake: what your bets added to the pool, less the value of shares you sold. Trading fees are not refunded.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Unsigned refund transaction prepared',
+    type: UnsignedTransactionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Nothing to refund' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async prepareRefund(
+    @Req() req: any,
+    @Param('id') marketId: string,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const { userId, walletAddress } = req.user;
+
+    if (!walletAddress) {
+      throw new Error('Wallet address not found');
+    }
+
+    return this.marketsService.prepareRefund(marketId, userId, walletAddress);
+  }
+
+  /**
+   * POST /markets/:id/watch - Add market to watchlist
+   */
+  @Post(':id/watch')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Add a market to your watchlist',
+    description:
+      'Watchers are alerted when the market is about to end and when it resolves',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Market watched',
+    type: MarketWatchResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async watchMarket(
+    @Param('id') marketId: string,
+    @Req() req: any,
+  ): Promise<MarketWatchResponseDto> {
+    return this.marketWatchlistService.watchMarket(
+      marketId,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * DELETE /markets/:id/watch - Remove market from watchlist
+   */
+  @Delete(':id/watch')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a market from your watchlist' })
+  @ApiResponse({
+    status: 200,
+    description: 'Market unwatched',
+    type: MarketWatchResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async unwatchMarket(
+    @Param('id') marketId: string,
+    @Req() req: any,
+  ): Promise<MarketWatchResponseDto> {
+    return this.marketWatchlistService.unwatchMarket(
+      marketId,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * GET /markets/:id/liquidity - Get seeded liquidity and providers
+   */
+  @Get(':id/liquidity')
+  @ApiOperation({
+    summary: 'Get seeded liquidity, accrued liquidity fees and providers',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Liquidity retrieved',
+    type: MarketLiquidityResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async getLiquidity(
+    @Param('id') marketId: string,
+  ): Promise<MarketLiquidityResponseDto> {
+    return this.marketLiquidityService.getLiquidity(marketId);
+  }
+
+  /**
+   * POST /markets/:id/liquidity - Prepare seed liquidity transaction (creator only)
+   */
+  @Post(':id/liquidity')
+  @UseGuards(CreatorAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Prepare seed liquidity transaction (returns unsigned tx)',
+    description:
+      'The seed is spread over the outcomes by their initial probabilities and can only be added before the first trade. It is returned after resolution or cancellation together with a pro rata share of liquidity fees.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Unsigned seed transaction prepared',
+    type: LiquidityTransactionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Market cannot be seeded' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the market creator' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async prepareSeedLiquidity(
+    @Req() req: any,
+    @Param('id') marketId: string,
+    @Body() seedDto: SeedLiquidityDto,
+  ): Promise<LiquidityTransactionResponseDto> {
+    const walletAddress = req.user?.walletAddress;
+
+    if (!walletAddress) {
+      throw new Error('Wallet address not found');
+    }
+
+    return this.marketLiquidityService.prepareSeed(
+      marketId,
+      req.user.userId,
+      walletAddress,
+      seedDto,
+    );
+  }
+
+  /**
+   * POST /markets/:id/liquidity/withdraw - Prepare liquidity withdrawal transaction
+   */
+  @Post(':id/liquidity/withdraw')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Prepare liquidity withdrawal transaction for a settled market',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Unsigned withdrawal transaction prepared',
+    type: LiquidityTransactionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Nothing to withdraw' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async prepareLiquidityWithdrawal(
+    @Req() req: any,
+    @Param('id') marketId: string,
+  ): Promise<LiquidityTransactionResponseDto> {
+    const walletAddress = req.user?.walletAddress;
+
+    if (!walletAddress) {
+      throw new Error('Wallet address not found');
+    }
+
+    return this.marketLiquidityService.prepareWithdrawal(
+      marketId,
+      walletAddress,
+    );
+  }
+
   /**
    * GET /markets/:id/trades - Get market trade history
    */
@@ -201,24 +714,60 @@ export class MarketsController {
   @Get(':id/activity')
   @ApiOperation({
     summary: 'Get all activity for a market (trades, comments, etc.)',
+    description:
+      'Returns a chronological feed (newest first) of trades, comments, admin actions, large-position alerts and creator announcements',
   })
+  @ApiQuery({
+    name: 'type',
+    required: false,
+    enum: MarketActivityType,
+    isArray: true,
+    description: 'Comma-separated activity types to include',
+  })
+  @ApiQuery({ name: 'cursor', required: false, type: String })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 20 })
   @ApiResponse({
     status: 200,
     description: 'Market activity retrieved',
-    type: Object,
+    type: MarketActivityListResponseDto,
   })
+  @ApiResponse({ status: 400, description: 'Invalid cursor or type' })
   @ApiResponse({ status: 404, description: 'Market not found' })
-  async getMarketActivity(@Param('id') marketId: string): Promise<any> {
-    // This would combine trades, comments, and other activities
-    // For now, just return trades
-    const trades = await this.marketsService.getMarketTrades(marketId, 1, 50);
+  async getMarketActivity(
+    @Param('id') marketId: string,
+    @Query() query: MarketActivityQueryDto,
+  ): Promise<MarketActivityListResponseDto> {
+    return this.marketActivityService.getActivity(marketId, query);
+  }
 
-    return {
-      activity: trades.trades.map((trade) => ({
-        type: 'trade',
-        ...trade,
-      })),
-    };
+  /**
+   * POST /markets/:id/announcements - Post a creator announcement
+   */
+  @Post(':id/announcements')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Post an announcement to the market activity feed',
+    description: 'Only the creator of the market can post announcements',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Announcement posted',
+    type: MarketActivityDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the market creator' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async createAnnouncement(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() announcementDto: CreateAnnouncementDto,
+  ): Promise<MarketActivityDto> {
+    return this.marketActivityService.createAnnouncement(
+      marketId,
+      req.user.userId,
+      announcementDto,
+    );
   }
 
   /**
@@ -227,150 +776,308 @@ export class MarketsController {
   @Get(':id/chart')
   @ApiOperation({
     summary: 'Get probability history for chart',
-    description: 'Returns time-series data of outcome probabilities and volume',
+    description:
+      'Returns time-series data of outcome probabilities and volume, plus the implied value for scalar markets',
   })
   @ApiQuery({
     name: 'timeframe',
     required: false,
-    enum: ['24h', '7d', 'all'],
+    enum: MarketChartTimeframe,
     example: '7d',
   })
   @ApiQuery({
     name: 'interval',
     required: false,
-    enum: ['1h', '4h', '1d'],
+    enum: MarketChartInterval,
     example: '1h',
   })
   @ApiResponse({
     status: 200,
     description: 'Chart data retrieved',
-    schema: {
-      type: 'object',
-      properties: {
-        data: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              timestamp: { type: 'string' },
-              probabilities: { type: 'array', items: { type: 'number' } },
-              volume: { type: 'number' },
-            },
-          },
-        },
-      },
-    },
+    type: MarketChartResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Market not found' })
   async getMarketChart(
     @Param('id') marketId: string,
-    @Query('timeframe') timeframe?: string,
-    @Query('interval') interval?: string,
-  ): Promise<any> {
-    // This would aggregate trade history into chart data points
-    // For now, return placeholder structure
-    return {
-      data: [
-        {
-          timestamp: new Date().toISOString(),
-          probabilities: [50.0, 50.0],
-          volume: 0,
-        },
-      ],
-    };
+    @Query() query: MarketChartQueryDto,
+  ): Promise<MarketChartResponseDto> {
+    return this.marketsService.getMarketChart(marketId, query);
   }
 
   /**
    * GET /markets/:id/comments - Get market comments/discussion
    */
   @Get(':id/comments')
+  @UseGuards(OptionalAuthGuard)
   @ApiOperation({
     summary: 'Get comments for a market',
-    description: 'Returns paginated list of user comments and discussion on the market',
+    description:
+      'Returns paginated top-level comments with their reply threads, likes and position badges',
   })
   @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
   @ApiQuery({ name: 'limit', required: false, type: Number, example: 20 })
   @ApiQuery({
     name: 'sort',
     required: false,
-    enum: ['recent', 'popular', 'oldest'],
+    enum: CommentSortBy,
     example: 'recent',
   })
   @ApiResponse({
     status: 200,
     description: 'Comments retrieved',
-    schema: {
-      type: 'object',
-      properties: {
-        comments: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string' },
-              userId: { type: 'string' },
-              user: {
-                type: 'object',
-                properties: {
-                  twitterHandle: { type: 'string' },
-                  displayName: { type: 'string' },
-                  profilePictureUrl: { type: 'string' },
-                },
-              },
-              content: { type: 'string' },
-              createdAt: { type: 'string' },
-              likes: { type: 'number' },
-              replies: { type: 'number' },
-            },
-          },
-        },
-        pagination: {
-          type: 'object',
-          properties: {
-            page: { type: 'number' },
-            limit: { type: 'number' },
-            total: { type: 'number' },
-            totalPages: { type: 'number' },
-          },
-        },
-      },
-    },
+    type: CommentListResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Market not found' })
   async getMarketComments(
     @Param('id') marketId: string,
-    @Query('page') page?: number,
-    @Query('limit') limit?: number,
-    @Query('sort') sort?: string,
-  ): Promise<any> {
-    // Placeholder implementation
-    // In production, this would query a Comment entity with relations to User
-    // Would also include nested replies, likes, and moderation features
-    const currentPage = page || 1;
-    const itemsPerPage = limit || 20;
-
-    return {
-      comments: [
-        {
-          id: 'comment-1',
-          userId: 'user-1',
-          user: {
-            twitterHandle: '@sampleuser',
-            displayName: 'Sample User',
-            profilePictureUrl: 'https://example.com/avatar.jpg',
-          },
-          content: 'This is a placeholder comment. Full implementation requires Comment entity.',
-          createdAt: new Date().toISOString(),
-          likes: 5,
-          replies: 2,
-        },
-      ],
-      pagination: {
-        page: currentPage,
-        limit: itemsPerPage,
-        total: 1,
-        totalPages: 1,
-      },
-    };
+    @Query() query: CommentsQueryDto,
+    @Req() req: any,
+  ): Promise<CommentListResponseDto> {
+    return this.marketCommentsService.getComments(
+      marketId,
+      query,
+      req.user?.userId,
+    );
+  }
+
+  /**
+   * POST /markets/:id/comments - Post a comment or reply
+   */
+  @Post(':id/comments')
+  @UseGuards(AuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 comments per minute
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Post a comment on a market',
+    description: 'Set parentId to reply to an existing comment',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Comment posted',
+    type: CommentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid comment or parent' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  @ApiResponse({ status: 429, description: 'Too many comments' })
+  async createComment(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() createDto: CreateCommentDto,
+  ): Promise<CommentResponseDto> {
+    return this.marketCommentsService.createComment(
+      marketId,
+      req.user.userId,
+      createDto,
+    );
+  }
+
+  /**
+   * PATCH /markets/:id/comments/:commentId - Edit own comment
+   */
+  @Patch(':id/comments/:commentId')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Edit your own comment' })
+  @ApiResponse({
+    status: 200,
+    description: 'Comment updated',
+    type: CommentResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the comment author' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async updateComment(
+    @Param('id') marketId: string,
+    @Param('commentId') commentId: string,
+    @Req() req: any,
+    @Body() updateDto: UpdateCommentDto,
+  ): Promise<CommentResponseDto> {
+    return this.marketCommentsService.updateComment(
+      marketId,
+      commentId,
+      req.user.userId,
+      updateDto,
+    );
+  }
+
+  /**
+   * DELETE /markets/:id/comments/:commentId - Delete own comment
+   */
+  @Delete(':id/comments/:commentId')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete your own comment' })
+  @ApiResponse({ status: 200, description: 'Comment deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the comment author' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async deleteComment(
+    @Param('id') marketId: string,
+    @Param('commentId') commentId: string,
+    @Req() req: any,
+  ): Promise<{ success: boolean }> {
+    return this.marketCommentsService.deleteComment(
+      marketId,
+      commentId,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * POST /markets/:id/comments/:commentId/like - Like a comment
+   */
+  @Post(':id/comments/:commentId/like')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Like a comment' })
+  @ApiResponse({
+    status: 201,
+    description: 'Comment liked',
+    type: CommentResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async likeComment(
+    @Param('id') marketId: string,
+    @Param('commentId') commentId: string,
+    @Req() req: any,
+  ): Promise<CommentResponseDto> {
+    return this.marketCommentsService.likeComment(
+      marketId,
+      commentId,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * DELETE /markets/:id/comments/:commentId/like - Remove a like
+   */
+  @Delete(':id/comments/:commentId/like')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove your like from a comment' })
+  @ApiResponse({
+    status: 200,
+    description: 'Like removed',
+    type: CommentResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async unlikeComment(
+    @Param('id') marketId: string,
+    @Param('commentId') commentId: string,
+    @Req() req: any,
+  ): Promise<CommentResponseDto> {
+    return this.marketCommentsService.unlikeComment(
+      marketId,
+      commentId,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * GET /markets/:id/disputes - Get disputes raised on a market
+   */
+  @Get(':id/disputes')
+  @ApiOperation({
+    summary: 'Get disputes for a market',
+    description: 'Returns all disputes with their evidence and outcome',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Disputes retrieved',
+    type: MarketDisputeListResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async getMarketDisputes(
+    @Param('id') marketId: string,
+  ): Promise<MarketDisputeListResponseDto> {
+    return this.marketDisputesService.getDisputes(marketId);
+  }
+
+  /**
+   * POST /markets/:id/disputes/prepare - Prepare dispute transaction
+   */
+  @Post(':id/disputes/prepare')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Prepare dispute transaction (returns unsigned tx)',
+    description:
+      'The disputeMarket transaction escrows the optional USDC bond in the contract and locks claims. Send it, then open the dispute with its hash.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Unsigned dispute transaction prepared',
+    type: DisputeTransactionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Market not resolved or dispute window closed',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'No position in this market' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async prepareDispute(
+    @Req() req: any,
+    @Param('id') marketId: string,
+    @Body() prepareDto: PrepareDisputeDto,
+  ): Promise<DisputeTransactionResponseDto> {
+    const walletAddress = req.user?.walletAddress;
+
+    if (!walletAddress) {
+      throw new Error('Wallet address not found');
+    }
+
+    return this.marketDisputesService.prepareDispute(
+      marketId,
+      req.user.userId,
+      walletAddress,
+      prepareDto,
+    );
+  }
+
+  /**
+   * POST /markets/:id/disputes - Dispute a market resolution
+   */
+  @Post(':id/disputes')
+  @UseGuards(AuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Dispute the resolution of a market',
+    description:
+      'Position holders can dispute within 48 hours of resolution. For on-chain markets, pass the txHash of the disputeMarket transaction from POST /markets/:id/disputes/prepare; the bond is read from it. Claims stay locked until an admin adjudicates the dispute.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Dispute opened',
+    type: MarketDisputeDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Market not resolved or dispute window closed',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'No position in this market' })
+  @ApiResponse({ status: 404, description: 'Market not found' })
+  async openDispute(
+    @Param('id') marketId: string,
+    @Req() req: any,
+    @Body() openDto: OpenDisputeDto,
+  ): Promise<MarketDisputeDto> {
+    const walletAddress = req.user?.walletAddress;
+
+    if (!walletAddress) {
+      throw new Error('Wallet address not found');
+    }
+
+    return this.marketDisputesService.openDispute(
+      marketId,
+      req.user.userId,
+      walletAddress,
+      openDto,
+    );
   }
 }
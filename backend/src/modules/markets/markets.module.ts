@@ -2,17 +2,42 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ScheduleModule } from '@nestjs/schedule';
 import { MarketsController } from './markets.controller';
+import { MarketTemplatesController } from './market-templates.controller';
 import { MarketsService } from './markets.service';
 import { MarketEventsService } from './market-events.service';
 import { MarketMonitoringService } from './market-monitoring.service';
+import { MarketCommentsService } from './market-comments.service';
+import { MarketActivityService } from './market-activity.service';
+import { MarketLifecycleService } from './market-lifecycle.service';
+import { MarketDisputesService } from './market-disputes.service';
+import { LimitOrdersService } from './limit-orders.service';
+import { MarketTemplatesService } from './market-templates.service';
+import { MarketLiquidityService } from './market-liquidity.service';
+import { PositionAccountingService } from './position-accounting.service';
+import { MarketWatchlistService } from './market-watchlist.service';
 import { Market } from '../../database/entities/market.entity';
 import { Outcome } from '../../database/entities/outcome.entity';
 import { Position } from '../../database/entities/position.entity';
 import { Trade } from '../../database/entities/trade.entity';
 import { Creator } from '../../database/entities/creator.entity';
 import { User } from '../../database/entities/user.entity';
+import { ProbabilitySnapshot } from '../../database/entities/probability-snapshot.entity';
+import { MarketComment } from '../../database/entities/market-comment.entity';
+import { CommentLike } from '../../database/entities/comment-like.entity';
+import { MarketActivity } from '../../database/entities/market-activity.entity';
+import { MarketStatusHistory } from '../../database/entities/market-status-history.entity';
+import { MarketPauseHistory } from '../../database/entities/market-pause-history.entity';
+import { MarketDispute } from '../../database/entities/market-dispute.entity';
+import { LimitOrder } from '../../database/entities/limit-order.entity';
+import { MarketTemplate } from '../../database/entities/market-template.entity';
+import { MarketTemplateVersion } from '../../database/entities/market-template-version.entity';
+import { LiquidityPosition } from '../../database/entities/liquidity-position.entity';
+import { MarketWatch } from '../../database/entities/market-watch.entity';
+import { CreatorFollow } from '../../database/entities/creator-follow.entity';
 import { ContractsModule } from '../../contracts/contracts.module';
+import { OraclesModule } from '../../oracles/oracles.module';
 import { AuthModule } from '../auth/auth.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
@@ -23,17 +48,47 @@ import { AuthModule } from '../auth/auth.module';
       Trade,
       Creator,
       User,
+      ProbabilitySnapshot,
+      MarketComment,
+      CommentLike,
+      MarketActivity,
+      MarketStatusHistory,
+      MarketPauseHistory,
+      MarketDispute,
+      LimitOrder,
+      MarketTemplate,
+      MarketTemplateVersion,
+      LiquidityPosition,
+      MarketWatch,
+      CreatorFollow,
     ]),
     ContractsModule,
+    OraclesModule,
     AuthModule,
+    NotificationsModule,
     ScheduleModule.forRoot(),
   ],
-  controllers: [MarketsController],
+  controllers: [MarketsController, MarketTemplatesController],
   providers: [
     MarketsService,
     MarketEventsService,
     MarketMonitoringService,
+    MarketCommentsService,
+    MarketActivityService,
+    MarketLifecycleService,
+    MarketDisputesService,
+    LimitOrdersService,
+    MarketTemplatesService,
+    MarketLiquidityService,
+    PositionAccountingService,
+    MarketWatchlistService,
+  ],
+  exports: [
+    MarketsService,
+    MarketActivityService,
+    MarketLifecycleService,
+    MarketDisputesService,
+    MarketWatchlistService,
   ],
-  exports: [MarketsService],
 })
 export class MarketsModule {}
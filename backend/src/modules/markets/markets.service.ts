@@ -6,15 +6,30 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Like, In } from 'typeorm';
+import {
+  Repository,
+  SelectQueryBuilder,
+  Like,
+  In,
+  Between,
+  LessThan,
+} from 'typeorm';
+import { ethers } from 'ethers';
 import { Market } from '../../database/entities/market.entity';
 import { Outcome } from '../../database/entities/outcome.entity';
 import { Position } from '../../database/entities/position.entity';
 import { Trade } from '../../database/entities/trade.entity';
 import { Creator } from '../../database/entities/creator.entity';
-import { MarketStatus } from '../../database/enums';
+import { ProbabilitySnapshot } from '../../database/entities/probability-snapshot.entity';
+import { MarketTemplateVersion } from '../../database/entities/market-template-version.entity';
+import {
+  MarketStatus,
+  MarketStatusChangeSource,
+  MarketType,
+} from '../../database/enums';
 import {
   CreateMarketDto,
+  CreateOutcomeDto,
   MarketFiltersDto,
   TradeMarketDto,
   MarketResponseDto,
@@ -26,8 +41,48 @@ import {
   TradeListResponseDto,
   UnsignedTransactionResponseDto,
   MarketSortBy,
+  MarketDeploymentMode,
+  SubmitMarketDeploymentDto,
+  TradeActionType,
+  TradeQuoteQueryDto,
+  TradeQuoteResponseDto,
+  MarketChartQueryDto,
+  MarketChartResponseDto,
+  MarketChartPointDto,
+  MarketChartTimeframe,
+  MarketChartInterval,
+  UpdateMarketDraftDto,
+  SubmitMarketDraftDto,
+  MarketDraftListResponseDto,
+  MarketSearchFacetsDto,
+  MarketSuggestQueryDto,
+  MarketSuggestResponseDto,
 } from './dto';
 import { OpinionMarketService } from '../../contracts/opinion-market.service';
+import { BlockchainService } from '../../contracts/blockchain.service';
+import { OracleRegistryService } from '../../oracles/oracle-registry.service';
+import {
+  SCALAR_LONG_INDEX,
+  SCALAR_OUTCOME_TEXTS,
+  isScalarMarket,
+  impliedScalarValue,
+} from './scalar-market';
+import {
+  MarketLifecycleService,
+  MarketTransitionOptions,
+} from './market-lifecycle.service';
+
+// Resolved markets a creator needs before publishing without review
+const AUTO_PUBLISH_MIN_RESOLVED_MARKETS = 5;
+
+// Tags returned in the search facets, most used first
+const SEARCH_FACET_TAG_LIMIT = 20;
+
+// Drafts and markets awaiting review, visible only to their creator
+export const UNPUBLISHED_STATUSES = [
+  MarketStatus.DRAFT,
+  MarketStatus.PENDING_REVIEW,
+];
 
 @Injectable()
 export class MarketsService {
@@ -44,15 +99,21 @@ export class MarketsService {
     private readonly tradeRepository: Repository<Trade>,
     @InjectRepository(Creator)
     private readonly creatorRepository: Repository<Creator>,
+    @InjectRepository(ProbabilitySnapshot)
+    private readonly snapshotRepository: Repository<ProbabilitySnapshot>,
     private readonly opinionMarketService: OpinionMarketService,
+    private readonly blockchainService: BlockchainService,
+    private readonly oracleRegistryService: OracleRegistryService,
+    private readonly marketLifecycleService: MarketLifecycleService,
   ) {}
 
   /**
-   * Create a new market
+   * Create a new market, optionally as an instance of a template version
    */
   async createMarket(
     creatorId: string,
     createDto: CreateMarketDto,
+    templateVersion?: MarketTemplateVersion,
   ): Promise<CreateMarketResponseDto> {
     this.logger.log(`Creating market for creator ${creatorId}`);
 
@@ -65,39 +126,88 @@ export class MarketsService {
       throw new NotFoundException('Creator not found');
     }
 
-    // Validate outcomes sum to 100
-    const totalProbability = createDto.outcomes.reduce(
-      (sum, outcome) => sum + outcome.initialProbability,
-      0,
-    );
-
-    if (totalProbability !== 100) {
-      throw new BadRequestException(
-        'Sum of outcome probabilities must equal 100',
-      );
+    const scalar =
+      createDto.type === MarketType.SCALAR ? createDto.scalar : undefined;
+    let outcomeDtos: CreateOutcomeDto[];
+
+    if (createDto.type === MarketType.SCALAR) {
+      if (!scalar || scalar.upperBound <= scalar.lowerBound) {
+        throw new BadRequestException(
+          'Scalar upper bound must be greater than lower bound',
+        );
+      }
+
+      // Oracle adapters propose a winning outcome, not a value
+      if (createDto.resolver) {
+        throw new BadRequestException(
+          'Oracle resolvers are not supported for scalar markets',
+        );
+      }
+
+      // Even odds put the implied value at the middle of the range
+      outcomeDtos = SCALAR_OUTCOME_TEXTS.map((text) => ({
+        text,
+        initialProbability: 50,
+      }));
+    } else {
+      outcomeDtos = createDto.outcomes ?? [];
+      this.validateOutcomeProbabilities(outcomeDtos);
+
+      if (createDto.resolver) {
+        this.oracleRegistryService.validateParams(
+          createDto.resolver.type,
+          createDto.resolver.params,
+          outcomeDtos.length,
+        );
+      }
     }
 
-    // Calculate end time
+    const seedLiquidityAmount =
+      createDto.liquidity !== undefined
+        ? this.formatUSDCUnits(this.parseUSDCAmount(createDto.liquidity))
+        : null;
+
+    // Drafts are published later; untrusted creators' markets wait for review
+    const requiresReview =
+      !createDto.draft && (await this.requiresReview(creator));
+    const status = createDto.draft
+      ? MarketStatus.DRAFT
+      : requiresReview
+        ? MarketStatus.PENDING_REVIEW
+        : MarketStatus.PENDING_DEPLOYMENT;
+
+    // Calculate end time (restarted when a draft or reviewed market is published)
     const endTime = new Date(Date.now() + createDto.duration * 1000);
 
-    // Create market in database first
+    // Create market in database first; it stays pending until MarketCreated is observed
     const market = this.marketRepository.create({
       title: createDto.title,
       description: createDto.description,
       category: createDto.category,
+      marketType: createDto.type ?? MarketType.CATEGORICAL,
+      scalarLowerBound: scalar?.lowerBound.toFixed(6) ?? null,
+      scalarUpperBound: scalar?.upperBound.toFixed(6) ?? null,
+      scalarUnit: scalar?.unit ?? null,
       creatorId,
       duration: createDto.duration,
       endTime,
       resolutionCriteria: createDto.resolutionCriteria,
       evidenceLinks: createDto.evidenceLinks,
       tags: createDto.tags,
-      status: MarketStatus.ACTIVE,
+      resolverType: createDto.resolver?.type ?? null,
+      resolverParams: createDto.resolver?.params ?? null,
+      templateId: templateVersion?.templateId ?? null,
+      templateVersionId: templateVersion?.id ?? null,
+      reviewSubmittedAt: requiresReview ? new Date() : null,
+      seedLiquidityAmount,
+      status,
+      contractAddress: this.opinionMarketService.getContractAddress(),
     });
 
     const savedMarket = await this.marketRepository.save(market);
 
     // Create outcomes
-    const outcomes = createDto.outcomes.map((outcomeDto, index) =>
+    const outcomes = outcomeDtos.map((outcomeDto, index) =>
       this.outcomeRepository.create({
         marketId: savedMarket.id,
         outcomeIndex: index,
@@ -109,12 +219,34 @@ export class MarketsService {
 
     await this.outcomeRepository.save(outcomes);
 
-    // TODO: Create market on blockchain
-    // For now, just save to database without blockchain deployment
-    // The blockchain integration will be added in a future update
-    this.logger.log(
-      `Market created in database: ${savedMarket.id} (blockchain deployment pending)`,
-    );
+    if (status !== MarketStatus.PENDING_DEPLOYMENT) {
+      this.logger.log(
+        `Market created in database: ${savedMarket.id} (${status})`,
+      );
+
+      return {
+        marketId: savedMarket.id,
+        market: await this.getMarketById(savedMarket.id),
+      };
+    }
+
+    // Deploy market on-chain
+    const deploymentMode =
+      createDto.deploymentMode ?? MarketDeploymentMode.SERVER;
+    let unsignedTx: CreateMarketResponseDto['unsignedTx'];
+
+    try {
+      unsignedTx = await this.deployMarket(
+        savedMarket,
+        outcomeDtos.map((outcome) => outcome.text),
+        deploymentMode,
+      );
+      await this.marketRepository.save(savedMarket);
+    } catch (error) {
+      // Roll back database change (outcomes cascade)
+      await this.marketRepository.delete(savedMarket.id);
+      throw error;
+    }
 
     // Load complete market with relations
     const completeMarket = await this.getMarketById(savedMarket.id);
@@ -123,10 +255,235 @@ export class MarketsService {
       marketId: savedMarket.id,
       contractAddress: savedMarket.contractAddress ?? undefined,
       txHash: savedMarket.txHash ?? undefined,
+      unsignedTx,
       market: completeMarket,
     };
   }
 
+  /**
+   * Get the creator's drafts and markets awaiting review
+   */
+  async getDrafts(creatorId: string): Promise<MarketDraftListResponseDto> {
+    const markets = await this.marketRepository.find({
+      where: { creatorId, status: In(UNPUBLISHED_STATUSES) },
+      relations: ['creator', 'creator.user', 'outcomes'],
+      order: { updatedAt: 'DESC' },
+    });
+
+    return {
+      markets: markets.map((market) => this.mapToResponseDto(market)),
+    };
+  }
+
+  /**
+   * Edit a draft market
+   */
+  async updateDraft(
+    marketId: string,
+    creatorId: string,
+    updateDto: UpdateMarketDraftDto,
+  ): Promise<MarketResponseDto> {
+    const market = await this.findOwnedDraft(marketId, creatorId);
+    const scalar = isScalarMarket(market);
+
+    if (updateDto.outcomes) {
+      if (scalar) {
+        throw new BadRequestException(
+          'Scalar markets always have Short and Long outcomes',
+        );
+      }
+
+      this.validateOutcomeProbabilities(updateDto.outcomes);
+
+      if (market.resolverType && market.resolverParams) {
+        this.oracleRegistryService.validateParams(
+          market.resolverType,
+          market.resolverParams,
+          updateDto.outcomes.length,
+        );
+      }
+    }
+
+    if (updateDto.scalar) {
+      if (!scalar) {
+        throw new BadRequestException('Market is not a scalar market');
+      }
+
+      if (updateDto.scalar.upperBound <= updateDto.scalar.lowerBound) {
+        throw new BadRequestException(
+          'Scalar upper bound must be greater than lower bound',
+        );
+      }
+
+      market.scalarLowerBound = updateDto.scalar.lowerBound.toFixed(6);
+      market.scalarUpperBound = updateDto.scalar.upperBound.toFixed(6);
+      market.scalarUnit = updateDto.scalar.unit;
+    }
+
+    market.title = updateDto.title ?? market.title;
+    market.description = updateDto.description ?? market.description;
+    market.category = updateDto.category ?? market.category;
+    market.resolutionCriteria =
+      updateDto.resolutionCriteria ?? market.resolutionCriteria;
+    market.evidenceLinks = updateDto.evidenceLinks ?? market.evidenceLinks;
+    market.tags = updateDto.tags ?? market.tags;
+
+    if (updateDto.duration !== undefined) {
+      market.duration = updateDto.duration;
+      market.endTime = new Date(Date.now() + updateDto.duration * 1000);
+    }
+
+    const outcomeDtos = updateDto.outcomes;
+
+    await this.marketRepository.manager.transaction(async (manager) => {
+      await manager.save(market);
+
+      if (outcomeDtos) {
+        await manager.delete(Outcome, { marketId: market.id });
+        await manager.save(
+          outcomeDtos.map((outcomeDto, index) =>
+            this.outcomeRepository.create({
+              marketId: market.id,
+              outcomeIndex: index,
+              text: outcomeDto.text,
+              initialProbability: outcomeDto.initialProbability.toString(),
+              currentProbability: outcomeDto.initialProbability.toString(),
+            }),
+          ),
+        );
+      }
+    });
+
+    return this.getMarketById(market.id);
+  }
+
+  /**
+   * Submit a draft: publish it, or queue it for review if the creator needs one
+   */
+  async submitDraft(
+    marketId: string,
+    creatorId: string,
+    submitDto: SubmitMarketDraftDto,
+  ): Promise<CreateMarketResponseDto> {
+    const market = await this.findOwnedDraft(marketId, creatorId);
+    const creator = await this.creatorRepository.findOneOrFail({
+      where: { id: market.creatorId },
+    });
+
+    market.reviewRejectionReason = null;
+
+    if (await this.requiresReview(creator)) {
+      market.reviewSubmittedAt = new Date();
+      await this.marketLifecycleService.transition(
+        market,
+        MarketStatus.PENDING_REVIEW,
+        { source: MarketStatusChangeSource.USER, changedBy: creatorId },
+      );
+
+      return {
+        marketId: market.id,
+        market: await this.getMarketById(market.id),
+      };
+    }
+
+    return this.publishMarket(
+      market,
+      submitDto.deploymentMode ?? MarketDeploymentMode.SERVER,
+      { source: MarketStatusChangeSource.USER, changedBy: creatorId },
+    );
+  }
+
+  /**
+   * Delete a draft market
+   */
+  async deleteDraft(
+    marketId: string,
+    creatorId: string,
+  ): Promise<{ success: boolean }> {
+    const market = await this.findOwnedDraft(marketId, creatorId);
+
+    // Outcomes cascade
+    await this.marketRepository.delete(market.id);
+
+    this.logger.log(`Draft market ${marketId} deleted`);
+
+    return { success: true };
+  }
+
+  /**
+   * Publish a draft or approved market: restart its clock and deploy it on-chain
+   */
+  async publishMarket(
+    market: Market,
+    deploymentMode: MarketDeploymentMode,
+    options: MarketTransitionOptions,
+  ): Promise<CreateMarketResponseDto> {
+    const outcomes = await this.outcomeRepository.find({
+      where: { marketId: market.id },
+      order: { outcomeIndex: 'ASC' },
+    });
+
+    // Throws before any status change, so a failed deployment can be retried
+    const unsignedTx = await this.deployMarket(
+      market,
+      outcomes.map((outcome) => outcome.text),
+      deploymentMode,
+    );
+
+    market.endTime = new Date(Date.now() + market.duration * 1000);
+    await this.marketLifecycleService.transition(
+      market,
+      MarketStatus.PENDING_DEPLOYMENT,
+      options,
+    );
+
+    return {
+      marketId: market.id,
+      contractAddress: market.contractAddress ?? undefined,
+      txHash: market.txHash ?? undefined,
+      unsignedTx,
+      market: await this.getMarketById(market.id),
+    };
+  }
+
+  /**
+   * Record the createMarket transaction a creator signed and broadcast
+   */
+  async submitMarketDeployment(
+    marketId: string,
+    creatorId: string,
+    deploymentDto: SubmitMarketDeploymentDto,
+  ): Promise<MarketResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.creatorId !== creatorId) {
+      throw new ForbiddenException('Only the market creator can deploy it');
+    }
+
+    if (market.status !== MarketStatus.PENDING_DEPLOYMENT) {
+      throw new BadRequestException('Market is not pending deployment');
+    }
+
+    if (market.txHash) {
+      throw new BadRequestException('Deployment transaction already recorded');
+    }
+
+    market.txHash = deploymentDto.txHash.toLowerCase();
+    await this.marketRepository.save(market);
+
+    this.logger.log(
+      `Market ${marketId} deployment submitted by creator: ${market.txHash}`,
+    );
+
+    return this.getMarketById(marketId);
+  }
+
   /**
    * Get markets with filters and pagination
    */
@@ -134,60 +491,124 @@ export class MarketsService {
     filters: MarketFiltersDto,
   ): Promise<MarketListResponseDto> {
     const {
-      status,
-      category,
-      creatorId,
       search,
-      sort = MarketSortBy.CREATED_AT,
+      sort = search ? MarketSortBy.RELEVANCE : MarketSortBy.CREATED_AT,
       order = 'DESC',
       page = 1,
       limit = 10,
     } = filters;
 
-    const queryBuilder = this.marketRepository
-      .createQueryBuilder('market')
-      .leftJoinAndSelect('market.creator', 'creator')
-      .leftJoinAndSelect('creator.user', 'user')
-      .leftJoinAndSelect('market.outcomes', 'outcomes');
-
-    // Apply filters
-    if (status) {
-      queryBuilder.andWhere('market.status = :status', { status });
-    }
-
-    if (category) {
-      queryBuilder.andWhere('market.category = :category', { category });
-    }
+    // Page through matching IDs first so relations are only loaded for one page
+    const idQuery = this.applySearchFilters(
+      this.marketRepository.createQueryBuilder('market').select('market.id'),
+      filters,
+    );
 
-    if (creatorId) {
-      queryBuilder.andWhere('market.creatorId = :creatorId', { creatorId });
+    if (sort === MarketSortBy.RELEVANCE && search) {
+      idQuery
+        .addSelect(
+          "ts_rank(market.searchVector, websearch_to_tsquery('english', :search))",
+          'rank',
+        )
+        .orderBy('rank', 'DESC');
+    } else if (sort === MarketSortBy.ENDING_SOON) {
+      idQuery.orderBy('market.endTime', 'ASC');
+    } else if (sort === MarketSortBy.RELEVANCE) {
+      idQuery.orderBy('market.createdAt', order);
+    } else {
+      idQuery.orderBy(`market.${sort}`, order);
     }
 
-    if (search) {
-      queryBuilder.andWhere(
-        '(market.title ILIKE :search OR market.description ILIKE :search)',
-        { search: `%${search}%` },
-      );
-    }
+    idQuery.addOrderBy('market.id', 'ASC');
 
-    // Apply sorting
-    queryBuilder.orderBy(`market.${sort}`, order);
+    const total = await idQuery.getCount();
 
     // Apply pagination
     const skip = (page - 1) * limit;
-    queryBuilder.skip(skip).take(limit);
-
-    const [markets, total] = await queryBuilder.getManyAndCount();
+    const rows = await idQuery
+      .offset(skip)
+      .limit(limit)
+      .getRawMany<{ market_id: string }>();
 
     return {
-      markets: markets.map((market) => this.mapToResponseDto(market)),
+      markets: await this.getMarketsByIds(rows.map((row) => row.market_id)),
       total,
       page,
       limit,
       totalPages: Math.ceil(total / limit),
+      facets: await this.getSearchFacets(filters),
     };
   }
 
+  /**
+   * Suggest published markets whose title, tags or description start with the typed words
+   */
+  async suggestMarkets(
+    query: MarketSuggestQueryDto,
+  ): Promise<MarketSuggestResponseDto> {
+    // Every word is matched as a prefix, e.g. "bitc pri" -> bitc:* & pri:*
+    const words = query.q
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+
+    if (words.length === 0) {
+      return { suggestions: [] };
+    }
+
+    const markets = await this.marketRepository
+      .createQueryBuilder('market')
+      .select([
+        'market.id',
+        'market.title',
+        'market.category',
+        'market.status',
+        'market.endTime',
+      ])
+      .where('market.status NOT IN (:...unpublished)', {
+        unpublished: UNPUBLISHED_STATUSES,
+      })
+      .andWhere("market.searchVector @@ to_tsquery('english', :prefix)", {
+        prefix: words.map((word) => `${word}:*`).join(' & '),
+      })
+      .orderBy(
+        "ts_rank(market.searchVector, to_tsquery('english', :prefix))",
+        'DESC',
+      )
+      .addOrderBy('market.totalVolume', 'DESC')
+      .limit(query.limit ?? 5)
+      .getMany();
+
+    return {
+      suggestions: markets.map((market) => ({
+        id: market.id,
+        title: market.title,
+        category: market.category,
+        status: market.status,
+        endTime: market.endTime.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Get markets with full details, in the order of the given IDs
+   */
+  async getMarketsByIds(ids: string[]): Promise<MarketResponseDto[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const markets = await this.marketRepository.find({
+      where: { id: In(ids) },
+      relations: ['creator', 'creator.user', 'outcomes'],
+    });
+    const marketsById = new Map(markets.map((m) => [m.id, m]));
+
+    return ids
+      .filter((id) => marketsById.has(id))
+      .map((id) => this.mapToResponseDto(marketsById.get(id) as Market));
+  }
+
   /**
    * Get market by ID with full details
    */
@@ -204,6 +625,26 @@ export class MarketsService {
     return this.mapToResponseDto(market);
   }
 
+  /**
+   * Get market details as seen by a viewer; drafts and markets awaiting
+   * review are only visible to their creator
+   */
+  async getVisibleMarket(
+    id: string,
+    viewerId?: string,
+  ): Promise<MarketResponseDto> {
+    const market = await this.getMarketById(id);
+
+    if (
+      UNPUBLISHED_STATUSES.includes(market.status) &&
+      market.creatorId !== viewerId
+    ) {
+      throw new NotFoundException('Market not found');
+    }
+
+    return market;
+  }
+
   /**
    * Get user's position in a market
    */
@@ -332,14 +773,15 @@ export class MarketsService {
   }
 
   /**
-   * Prepare trade transaction (returns unsigned tx)
+   * Get probability history bucketed for charts
    */
-  async prepareTrade(
+  async getMarketChart(
     marketId: string,
-    userId: string,
-    walletAddress: string,
-    tradeDto: TradeMarketDto,
-  ): Promise<UnsignedTransactionResponseDto> {
+    query: MarketChartQueryDto,
+  ): Promise<MarketChartResponseDto> {
+    const timeframe = query.timeframe ?? MarketChartTimeframe.DAYS_7;
+    const interval = query.interval ?? MarketChartInterval.HOUR_1;
+
     const market = await this.marketRepository.findOne({
       where: { id: marketId },
       relations: ['outcomes'],
@@ -349,54 +791,145 @@ export class MarketsService {
       throw new NotFoundException('Market not found');
     }
 
-    if (market.status !== MarketStatus.ACTIVE) {
-      throw new BadRequestException('Market is not active');
+    // Probabilities stop moving once trading closes
+    const now = new Date();
+    const end = market.endTime < now ? market.endTime : now;
+
+    let start: Date;
+    switch (timeframe) {
+      case MarketChartTimeframe.HOUR_24:
+        start = new Date(end.getTime() - 24 * 60 * 60 * 1000);
+        break;
+      case MarketChartTimeframe.DAYS_7:
+        start = new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+        break;
+      case MarketChartTimeframe.ALL:
+        start = market.createdAt;
+        break;
     }
 
-    if (new Date() > market.endTime) {
-      throw new BadRequestException('Market has ended');
+    if (start < market.createdAt) {
+      start = market.createdAt;
     }
 
-    const outcome = market.outcomes.find(
-      (o) => o.outcomeIndex === tradeDto.outcome,
-    );
+    const [previous, snapshots] = await Promise.all([
+      this.snapshotRepository.findOne({
+        where: { marketId, timestamp: LessThan(start) },
+        order: { timestamp: 'DESC' },
+      }),
+      this.snapshotRepository.find({
+        where: {
+          marketId,
+          timestamp: Between(start, end),
+        },
+        order: { timestamp: 'ASC' },
+      }),
+    ]);
 
-    if (!outcome) {
-      throw new BadRequestException('Invalid outcome index');
-    }
+    // Before any trade in range, the chart starts from the last known state
+    const initial =
+      previous?.probabilities ??
+      [...market.outcomes]
+        .sort((a, b) => a.outcomeIndex - b.outcomeIndex)
+        .map((o) => parseFloat(o.initialProbability));
 
-    // Calculate expected shares and fee
-    // This is simplified - you'd use AMM formulas in production
-    const amount = parseFloat(tradeDto.amount);
-    const currentPrice = parseFloat(outcome.currentProbability) / 100;
-    const fee = amount * 0.02; // 2% fee
-    const amountAfterFee = amount - fee;
+    const data = this.bucketSnapshots(snapshots, initial, start, end, interval);
 
-    let expectedShares: number;
-    let priceImpact: number;
+    return {
+      timeframe,
+      interval,
+      data: isScalarMarket(market)
+        ? data.map((point) => ({
+            ...point,
+            impliedValue: impliedScalarValue(
+              market,
+              point.probabilities[SCALAR_LONG_INDEX],
+            ),
+          }))
+        : data,
+    };
+  }
 
-    if (tradeDto.action === 'buy') {
-      expectedShares = amountAfterFee / currentPrice;
-      priceImpact = 0.5; // Simplified - calculate based on liquidity
-    } else {
-      // For sell, user is selling shares
-      expectedShares = parseFloat(tradeDto.amount); // amount is in shares for sell
-      priceImpact = 0.5;
+  /**
+   * Quote a trade against the market's on-chain reserves
+   */
+  async getTradeQuote(
+    marketId: string,
+    quoteDto: TradeQuoteQueryDto,
+  ): Promise<TradeQuoteResponseDto> {
+    const market = await this.findTradableMarket(marketId);
+    return this.quoteTrade(market, quoteDto);
+  }
+
+  /**
+   * Prepare trade transaction (returns unsigned tx)
+   */
+  async prepareTrade(
+    marketId: string,
+    userId: string,
+    walletAddress: string,
+    tradeDto: TradeMarketDto,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const market = await this.findTradableMarket(marketId);
+    const quote = await this.quoteTrade(market, tradeDto);
+
+    const amountUnits = this.parseUSDCAmount(tradeDto.amount);
+
+    if (tradeDto.action === TradeActionType.SELL) {
+      const position = await this.positionRepository.findOne({
+        where: {
+          marketId,
+          walletAddress: walletAddress.toLowerCase(),
+          outcome: { outcomeIndex: tradeDto.outcome },
+        },
+      });
+
+      if (
+        !position ||
+        parseFloat(position.shares) < parseFloat(tradeDto.amount)
+      ) {
+        throw new BadRequestException('Insufficient shares to sell');
+      }
+
+      return {
+        unsignedTx: this.opinionMarketService.buildSellSharesTransaction(
+          this.getOnChainMarketId(market),
+          tradeDto.outcome,
+          amountUnits,
+        ),
+        expectedShares: quote.expectedShares,
+        fee: quote.fees.total,
+        priceImpact: quote.priceImpact,
+        quote,
+      };
     }
 
-    // Build unsigned transaction
-    // TODO: Get contract address from OpinionMarketService when method is available
-    const unsignedTx = {
-      to: market.contractAddress || '0x0000000000000000000000000000000000000000',
-      data: this.buildTradeCalldata(marketId, tradeDto),
-      value: '0', // USDC is ERC20, not native token
-    };
+    const unsignedTx = this.opinionMarketService.buildPlaceBetTransaction(
+      this.getOnChainMarketId(market),
+      tradeDto.outcome,
+      amountUnits,
+    );
+
+    // placeBet pulls USDC with transferFrom, so the market needs an allowance
+    const allowance = await this.blockchainService.getUSDCAllowance(
+      walletAddress,
+      unsignedTx.to,
+    );
+    const approvalTx =
+      allowance < amountUnits
+        ? this.blockchainService.buildUSDCApprovalTransaction(
+            unsignedTx.to,
+            amountUnits,
+          )
+        : undefined;
 
     return {
       unsignedTx,
-      expectedShares: expectedShares.toFixed(6),
-      fee: fee.toFixed(6),
-      priceImpact: priceImpact.toFixed(2),
+      approvalTx,
+      expectedShares: quote.expectedShares,
+      fee: quote.fees.total,
+      priceImpact: quote.priceImpact,
+      quote,
     };
   }
 
@@ -420,6 +953,17 @@ export class MarketsService {
       throw new BadRequestException('Market is not resolved');
     }
 
+    // The contract locks claims while the result can still be disputed
+    const claimsOpenAt = await this.opinionMarketService.getDisputeDeadline(
+      this.getOnChainMarketId(market),
+    );
+
+    if (claimsOpenAt > new Date()) {
+      throw new BadRequestException(
+        `Claims open at ${claimsOpenAt.toISOString()}, after the dispute window`,
+      );
+    }
+
     // Get user's winning position
     const positions = await this.positionRepository.find({
       where: {
@@ -430,29 +974,197 @@ export class MarketsService {
       relations: ['outcome'],
     });
 
-    const winningPosition = positions.find(
-      (p) => p.outcome.outcomeIndex === market.winningOutcomeIndex,
-    );
+    // Scalar markets pay both sides in proportion to the resolved value
+    const winningPosition = isScalarMarket(market)
+      ? positions.find((p) => parseFloat(p.shares) > 0)
+      : positions.find(
+          (p) => p.outcome.outcomeIndex === market.winningOutcomeIndex,
+        );
 
     if (!winningPosition) {
       throw new BadRequestException('No winning position to claim');
     }
 
-    const winnings = parseFloat(winningPosition.shares);
+    const unsignedTx = this.opinionMarketService.buildClaimWinningsTransaction(
+      this.getOnChainMarketId(market),
+    );
 
-    // Build unsigned transaction
-    // TODO: Get contract address from OpinionMarketService when method is available
-    const unsignedTx = {
-      to: market.contractAddress || '0x0000000000000000000000000000000000000000',
-      data: this.buildClaimCalldata(marketId),
-      value: '0',
+    return {
+      unsignedTx,
+      expectedShares: '0',
+      fee: '0',
+      priceImpact: '0',
     };
+  }
+
+  /**
+   * Prepare refund transaction for a cancelled market (returns unsigned tx)
+   */
+  async prepareRefund(
+    marketId: string,
+    userId: string,
+    walletAddress: string,
+  ): Promise<UnsignedTransactionResponseDto> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.status !== MarketStatus.CANCELLED) {
+      throw new BadRequestException('Market is not cancelled');
+    }
+
+    const positions = await this.positionRepository.find({
+      where: {
+        marketId,
+        walletAddress: walletAddress.toLowerCase(),
+        refunded: false,
+      },
+    });
+
+    // Shares are minted 1:1 with the stake, so held shares are what claimRefund pays
+    const refundAmount = positions.reduce(
+      (sum, p) => sum + parseFloat(p.shares),
+      0,
+    );
+
+    if (refundAmount <= 0) {
+      throw new BadRequestException('No refund to claim');
+    }
 
     return {
-      unsignedTx,
+      unsignedTx: this.opinionMarketService.buildClaimRefundTransaction(
+        this.getOnChainMarketId(market),
+      ),
       expectedShares: '0',
       fee: '0',
       priceImpact: '0',
+      refundAmount: refundAmount.toFixed(6),
+    };
+  }
+
+  /**
+   * Helper: Restrict a market query to published markets matching the filters
+   */
+  private applySearchFilters(
+    queryBuilder: SelectQueryBuilder<Market>,
+    filters: MarketFiltersDto,
+  ): SelectQueryBuilder<Market> {
+    queryBuilder.where('market.status NOT IN (:...unpublished)', {
+      unpublished: UNPUBLISHED_STATUSES,
+    });
+
+    if (filters.status) {
+      queryBuilder.andWhere('market.status = :status', {
+        status: filters.status,
+      });
+    }
+
+    if (filters.category) {
+      queryBuilder.andWhere('market.category = :category', {
+        category: filters.category,
+      });
+    }
+
+    if (filters.creatorId) {
+      queryBuilder.andWhere('market.creatorId = :creatorId', {
+        creatorId: filters.creatorId,
+      });
+    }
+
+    if (filters.search) {
+      queryBuilder.andWhere(
+        "market.searchVector @@ websearch_to_tsquery('english', :search)",
+        { search: filters.search },
+      );
+    }
+
+    // Matches the GIN index on the comma-separated tags column
+    if (filters.tags?.length) {
+      queryBuilder.andWhere(
+        "string_to_array(market.tags, ',') @> CAST(:tags AS text[])",
+        { tags: filters.tags },
+      );
+    }
+
+    if (filters.endsAfter) {
+      queryBuilder.andWhere('market.endTime >= :endsAfter', {
+        endsAfter: new Date(filters.endsAfter),
+      });
+    }
+
+    if (filters.endsBefore) {
+      queryBuilder.andWhere('market.endTime <= :endsBefore', {
+        endsBefore: new Date(filters.endsBefore),
+      });
+    }
+
+    if (filters.minVolume !== undefined) {
+      queryBuilder.andWhere('market.totalVolume >= :minVolume', {
+        minVolume: filters.minVolume,
+      });
+    }
+
+    if (filters.maxVolume !== undefined) {
+      queryBuilder.andWhere('market.totalVolume <= :maxVolume', {
+        maxVolume: filters.maxVolume,
+      });
+    }
+
+    if (filters.sort === MarketSortBy.ENDING_SOON) {
+      queryBuilder.andWhere('market.endTime > :now', { now: new Date() });
+    }
+
+    return queryBuilder;
+  }
+
+  /**
+   * Helper: Category and tag counts; each facet ignores its own filter
+   */
+  private async getSearchFacets(
+    filters: MarketFiltersDto,
+  ): Promise<MarketSearchFacetsDto> {
+    const categoryQuery = this.applySearchFilters(
+      this.marketRepository.createQueryBuilder('market'),
+      { ...filters, category: undefined },
+    )
+      .select('market.category', 'value')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('market.category')
+      .orderBy('count', 'DESC');
+
+    const taggedQuery = this.applySearchFilters(
+      this.marketRepository.createQueryBuilder('market'),
+      { ...filters, tags: undefined },
+    ).select("unnest(string_to_array(market.tags, ','))", 'tag');
+
+    const tagQuery = this.marketRepository.manager
+      .createQueryBuilder()
+      .select('tagged.tag', 'value')
+      .addSelect('COUNT(*)', 'count')
+      .from(`(${taggedQuery.getQuery()})`, 'tagged')
+      .setParameters(taggedQuery.getParameters())
+      .groupBy('tagged.tag')
+      .orderBy('count', 'DESC')
+      .addOrderBy('tagged.tag', 'ASC')
+      .limit(SEARCH_FACET_TAG_LIMIT);
+
+    const categories = await categoryQuery.getRawMany<{
+      value: string;
+      count: string;
+    }>();
+    const tags = await tagQuery.getRawMany<{ value: string; count: string }>();
+    const toFacet = (row: { value: string; count: string }) => ({
+      value: row.value,
+      count: parseInt(row.count, 10),
+    });
+
+    return {
+      categories: categories.map(toFacet),
+      tags: tags.map(toFacet),
     };
   }
 
@@ -465,9 +1177,29 @@ export class MarketsService {
       title: market.title,
       description: market.description,
       category: market.category,
+      type: market.marketType,
+      scalar: isScalarMarket(market)
+        ? {
+            lowerBound: market.scalarLowerBound ?? '0',
+            upperBound: market.scalarUpperBound ?? '0',
+            unit: market.scalarUnit ?? '',
+            impliedValue: impliedScalarValue(
+              market,
+              parseFloat(
+                market.outcomes?.find(
+                  (o) => o.outcomeIndex === SCALAR_LONG_INDEX,
+                )?.currentProbability ?? '50',
+              ),
+            ),
+            resolvedValue: market.resolvedValue ?? undefined,
+          }
+        : undefined,
       status: market.status,
+      paused: market.paused,
+      pauseReason: market.pauseReason ?? undefined,
       contractAddress: market.contractAddress ?? undefined,
       txHash: market.txHash ?? undefined,
+      onChainMarketId: market.onChainMarketId ?? undefined,
       creatorId: market.creatorId,
       creator: market.creator
         ? {
@@ -486,12 +1218,20 @@ export class MarketsService {
       resolutionCriteria: market.resolutionCriteria ?? undefined,
       evidenceLinks: market.evidenceLinks ?? undefined,
       tags: market.tags ?? undefined,
+      templateId: market.templateId ?? undefined,
+      templateVersionId: market.templateVersionId ?? undefined,
+      reviewSubmittedAt: market.reviewSubmittedAt?.toISOString(),
+      reviewRejectionReason: market.reviewRejectionReason ?? undefined,
+      resolver: market.resolverType
+        ? { type: market.resolverType, params: market.resolverParams ?? {} }
+        : undefined,
       totalVolume: market.totalVolume,
       totalLiquidity: market.totalLiquidity,
       participantCount: market.participantCount,
       tradeCount: market.tradeCount,
       winningOutcomeIndex: market.winningOutcomeIndex ?? undefined,
       resolvedAt: market.resolvedAt?.toISOString(),
+      resolutionDeadline: market.resolutionDeadline?.toISOString(),
       createdAt: market.createdAt.toISOString(),
       updatedAt: market.updatedAt.toISOString(),
       outcomes: market.outcomes?.map((outcome) => ({
@@ -510,20 +1250,338 @@ export class MarketsService {
   }
 
   /**
-   * Helper: Build trade calldata
+   * Helper: Group snapshots into fixed intervals, carrying the last
+   * probabilities forward through buckets without trades
+   */
+  private bucketSnapshots(
+    snapshots: ProbabilitySnapshot[],
+    initial: number[],
+    start: Date,
+    end: Date,
+    interval: MarketChartInterval,
+  ): MarketChartPointDto[] {
+    const intervalMs = {
+      [MarketChartInterval.HOUR_1]: 60 * 60 * 1000,
+      [MarketChartInterval.HOUR_4]: 4 * 60 * 60 * 1000,
+      [MarketChartInterval.DAY_1]: 24 * 60 * 60 * 1000,
+    }[interval];
+
+    const firstBucket = Math.floor(start.getTime() / intervalMs) * intervalMs;
+    const points: MarketChartPointDto[] = [];
+    let probabilities = initial;
+    let index = 0;
+
+    for (
+      let bucket = firstBucket;
+      bucket <= end.getTime();
+      bucket += intervalMs
+    ) {
+      let volume = 0;
+
+      while (
+        index < snapshots.length &&
+        snapshots[index].timestamp.getTime() < bucket + intervalMs
+      ) {
+        probabilities = snapshots[index].probabilities;
+        volume += parseFloat(snapshots[index].volume);
+        index++;
+      }
+
+      points.push({
+        timestamp: new Date(bucket).toISOString(),
+        probabilities,
+        volume: parseFloat(volume.toFixed(6)),
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Helper: Load a market that is open for trading
+   */
+  private async findTradableMarket(marketId: string): Promise<Market> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+      relations: ['outcomes'],
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.status !== MarketStatus.ACTIVE) {
+      throw new BadRequestException('Market is not active');
+    }
+
+    if (market.paused) {
+      throw new BadRequestException('Market is paused');
+    }
+
+    if (new Date() > market.endTime) {
+      throw new BadRequestException('Market has ended');
+    }
+
+    return market;
+  }
+
+  /**
+   * Helper: Quote a trade by replaying the contract's bet math on live reserves
+   */
+  private async quoteTrade(
+    market: Market,
+    quoteDto: TradeQuoteQueryDto,
+  ): Promise<TradeQuoteResponseDto> {
+    if (!market.outcomes.some((o) => o.outcomeIndex === quoteDto.outcome)) {
+      throw new BadRequestException('Invalid outcome index');
+    }
+
+    const action = quoteDto.action ?? TradeActionType.BUY;
+    const isSell = action === TradeActionType.SELL;
+
+    // Buys are quoted in USDC, sells in outcome shares (both 6 decimals)
+    const amountUnits = this.parseUSDCAmount(quoteDto.amount);
+    const quote = isSell
+      ? await this.opinionMarketService.quoteSell(
+          this.getOnChainMarketId(market),
+          quoteDto.outcome,
+          amountUnits,
+          market.outcomes.length,
+        )
+      : await this.opinionMarketService.quoteBet(
+          this.getOnChainMarketId(market),
+          quoteDto.outcome,
+          amountUnits,
+          market.outcomes.length,
+        );
+
+    const outcomes = [...market.outcomes]
+      .sort((a, b) => a.outcomeIndex - b.outcomeIndex)
+      .map((o) => ({
+        outcomeIndex: o.outcomeIndex,
+        text: o.text,
+        currentProbability: this.formatBps(
+          quote.probabilitiesBefore[o.outcomeIndex],
+        ),
+        newProbability: this.formatBps(
+          quote.probabilitiesAfter[o.outcomeIndex],
+        ),
+      }));
+
+    const priceImpact =
+      quote.probabilitiesAfter[quoteDto.outcome] -
+      quote.probabilitiesBefore[quoteDto.outcome];
+    const settled = isSell ? quote.amountAfterFee : quote.amount;
+    const averagePrice =
+      quote.shares > BigInt(0) ? Number(settled) / Number(quote.shares) : 0;
+
+    return {
+      marketId: market.id,
+      outcome: quoteDto.outcome,
+      action,
+      amount: this.formatUSDCUnits(quote.amount),
+      expectedShares: this.formatUSDCUnits(quote.shares),
+      averagePrice: averagePrice.toFixed(6),
+      fees: {
+        total: this.formatUSDCUnits(quote.totalFee),
+        platform: this.formatUSDCUnits(quote.platformFee),
+        creator: this.formatUSDCUnits(quote.creatorFee),
+        shareholder: this.formatUSDCUnits(quote.shareholderFee),
+        liquidity: this.formatUSDCUnits(quote.liquidityFee),
+      },
+      priceImpact: this.formatBps(priceImpact),
+      potentialPayout: this.formatUSDCUnits(quote.potentialPayout),
+      liquidityDepth: market.totalLiquidity,
+      proceeds: isSell ? this.formatUSDCUnits(quote.amountAfterFee) : undefined,
+      outcomes,
+      scalar: isScalarMarket(market)
+        ? {
+            currentValue: impliedScalarValue(
+              market,
+              parseFloat(outcomes[SCALAR_LONG_INDEX].currentProbability),
+            ),
+            newValue: impliedScalarValue(
+              market,
+              parseFloat(outcomes[SCALAR_LONG_INDEX].newProbability),
+            ),
+            unit: market.scalarUnit ?? '',
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Helper: Get the OpinionMarket market ID of a deployed market
+   */
+  private getOnChainMarketId(market: Market): bigint {
+    if (!market.onChainMarketId) {
+      throw new BadRequestException('Market is not deployed on-chain yet');
+    }
+
+    return BigInt(market.onChainMarketId);
+  }
+
+  /**
+   * Helper: Format USDC base units (6 decimals) as a decimal string
+   */
+  private formatUSDCUnits(units: bigint): string {
+    return (Number(units) / 1e6).toFixed(6);
+  }
+
+  /**
+   * Helper: Format basis points as a percentage string
+   */
+  private formatBps(bps: bigint): string {
+    return (Number(bps) / 100).toFixed(2);
+  }
+
+  /**
+   * Helper: Convert a stored scalar bound to the contract's fixed point (6 decimals)
+   */
+  private parseScalarValue(value: string | null): bigint {
+    return ethers.parseUnits(value ?? '0', 6);
+  }
+
+  /**
+   * Helper: Deploy a market on-chain. In server mode the backend wallet signs
+   * and market.txHash is set (unsaved); in creator mode the unsigned
+   * transaction is returned for the creator to sign.
+   */
+  private async deployMarket(
+    market: Market,
+    outcomeTexts: string[],
+    deploymentMode: MarketDeploymentMode,
+  ): Promise<CreateMarketResponseDto['unsignedTx']> {
+    const scalar = isScalarMarket(market);
+
+    if (deploymentMode === MarketDeploymentMode.CREATOR) {
+      this.logger.log(`Market ${market.id} awaiting creator-signed deployment`);
+
+      return scalar
+        ? this.opinionMarketService.buildCreateScalarMarketTransaction(
+            market.title,
+            this.parseScalarValue(market.scalarLowerBound),
+            this.parseScalarValue(market.scalarUpperBound),
+            market.duration,
+            market.description,
+          )
+        : this.opinionMarketService.buildCreateMarketTransaction(
+            market.title,
+            outcomeTexts,
+            market.duration,
+            market.description,
+          );
+    }
+
+    try {
+      market.txHash = scalar
+        ? await this.opinionMarketService.createScalarMarket(
+            market.title,
+            this.parseScalarValue(market.scalarLowerBound),
+            this.parseScalarValue(market.scalarUpperBound),
+            market.duration,
+            market.description,
+          )
+        : await this.opinionMarketService.createMarket(
+            market.title,
+            outcomeTexts,
+            market.duration,
+            market.description,
+          );
+    } catch (error) {
+      this.logger.error(
+        `Failed to deploy market ${market.id} on-chain: ${error.message}`,
+      );
+      throw error;
+    }
+
+    this.logger.log(
+      `Market ${market.id} deployment submitted: ${market.txHash}`,
+    );
+
+    return undefined;
+  }
+
+  /**
+   * Helper: Whether a creator's markets need review before publishing.
+   * Trusted creators and creators with a record of resolved markets and
+   * no cancellations publish directly.
    */
-  private buildTradeCalldata(marketId: string, tradeDto: TradeMarketDto): string {
-    // This would use ethers.js to encode the function call
-    // Placeholder for now
-    return '0x';
+  private async requiresReview(creator: Creator): Promise<boolean> {
+    if (creator.trusted) {
+      return false;
+    }
+
+    const [resolved, cancelled] = await Promise.all([
+      this.marketRepository.count({
+        where: { creatorId: creator.id, status: MarketStatus.RESOLVED },
+      }),
+      this.marketRepository.count({
+        where: { creatorId: creator.id, status: MarketStatus.CANCELLED },
+      }),
+    ]);
+
+    return resolved < AUTO_PUBLISH_MIN_RESOLVED_MARKETS || cancelled > 0;
   }
 
   /**
-   * Helper: Build claim calldata
+   * Helper: Load a draft market owned by the creator
    */
-  private buildClaimCalldata(marketId: string): string {
-    // This would use ethers.js to encode the function call
-    // Placeholder for now
-    return '0x';
+  private async findOwnedDraft(
+    marketId: string,
+    creatorId: string,
+  ): Promise<Market> {
+    const market = await this.marketRepository.findOne({
+      where: { id: marketId },
+    });
+
+    if (!market) {
+      throw new NotFoundException('Market not found');
+    }
+
+    if (market.creatorId !== creatorId) {
+      throw new ForbiddenException('Only the market creator can edit it');
+    }
+
+    if (market.status !== MarketStatus.DRAFT) {
+      throw new BadRequestException('Only draft markets can be edited');
+    }
+
+    return market;
+  }
+
+  /**
+   * Helper: Validate that outcome probabilities sum to 100
+   */
+  private validateOutcomeProbabilities(outcomes: CreateOutcomeDto[]) {
+    const totalProbability = outcomes.reduce(
+      (sum, outcome) => sum + outcome.initialProbability,
+      0,
+    );
+
+    if (totalProbability !== 100) {
+      throw new BadRequestException(
+        'Sum of outcome probabilities must equal 100',
+      );
+    }
+  }
+
+  /**
+   * Helper: Parse a decimal USDC amount into base units (6 decimals)
+   */
+  private parseUSDCAmount(amount: string): bigint {
+    let units: bigint;
+
+    try {
+      units = ethers.parseUnits(amount, 6);
+    } catch {
+      throw new BadRequestException('Invalid USDC amount');
+    }
+
+    if (units <= BigInt(0)) {
+      throw new BadRequestException('Amount must be greater than zero');
+    }
+
+    return units;
   }
 }
@@ -0,0 +1,445 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EntityManager, FindOperator } from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { Outcome } from '../../database/entities/outcome.entity';
+import { Position } from '../../database/entities/position.entity';
+import { ProbabilitySnapshot } from '../../database/entities/probability-snapshot.entity';
+import { MarketActivity } from '../../database/entities/market-activity.entity';
+import { Trade, TradeAction } from '../../database/entities/trade.entity';
+import { MarketType } from '../../database/enums';
+import { PositionAccountingService } from './position-accounting.service';
+
+type Row = Record<string, unknown>;
+type EntityClass = new () => object;
+
+// Column defaults the database fills in on insert
+const COLUMN_DEFAULTS = new Map<EntityClass, Row>([
+  [Position, { claimed: false, refunded: false }],
+]);
+
+/**
+ * Entity manager over in-memory tables, covering what the service uses
+ */
+class InMemoryManager {
+  private readonly tables = new Map<EntityClass, Row[]>();
+
+  rows<T>(entity: new () => T): T[] {
+    return (this.tables.get(entity as EntityClass) ?? []) as T[];
+  }
+
+  insert<T extends object>(entity: new () => T, data: Partial<T>): T {
+    const row = Object.assign(new entity(), data);
+    this.table(entity as EntityClass).push(row as Row);
+    return row;
+  }
+
+  transaction<T>(work: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return work(this as unknown as EntityManager);
+  }
+
+  create<T extends object>(entity: new () => T, data: Partial<T>): T {
+    return Object.assign(
+      new entity(),
+      COLUMN_DEFAULTS.get(entity as EntityClass),
+      data,
+    );
+  }
+
+  save<T extends object>(rows: T | T[]): Promise<T | T[]> {
+    for (const row of Array.isArray(rows) ? rows : [rows]) {
+      const table = this.table(row.constructor as EntityClass);
+
+      if (!table.includes(row as Row)) {
+        table.push(row as Row);
+      }
+    }
+
+    return Promise.resolve(rows);
+  }
+
+  find<T>(entity: new () => T, options: { where: Row }): Promise<T[]> {
+    return Promise.resolve(this.match(entity, options.where));
+  }
+
+  findOne<T>(entity: new () => T, options: { where: Row }): Promise<T | null> {
+    return Promise.resolve(this.match(entity, options.where)[0] ?? null);
+  }
+
+  findOneOrFail<T>(entity: new () => T, options: { where: Row }): Promise<T> {
+    return Promise.resolve(this.match(entity, options.where)[0]);
+  }
+
+  count<T>(entity: new () => T, options: { where: Row }): Promise<number> {
+    return Promise.resolve(this.match(entity, options.where).length);
+  }
+
+  update<T>(entity: new () => T, where: Row, patch: Partial<T>) {
+    for (const row of this.match(entity, where)) {
+      Object.assign(row as object, patch);
+    }
+
+    return Promise.resolve();
+  }
+
+  delete<T>(entity: new () => T, where: Row) {
+    const matched = new Set<unknown>(this.match(entity, where));
+
+    this.tables.set(
+      entity as EntityClass,
+      this.table(entity as EntityClass).filter((row) => !matched.has(row)),
+    );
+
+    return Promise.resolve();
+  }
+
+  // Trades are queried by market, or above a block when reverting
+  createQueryBuilder() {
+    const params: Row = {};
+    const builder = {
+      where: (_: string, values: Row) => {
+        Object.assign(params, values);
+        return builder;
+      },
+      orderBy: () => builder,
+      addOrderBy: () => builder,
+      getMany: () =>
+        Promise.resolve(
+          this.rows(Trade)
+            .filter(
+              (t) =>
+                (params.marketId === undefined ||
+                  t.marketId === params.marketId) &&
+                (params.blockNumber === undefined ||
+                  Number(t.blockNumber) > Number(params.blockNumber)),
+            )
+            .sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber)),
+        ),
+    };
+
+    return builder;
+  }
+
+  private table(entity: EntityClass): Row[] {
+    if (!this.tables.has(entity)) {
+      this.tables.set(entity, []);
+    }
+
+    return this.tables.get(entity)!;
+  }
+
+  private match<T>(entity: new () => T, where: Row): T[] {
+    return this.rows(entity).filter((row) =>
+      Object.entries(where).every(([key, value]) => {
+        const field = (row as Row)[key];
+
+        return value instanceof FindOperator && value.type === 'in'
+          ? (value.value as unknown as unknown[]).includes(field)
+          : field === value;
+      }),
+    );
+  }
+}
+
+describe('PositionAccountingService', () => {
+  let service: PositionAccountingService;
+  let db: InMemoryManager;
+  let market: Market;
+  let yes: Outcome;
+  let no: Outcome;
+
+  const wallet = '0xabc0000000000000000000000000000000000001';
+  let tradeCount = 0;
+
+  const trade = (
+    outcome: Outcome,
+    action: TradeAction,
+    shares: number,
+    amount: number,
+    blockNumber: number,
+    fee = 0,
+  ) =>
+    db.create(Trade, {
+      id: `trade-${++tradeCount}`,
+      marketId: market.id,
+      userId: 'user-1',
+      outcomeId: outcome.id,
+      walletAddress: wallet,
+      action,
+      shares: shares.toFixed(6),
+      amount: amount.toFixed(6),
+      price: (amount / shares).toFixed(6),
+      fee: fee.toFixed(6),
+      txHash: `0x${tradeCount}`,
+      blockNumber: blockNumber.toString(),
+    });
+
+  const position = (outcome: Outcome) =>
+    db
+      .rows(Position)
+      .find((p) => p.userId === 'user-1' && p.outcomeId === outcome.id)!;
+
+  beforeEach(async () => {
+    db = new InMemoryManager();
+    tradeCount = 0;
+
+    market = db.insert(Market, {
+      id: 'market-1',
+      marketType: MarketType.CATEGORICAL,
+      totalVolume: '0',
+      tradeCount: 0,
+      participantCount: 0,
+      winningOutcomeIndex: null,
+    });
+    yes = db.insert(Outcome, {
+      id: 'outcome-yes',
+      marketId: market.id,
+      outcomeIndex: 0,
+      totalShares: '0',
+      totalStaked: '0',
+      seedLiquidity: '0',
+      currentProbability: '50.00',
+    });
+    no = db.insert(Outcome, {
+      id: 'outcome-no',
+      marketId: market.id,
+      outcomeIndex: 1,
+      totalShares: '0',
+      totalStaked: '0',
+      seedLiquidity: '0',
+      currentProbability: '50.00',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PositionAccountingService,
+        {
+          provide: getRepositoryToken(Market),
+          useValue: { manager: db },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PositionAccountingService>(PositionAccountingService);
+  });
+
+  describe('applyTrade', () => {
+    it('should hold buys at their weighted-average cost, fees included', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 5, 100));
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 7, 101));
+
+      expect(position(yes)).toMatchObject({
+        shares: '20.000000',
+        costBasis: '12.000000',
+        averagePrice: '0.600000',
+        realizedPnl: '0',
+      });
+      expect(market).toMatchObject({
+        totalVolume: '12.000000',
+        tradeCount: 2,
+        participantCount: 1,
+      });
+      expect(yes.totalShares).toBe('20.000000');
+    });
+
+    it('should realize PnL on a sell against the average cost, net of fees', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 20, 12, 100));
+      await service.applyTrade(trade(yes, TradeAction.SELL, 5, 4, 101, 0.06));
+
+      // Payout 3.94 against 5 shares at 0.6
+      expect(position(yes)).toMatchObject({
+        shares: '15.000000',
+        costBasis: '9.000000',
+        averagePrice: '0.600000',
+        realizedPnl: '0.940000',
+      });
+      expect(yes.totalShares).toBe('15.000000');
+    });
+
+    it('should reset the cost basis once every share is sold', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 5, 100));
+      await service.applyTrade(trade(yes, TradeAction.SELL, 10, 4, 101));
+
+      expect(position(yes)).toMatchObject({
+        shares: '0.000000',
+        costBasis: '0',
+        averagePrice: '0',
+        realizedPnl: '-1.000000',
+      });
+    });
+
+    it('should count a participant once across outcomes', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 5, 100));
+      await service.applyTrade(trade(no, TradeAction.BUY, 10, 5, 101));
+
+      expect(market.participantCount).toBe(1);
+    });
+  });
+
+  describe('applyClaim', () => {
+    it('should pay winning positions and close losing ones at zero', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 6, 100));
+      await service.applyTrade(trade(no, TradeAction.BUY, 5, 3, 101));
+      market.winningOutcomeIndex = 0;
+
+      await service.applyClaim(market, wallet.toUpperCase(), 10);
+
+      expect(position(yes)).toMatchObject({
+        claimed: true,
+        claimedAmount: '10.000000',
+        realizedPnl: '4.000000',
+        shares: '0',
+      });
+      expect(position(no)).toMatchObject({
+        claimed: true,
+        claimedAmount: '0.000000',
+        realizedPnl: '-3.000000',
+      });
+    });
+
+    it('should split scalar payouts by each side of the pool', async () => {
+      market.marketType = MarketType.SCALAR;
+      Object.assign(market, {
+        scalarLowerBound: '0',
+        scalarUpperBound: '100',
+        resolvedValue: '75',
+      });
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 5, 100));
+      await service.applyTrade(trade(no, TradeAction.BUY, 10, 5, 101));
+
+      await service.applyClaim(market, wallet, 10);
+
+      // Outcome 1 is the long side, paid 75% at a value of 75 in [0, 100]
+      expect(position(no).claimedAmount).toBe('7.500000');
+      expect(position(yes).claimedAmount).toBe('2.500000');
+    });
+  });
+
+  describe('applyRefund', () => {
+    it('should refund each position in proportion to its shares', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 4, 4, 100));
+      await service.applyTrade(trade(no, TradeAction.BUY, 6, 6, 101));
+
+      await service.applyRefund(market, wallet, 9.85);
+
+      expect(position(yes)).toMatchObject({
+        refunded: true,
+        refundedAmount: '3.940000',
+        realizedPnl: '-0.060000',
+      });
+      expect(position(no).refundedAmount).toBe('5.910000');
+    });
+  });
+
+  describe('rebuildMarket', () => {
+    it('should replay trades in block order and keep recorded claims', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 6, 100));
+      market.winningOutcomeIndex = 0;
+      await service.applyClaim(market, wallet, 10);
+
+      // Drifted stats are recomputed from the trades
+      Object.assign(position(yes), { shares: '99', realizedPnl: '99' });
+      Object.assign(market, { totalVolume: '99', participantCount: 7 });
+
+      const result = await service.rebuildMarket(market.id);
+
+      expect(result).toEqual({
+        marketId: market.id,
+        trades: 1,
+        positions: 1,
+        participantCount: 1,
+      });
+      expect(position(yes)).toMatchObject({
+        shares: '0',
+        costBasis: '0',
+        realizedPnl: '4.000000',
+        claimed: true,
+      });
+      expect(market.totalVolume).toBe('6.000000');
+      expect(yes.totalShares).toBe('10.000000');
+    });
+  });
+
+  describe('revertAfterBlock', () => {
+    it('should drop trades above the block with their snapshots and activity', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 5, 100));
+      const reverted = await service.applyTrade(
+        trade(yes, TradeAction.BUY, 10, 7, 105),
+      );
+      db.insert(ProbabilitySnapshot, { tradeId: reverted.id });
+      db.insert(MarketActivity, { referenceId: reverted.id });
+
+      const results = await service.revertAfterBlock(101, []);
+
+      expect(results).toHaveLength(1);
+      expect(db.rows(Trade).map((t) => t.blockNumber)).toEqual(['100']);
+      expect(db.rows(ProbabilitySnapshot)).toHaveLength(0);
+      expect(db.rows(MarketActivity)).toHaveLength(0);
+      expect(position(yes)).toMatchObject({
+        shares: '10.000000',
+        costBasis: '5.000000',
+      });
+      expect(market.tradeCount).toBe(1);
+    });
+
+    it('should recompute probabilities and stats from the surviving trades', async () => {
+      yes.seedLiquidity = '10.000000';
+      no.seedLiquidity = '10.000000';
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 6, 100));
+      await service.applyTrade(
+        Object.assign(trade(no, TradeAction.BUY, 30, 20, 105), {
+          userId: 'user-2',
+          walletAddress: '0xabc0000000000000000000000000000000000002',
+        }),
+      );
+      Object.assign(no, { currentProbability: '66.67' });
+
+      await service.revertAfterBlock(101, []);
+
+      expect(yes.currentProbability).toBe('66.67');
+      expect(no.currentProbability).toBe('33.33');
+      expect(no.totalShares).toBe('0');
+      expect(market).toMatchObject({
+        totalVolume: '6.000000',
+        tradeCount: 1,
+        participantCount: 1,
+      });
+    });
+
+    it('should reopen positions whose claim was reverted', async () => {
+      await service.applyTrade(trade(yes, TradeAction.BUY, 10, 6, 100));
+      market.winningOutcomeIndex = 0;
+      await service.applyClaim(market, wallet, 10);
+
+      await service.revertAfterBlock(101, [
+        { marketId: market.id, walletAddress: wallet, kind: 'claim' },
+      ]);
+
+      expect(position(yes)).toMatchObject({
+        claimed: false,
+        claimedAmount: null,
+        shares: '10.000000',
+        costBasis: '6.000000',
+        realizedPnl: '0',
+      });
+    });
+
+    it("should run in the caller's transaction", async () => {
+      const transaction = jest.spyOn(db, 'transaction');
+      const parent = {
+        transaction: jest.fn((work: (m: EntityManager) => Promise<unknown>) =>
+          work(db as unknown as EntityManager),
+        ),
+      };
+
+      await service.revertAfterBlock(
+        101,
+        [],
+        parent as unknown as EntityManager,
+      );
+
+      expect(parent.transaction).toHaveBeenCalledTimes(1);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,497 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Market } from '../../database/entities/market.entity';
+import { Outcome } from '../../database/entities/outcome.entity';
+import { Position } from '../../database/entities/position.entity';
+import { ProbabilitySnapshot } from '../../database/entities/probability-snapshot.entity';
+import { MarketActivity } from '../../database/entities/market-activity.entity';
+import { Trade, TradeAction } from '../../database/entities/trade.entity';
+import {
+  SCALAR_LONG_INDEX,
+  isScalarMarket,
+  scalarLongPayoutShare,
+} from './scalar-market';
+import { applyOutcomeProbabilities } from './market-probability';
+
+export interface RevertedPositionClose {
+  marketId: string;
+  walletAddress: string;
+  kind: 'claim' | 'refund';
+}
+
+export interface PositionRebuildResult {
+  marketId: string;
+  trades: number;
+  positions: number;
+  participantCount: number;
+}
+
+@Injectable()
+export class PositionAccountingService {
+  private readonly logger = new Logger(PositionAccountingService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+  ) {}
+
+  /**
+   * Record a trade and apply it to its position, outcome and market in one transaction,
+   * nested in the caller's transaction when one is given
+   */
+  async applyTrade(trade: Trade, parent?: EntityManager): Promise<Trade> {
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    return entityManager.transaction(async (manager) => {
+      // Locking the market row first serialises concurrent trades on it
+      const market = await manager.findOneOrFail(Market, {
+        where: { id: trade.marketId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const outcome = await manager.findOneOrFail(Outcome, {
+        where: { id: trade.outcomeId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      let position = await manager.findOne(Position, {
+        where: {
+          marketId: trade.marketId,
+          userId: trade.userId,
+          outcomeId: trade.outcomeId,
+        },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!position) {
+        const heldPositions = await manager.count(Position, {
+          where: { marketId: market.id, userId: trade.userId },
+        });
+
+        if (heldPositions === 0) {
+          market.participantCount += 1;
+        }
+
+        position = this.createPosition(manager, trade);
+      }
+
+      this.applyFill(position, trade);
+      this.applyTotals(market, outcome, trade);
+
+      const saved = await manager.save(trade);
+      await manager.save(position);
+      await manager.save(outcome);
+      await manager.save(market);
+
+      return saved;
+    });
+  }
+
+  /**
+   * Close a wallet's positions in a resolved market against its claimed winnings
+   */
+  async applyClaim(
+    market: Market,
+    walletAddress: string,
+    amount: number,
+    parent?: EntityManager,
+  ): Promise<Position[]> {
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    return entityManager.transaction(async (manager) => {
+      const outcomes = await manager.find(Outcome, {
+        where: { marketId: market.id },
+      });
+      const positions = await manager.find(Position, {
+        where: {
+          marketId: market.id,
+          walletAddress: walletAddress.toLowerCase(),
+          claimed: false,
+        },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      // claimWinnings pays the whole wallet at once, losing positions close at zero
+      const values = this.allocate(
+        amount,
+        positions,
+        this.payoutWeight(market, outcomes),
+      );
+      const claimedAt = new Date();
+
+      positions.forEach((position, i) => {
+        this.settle(position, values[i]);
+        position.claimed = true;
+        position.claimedAmount = values[i].toFixed(6);
+        position.claimedAt = claimedAt;
+      });
+
+      return manager.save(positions);
+    });
+  }
+
+  /**
+   * Close a wallet's positions in a cancelled market against its refunded stake
+   */
+  async applyRefund(
+    market: Market,
+    walletAddress: string,
+    amount: number,
+    parent?: EntityManager,
+  ): Promise<Position[]> {
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    return entityManager.transaction(async (manager) => {
+      const positions = await manager.find(Position, {
+        where: {
+          marketId: market.id,
+          walletAddress: walletAddress.toLowerCase(),
+          refunded: false,
+        },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      // Shares are minted 1:1 with the stake, so each position refunds what it holds
+      const values = this.allocate(amount, positions, (p) =>
+        parseFloat(p.shares),
+      );
+      const refundedAt = new Date();
+
+      positions.forEach((position, i) => {
+        this.settle(position, values[i]);
+        position.refunded = true;
+        position.refundedAmount = values[i].toFixed(6);
+        position.refundedAt = refundedAt;
+      });
+
+      return manager.save(positions);
+    });
+  }
+
+  /**
+   * Recompute a market's positions, stats and outcome probabilities from
+   * scratch by replaying its trades
+   */
+  async rebuildMarket(
+    marketId: string,
+    parent?: EntityManager,
+  ): Promise<PositionRebuildResult> {
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    return entityManager.transaction(async (manager) => {
+      const market = await manager.findOneOrFail(Market, {
+        where: { id: marketId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const outcomes = await manager.find(Outcome, { where: { marketId } });
+      const positions = await manager.find(Position, { where: { marketId } });
+      // blockNumber is stored as text, so order it numerically
+      const trades = await manager
+        .createQueryBuilder(Trade, 'trade')
+        .where('trade.marketId = :marketId', { marketId })
+        .orderBy('CAST(trade.blockNumber AS bigint)', 'ASC')
+        .addOrderBy('trade.createdAt', 'ASC')
+        .getMany();
+
+      const key = (userId: string, outcomeId: string) =>
+        `${userId}:${outcomeId}`;
+      const positionsByKey = new Map(
+        positions.map((p) => [key(p.userId, p.outcomeId), p]),
+      );
+      const outcomesById = new Map(outcomes.map((o) => [o.id, o]));
+
+      for (const position of positions) {
+        position.shares = '0';
+        position.costBasis = '0';
+        position.averagePrice = '0';
+        position.realizedPnl = '0';
+      }
+
+      for (const outcome of outcomes) {
+        outcome.totalShares = '0';
+        outcome.totalStaked = '0';
+      }
+
+      market.totalVolume = '0';
+      market.tradeCount = 0;
+
+      for (const trade of trades) {
+        const outcome = outcomesById.get(trade.outcomeId);
+
+        if (!outcome) {
+          this.logger.warn(
+            `Skipping trade ${trade.id}: outcome ${trade.outcomeId} not in market ${marketId}`,
+          );
+          continue;
+        }
+
+        let position = positionsByKey.get(key(trade.userId, trade.outcomeId));
+
+        if (!position) {
+          position = this.createPosition(manager, trade);
+          positionsByKey.set(key(trade.userId, trade.outcomeId), position);
+        }
+
+        this.applyFill(position, trade);
+        this.applyTotals(market, outcome, trade);
+      }
+
+      market.participantCount = new Set(trades.map((t) => t.userId)).size;
+      applyOutcomeProbabilities(outcomes);
+
+      // Claims and refunds come after trading ends; replay the recorded payouts
+      for (const position of positionsByKey.values()) {
+        if (position.claimed) {
+          this.settle(position, parseFloat(position.claimedAmount ?? '0'));
+        } else if (position.refunded) {
+          this.settle(position, parseFloat(position.refundedAmount ?? '0'));
+        }
+      }
+
+      await manager.save([...positionsByKey.values()]);
+      await manager.save(outcomes);
+      await manager.save(market);
+
+      return {
+        marketId,
+        trades: trades.length,
+        positions: positionsByKey.size,
+        participantCount: market.participantCount,
+      };
+    });
+  }
+
+  /**
+   * Undo trades mined above a block and reopen positions closed there, then rebuild the markets,
+   * all in one transaction nested in the caller's when one is given
+   */
+  async revertAfterBlock(
+    blockNumber: number,
+    closes: RevertedPositionClose[],
+    parent?: EntityManager,
+  ): Promise<PositionRebuildResult[]> {
+    const entityManager = parent ?? this.marketRepository.manager;
+
+    const results = await entityManager.transaction(async (manager) => {
+      const trades = await manager
+        .createQueryBuilder(Trade, 'trade')
+        .where('CAST(trade.blockNumber AS bigint) > :blockNumber', {
+          blockNumber,
+        })
+        .getMany();
+      const tradeIds = trades.map((t) => t.id);
+
+      if (tradeIds.length > 0) {
+        await manager.delete(ProbabilitySnapshot, { tradeId: In(tradeIds) });
+        await manager.delete(MarketActivity, { referenceId: In(tradeIds) });
+        await manager.delete(Trade, { id: In(tradeIds) });
+      }
+
+      for (const close of closes) {
+        const where = {
+          marketId: close.marketId,
+          walletAddress: close.walletAddress.toLowerCase(),
+        };
+
+        if (close.kind === 'claim') {
+          await manager.update(Position, where, {
+            claimed: false,
+            claimedAmount: null,
+            claimedAt: null,
+          });
+        } else {
+          await manager.update(Position, where, {
+            refunded: false,
+            refundedAmount: null,
+            refundedAt: null,
+          });
+        }
+      }
+
+      const marketIds = new Set([
+        ...trades.map((t) => t.marketId),
+        ...closes.map((c) => c.marketId),
+      ]);
+      const rebuilt: PositionRebuildResult[] = [];
+
+      for (const marketId of marketIds) {
+        rebuilt.push(await this.rebuildMarket(marketId, manager));
+      }
+
+      return rebuilt;
+    });
+
+    this.logger.warn(
+      `Reverted trades above block ${blockNumber} in ${results.length} markets`,
+    );
+
+    return results;
+  }
+
+  /**
+   * Rebuild positions for every market, one transaction per market
+   */
+  async rebuildAll(): Promise<PositionRebuildResult[]> {
+    const markets = await this.marketRepository.find({
+      select: ['id'],
+      order: { createdAt: 'ASC' },
+    });
+    const results: PositionRebuildResult[] = [];
+
+    for (const market of markets) {
+      results.push(await this.rebuildMarket(market.id));
+    }
+
+    this.logger.log(`Rebuilt positions for ${results.length} markets`);
+
+    return results;
+  }
+
+  /**
+   * Helper: Empty position for the trader and outcome of a trade
+   */
+  private createPosition(manager: EntityManager, trade: Trade): Position {
+    return manager.create(Position, {
+      marketId: trade.marketId,
+      userId: trade.userId,
+      outcomeId: trade.outcomeId,
+      walletAddress: trade.walletAddress,
+      shares: '0',
+      costBasis: '0',
+      averagePrice: '0',
+      realizedPnl: '0',
+    });
+  }
+
+  /**
+   * Helper: Apply a fill to a position at weighted-average cost
+   */
+  private applyFill(position: Position, trade: Trade) {
+    const held = parseFloat(position.shares);
+    const costBasis = parseFloat(position.costBasis);
+    const shares = parseFloat(trade.shares);
+    const amount = parseFloat(trade.amount);
+
+    if (trade.action === TradeAction.BUY) {
+      // Fees are part of what the shares cost
+      const newShares = held + shares;
+      const newCostBasis = costBasis + amount;
+
+      position.shares = newShares.toFixed(6);
+      position.costBasis = newCostBasis.toFixed(6);
+      position.averagePrice =
+        newShares > 0 ? (newCostBasis / newShares).toFixed(6) : '0';
+      return;
+    }
+
+    // Sold shares leave at the average cost; the payout is net of fees
+    const sold = Math.min(shares, held);
+    const soldCostBasis = parseFloat(position.averagePrice) * sold;
+    const payout = amount - parseFloat(trade.fee);
+    const remaining = held - sold;
+
+    position.realizedPnl = (
+      parseFloat(position.realizedPnl) +
+      payout -
+      soldCostBasis
+    ).toFixed(6);
+    position.shares = remaining.toFixed(6);
+
+    if (remaining > 0) {
+      position.costBasis = Math.max(costBasis - soldCostBasis, 0).toFixed(6);
+    } else {
+      position.costBasis = '0';
+      position.averagePrice = '0';
+    }
+  }
+
+  /**
+   * Helper: Add a trade to the market and outcome totals
+   */
+  private applyTotals(market: Market, outcome: Outcome, trade: Trade) {
+    const shares = parseFloat(trade.shares);
+    const amount = parseFloat(trade.amount);
+    const sign = trade.action === TradeAction.BUY ? 1 : -1;
+
+    market.totalVolume = (parseFloat(market.totalVolume) + amount).toFixed(6);
+    market.tradeCount += 1;
+
+    outcome.totalShares = Math.max(
+      parseFloat(outcome.totalShares) + sign * shares,
+      0,
+    ).toFixed(6);
+    outcome.totalStaked = Math.max(
+      parseFloat(outcome.totalStaked) + sign * amount,
+      0,
+    ).toFixed(6);
+  }
+
+  /**
+   * Helper: Close a position at the given value, realizing the rest of its PnL
+   */
+  private settle(position: Position, value: number) {
+    position.realizedPnl = (
+      parseFloat(position.realizedPnl) +
+      value -
+      parseFloat(position.costBasis)
+    ).toFixed(6);
+    position.shares = '0';
+    position.costBasis = '0';
+    position.averagePrice = '0';
+  }
+
+  /**
+   * Helper: Relative payout of a position, as claimWinnings computes it
+   */
+  private payoutWeight(
+    market: Market,
+    outcomes: Outcome[],
+  ): (position: Position) => number {
+    const outcomesById = new Map(outcomes.map((o) => [o.id, o]));
+
+    if (!isScalarMarket(market)) {
+      return (p) =>
+        outcomesById.get(p.outcomeId)?.outcomeIndex ===
+        market.winningOutcomeIndex
+          ? parseFloat(p.shares)
+          : 0;
+    }
+
+    // Each side splits its part of the pool across its shares
+    const longShare = scalarLongPayoutShare(
+      market,
+      parseFloat(market.resolvedValue ?? '0'),
+    );
+
+    return (p) => {
+      const outcome = outcomesById.get(p.outcomeId);
+      const sideShares = parseFloat(outcome?.totalShares ?? '0');
+
+      if (!outcome || sideShares <= 0) {
+        return 0;
+      }
+
+      const sideShare =
+        outcome.outcomeIndex === SCALAR_LONG_INDEX ? longShare : 1 - longShare;
+
+      return (parseFloat(p.shares) * sideShare) / sideShares;
+    };
+  }
+
+  /**
+   * Helper: Split an amount across positions in proportion to their weights
+   */
+  private allocate(
+    amount: number,
+    positions: Position[],
+    weight: (position: Position) => number,
+  ): number[] {
+    const weights = positions.map(weight);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+
+    if (total <= 0) {
+      return positions.map((_, i) => (i === 0 ? amount : 0));
+    }
+
+    return weights.map((w) => (amount * w) / total);
+  }
+}
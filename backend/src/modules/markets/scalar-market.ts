@@ -0,0 +1,47 @@
+import { ethers } from 'ethers';
+import { Market } from '../../database/entities/market.entity';
+import { MarketType } from '../../database/enums';
+
+/**
+ * Position outcomes of scalar markets, mirrored from OpinionMarket.sol
+ */
+export const SCALAR_SHORT_INDEX = 0;
+export const SCALAR_LONG_INDEX = 1;
+export const SCALAR_OUTCOME_TEXTS = ['Short', 'Long'];
+
+/**
+ * Whether a market pays out on a numeric value instead of a winning outcome
+ */
+export function isScalarMarket(market: Market): boolean {
+  return market.marketType === MarketType.SCALAR;
+}
+
+/**
+ * Value the market expects, interpolated from the long side's probability (%)
+ */
+export function impliedScalarValue(
+  market: Market,
+  longProbability: number,
+): number {
+  const lower = parseFloat(market.scalarLowerBound ?? '0');
+  const upper = parseFloat(market.scalarUpperBound ?? '0');
+
+  return parseFloat(
+    (lower + ((upper - lower) * longProbability) / 100).toFixed(6),
+  );
+}
+
+/**
+ * Share of the pool (0-1) paid to long holders, as computed by resolveScalarMarket
+ */
+export function scalarLongPayoutShare(market: Market, value: number): number {
+  // Same fixed-point math as the contract, which rounds down to basis points
+  const lower = ethers.parseUnits(market.scalarLowerBound ?? '0', 6);
+  const upper = ethers.parseUnits(market.scalarUpperBound ?? '0', 6);
+  let clamped = ethers.parseUnits(value.toFixed(6), 6);
+
+  if (clamped < lower) clamped = lower;
+  if (clamped > upper) clamped = upper;
+
+  return Number(((clamped - lower) * BigInt(10000)) / (upper - lower)) / 10000;
+}
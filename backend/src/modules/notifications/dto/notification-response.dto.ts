@@ -7,6 +7,15 @@ export enum NotificationType {
   SHARE_UNLOCKED = 'SHARE_UNLOCKED',
   CREATOR_APPROVED = 'CREATOR_APPROVED',
   TRADE_SETTLED = 'TRADE_SETTLED',
+  DISPUTE_OPENED = 'DISPUTE_OPENED',
+  DISPUTE_UPHELD = 'DISPUTE_UPHELD',
+  DISPUTE_OVERTURNED = 'DISPUTE_OVERTURNED',
+  LIMIT_ORDER_TRIGGERED = 'LIMIT_ORDER_TRIGGERED',
+  MARKET_APPROVED = 'MARKET_APPROVED',
+  MARKET_REJECTED = 'MARKET_REJECTED',
+  LIQUIDITY_SEED_READY = 'LIQUIDITY_SEED_READY',
+  MARKET_CANCELLED = 'MARKET_CANCELLED',
+  RESOLUTION_OVERDUE = 'RESOLUTION_OVERDUE',
 }
 
 export class NotificationDto {
@@ -72,9 +72,9 @@ export class NotificationsController {
   ): Promise<NotificationListResponseDto> {
     return this.notificationsService.getNotifications(
       req.session.userId,
-      unreadOnly || false,
-      page || 1,
-      limit || 20,
+      String(unreadOnly) === 'true', // Query params arrive as strings
+      Number(page) || 1,
+      Number(limit) || 20,
     );
   }
 
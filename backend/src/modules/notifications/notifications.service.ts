@@ -1,4 +1,8 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification } from '../../database/entities/notification.entity';
+import { User } from '../../database/entities/user.entity';
 import {
   NotificationListResponseDto,
   NotificationDto,
@@ -11,6 +15,13 @@ import {
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
 
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
   /**
    * Get user notifications
    */
@@ -20,27 +31,97 @@ export class NotificationsService {
     page: number = 1,
     limit: number = 20,
   ): Promise<NotificationListResponseDto> {
-    // Placeholder implementation
-    // In production, this would query a notifications database table
-    const notifications: NotificationDto[] = [];
+    const [notifications, total] =
+      await this.notificationRepository.findAndCount({
+        where: unreadOnly ? { userId, read: false } : { userId },
+        order: { createdAt: 'DESC' },
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+
+    const unreadCount = await this.notificationRepository.count({
+      where: { userId, read: false },
+    });
 
     return {
-      notifications,
-      unreadCount: 0,
+      notifications: notifications.map((notification) =>
+        this.mapToResponseDto(notification),
+      ),
+      unreadCount,
       pagination: {
         page,
         limit,
-        total: 0,
+        total,
       },
     };
   }
 
+  /**
+   * Send the same notification to each of the given users
+   */
+  async notify(
+    userIds: string[],
+    type: NotificationType,
+    title: string,
+    message: string,
+    data?: Record<string, unknown>,
+  ): Promise<void> {
+    const recipients = [...new Set(userIds)];
+
+    if (recipients.length === 0) {
+      return;
+    }
+
+    await this.notificationRepository.save(
+      recipients.map((userId) =>
+        this.notificationRepository.create({
+          userId,
+          type,
+          title,
+          message,
+          data: data ?? null,
+        }),
+      ),
+    );
+
+    this.logger.log(`Sent ${type} notification to ${recipients.length} users`);
+  }
+
+  /**
+   * Send a notification to every admin user
+   */
+  async notifyAdmins(
+    type: NotificationType,
+    title: string,
+    message: string,
+    data?: Record<string, unknown>,
+  ): Promise<void> {
+    const admins = await this.userRepository.find({
+      select: { id: true },
+      where: { isAdmin: true },
+    });
+
+    await this.notify(
+      admins.map((admin) => admin.id),
+      type,
+      title,
+      message,
+      data,
+    );
+  }
+
   /**
    * Mark notification as read
    */
   async markAsRead(notificationId: string, userId: string): Promise<MarkReadResponseDto> {
-    // Placeholder implementation
-    this.logger.log(`Marking notification ${notificationId} as read for user ${userId}`);
+    const result = await this.notificationRepository.update(
+      { id: notificationId, userId },
+      { read: true },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('Notification not found');
+    }
 
     return {
       success: true,
@@ -51,12 +132,14 @@ export class NotificationsService {
    * Mark all notifications as read
    */
   async markAllAsRead(userId: string): Promise<MarkAllReadResponseDto> {
-    // Placeholder implementation
-    this.logger.log(`Marking all notifications as read for user ${userId}`);
+    const result = await this.notificationRepository.update(
+      { userId, read: false },
+      { read: true },
+    );
 
     return {
       success: true,
-      markedCount: 0,
+      markedCount: result.affected ?? 0,
     };
   }
 
@@ -64,11 +147,32 @@ export class NotificationsService {
    * Delete notification
    */
   async deleteNotification(notificationId: string, userId: string): Promise<MarkReadResponseDto> {
-    // Placeholder implementation
-    this.logger.log(`Deleting notification ${notificationId} for user ${userId}`);
+    const result = await this.notificationRepository.delete({
+      id: notificationId,
+      userId,
+    });
+
+    if (!result.affected) {
+      throw new NotFoundException('Notification not found');
+    }
 
     return {
       success: true,
     };
   }
+
+  /**
+   * Helper: Map entity to response DTO
+   */
+  private mapToResponseDto(notification: Notification): NotificationDto {
+    return {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      read: notification.read,
+      createdAt: notification.createdAt.toISOString(),
+    };
+  }
 }
@@ -3,14 +3,25 @@ import {
   NotFoundException,
   BadRequestException,
   Logger,
+  OnModuleInit,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between, MoreThan, LessThan } from 'typeorm';
+import {
+  Repository,
+  Between,
+  MoreThan,
+  LessThan,
+  In,
+  EntityManager,
+} from 'typeorm';
 import { Creator } from '../../database/entities/creator.entity';
 import { CreatorShare } from '../../database/entities/creator-share.entity';
 import { ShareTransaction } from '../../database/entities/share-transaction.entity';
+import { ProcessedLog } from '../../database/entities/processed-log.entity';
 import { CreatorShareService } from '../../contracts/creator-share.service';
 import { ContractsService } from '../../contracts/contracts.service';
+import { EventIndexerService } from '../../contracts/event-indexer.service';
+import { TransactionType } from '../../database/enums';
 import {
   SharePriceResponseDto,
   SharePriceQueryDto,
@@ -33,7 +44,7 @@ import {
 } from './dto';
 
 @Injectable()
-export class SharesService {
+export class SharesService implements OnModuleInit {
   private readonly logger = new Logger(SharesService.name);
 
   constructor(
@@ -45,8 +56,17 @@ export class SharesService {
     private readonly shareTransactionRepository: Repository<ShareTransaction>,
     private readonly creatorShareService: CreatorShareService,
     private readonly contractsService: ContractsService,
+    private readonly eventIndexerService: EventIndexerService,
   ) {}
 
+  onModuleInit() {
+    this.eventIndexerService.onReorg(
+      async (forkBlock, revertedLogs, manager) => {
+        await this.revertAfterBlock(forkBlock, revertedLogs, manager);
+      },
+    );
+  }
+
   /**
    * Get share price quote (buy or sell)
    */
@@ -492,8 +512,137 @@ export class SharesService {
     };
   }
 
+  /**
+   * Undo share trades whose logs a reorg dropped and recompute the affected holdings.
+   * Rows recorded outside the indexer are kept, as nothing would record them again.
+   */
+  async revertAfterBlock(
+    blockNumber: number,
+    revertedLogs: ProcessedLog[],
+    parent?: EntityManager,
+  ): Promise<number> {
+    // OpinionMarket emits SharesSold for market trades too
+    const opinionMarket = this.contractsService
+      .getConfig()
+      .contracts.opinionMarket.toLowerCase();
+    const txHashes = [
+      ...new Set(
+        revertedLogs
+          .filter(
+            (log) =>
+              log.contractAddress !== opinionMarket &&
+              (log.eventName === 'SharesPurchased' ||
+                log.eventName === 'SharesSold'),
+          )
+          .map((log) => log.txHash),
+      ),
+    ];
+
+    if (txHashes.length === 0) {
+      return 0;
+    }
+
+    const entityManager = parent ?? this.shareTransactionRepository.manager;
+
+    return entityManager.transaction(async (manager) => {
+      const reverted = await manager.find(ShareTransaction, {
+        where: { txHash: In(txHashes) },
+      });
+
+      if (reverted.length === 0) {
+        return 0;
+      }
+
+      await manager.remove(reverted);
+
+      const holders = new Map<string, { creatorId: string; address: string }>();
+
+      for (const tx of reverted) {
+        const address =
+          tx.transactionType === TransactionType.BUY
+            ? tx.buyerAddress
+            : tx.sellerAddress;
+
+        if (address) {
+          holders.set(`${tx.creatorId}:${address.toLowerCase()}`, {
+            creatorId: tx.creatorId,
+            address: address.toLowerCase(),
+          });
+        }
+      }
+
+      for (const { creatorId, address } of holders.values()) {
+        await this.rebuildHolding(manager, creatorId, address);
+      }
+
+      this.logger.warn(
+        `Reverted ${reverted.length} share transactions above block ${blockNumber}`,
+      );
+
+      return reverted.length;
+    });
+  }
+
   // Helper methods
 
+  /**
+   * Helper: Recompute a holding from its remaining transactions at average cost
+   */
+  private async rebuildHolding(
+    manager: EntityManager,
+    creatorId: string,
+    address: string,
+  ) {
+    const transactions = await manager
+      .createQueryBuilder(ShareTransaction, 'tx')
+      .where('tx.creatorId = :creatorId', { creatorId })
+      .andWhere(
+        '(LOWER(tx.buyerAddress) = :address OR LOWER(tx.sellerAddress) = :address)',
+        { address },
+      )
+      .orderBy('tx.timestamp', 'ASC')
+      .getMany();
+    let sharesHeld = 0;
+    let totalInvested = 0;
+
+    for (const tx of transactions) {
+      if (
+        tx.transactionType === TransactionType.BUY &&
+        tx.buyerAddress?.toLowerCase() === address
+      ) {
+        sharesHeld += tx.shares;
+        totalInvested += Number(tx.totalAmount);
+      } else if (tx.sellerAddress?.toLowerCase() === address) {
+        const sold = Math.min(tx.shares, sharesHeld);
+
+        totalInvested -=
+          sharesHeld > 0 ? (totalInvested * sold) / sharesHeld : 0;
+        sharesHeld -= sold;
+      }
+    }
+
+    const holding = await manager.findOne(CreatorShare, {
+      where: { creatorId, holderAddress: address },
+    });
+
+    if (sharesHeld <= 0) {
+      if (holding) {
+        await manager.remove(holding);
+      }
+      return;
+    }
+
+    await manager.save(
+      manager.merge(CreatorShare, holding ?? manager.create(CreatorShare), {
+        creatorId,
+        holderAddress: address,
+        sharesHeld,
+        totalInvested,
+        averageBuyPrice: totalInvested / sharesHeld,
+      }),
+    );
+  }
+
   private calculatePriceImpact(
     currentSupply: bigint,
     newSupply: bigint,
@@ -7,11 +7,16 @@ import { UserPortfolioResponseDto } from './dto/user-portfolio-response.dto';
 import { UserActivityResponseDto } from './dto/user-activity-response.dto';
 import { UserSearchResponseDto } from './dto/user-search-response.dto';
 import { AuthGuard } from '../auth/guards/auth.guard';
+import { MarketWatchlistService } from '../markets/market-watchlist.service';
+import { WatchlistQueryDto, WatchlistResponseDto } from '../markets/dto';
 
 @ApiTags('Users')
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly marketWatchlistService: MarketWatchlistService,
+  ) {}
 
   /**
    * GET /users/me - Get current user profile
@@ -42,6 +47,22 @@ export class UsersController {
     return this.usersService.updateUser(req.session.userId, updateDto);
   }
 
+  /**
+   * GET /users/me/watchlist - Get watched markets and markets by followed creators
+   */
+  @Get('me/watchlist')
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get your watchlist feed',
+    description: 'Markets you watch and markets created by creators you follow, newest first',
+  })
+  @ApiResponse({ status: 200, description: 'Watchlist retrieved', type: WatchlistResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getWatchlist(@Req() req: any, @Query() query: WatchlistQueryDto): Promise<WatchlistResponseDto> {
+    return this.marketWatchlistService.getWatchlist(req.user.userId, query);
+  }
+
   /**
    * GET /users/id/:id - Get user by ID
    */
@@ -9,6 +9,7 @@ import { Position } from '../../database/entities/position.entity';
 import { Trade } from '../../database/entities/trade.entity';
 import { Market } from '../../database/entities/market.entity';
 import { AuthModule } from '../auth/auth.module';
+import { MarketsModule } from '../markets/markets.module';
 
 @Module({
   imports: [
@@ -21,6 +22,7 @@ import { AuthModule } from '../auth/auth.module';
       Market,
     ]),
     AuthModule,
+    MarketsModule,
   ],
   controllers: [UsersController],
   providers: [UsersService],
@@ -0,0 +1,44 @@
+import { readFileSync } from 'fs';
+import { OracleDataSource, SportsEventResult } from './oracle-data-source';
+
+export interface OracleFixtures {
+  prices?: Record<string, { timestamp: string; price: number }[]>;
+  sportsEvents?: Record<string, SportsEventResult>;
+  followers?: Record<string, number>;
+}
+
+/**
+ * Oracle data source backed by local fixture data, for tests and local runs
+ */
+export class FixtureOracleDataSource implements OracleDataSource {
+  constructor(private readonly fixtures: OracleFixtures) {}
+
+  static fromFile(path: string): FixtureOracleDataSource {
+    return new FixtureOracleDataSource(
+      JSON.parse(readFileSync(path, 'utf8')) as OracleFixtures,
+    );
+  }
+
+  getPrice(asset: string, at: Date): Promise<number | null> {
+    const points = (this.fixtures.prices?.[asset] ?? [])
+      .filter((point) => new Date(point.timestamp).getTime() <= at.getTime())
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+      );
+
+    return Promise.resolve(
+      points.length > 0 ? points[points.length - 1].price : null,
+    );
+  }
+
+  getEventResult(eventId: string): Promise<SportsEventResult | null> {
+    return Promise.resolve(this.fixtures.sportsEvents?.[eventId] ?? null);
+  }
+
+  getFollowerCount(handle: string): Promise<number | null> {
+    return Promise.resolve(
+      this.fixtures.followers?.[handle.replace(/^@/, '')] ?? null,
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OracleConfig } from '../config/oracle.config';
+import { OracleDataSource, SportsEventResult } from './oracle-data-source';
+
+// TheSportsDB statuses of events that are over
+const FINAL_EVENT_STATUSES = ['FT', 'AET', 'PEN', 'Match Finished'];
+
+/**
+ * Oracle data source backed by CoinGecko, TheSportsDB and the Twitter API
+ */
+@Injectable()
+export class HttpOracleDataSource implements OracleDataSource {
+  private readonly logger = new Logger(HttpOracleDataSource.name);
+  private readonly config: OracleConfig;
+  private readonly twitterBearerToken: string;
+
+  constructor(private readonly configService: ConfigService) {
+    const config = this.configService.get<OracleConfig>('oracle');
+    if (!config) {
+      throw new Error('Oracle configuration is missing');
+    }
+    this.config = config;
+    this.twitterBearerToken =
+      this.configService.get<string>('twitter.bearerToken') || '';
+  }
+
+  async getPrice(asset: string, at: Date): Promise<number | null> {
+    // Look back one hour so the last point before `at` is always included
+    const to = Math.floor(at.getTime() / 1000);
+    const from = to - 60 * 60;
+    const url = `${this.config.priceApiUrl}/coins/${encodeURIComponent(asset)}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`;
+
+    const data = await this.fetchJson<{ prices?: [number, number][] }>(url);
+    const prices = data?.prices ?? [];
+
+    return prices.length > 0 ? prices[prices.length - 1][1] : null;
+  }
+
+  async getEventResult(eventId: string): Promise<SportsEventResult | null> {
+    const url = `${this.config.sportsApiUrl}/${this.config.sportsApiKey}/lookupevent.php?id=${encodeURIComponent(eventId)}`;
+
+    const data = await this.fetchJson<{
+      events?: {
+        intHomeScore: string | null;
+        intAwayScore: string | null;
+        strStatus: string | null;
+      }[];
+    }>(url);
+    const event = data?.events?.[0];
+
+    if (!event || event.intHomeScore === null || event.intAwayScore === null) {
+      return null;
+    }
+
+    return {
+      homeScore: parseInt(event.intHomeScore, 10),
+      awayScore: parseInt(event.intAwayScore, 10),
+      final: FINAL_EVENT_STATUSES.includes(event.strStatus ?? ''),
+    };
+  }
+
+  async getFollowerCount(handle: string): Promise<number | null> {
+    if (!this.twitterBearerToken) {
+      this.logger.warn('TWITTER_BEARER_TOKEN not set, cannot read followers');
+      return null;
+    }
+
+    const username = handle.replace(/^@/, '');
+    const url = `https://api.twitter.com/2/users/by/username/${encodeURIComponent(username)}?user.fields=public_metrics`;
+
+    const data = await this.fetchJson<{
+      data?: { public_metrics?: { followers_count: number } };
+    }>(url, { Authorization: `Bearer ${this.twitterBearerToken}` });
+
+    return data?.data?.public_metrics?.followers_count ?? null;
+  }
+
+  /**
+   * Helper: GET a JSON document, returning null on HTTP errors
+   */
+  private async fetchJson<T>(
+    url: string,
+    headers: Record<string, string> = {},
+  ): Promise<T | null> {
+    try {
+      const response = await fetch(url, { headers });
+
+      if (!response.ok) {
+        this.logger.warn(
+          `Oracle request failed (${response.status}): ${this.redactUrl(url)}`,
+        );
+        return null;
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      this.logger.error(`Oracle request error: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Helper: Host and path of a request URL for logs, without the query or API keys
+   */
+  private redactUrl(url: string): string {
+    const { host, pathname } = new URL(url);
+
+    return `${host}${pathname.replace(`/${this.config.sportsApiKey}/`, '/***/')}`;
+  }
+}
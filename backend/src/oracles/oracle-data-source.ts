@@ -0,0 +1,31 @@
+export const ORACLE_DATA_SOURCE = 'ORACLE_DATA_SOURCE';
+
+export interface SportsEventResult {
+  homeScore: number;
+  awayScore: number;
+  final: boolean;
+}
+
+/**
+ * External data the resolver adapters read from
+ */
+export interface OracleDataSource {
+  /**
+   * Last known USD price of an asset at or before the given time
+   * @param asset - Asset identifier (CoinGecko coin id, e.g. "bitcoin")
+   * @param at - Observation time
+   */
+  getPrice(asset: string, at: Date): Promise<number | null>;
+
+  /**
+   * Current score of a sports event
+   * @param eventId - Event identifier of the sports data provider
+   */
+  getEventResult(eventId: string): Promise<SportsEventResult | null>;
+
+  /**
+   * Current follower count of a Twitter account
+   * @param handle - Twitter handle, with or without "@"
+   */
+  getFollowerCount(handle: string): Promise<number | null>;
+}
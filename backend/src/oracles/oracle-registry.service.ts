@@ -0,0 +1,87 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ResolverType } from '../database/enums';
+import {
+  OracleMarketContext,
+  OracleResolution,
+  OracleResolver,
+} from './resolvers/oracle-resolver.interface';
+import { PriceThresholdResolver } from './resolvers/price-threshold.resolver';
+import { SportsScoreResolver } from './resolvers/sports-score.resolver';
+import { TwitterFollowersResolver } from './resolvers/twitter-followers.resolver';
+
+@Injectable()
+export class OracleRegistryService {
+  private readonly resolvers = new Map<ResolverType, OracleResolver>();
+
+  constructor(
+    priceThresholdResolver: PriceThresholdResolver,
+    sportsScoreResolver: SportsScoreResolver,
+    twitterFollowersResolver: TwitterFollowersResolver,
+  ) {
+    for (const resolver of [
+      priceThresholdResolver,
+      sportsScoreResolver,
+      twitterFollowersResolver,
+    ]) {
+      this.resolvers.set(resolver.type, resolver);
+    }
+  }
+
+  /**
+   * Get the adapter for a resolver type
+   * @param type - Resolver type declared by the market
+   */
+  getResolver(type: ResolverType): OracleResolver {
+    const resolver = this.resolvers.get(type);
+    if (!resolver) {
+      throw new BadRequestException(`Unsupported resolver type: ${type}`);
+    }
+    return resolver;
+  }
+
+  /**
+   * Validate resolver parameters for a new market
+   * @param type - Resolver type
+   * @param params - Resolver parameters
+   * @param outcomeCount - Number of market outcomes
+   */
+  validateParams(
+    type: ResolverType,
+    params: Record<string, unknown>,
+    outcomeCount: number,
+  ): void {
+    const errors = this.getResolver(type).validateParams(params, outcomeCount);
+
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid ${type} resolver params: ${errors.join('; ')}`,
+      );
+    }
+  }
+
+  /**
+   * Ask a market's resolver for its winning outcome
+   * @param type - Resolver type
+   * @param market - Market end time and outcome count
+   * @param params - Resolver parameters
+   */
+  async resolve(
+    type: ResolverType,
+    market: OracleMarketContext,
+    params: Record<string, unknown>,
+  ): Promise<OracleResolution | null> {
+    const resolution = await this.getResolver(type).resolve(market, params);
+
+    if (
+      resolution &&
+      (resolution.outcomeIndex < 0 ||
+        resolution.outcomeIndex >= market.outcomeCount)
+    ) {
+      throw new Error(
+        `${type} resolver proposed invalid outcome ${resolution.outcomeIndex}`,
+      );
+    }
+
+    return resolution;
+  }
+}
@@ -0,0 +1,187 @@
+import { join } from 'path';
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ResolverType } from '../database/enums';
+import { ORACLE_DATA_SOURCE } from './oracle-data-source';
+import { FixtureOracleDataSource } from './fixture-oracle-data-source';
+import { OracleRegistryService } from './oracle-registry.service';
+import { PriceThresholdResolver } from './resolvers/price-threshold.resolver';
+import { SportsScoreResolver } from './resolvers/sports-score.resolver';
+import { TwitterFollowersResolver } from './resolvers/twitter-followers.resolver';
+
+describe('Oracle resolvers', () => {
+  let registry: OracleRegistryService;
+
+  const binaryMarket = (endTime: string) => ({
+    endTime: new Date(endTime),
+    outcomeCount: 2,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        {
+          provide: ORACLE_DATA_SOURCE,
+          useValue: FixtureOracleDataSource.fromFile(
+            join(__dirname, 'fixtures', 'oracle-fixtures.json'),
+          ),
+        },
+        PriceThresholdResolver,
+        SportsScoreResolver,
+        TwitterFollowersResolver,
+        OracleRegistryService,
+      ],
+    }).compile();
+
+    registry = module.get<OracleRegistryService>(OracleRegistryService);
+  });
+
+  describe('price_threshold', () => {
+    it('should pick outcome 0 when the price at market end is above the threshold', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.PRICE_THRESHOLD,
+        binaryMarket('2025-06-01T18:00:00.000Z'),
+        { asset: 'bitcoin', threshold: 100000 },
+      );
+
+      expect(resolution?.outcomeIndex).toBe(0);
+      expect(resolution?.evidence.price).toBe(101250.5);
+    });
+
+    it('should pick outcome 1 when the price is below the threshold', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.PRICE_THRESHOLD,
+        binaryMarket('2025-06-02T06:00:00.000Z'),
+        { asset: 'bitcoin', threshold: 100000 },
+      );
+
+      expect(resolution?.outcomeIndex).toBe(1);
+    });
+
+    it('should support "below" thresholds', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.PRICE_THRESHOLD,
+        binaryMarket('2025-06-01T12:00:00.000Z'),
+        { asset: 'ethereum', threshold: 3500, direction: 'below' },
+      );
+
+      expect(resolution?.outcomeIndex).toBe(0);
+    });
+
+    it('should wait for price data', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.PRICE_THRESHOLD,
+        binaryMarket('2025-05-01T00:00:00.000Z'),
+        { asset: 'bitcoin', threshold: 100000 },
+      );
+
+      expect(resolution).toBeNull();
+    });
+
+    it('should reject invalid params', () => {
+      expect(() =>
+        registry.validateParams(
+          ResolverType.PRICE_THRESHOLD,
+          { asset: '', threshold: -1 },
+          3,
+        ),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('sports_score', () => {
+    const params = { homeOutcome: 0, awayOutcome: 1, drawOutcome: 2 };
+    const market = {
+      endTime: new Date('2025-06-01T00:00:00.000Z'),
+      outcomeCount: 3,
+    };
+
+    it('should map a home win to the home outcome', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.SPORTS_SCORE,
+        market,
+        { ...params, eventId: '2052711' },
+      );
+
+      expect(resolution?.outcomeIndex).toBe(0);
+      expect(resolution?.evidence).toEqual({
+        eventId: '2052711',
+        homeScore: 2,
+        awayScore: 1,
+      });
+    });
+
+    it('should map a draw to the draw outcome', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.SPORTS_SCORE,
+        market,
+        { ...params, eventId: '2052712' },
+      );
+
+      expect(resolution?.outcomeIndex).toBe(2);
+    });
+
+    it('should leave a draw without a draw outcome unresolved', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.SPORTS_SCORE,
+        binaryMarket('2025-06-01T00:00:00.000Z'),
+        { eventId: '2052712', homeOutcome: 0, awayOutcome: 1 },
+      );
+
+      expect(resolution).toBeNull();
+    });
+
+    it('should wait for the final score', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.SPORTS_SCORE,
+        market,
+        { ...params, eventId: '2052713' },
+      );
+
+      expect(resolution).toBeNull();
+    });
+
+    it('should reject duplicate outcome indexes', () => {
+      expect(() =>
+        registry.validateParams(
+          ResolverType.SPORTS_SCORE,
+          { eventId: '2052711', homeOutcome: 0, awayOutcome: 0 },
+          2,
+        ),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('twitter_followers', () => {
+    it('should pick outcome 0 when the account reached the threshold', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.TWITTER_FOLLOWERS,
+        binaryMarket('2025-06-01T00:00:00.000Z'),
+        { handle: '@guessly', threshold: 10000 },
+      );
+
+      expect(resolution?.outcomeIndex).toBe(0);
+      expect(resolution?.evidence.followers).toBe(15230);
+    });
+
+    it('should pick outcome 1 below the threshold', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.TWITTER_FOLLOWERS,
+        binaryMarket('2025-06-01T00:00:00.000Z'),
+        { handle: 'newcomer', threshold: 1000 },
+      );
+
+      expect(resolution?.outcomeIndex).toBe(1);
+    });
+
+    it('should not resolve before the market ends', async () => {
+      const resolution = await registry.resolve(
+        ResolverType.TWITTER_FOLLOWERS,
+        binaryMarket(new Date(Date.now() + 60 * 60 * 1000).toISOString()),
+        { handle: 'guessly', threshold: 10000 },
+      );
+
+      expect(resolution).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { OracleConfig } from '../config/oracle.config';
+import { ORACLE_DATA_SOURCE } from './oracle-data-source';
+import { HttpOracleDataSource } from './http-oracle-data-source';
+import { FixtureOracleDataSource } from './fixture-oracle-data-source';
+import { OracleRegistryService } from './oracle-registry.service';
+import { PriceThresholdResolver } from './resolvers/price-threshold.resolver';
+import { SportsScoreResolver } from './resolvers/sports-score.resolver';
+import { TwitterFollowersResolver } from './resolvers/twitter-followers.resolver';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: ORACLE_DATA_SOURCE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const fixturesPath =
+          configService.get<OracleConfig>('oracle')?.fixturesPath;
+        return fixturesPath
+          ? FixtureOracleDataSource.fromFile(fixturesPath)
+          : new HttpOracleDataSource(configService);
+      },
+    },
+    PriceThresholdResolver,
+    SportsScoreResolver,
+    TwitterFollowersResolver,
+    OracleRegistryService,
+  ],
+  exports: [OracleRegistryService],
+})
+export class OraclesModule {}
@@ -0,0 +1,36 @@
+import { ResolverType } from '../../database/enums';
+
+export interface OracleMarketContext {
+  endTime: Date;
+  outcomeCount: number;
+}
+
+export interface OracleResolution {
+  outcomeIndex: number;
+  evidence: Record<string, unknown>; // Observed data backing the proposal
+}
+
+/**
+ * Adapter that derives a market's winning outcome from external data
+ */
+export interface OracleResolver {
+  readonly type: ResolverType;
+
+  /**
+   * Check resolver parameters supplied at market creation
+   * @returns List of validation errors, empty when the parameters are valid
+   */
+  validateParams(
+    params: Record<string, unknown>,
+    outcomeCount: number,
+  ): string[];
+
+  /**
+   * Determine the winning outcome
+   * @returns The proposed outcome, or null while the data is not yet available
+   */
+  resolve(
+    market: OracleMarketContext,
+    params: Record<string, unknown>,
+  ): Promise<OracleResolution | null>;
+}
@@ -0,0 +1,87 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ResolverType } from '../../database/enums';
+import { ORACLE_DATA_SOURCE, OracleDataSource } from '../oracle-data-source';
+import {
+  OracleMarketContext,
+  OracleResolution,
+  OracleResolver,
+} from './oracle-resolver.interface';
+
+interface PriceThresholdParams {
+  asset: string;
+  threshold: number;
+  direction?: 'above' | 'below';
+}
+
+/**
+ * Binary market on an asset price at market end.
+ * Outcome 0 wins when the price is at or beyond the threshold, outcome 1 otherwise.
+ */
+@Injectable()
+export class PriceThresholdResolver implements OracleResolver {
+  readonly type = ResolverType.PRICE_THRESHOLD;
+
+  constructor(
+    @Inject(ORACLE_DATA_SOURCE)
+    private readonly dataSource: OracleDataSource,
+  ) {}
+
+  validateParams(
+    params: Record<string, unknown>,
+    outcomeCount: number,
+  ): string[] {
+    const errors: string[] = [];
+
+    if (outcomeCount !== 2) {
+      errors.push('price_threshold markets must have exactly 2 outcomes');
+    }
+    if (typeof params.asset !== 'string' || params.asset.length === 0) {
+      errors.push('asset must be a non-empty string');
+    }
+    if (typeof params.threshold !== 'number' || !(params.threshold > 0)) {
+      errors.push('threshold must be a positive number');
+    }
+    if (
+      params.direction !== undefined &&
+      params.direction !== 'above' &&
+      params.direction !== 'below'
+    ) {
+      errors.push('direction must be "above" or "below"');
+    }
+
+    return errors;
+  }
+
+  async resolve(
+    market: OracleMarketContext,
+    rawParams: Record<string, unknown>,
+  ): Promise<OracleResolution | null> {
+    if (Date.now() < market.endTime.getTime()) {
+      return null;
+    }
+
+    const params = rawParams as unknown as PriceThresholdParams;
+    const direction = params.direction ?? 'above';
+    const price = await this.dataSource.getPrice(params.asset, market.endTime);
+
+    if (price === null) {
+      return null;
+    }
+
+    const conditionMet =
+      direction === 'above'
+        ? price >= params.threshold
+        : price <= params.threshold;
+
+    return {
+      outcomeIndex: conditionMet ? 0 : 1,
+      evidence: {
+        asset: params.asset,
+        price,
+        threshold: params.threshold,
+        direction,
+        observedAt: market.endTime.toISOString(),
+      },
+    };
+  }
+}
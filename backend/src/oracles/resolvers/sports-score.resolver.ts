@@ -0,0 +1,102 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ResolverType } from '../../database/enums';
+import { ORACLE_DATA_SOURCE, OracleDataSource } from '../oracle-data-source';
+import {
+  OracleMarketContext,
+  OracleResolution,
+  OracleResolver,
+} from './oracle-resolver.interface';
+
+interface SportsScoreParams {
+  eventId: string;
+  homeOutcome: number;
+  awayOutcome: number;
+  drawOutcome?: number;
+}
+
+/**
+ * Market on the final result of a sports event.
+ * Maps a home win, away win or draw to the configured outcome indexes.
+ */
+@Injectable()
+export class SportsScoreResolver implements OracleResolver {
+  readonly type = ResolverType.SPORTS_SCORE;
+
+  constructor(
+    @Inject(ORACLE_DATA_SOURCE)
+    private readonly dataSource: OracleDataSource,
+  ) {}
+
+  validateParams(
+    params: Record<string, unknown>,
+    outcomeCount: number,
+  ): string[] {
+    const errors: string[] = [];
+
+    if (typeof params.eventId !== 'string' || params.eventId.length === 0) {
+      errors.push('eventId must be a non-empty string');
+    }
+
+    const keys = ['homeOutcome', 'awayOutcome', 'drawOutcome'];
+    const indexes: number[] = [];
+
+    for (const key of keys) {
+      const value = params[key];
+      if (value === undefined && key === 'drawOutcome') {
+        continue;
+      }
+      if (
+        typeof value !== 'number' ||
+        !Number.isInteger(value) ||
+        value < 0 ||
+        value >= outcomeCount
+      ) {
+        errors.push(`${key} must be an outcome index below ${outcomeCount}`);
+        continue;
+      }
+      indexes.push(value);
+    }
+
+    if (new Set(indexes).size !== indexes.length) {
+      errors.push('homeOutcome, awayOutcome and drawOutcome must differ');
+    }
+
+    return errors;
+  }
+
+  async resolve(
+    market: OracleMarketContext,
+    rawParams: Record<string, unknown>,
+  ): Promise<OracleResolution | null> {
+    const params = rawParams as unknown as SportsScoreParams;
+    const result = await this.dataSource.getEventResult(params.eventId);
+
+    if (!result || !result.final) {
+      return null;
+    }
+
+    let outcomeIndex: number | undefined;
+
+    if (result.homeScore > result.awayScore) {
+      outcomeIndex = params.homeOutcome;
+    } else if (result.awayScore > result.homeScore) {
+      outcomeIndex = params.awayOutcome;
+    } else {
+      outcomeIndex = params.drawOutcome;
+    }
+
+    // A draw without a draw outcome is left to manual resolution
+    if (outcomeIndex === undefined) {
+      return null;
+    }
+
+    return {
+      outcomeIndex,
+      evidence: {
+        eventId: params.eventId,
+        homeScore: result.homeScore,
+        awayScore: result.awayScore,
+      },
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ResolverType } from '../../database/enums';
+import { ORACLE_DATA_SOURCE, OracleDataSource } from '../oracle-data-source';
+import {
+  OracleMarketContext,
+  OracleResolution,
+  OracleResolver,
+} from './oracle-resolver.interface';
+
+interface TwitterFollowersParams {
+  handle: string;
+  threshold: number;
+}
+
+/**
+ * Binary market on a Twitter account's follower count once the market ends.
+ * Outcome 0 wins when the account has at least `threshold` followers, outcome 1 otherwise.
+ */
+@Injectable()
+export class TwitterFollowersResolver implements OracleResolver {
+  readonly type = ResolverType.TWITTER_FOLLOWERS;
+
+  constructor(
+    @Inject(ORACLE_DATA_SOURCE)
+    private readonly dataSource: OracleDataSource,
+  ) {}
+
+  validateParams(
+    params: Record<string, unknown>,
+    outcomeCount: number,
+  ): string[] {
+    const errors: string[] = [];
+
+    if (outcomeCount !== 2) {
+      errors.push('twitter_followers markets must have exactly 2 outcomes');
+    }
+    if (typeof params.handle !== 'string' || params.handle.length === 0) {
+      errors.push('handle must be a non-empty string');
+    }
+    if (
+      typeof params.threshold !== 'number' ||
+      !Number.isInteger(params.threshold) ||
+      params.threshold <= 0
+    ) {
+      errors.push('threshold must be a positive integer');
+    }
+
+    return errors;
+  }
+
+  async resolve(
+    market: OracleMarketContext,
+    rawParams: Record<string, unknown>,
+  ): Promise<OracleResolution | null> {
+    if (Date.now() < market.endTime.getTime()) {
+      return null;
+    }
+
+    const params = rawParams as unknown as TwitterFollowersParams;
+    const followers = await this.dataSource.getFollowerCount(params.handle);
+
+    if (followers === null) {
+      return null;
+    }
+
+    return {
+      outcomeIndex: followers >= params.threshold ? 0 : 1,
+      evidence: {
+        handle: params.handle,
+        followers,
+        threshold: params.threshold,
+        observedAt: new Date().toISOString(),
+      },
+    };
+  }
+}
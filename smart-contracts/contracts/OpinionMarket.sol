@@ -10,7 +10,7 @@ import "./CreatorShareFactory.sol";
 /**
  * @title OpinionMarket
  * @author Guessly
- * @notice Prediction market with AMM pricing for binary and multi-outcome markets
+ * @notice Prediction market with AMM pricing for binary, multi-outcome and scalar markets
  * @dev Implements simplified AMM logic with fee distribution to platform, creator, and shareholders
  */
 contract OpinionMarket is Ownable, ReentrancyGuard {
@@ -37,6 +37,9 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
     /// @notice Shareholder fee share (10% of total = 0.15%)
     uint256 public constant SHAREHOLDER_FEE_BPS = 15;
 
+    /// @notice Share of the platform fee paid to liquidity providers of seeded markets (0.25%)
+    uint256 public constant LIQUIDITY_FEE_BPS = 25;
+
     /// @notice Basis points denominator (10000 = 100%)
     uint256 public constant BPS_DENOMINATOR = 10000;
 
@@ -46,6 +49,9 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
     /// @notice Maximum market duration (7 days)
     uint256 public constant MAX_DURATION = 7 days;
 
+    /// @notice Time after resolution during which the result can be disputed; claims open after it
+    uint256 public constant DISPUTE_WINDOW = 48 hours;
+
     /// @notice Minimum number of outcomes
     uint256 public constant MIN_OUTCOMES = 2;
 
@@ -55,6 +61,12 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
     /// @notice Initial liquidity per outcome for AMM
     uint256 public constant INITIAL_LIQUIDITY = 1000e6; // 1000 USDC per outcome
 
+    /// @notice Outcome index of short positions in scalar markets
+    uint256 public constant SCALAR_SHORT = 0;
+
+    /// @notice Outcome index of long positions in scalar markets
+    uint256 public constant SCALAR_LONG = 1;
+
     /// @notice Market counter for unique IDs
     uint256 public nextMarketId;
 
@@ -81,6 +93,21 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         uint256 createdAt;
     }
 
+    /// @notice Numeric range of a scalar market
+    struct ScalarRange {
+        bool isScalar;
+        int256 lowerBound;
+        int256 upperBound;
+        int256 resolvedValue;
+        uint256 longPayoutBps; // Share of the pool paid to long holders
+    }
+
+    /// @notice Open dispute on a resolved market
+    struct Dispute {
+        address disputer;
+        uint256 bond; // USDC escrowed until the dispute is settled
+    }
+
     /// @notice Mapping of market ID to Market struct
     mapping(uint256 => Market) public markets;
 
@@ -97,6 +124,33 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
     /// @notice Mapping of market ID => total shares per outcome
     mapping(uint256 => mapping(uint256 => uint256)) public totalOutcomeShares;
 
+    /// @notice Mapping of market ID => scalar range (unset for categorical markets)
+    mapping(uint256 => ScalarRange) public scalarRanges;
+
+    /// @notice Mapping of market ID => outcome index => seeded liquidity within the reserve
+    mapping(uint256 => mapping(uint256 => uint256)) public liquidityReserves;
+
+    /// @notice Mapping of market ID => total seeded liquidity
+    mapping(uint256 => uint256) public totalLiquidity;
+
+    /// @notice Mapping of market ID => trading fees accrued to liquidity providers
+    mapping(uint256 => uint256) public liquidityFees;
+
+    /// @notice Mapping of market ID => provider => liquidity seeded
+    mapping(uint256 => mapping(address => uint256)) public liquidityProvided;
+
+    /// @notice Mapping of market ID => provider => has withdrawn liquidity
+    mapping(uint256 => mapping(address => bool)) public liquidityWithdrawn;
+
+    /// @notice Mapping of market ID => user => USDC held in the reserves for the user (refunded on cancellation)
+    mapping(uint256 => mapping(address => uint256)) public userStakes;
+
+    /// @notice Mapping of market ID => end of the dispute window; claims open from then
+    mapping(uint256 => uint256) public disputeDeadline;
+
+    /// @notice Mapping of market ID => open dispute
+    mapping(uint256 => Dispute) public disputes;
+
     /// @notice Emitted when a new market is created
     event MarketCreated(
         uint256 indexed marketId,
@@ -107,6 +161,14 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         uint256 timestamp
     );
 
+    /// @notice Emitted when a scalar market is created, after MarketCreated
+    event ScalarMarketCreated(
+        uint256 indexed marketId,
+        int256 lowerBound,
+        int256 upperBound,
+        uint256 timestamp
+    );
+
     /// @notice Emitted when a bet is placed
     event BetPlaced(
         uint256 indexed marketId,
@@ -117,6 +179,17 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         uint256 timestamp
     );
 
+    /// @notice Emitted when outcome shares are sold back to the market
+    event SharesSold(
+        uint256 indexed marketId,
+        address indexed user,
+        uint256 outcome,
+        uint256 shares,
+        uint256 amount,
+        uint256 payout,
+        uint256 timestamp
+    );
+
     /// @notice Emitted when market is resolved
     event MarketResolved(
         uint256 indexed marketId,
@@ -124,6 +197,14 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         uint256 timestamp
     );
 
+    /// @notice Emitted when a scalar market is resolved to a value
+    event ScalarMarketResolved(
+        uint256 indexed marketId,
+        int256 resolvedValue,
+        uint256 longPayoutBps,
+        uint256 timestamp
+    );
+
     /// @notice Emitted when winnings are claimed
     event WinningsClaimed(
         uint256 indexed marketId,
@@ -141,6 +222,51 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         uint256 timestamp
     );
 
+    /// @notice Emitted when liquidity is seeded into a market's reserves
+    event LiquiditySeeded(
+        uint256 indexed marketId,
+        address indexed provider,
+        uint256 amount,
+        uint256[] weightsBps,
+        uint256 timestamp
+    );
+
+    /// @notice Emitted when a provider withdraws liquidity and fees after settlement
+    event LiquidityWithdrawn(
+        uint256 indexed marketId,
+        address indexed provider,
+        uint256 amount,
+        uint256 fees,
+        uint256 timestamp
+    );
+
+    /// @notice Emitted when a market is cancelled
+    event MarketCancelled(uint256 indexed marketId, uint256 timestamp);
+
+    /// @notice Emitted when a participant claims their refund from a cancelled market
+    event RefundClaimed(
+        uint256 indexed marketId,
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    /// @notice Emitted when a resolution is disputed; claims stay locked until it is settled
+    event MarketDisputed(
+        uint256 indexed marketId,
+        address indexed disputer,
+        uint256 bond,
+        uint256 timestamp
+    );
+
+    /// @notice Emitted when a dispute is settled, with the market's final winning outcome
+    event DisputeSettled(
+        uint256 indexed marketId,
+        bool overturned,
+        uint256 winningOutcome,
+        uint256 timestamp
+    );
+
     /// @notice Emitted when market is paused
     event MarketPaused(uint256 indexed marketId, uint256 timestamp);
 
@@ -186,6 +312,54 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
     /// @dev Error thrown when market has not ended
     error MarketNotEnded();
 
+    /// @dev Error thrown when selling more shares than owned
+    error InsufficientShares();
+
+    /// @dev Error thrown when scalar upper bound is not above lower bound
+    error InvalidScalarRange();
+
+    /// @dev Error thrown when resolving a categorical market to a value
+    error NotScalarMarket();
+
+    /// @dev Error thrown when resolving a scalar market to an outcome
+    error ScalarMarketRequiresValue();
+
+    /// @dev Error thrown when seeding liquidity after trading has started
+    error TradingAlreadyStarted();
+
+    /// @dev Error thrown when liquidity weights do not match the outcomes or sum to 100%
+    error InvalidLiquidityWeights();
+
+    /// @dev Error thrown when withdrawing liquidity before the market is settled
+    error MarketNotSettled();
+
+    /// @dev Error thrown when there is no liquidity to withdraw
+    error NoLiquidityToWithdraw();
+
+    /// @dev Error thrown when resolving or cancelling a cancelled market
+    error MarketIsCancelled();
+
+    /// @dev Error thrown when claiming a refund from a market that is not cancelled
+    error MarketNotCancelled();
+
+    /// @dev Error thrown when the caller has no stake to refund
+    error NoRefundToClaim();
+
+    /// @dev Error thrown when claiming while the dispute window is open
+    error ClaimsLocked();
+
+    /// @dev Error thrown when disputing after the dispute window closed
+    error DisputeWindowClosed();
+
+    /// @dev Error thrown when settling a market that is not disputed
+    error MarketNotDisputed();
+
+    /// @dev Error thrown when cancelling a disputed market
+    error MarketIsDisputed();
+
+    /// @dev Error thrown when a non-participant disputes a market
+    error NoPositionInMarket();
+
     /**
      * @notice Constructor
      * @param _usdc USDC token address
@@ -227,31 +401,41 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         if (outcomes.length < MIN_OUTCOMES || outcomes.length > MAX_OUTCOMES) {
             revert InvalidOutcomeCount();
         }
-        if (duration < MIN_DURATION || duration > MAX_DURATION) {
-            revert InvalidDuration();
-        }
 
-        marketId = nextMarketId++;
-        uint256 endTime = block.timestamp + duration;
+        marketId = _createMarket(title, outcomes, duration, description);
+    }
 
-        // Create market
-        Market storage market = markets[marketId];
-        market.id = marketId;
-        market.creator = msg.sender;
-        market.title = title;
-        market.description = description;
-        market.outcomes = outcomes;
-        market.endTime = endTime;
-        market.status = MarketStatus.Active;
-        market.createdAt = block.timestamp;
+    /**
+     * @notice Create a scalar market on a numeric range
+     * @dev Positions are "Short" (outcome 0) and "Long" (outcome 1)
+     * @param title Market title
+     * @param lowerBound Lower bound of the range (fixed point, 6 decimals)
+     * @param upperBound Upper bound of the range (fixed point, 6 decimals)
+     * @param duration Market duration in seconds (6h - 7d)
+     * @param description Market description
+     * @return marketId ID of created market
+     */
+    function createScalarMarket(
+        string memory title,
+        int256 lowerBound,
+        int256 upperBound,
+        uint256 duration,
+        string memory description
+    ) external returns (uint256 marketId) {
+        if (upperBound <= lowerBound) revert InvalidScalarRange();
 
-        // Initialize AMM reserves (starting at 0, will grow with bets)
-        // Note: INITIAL_LIQUIDITY constant exists for future AMM enhancements
-        for (uint256 i = 0; i < outcomes.length; i++) {
-            outcomeReserves[marketId][i] = 0;
-        }
+        string[] memory outcomes = new string[](2);
+        outcomes[SCALAR_SHORT] = "Short";
+        outcomes[SCALAR_LONG] = "Long";
 
-        emit MarketCreated(marketId, msg.sender, title, outcomes, endTime, block.timestamp);
+        marketId = _createMarket(title, outcomes, duration, description);
+
+        ScalarRange storage range = scalarRanges[marketId];
+        range.isScalar = true;
+        range.lowerBound = lowerBound;
+        range.upperBound = upperBound;
+
+        emit ScalarMarketCreated(marketId, lowerBound, upperBound, block.timestamp);
     }
 
     /**
@@ -280,6 +464,7 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         uint256 platformFee = (amount * PLATFORM_FEE_BPS) / BPS_DENOMINATOR;
         uint256 creatorFee = (amount * CREATOR_FEE_BPS) / BPS_DENOMINATOR;
         uint256 shareholderFee = (amount * SHAREHOLDER_FEE_BPS) / BPS_DENOMINATOR;
+        platformFee -= _accrueLiquidityFee(marketId, amount);
 
         uint256 amountAfterFee = amount - totalFee;
 
@@ -295,6 +480,7 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
 
         // Update outcome reserve
         outcomeReserves[marketId][outcome] += amountAfterFee;
+        userStakes[marketId][msg.sender] += amountAfterFee;
 
         // Update market volume
         market.totalVolume += amount;
@@ -318,6 +504,76 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         );
     }
 
+    /**
+     * @notice Sell outcome shares back to the market before resolution
+     * @param marketId Market ID
+     * @param outcome Outcome index (0-based)
+     * @param shares Number of shares to sell (6 decimals)
+     */
+    function sellShares(
+        uint256 marketId,
+        uint256 outcome,
+        uint256 shares
+    ) external nonReentrant {
+        Market storage market = markets[marketId];
+
+        // Validations
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (market.status != MarketStatus.Active) revert MarketNotActive();
+        if (block.timestamp >= market.endTime) revert MarketEnded();
+        if (market.paused) revert MarketIsPaused();
+        if (outcome >= market.outcomes.length) revert InvalidOutcome();
+        if (shares == 0) revert AmountCannotBeZero();
+        if (userOutcomeShares[marketId][msg.sender][outcome] < shares) {
+            revert InsufficientShares();
+        }
+
+        // Value of the shares in the outcome reserve
+        uint256 amount = calculateSellAmount(marketId, outcome, shares);
+
+        // Calculate fees
+        uint256 totalFee = (amount * TOTAL_FEE_BPS) / BPS_DENOMINATOR;
+        uint256 platformFee = (amount * PLATFORM_FEE_BPS) / BPS_DENOMINATOR;
+        uint256 creatorFee = (amount * CREATOR_FEE_BPS) / BPS_DENOMINATOR;
+        uint256 shareholderFee = (amount * SHAREHOLDER_FEE_BPS) / BPS_DENOMINATOR;
+        platformFee -= _accrueLiquidityFee(marketId, amount);
+
+        uint256 payout = amount - totalFee;
+
+        // Update user shares
+        userOutcomeShares[marketId][msg.sender][outcome] -= shares;
+        totalOutcomeShares[marketId][outcome] -= shares;
+
+        // Release the shares' value from the outcome reserve
+        outcomeReserves[marketId][outcome] -= amount;
+        uint256 stake = userStakes[marketId][msg.sender];
+        userStakes[marketId][msg.sender] = amount >= stake ? 0 : stake - amount;
+
+        // Update market volume
+        market.totalVolume += amount;
+
+        // Transfer USDC to user
+        usdc.safeTransfer(msg.sender, payout);
+
+        // Distribute fees
+        _distributeFees(
+            market.creator,
+            platformFee,
+            creatorFee,
+            shareholderFee,
+            amount
+        );
+
+        emit SharesSold(marketId, msg.sender, outcome, shares, amount, payout, block.timestamp);
+        emit FeesCollected(
+            marketId,
+            platformFee,
+            creatorFee,
+            shareholderFee,
+            block.timestamp
+        );
+    }
+
     /**
      * @notice Resolve a market with winning outcome
      * @param marketId Market ID
@@ -331,15 +587,125 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
 
         if (market.id == 0) revert MarketDoesNotExist();
         if (block.timestamp < market.endTime) revert MarketNotEnded();
-        if (market.status == MarketStatus.Resolved) revert MarketAlreadyResolved();
+        if (market.status == MarketStatus.Resolved || market.status == MarketStatus.Disputed) {
+            revert MarketAlreadyResolved();
+        }
+        if (market.status == MarketStatus.Cancelled) revert MarketIsCancelled();
+        if (scalarRanges[marketId].isScalar) revert ScalarMarketRequiresValue();
         if (winningOutcome >= market.outcomes.length) revert InvalidOutcome();
 
         market.status = MarketStatus.Resolved;
         market.winningOutcome = winningOutcome;
+        disputeDeadline[marketId] = block.timestamp + DISPUTE_WINDOW;
 
         emit MarketResolved(marketId, winningOutcome, block.timestamp);
     }
 
+    /**
+     * @notice Resolve a scalar market with the observed value
+     * @dev Values outside the range are clamped; the long side is paid
+     *      (value - lower) / (upper - lower) of the pool, the short side the rest
+     * @param marketId Market ID
+     * @param value Observed value (fixed point, 6 decimals)
+     */
+    function resolveScalarMarket(
+        uint256 marketId,
+        int256 value
+    ) external onlyOwner {
+        Market storage market = markets[marketId];
+        ScalarRange storage range = scalarRanges[marketId];
+
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (!range.isScalar) revert NotScalarMarket();
+        if (block.timestamp < market.endTime) revert MarketNotEnded();
+        if (market.status == MarketStatus.Resolved || market.status == MarketStatus.Disputed) {
+            revert MarketAlreadyResolved();
+        }
+        if (market.status == MarketStatus.Cancelled) revert MarketIsCancelled();
+
+        int256 clamped = value;
+        if (clamped < range.lowerBound) clamped = range.lowerBound;
+        if (clamped > range.upperBound) clamped = range.upperBound;
+
+        uint256 longPayoutBps = (uint256(clamped - range.lowerBound) * BPS_DENOMINATOR) /
+            uint256(range.upperBound - range.lowerBound);
+
+        market.status = MarketStatus.Resolved;
+        range.resolvedValue = value;
+        range.longPayoutBps = longPayoutBps;
+        disputeDeadline[marketId] = block.timestamp + DISPUTE_WINDOW;
+
+        emit ScalarMarketResolved(marketId, value, longPayoutBps, block.timestamp);
+    }
+
+    /**
+     * @notice Dispute the result of a resolved market, locking claims until the owner settles it
+     * @dev Only participants (or the owner) can dispute, and only within the dispute window,
+     *      so no winnings have been paid out yet. The bond is returned if the result is overturned
+     *      and goes to the platform fee collector otherwise.
+     * @param marketId Market ID
+     * @param bond USDC bond to escrow (6 decimals, may be zero)
+     */
+    function disputeMarket(uint256 marketId, uint256 bond) external nonReentrant {
+        Market storage market = markets[marketId];
+
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (market.status != MarketStatus.Resolved) revert MarketNotResolved();
+        if (block.timestamp >= disputeDeadline[marketId]) revert DisputeWindowClosed();
+        if (msg.sender != owner() && !_hasPosition(marketId, msg.sender)) revert NoPositionInMarket();
+
+        if (bond > 0) {
+            usdc.safeTransferFrom(msg.sender, address(this), bond);
+        }
+
+        market.status = MarketStatus.Disputed;
+        disputes[marketId] = Dispute({disputer: msg.sender, bond: bond});
+
+        emit MarketDisputed(marketId, msg.sender, bond, block.timestamp);
+    }
+
+    /**
+     * @notice Settle a dispute, keeping or replacing the winning outcome
+     * @dev Overturning restarts the dispute window for the new result; an upheld
+     *      result is final and claims open right away. Scalar results can only be upheld.
+     * @param marketId Market ID
+     * @param overturn Whether the disputed result is replaced
+     * @param winningOutcome New winning outcome index (ignored when upholding)
+     */
+    function settleDispute(
+        uint256 marketId,
+        bool overturn,
+        uint256 winningOutcome
+    ) external onlyOwner nonReentrant {
+        Market storage market = markets[marketId];
+
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (market.status != MarketStatus.Disputed) revert MarketNotDisputed();
+
+        Dispute memory dispute = disputes[marketId];
+        delete disputes[marketId];
+
+        if (overturn) {
+            if (scalarRanges[marketId].isScalar) revert ScalarMarketRequiresValue();
+            if (winningOutcome >= market.outcomes.length || winningOutcome == market.winningOutcome) {
+                revert InvalidOutcome();
+            }
+
+            market.winningOutcome = winningOutcome;
+            disputeDeadline[marketId] = block.timestamp + DISPUTE_WINDOW;
+        } else {
+            disputeDeadline[marketId] = block.timestamp;
+        }
+
+        market.status = MarketStatus.Resolved;
+
+        if (dispute.bond > 0) {
+            usdc.safeTransfer(overturn ? dispute.disputer : platformFeeCollector, dispute.bond);
+        }
+
+        emit DisputeSettled(marketId, overturn, market.winningOutcome, block.timestamp);
+    }
+
     /**
      * @notice Claim winnings from a resolved market
      * @param marketId Market ID
@@ -349,17 +715,24 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
 
         if (market.id == 0) revert MarketDoesNotExist();
         if (market.status != MarketStatus.Resolved) revert MarketNotResolved();
+        if (block.timestamp < disputeDeadline[marketId]) revert ClaimsLocked();
         if (hasClaimed[marketId][msg.sender]) revert AlreadyClaimed();
 
-        uint256 userShares = userOutcomeShares[marketId][msg.sender][
-            market.winningOutcome
-        ];
-        if (userShares == 0) revert NoWinningsToClaim();
-
-        // Calculate payout proportionally
-        uint256 totalWinningShares = totalOutcomeShares[marketId][market.winningOutcome];
-        uint256 totalPayout = _calculateTotalPayout(marketId);
-        uint256 userPayout = (totalPayout * userShares) / totalWinningShares;
+        uint256 userPayout;
+        if (scalarRanges[marketId].isScalar) {
+            userPayout = _calculateScalarPayout(marketId, msg.sender);
+            if (userPayout == 0) revert NoWinningsToClaim();
+        } else {
+            uint256 userShares = userOutcomeShares[marketId][msg.sender][
+                market.winningOutcome
+            ];
+            if (userShares == 0) revert NoWinningsToClaim();
+
+            // Calculate payout proportionally
+            uint256 totalWinningShares = totalOutcomeShares[marketId][market.winningOutcome];
+            uint256 totalPayout = _calculateTotalPayout(marketId);
+            userPayout = (totalPayout * userShares) / totalWinningShares;
+        }
 
         // Mark as claimed
         hasClaimed[marketId][msg.sender] = true;
@@ -370,6 +743,121 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         emit WinningsClaimed(marketId, msg.sender, userPayout, block.timestamp);
     }
 
+    /**
+     * @notice Seed liquidity into a market's reserves before trading starts
+     * @dev The seed deepens the reserves (so bets move prices less) without
+     *      minting shares; it is excluded from payouts and returned to providers
+     *      pro rata after settlement, together with the liquidity fee
+     * @param marketId Market ID
+     * @param amount Amount in USDC (6 decimals)
+     * @param weightsBps Share of the seed per outcome in basis points (sums to 10000)
+     */
+    function seedLiquidity(
+        uint256 marketId,
+        uint256 amount,
+        uint256[] calldata weightsBps
+    ) external nonReentrant {
+        Market storage market = markets[marketId];
+
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (market.status != MarketStatus.Active) revert MarketNotActive();
+        if (block.timestamp >= market.endTime) revert MarketEnded();
+        if (market.totalVolume > 0) revert TradingAlreadyStarted();
+        if (amount == 0) revert AmountCannotBeZero();
+        if (weightsBps.length != market.outcomes.length) revert InvalidLiquidityWeights();
+
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < weightsBps.length; i++) {
+            totalWeight += weightsBps[i];
+        }
+        if (totalWeight != BPS_DENOMINATOR) revert InvalidLiquidityWeights();
+
+        usdc.safeTransferFrom(msg.sender, address(this), amount);
+
+        // The last outcome takes the rounding remainder
+        uint256 allocated = 0;
+        for (uint256 i = 0; i < weightsBps.length; i++) {
+            uint256 seed = i == weightsBps.length - 1
+                ? amount - allocated
+                : (amount * weightsBps[i]) / BPS_DENOMINATOR;
+            allocated += seed;
+            outcomeReserves[marketId][i] += seed;
+            liquidityReserves[marketId][i] += seed;
+        }
+
+        totalLiquidity[marketId] += amount;
+        liquidityProvided[marketId][msg.sender] += amount;
+
+        emit LiquiditySeeded(marketId, msg.sender, amount, weightsBps, block.timestamp);
+    }
+
+    /**
+     * @notice Withdraw seeded liquidity and accrued liquidity fees after settlement
+     * @param marketId Market ID
+     */
+    function withdrawLiquidity(uint256 marketId) external nonReentrant {
+        Market storage market = markets[marketId];
+
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (market.status != MarketStatus.Resolved && market.status != MarketStatus.Cancelled) {
+            revert MarketNotSettled();
+        }
+        if (liquidityWithdrawn[marketId][msg.sender]) revert AlreadyClaimed();
+
+        uint256 provided = liquidityProvided[marketId][msg.sender];
+        if (provided == 0) revert NoLiquidityToWithdraw();
+
+        uint256 fees = (liquidityFees[marketId] * provided) / totalLiquidity[marketId];
+
+        liquidityWithdrawn[marketId][msg.sender] = true;
+
+        usdc.safeTransfer(msg.sender, provided + fees);
+
+        emit LiquidityWithdrawn(marketId, msg.sender, provided, fees, block.timestamp);
+    }
+
+    /**
+     * @notice Cancel a market; participants reclaim their stake with claimRefund
+     * @dev Can be called before or after the end time, but not once resolved.
+     *      Seeded liquidity is returned through withdrawLiquidity.
+     * @param marketId Market ID
+     */
+    function cancelMarket(uint256 marketId) external onlyOwner {
+        Market storage market = markets[marketId];
+
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (market.status == MarketStatus.Resolved) revert MarketAlreadyResolved();
+        if (market.status == MarketStatus.Cancelled) revert MarketIsCancelled();
+        if (market.status == MarketStatus.Disputed) revert MarketIsDisputed();
+
+        market.status = MarketStatus.Cancelled;
+
+        emit MarketCancelled(marketId, block.timestamp);
+    }
+
+    /**
+     * @notice Claim back the caller's net stake from a cancelled market
+     * @dev The stake is what the caller's bets added to the reserves, less the
+     *      value of shares sold; trading fees already paid out are not refunded
+     * @param marketId Market ID
+     */
+    function claimRefund(uint256 marketId) external nonReentrant {
+        Market storage market = markets[marketId];
+
+        if (market.id == 0) revert MarketDoesNotExist();
+        if (market.status != MarketStatus.Cancelled) revert MarketNotCancelled();
+        if (hasClaimed[marketId][msg.sender]) revert AlreadyClaimed();
+
+        uint256 refund = userStakes[marketId][msg.sender];
+        if (refund == 0) revert NoRefundToClaim();
+
+        hasClaimed[marketId][msg.sender] = true;
+
+        usdc.safeTransfer(msg.sender, refund);
+
+        emit RefundClaimed(marketId, msg.sender, refund, block.timestamp);
+    }
+
     /**
      * @notice Pause a market (emergency)
      * @param marketId Market ID
@@ -472,6 +960,62 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         shares = amount;
     }
 
+    /**
+     * @notice Calculate the USDC value of outcome shares before fees
+     * @param marketId Market ID
+     * @param outcome Outcome index
+     * @param shares Number of shares to sell
+     * @return amount Pro-rata share of the outcome reserve, excluding seeded liquidity
+     */
+    function calculateSellAmount(
+        uint256 marketId,
+        uint256 outcome,
+        uint256 shares
+    ) public view returns (uint256 amount) {
+        uint256 totalShares = totalOutcomeShares[marketId][outcome];
+        if (totalShares == 0) return 0;
+
+        // Seeded liquidity backs prices, not shares
+        uint256 reserve = outcomeReserves[marketId][outcome] - liquidityReserves[marketId][outcome];
+        amount = (reserve * shares) / totalShares;
+    }
+
+    /**
+     * @dev Store a new market and initialize its reserves
+     */
+    function _createMarket(
+        string memory title,
+        string[] memory outcomes,
+        uint256 duration,
+        string memory description
+    ) internal returns (uint256 marketId) {
+        if (duration < MIN_DURATION || duration > MAX_DURATION) {
+            revert InvalidDuration();
+        }
+
+        marketId = nextMarketId++;
+        uint256 endTime = block.timestamp + duration;
+
+        // Create market
+        Market storage market = markets[marketId];
+        market.id = marketId;
+        market.creator = msg.sender;
+        market.title = title;
+        market.description = description;
+        market.outcomes = outcomes;
+        market.endTime = endTime;
+        market.status = MarketStatus.Active;
+        market.createdAt = block.timestamp;
+
+        // Initialize AMM reserves (starting at 0, grown by bets and seedLiquidity)
+        // Note: INITIAL_LIQUIDITY constant exists for future AMM enhancements
+        for (uint256 i = 0; i < outcomes.length; i++) {
+            outcomeReserves[marketId][i] = 0;
+        }
+
+        emit MarketCreated(marketId, msg.sender, title, outcomes, endTime, block.timestamp);
+    }
+
     /**
      * @dev Distribute fees to platform, creator, and shareholders
      */
@@ -493,15 +1037,64 @@ contract OpinionMarket is Ownable, ReentrancyGuard {
         factory.updateCreatorVolume(creator, totalAmount);
     }
 
+    /**
+     * @dev Set aside the liquidity providers' part of a trade fee, if the market is seeded
+     * @return fee Liquidity fee, taken out of the platform fee
+     */
+    function _accrueLiquidityFee(uint256 marketId, uint256 amount) internal returns (uint256 fee) {
+        if (totalLiquidity[marketId] == 0) return 0;
+
+        fee = (amount * LIQUIDITY_FEE_BPS) / BPS_DENOMINATOR;
+        liquidityFees[marketId] += fee;
+    }
+
+    /**
+     * @dev Whether a user holds shares of any outcome of a market
+     */
+    function _hasPosition(uint256 marketId, address user) internal view returns (bool) {
+        uint256 outcomeCount = markets[marketId].outcomes.length;
+
+        for (uint256 i = 0; i < outcomeCount; i++) {
+            if (userOutcomeShares[marketId][user][i] > 0) return true;
+        }
+
+        return false;
+    }
+
     /**
      * @dev Calculate total payout for a market
      */
     function _calculateTotalPayout(uint256 marketId) internal view returns (uint256 total) {
         Market storage market = markets[marketId];
 
-        // Total payout = sum of all reserves
+        // Total payout = sum of all reserves, less seeded liquidity owed to providers
         for (uint256 i = 0; i < market.outcomes.length; i++) {
-            total += outcomeReserves[marketId][i];
+            total += outcomeReserves[marketId][i] - liquidityReserves[marketId][i];
+        }
+    }
+
+    /**
+     * @dev Calculate a user's payout from a resolved scalar market
+     */
+    function _calculateScalarPayout(
+        uint256 marketId,
+        address user
+    ) internal view returns (uint256 payout) {
+        uint256 totalPayout = _calculateTotalPayout(marketId);
+        uint256 totalLong = totalOutcomeShares[marketId][SCALAR_LONG];
+        uint256 totalShort = totalOutcomeShares[marketId][SCALAR_SHORT];
+
+        // A side nobody holds passes its part of the pool to the other side
+        uint256 longPool = (totalPayout * scalarRanges[marketId].longPayoutBps) / BPS_DENOMINATOR;
+        if (totalLong == 0) longPool = 0;
+        else if (totalShort == 0) longPool = totalPayout;
+        uint256 shortPool = totalPayout - longPool;
+
+        if (totalLong > 0) {
+            payout += (longPool * userOutcomeShares[marketId][user][SCALAR_LONG]) / totalLong;
+        }
+        if (totalShort > 0) {
+            payout += (shortPool * userOutcomeShares[marketId][user][SCALAR_SHORT]) / totalShort;
         }
     }
 }
@@ -26,6 +26,7 @@ describe("OpinionMarket", function () {
   const SIX_HOURS = 6 * 60 * 60;
   const SEVEN_DAYS = 7 * 24 * 60 * 60;
   const ONE_DAY = 24 * 60 * 60;
+  const DISPUTE_WINDOW = 48 * 60 * 60;
 
   beforeEach(async function () {
     [owner, creator, user1, user2, platformFeeCollector, marketContract] =
@@ -316,6 +317,100 @@ describe("OpinionMarket", function () {
     });
   });
 
+  describe("Selling Shares", function () {
+    beforeEach(async function () {
+      const outcomes = ["Yes", "No"];
+      await opinionMarket
+        .connect(creator)
+        .createMarket("Test Market", outcomes, ONE_DAY, "Description");
+
+      await opinionMarket.connect(user1).placeBet(1, 0, toUsdc(1000));
+    });
+
+    it("Should allow selling shares", async function () {
+      await expect(opinionMarket.connect(user1).sellShares(1, 0, toUsdc(100)))
+        .to.emit(opinionMarket, "SharesSold")
+        .and.to.emit(opinionMarket, "FeesCollected");
+    });
+
+    it("Should reduce user shares and outcome reserves", async function () {
+      const initialShares = await opinionMarket.userOutcomeShares(1, user1Address, 0);
+      const initialReserve = await opinionMarket.outcomeReserves(1, 0);
+
+      await opinionMarket.connect(user1).sellShares(1, 0, toUsdc(100));
+
+      const finalShares = await opinionMarket.userOutcomeShares(1, user1Address, 0);
+      const finalReserve = await opinionMarket.outcomeReserves(1, 0);
+
+      expect(initialShares - finalShares).to.equal(toUsdc(100));
+      expect(initialReserve - finalReserve).to.equal(toUsdc(100));
+    });
+
+    it("Should pay out share value minus fees", async function () {
+      const initialBalance = await mockUsdc.balanceOf(user1Address);
+
+      await opinionMarket.connect(user1).sellShares(1, 0, toUsdc(100));
+
+      const finalBalance = await mockUsdc.balanceOf(user1Address);
+      // 100 USDC of reserve - 1.5% fee = 98.5 USDC
+      expect(finalBalance - initialBalance).to.equal(toUsdc(98.5));
+    });
+
+    it("Should distribute fees correctly", async function () {
+      const creatorInitial = await mockUsdc.balanceOf(creatorAddress);
+      const platformInitial = await mockUsdc.balanceOf(platformFeeCollectorAddress);
+
+      await opinionMarket.connect(user1).sellShares(1, 0, toUsdc(100));
+
+      const creatorFinal = await mockUsdc.balanceOf(creatorAddress);
+      const platformFinal = await mockUsdc.balanceOf(platformFeeCollectorAddress);
+
+      expect(platformFinal - platformInitial).to.equal(toUsdc(0.75));
+      expect(creatorFinal - creatorInitial).to.equal(toUsdc(0.6));
+    });
+
+    it("Should quote sell amount from outcome reserve", async function () {
+      expect(await opinionMarket.calculateSellAmount(1, 0, toUsdc(100))).to.equal(
+        toUsdc(100)
+      );
+      expect(await opinionMarket.calculateSellAmount(1, 1, toUsdc(100))).to.equal(0);
+    });
+
+    it("Should revert when selling more shares than owned", async function () {
+      await expect(
+        opinionMarket.connect(user1).sellShares(1, 0, toUsdc(5000))
+      ).to.be.revertedWithCustomError(opinionMarket, "InsufficientShares");
+    });
+
+    it("Should revert when selling shares of another outcome", async function () {
+      await expect(
+        opinionMarket.connect(user1).sellShares(1, 1, toUsdc(1))
+      ).to.be.revertedWithCustomError(opinionMarket, "InsufficientShares");
+    });
+
+    it("Should revert when selling zero shares", async function () {
+      await expect(
+        opinionMarket.connect(user1).sellShares(1, 0, 0)
+      ).to.be.revertedWithCustomError(opinionMarket, "AmountCannotBeZero");
+    });
+
+    it("Should revert when market has ended", async function () {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(
+        opinionMarket.connect(user1).sellShares(1, 0, toUsdc(100))
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketEnded");
+    });
+
+    it("Should revert when market is paused", async function () {
+      await opinionMarket.connect(owner).pauseMarket(1);
+
+      await expect(
+        opinionMarket.connect(user1).sellShares(1, 0, toUsdc(100))
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketIsPaused");
+    });
+  });
+
   describe("Market Resolution", function () {
     beforeEach(async function () {
       const outcomes = ["Yes", "No"];
@@ -400,9 +495,10 @@ describe("OpinionMarket", function () {
       await opinionMarket.connect(user1).placeBet(1, 0, toUsdc(1000));
       await opinionMarket.connect(user2).placeBet(1, 1, toUsdc(500));
 
-      // Fast forward and resolve
+      // Fast forward, resolve and wait out the dispute window
       await time.increase(ONE_DAY + 1);
       await opinionMarket.connect(owner).resolveMarket(1, 0);
+      await time.increase(DISPUTE_WINDOW);
     });
 
     it("Should allow winner to claim", async function () {
@@ -454,6 +550,433 @@ describe("OpinionMarket", function () {
     });
   });
 
+  describe("Disputes", function () {
+    const YES = 0;
+    const NO = 1;
+    const DISPUTED = 2;
+
+    beforeEach(async function () {
+      await opinionMarket
+        .connect(creator)
+        .createMarket("Disputed Market", ["Yes", "No"], ONE_DAY, "Description");
+
+      await opinionMarket.connect(user1).placeBet(1, YES, toUsdc(1000));
+      await opinionMarket.connect(user2).placeBet(1, NO, toUsdc(500));
+
+      await time.increase(ONE_DAY + 1);
+      await opinionMarket.connect(owner).resolveMarket(1, YES);
+    });
+
+    it("Should lock claims during the dispute window", async function () {
+      await expect(
+        opinionMarket.connect(user1).claimWinnings(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "ClaimsLocked");
+    });
+
+    it("Should let a participant dispute with a bond", async function () {
+      const tx = await opinionMarket.connect(user2).disputeMarket(1, toUsdc(50));
+
+      await expect(tx)
+        .to.emit(opinionMarket, "MarketDisputed")
+        .withArgs(1, user2Address, toUsdc(50), await time.latest());
+      await expect(tx).to.changeTokenBalance(mockUsdc, user2, -toUsdc(50));
+
+      const market = await opinionMarket.getMarketInfo(1);
+      expect(market.status).to.equal(DISPUTED);
+
+      await time.increase(DISPUTE_WINDOW);
+      await expect(
+        opinionMarket.connect(user1).claimWinnings(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketNotResolved");
+    });
+
+    it("Should revert when a non-participant disputes", async function () {
+      await expect(
+        opinionMarket.connect(creator).disputeMarket(1, 0)
+      ).to.be.revertedWithCustomError(opinionMarket, "NoPositionInMarket");
+    });
+
+    it("Should revert when the dispute window has closed", async function () {
+      await time.increase(DISPUTE_WINDOW);
+
+      await expect(
+        opinionMarket.connect(user2).disputeMarket(1, 0)
+      ).to.be.revertedWithCustomError(opinionMarket, "DisputeWindowClosed");
+    });
+
+    it("Should refund the bond and pay the new winners when overturned", async function () {
+      await opinionMarket.connect(user2).disputeMarket(1, toUsdc(50));
+
+      const tx = await opinionMarket.connect(owner).settleDispute(1, true, NO);
+
+      await expect(tx)
+        .to.emit(opinionMarket, "DisputeSettled")
+        .withArgs(1, true, NO, await time.latest());
+      await expect(tx).to.changeTokenBalance(mockUsdc, user2, toUsdc(50));
+
+      // The new result gets its own dispute window
+      await expect(
+        opinionMarket.connect(user2).claimWinnings(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "ClaimsLocked");
+
+      await time.increase(DISPUTE_WINDOW);
+      await expect(
+        opinionMarket.connect(user1).claimWinnings(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "NoWinningsToClaim");
+      await expect(
+        opinionMarket.connect(user2).claimWinnings(1)
+      ).to.emit(opinionMarket, "WinningsClaimed");
+    });
+
+    it("Should send the bond to the fee collector when upheld", async function () {
+      await opinionMarket.connect(user2).disputeMarket(1, toUsdc(50));
+
+      await expect(
+        opinionMarket.connect(owner).settleDispute(1, false, 0)
+      ).to.changeTokenBalance(mockUsdc, platformFeeCollector, toUsdc(50));
+
+      // An upheld result is final: claims open and it cannot be disputed again
+      await expect(
+        opinionMarket.connect(user2).disputeMarket(1, 0)
+      ).to.be.revertedWithCustomError(opinionMarket, "DisputeWindowClosed");
+      await expect(
+        opinionMarket.connect(user1).claimWinnings(1)
+      ).to.emit(opinionMarket, "WinningsClaimed");
+    });
+
+    it("Should revert when overturning to the same outcome", async function () {
+      await opinionMarket.connect(user2).disputeMarket(1, 0);
+
+      await expect(
+        opinionMarket.connect(owner).settleDispute(1, true, YES)
+      ).to.be.revertedWithCustomError(opinionMarket, "InvalidOutcome");
+    });
+
+    it("Should revert when non-owner settles", async function () {
+      await opinionMarket.connect(user2).disputeMarket(1, 0);
+
+      await expect(
+        opinionMarket.connect(user1).settleDispute(1, true, NO)
+      ).to.be.revertedWithCustomError(opinionMarket, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should revert when cancelling a disputed market", async function () {
+      await opinionMarket.connect(user2).disputeMarket(1, 0);
+
+      await expect(
+        opinionMarket.connect(owner).cancelMarket(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketIsDisputed");
+    });
+  });
+
+  describe("Scalar Markets", function () {
+    const toValue = (value: number) => BigInt(value * 10 ** 6);
+    const SHORT = 0;
+    const LONG = 1;
+
+    beforeEach(async function () {
+      await opinionMarket
+        .connect(creator)
+        .createScalarMarket(
+          "Scalar Market",
+          toValue(0),
+          toValue(100),
+          ONE_DAY,
+          "Description"
+        );
+
+      await opinionMarket.connect(user1).placeBet(1, LONG, toUsdc(1000));
+      await opinionMarket.connect(user2).placeBet(1, SHORT, toUsdc(1000));
+    });
+
+    it("Should create scalar market with short and long outcomes", async function () {
+      const market = await opinionMarket.getMarketInfo(1);
+      expect(market.outcomes).to.deep.equal(["Short", "Long"]);
+
+      const range = await opinionMarket.scalarRanges(1);
+      expect(range.isScalar).to.be.true;
+      expect(range.lowerBound).to.equal(toValue(0));
+      expect(range.upperBound).to.equal(toValue(100));
+    });
+
+    it("Should emit ScalarMarketCreated", async function () {
+      await expect(
+        opinionMarket
+          .connect(creator)
+          .createScalarMarket("Another", -toValue(10), toValue(10), ONE_DAY, "Description")
+      )
+        .to.emit(opinionMarket, "MarketCreated")
+        .and.to.emit(opinionMarket, "ScalarMarketCreated");
+    });
+
+    it("Should revert with an empty range", async function () {
+      await expect(
+        opinionMarket
+          .connect(creator)
+          .createScalarMarket("Invalid", toValue(10), toValue(10), ONE_DAY, "Description")
+      ).to.be.revertedWithCustomError(opinionMarket, "InvalidScalarRange");
+    });
+
+    it("Should revert when resolving scalar market to an outcome", async function () {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(
+        opinionMarket.connect(owner).resolveMarket(1, LONG)
+      ).to.be.revertedWithCustomError(opinionMarket, "ScalarMarketRequiresValue");
+    });
+
+    it("Should revert when resolving categorical market to a value", async function () {
+      await opinionMarket
+        .connect(creator)
+        .createMarket("Categorical", ["Yes", "No"], ONE_DAY, "Description");
+      await time.increase(ONE_DAY + 1);
+
+      await expect(
+        opinionMarket.connect(owner).resolveScalarMarket(2, toValue(50))
+      ).to.be.revertedWithCustomError(opinionMarket, "NotScalarMarket");
+    });
+
+    it("Should interpolate long payout on the resolved value", async function () {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(opinionMarket.connect(owner).resolveScalarMarket(1, toValue(75)))
+        .to.emit(opinionMarket, "ScalarMarketResolved")
+        .withArgs(1, toValue(75), 7500, await time.latest() + 1);
+
+      const range = await opinionMarket.scalarRanges(1);
+      expect(range.longPayoutBps).to.equal(7500);
+    });
+
+    it("Should split the pool between long and short holders", async function () {
+      await time.increase(ONE_DAY + 1);
+      await opinionMarket.connect(owner).resolveScalarMarket(1, toValue(75));
+      await time.increase(DISPUTE_WINDOW);
+
+      // Pool is 2 x 985 USDC after fees; long holds 75%, short 25%
+      await expect(
+        opinionMarket.connect(user1).claimWinnings(1)
+      ).to.changeTokenBalance(mockUsdc, user1, 1477500000n);
+      await expect(
+        opinionMarket.connect(user2).claimWinnings(1)
+      ).to.changeTokenBalance(mockUsdc, user2, 492500000n);
+    });
+
+    it("Should clamp values outside the range", async function () {
+      await time.increase(ONE_DAY + 1);
+      await opinionMarket.connect(owner).resolveScalarMarket(1, toValue(150));
+
+      const range = await opinionMarket.scalarRanges(1);
+      expect(range.resolvedValue).to.equal(toValue(150));
+      expect(range.longPayoutBps).to.equal(10000);
+
+      await time.increase(DISPUTE_WINDOW);
+      await expect(
+        opinionMarket.connect(user2).claimWinnings(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "NoWinningsToClaim");
+    });
+
+    it("Should pay the whole pool to the only side with holders", async function () {
+      await opinionMarket
+        .connect(creator)
+        .createScalarMarket("One-sided", toValue(0), toValue(100), ONE_DAY, "Description");
+      await opinionMarket.connect(user1).placeBet(2, LONG, toUsdc(1000));
+
+      await time.increase(ONE_DAY + 1);
+      await opinionMarket.connect(owner).resolveScalarMarket(2, toValue(0));
+      await time.increase(DISPUTE_WINDOW);
+
+      await expect(
+        opinionMarket.connect(user1).claimWinnings(2)
+      ).to.changeTokenBalance(mockUsdc, user1, toUsdc(985));
+    });
+  });
+
+  describe("Seeded Liquidity", function () {
+    const YES = 0;
+    const NO = 1;
+
+    beforeEach(async function () {
+      await mockUsdc.mint(creatorAddress, toUsdc(10000));
+      await mockUsdc
+        .connect(creator)
+        .approve(await opinionMarket.getAddress(), toUsdc(10000));
+
+      await opinionMarket
+        .connect(creator)
+        .createMarket("Seeded Market", ["Yes", "No"], ONE_DAY, "Description");
+    });
+
+    it("Should spread the seed across reserves by weight", async function () {
+      await expect(
+        opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [6000, 4000])
+      ).to.emit(opinionMarket, "LiquiditySeeded");
+
+      expect(await opinionMarket.outcomeReserves(1, YES)).to.equal(toUsdc(600));
+      expect(await opinionMarket.outcomeReserves(1, NO)).to.equal(toUsdc(400));
+      expect(await opinionMarket.totalLiquidity(1)).to.equal(toUsdc(1000));
+      expect(await opinionMarket.liquidityProvided(1, creatorAddress)).to.equal(toUsdc(1000));
+      expect(await opinionMarket.getOutcomeProbability(1, YES)).to.equal(6000);
+    });
+
+    it("Should dampen the price impact of bets", async function () {
+      await opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [6000, 4000]);
+      await opinionMarket.connect(user1).placeBet(1, YES, toUsdc(100));
+
+      // (600 + 98.5) / (1000 + 98.5)
+      expect(await opinionMarket.getOutcomeProbability(1, YES)).to.equal(6358);
+    });
+
+    it("Should revert with weights that do not sum to 100%", async function () {
+      await expect(
+        opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [6000, 3000])
+      ).to.be.revertedWithCustomError(opinionMarket, "InvalidLiquidityWeights");
+      await expect(
+        opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [10000])
+      ).to.be.revertedWithCustomError(opinionMarket, "InvalidLiquidityWeights");
+    });
+
+    it("Should revert when seeding after trading started", async function () {
+      await opinionMarket.connect(user1).placeBet(1, YES, toUsdc(100));
+
+      await expect(
+        opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [5000, 5000])
+      ).to.be.revertedWithCustomError(opinionMarket, "TradingAlreadyStarted");
+    });
+
+    it("Should pay the liquidity fee out of the platform fee", async function () {
+      await opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [5000, 5000]);
+
+      // Platform keeps 0.5% of 1000 USDC, liquidity providers accrue 0.25%
+      await expect(
+        opinionMarket.connect(user1).placeBet(1, YES, toUsdc(1000))
+      ).to.changeTokenBalance(mockUsdc, platformFeeCollector, toUsdc(5));
+      expect(await opinionMarket.liquidityFees(1)).to.equal(2500000n);
+    });
+
+    it("Should not pay the seed to sellers", async function () {
+      await opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [5000, 5000]);
+      await opinionMarket.connect(user1).placeBet(1, YES, toUsdc(1000));
+
+      // 985 shares are worth 985 USDC of the trader reserve, less 1.5% fees
+      await expect(
+        opinionMarket.connect(user1).sellShares(1, YES, toUsdc(985))
+      ).to.changeTokenBalance(mockUsdc, user1, 970225000n);
+    });
+
+    it("Should return the seed and fees after resolution", async function () {
+      await opinionMarket.connect(creator).seedLiquidity(1, toUsdc(1000), [5000, 5000]);
+      await opinionMarket.connect(user1).placeBet(1, YES, toUsdc(1000));
+      await opinionMarket.connect(user2).placeBet(1, NO, toUsdc(1000));
+
+      await expect(
+        opinionMarket.connect(creator).withdrawLiquidity(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketNotSettled");
+
+      await time.increase(ONE_DAY + 1);
+      await opinionMarket.connect(owner).resolveMarket(1, YES);
+      await time.increase(DISPUTE_WINDOW);
+
+      // Winners share the trader pool only
+      await expect(
+        opinionMarket.connect(user1).claimWinnings(1)
+      ).to.changeTokenBalance(mockUsdc, user1, toUsdc(1970));
+
+      await expect(opinionMarket.connect(creator).withdrawLiquidity(1))
+        .to.emit(opinionMarket, "LiquidityWithdrawn")
+        .withArgs(1, creatorAddress, toUsdc(1000), toUsdc(5), await time.latest() + 1);
+
+      await expect(
+        opinionMarket.connect(creator).withdrawLiquidity(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "AlreadyClaimed");
+      await expect(
+        opinionMarket.connect(user1).withdrawLiquidity(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "NoLiquidityToWithdraw");
+    });
+  });
+
+  describe("Cancellation and Refunds", function () {
+    beforeEach(async function () {
+      await opinionMarket
+        .connect(creator)
+        .createMarket("Test Market", ["Yes", "No"], ONE_DAY, "Description");
+    });
+
+    it("Should allow owner to cancel market", async function () {
+      await expect(opinionMarket.connect(owner).cancelMarket(1))
+        .to.emit(opinionMarket, "MarketCancelled");
+
+      const market = await opinionMarket.getMarketInfo(1);
+      expect(market.status).to.equal(3); // Cancelled
+    });
+
+    it("Should revert non-owner cancel attempts", async function () {
+      await expect(
+        opinionMarket.connect(user1).cancelMarket(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should stop trading and resolution once cancelled", async function () {
+      await opinionMarket.connect(owner).cancelMarket(1);
+
+      await expect(
+        opinionMarket.connect(user1).placeBet(1, 0, toUsdc(100))
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketNotActive");
+
+      await time.increase(ONE_DAY + 1);
+      await expect(
+        opinionMarket.connect(owner).resolveMarket(1, 0)
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketIsCancelled");
+      await expect(
+        opinionMarket.connect(owner).cancelMarket(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketIsCancelled");
+    });
+
+    it("Should not cancel a resolved market", async function () {
+      await time.increase(ONE_DAY + 1);
+      await opinionMarket.connect(owner).resolveMarket(1, 0);
+
+      await expect(
+        opinionMarket.connect(owner).cancelMarket(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketAlreadyResolved");
+    });
+
+    it("Should refund each participant's net stake", async function () {
+      await opinionMarket.connect(user1).placeBet(1, 0, toUsdc(100));
+      await opinionMarket.connect(user1).sellShares(1, 0, toUsdc(48.5));
+      await opinionMarket.connect(user2).placeBet(1, 1, toUsdc(200));
+
+      expect(await opinionMarket.userStakes(1, user1Address)).to.equal(toUsdc(50));
+      expect(await opinionMarket.userStakes(1, user2Address)).to.equal(toUsdc(197));
+
+      await opinionMarket.connect(owner).cancelMarket(1);
+
+      await expect(opinionMarket.connect(user1).claimRefund(1))
+        .to.emit(opinionMarket, "RefundClaimed")
+        .withArgs(1, user1Address, toUsdc(50), await time.latest() + 1);
+      await expect(
+        opinionMarket.connect(user2).claimRefund(1)
+      ).to.changeTokenBalance(mockUsdc, user2, toUsdc(197));
+    });
+
+    it("Should revert refund claims that are not due", async function () {
+      await opinionMarket.connect(user1).placeBet(1, 0, toUsdc(100));
+
+      await expect(
+        opinionMarket.connect(user1).claimRefund(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "MarketNotCancelled");
+
+      await opinionMarket.connect(owner).cancelMarket(1);
+      await opinionMarket.connect(user1).claimRefund(1);
+
+      await expect(
+        opinionMarket.connect(user1).claimRefund(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "AlreadyClaimed");
+      await expect(
+        opinionMarket.connect(user2).claimRefund(1)
+      ).to.be.revertedWithCustomError(opinionMarket, "NoRefundToClaim");
+    });
+  });
+
   describe("Pause/Unpause", function () {
     beforeEach(async function () {
       const outcomes = ["Yes", "No"];